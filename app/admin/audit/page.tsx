@@ -0,0 +1,289 @@
+"use client";
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClipboardList, Search, Download, ChevronDown, ChevronRight, ChevronLeft } from 'lucide-react';
+import { toast, ToastContainer } from 'react-toastify';
+import 'react-toastify/dist/ReactToastify.css';
+import AdminLayout from '../../../components/admin/AdminLayout';
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogService,
+  AuditTargetType,
+  AUDIT_ACTION_LABELS
+} from '../../lib/database/AuditLogService';
+import { downloadCsv, toCsv } from '../../lib/utils/csvUtils';
+
+const PAGE_SIZE = 50;
+const EXPORT_LIMIT = 5000;
+
+const TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  user: 'User',
+  listing: 'Listing',
+  listing_report: 'Listing report',
+  user_report: 'User report',
+  settings: 'Settings',
+};
+
+const AdminAuditLogPage = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [actors, setActors] = useState<{ id: string; email: string; display_name: string | null }[]>([]);
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [targetTypeFilter, setTargetTypeFilter] = useState<AuditTargetType | ''>('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const buildFilters = useCallback((): AuditLogFilters => ({
+    search: searchTerm || undefined,
+    action: actionFilter || undefined,
+    targetType: targetTypeFilter || undefined,
+    actorId: actorFilter || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  }), [searchTerm, actionFilter, targetTypeFilter, actorFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    AuditLogService.getActors().then(setActors);
+  }, []);
+
+  // Go back to the first page whenever the filters change
+  useEffect(() => {
+    setPage(0);
+  }, [buildFilters]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    AuditLogService.getEntries({ ...buildFilters(), limit: PAGE_SIZE, offset: page * PAGE_SIZE }).then(result => {
+      if (cancelled) return;
+      setEntries(result.entries);
+      setTotal(result.total);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [buildFilters, page]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { entries: rows, total: matching } = await AuditLogService.getEntries({ ...buildFilters(), limit: EXPORT_LIMIT, offset: 0 });
+      if (rows.length === 0) {
+        toast.info('No audit log entries match these filters');
+        return;
+      }
+
+      const csv = toCsv(rows, [
+        { header: 'Timestamp', value: row => row.created_at },
+        { header: 'Admin ID', value: row => row.actor_id },
+        { header: 'Admin Email', value: row => row.actor?.email || row.actor_email },
+        { header: 'Action', value: row => row.action },
+        { header: 'Target Type', value: row => row.target_type },
+        { header: 'Target ID', value: row => row.target_id },
+        { header: 'Reason', value: row => row.reason },
+        { header: 'Before', value: row => row.before },
+        { header: 'After', value: row => row.after },
+      ]);
+      downloadCsv(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+
+      if (matching > rows.length) {
+        toast.warn(`Exported the newest ${rows.length} of ${matching} entries. Narrow the filters to export the rest.`);
+      }
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast.error('Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <AdminLayout>
+      <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <ClipboardList size={24} className="mr-2 text-[#bf5700]" />
+              Audit Log
+            </h1>
+            <p className="text-gray-600">Every moderation action taken by an admin</p>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center px-4 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition-colors disabled:opacity-50"
+          >
+            <Download size={16} className="mr-2" />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <div className="relative md:col-span-3 lg:col-span-2">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={16} />
+            <input
+              type="text"
+              placeholder="Search target ID or reason..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+            />
+          </div>
+          <select
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value as AuditAction | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <select
+            value={targetTypeFilter}
+            onChange={(e) => setTargetTypeFilter(e.target.value as AuditTargetType | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+          >
+            <option value="">All targets</option>
+            {(Object.keys(TARGET_TYPE_LABELS) as AuditTargetType[]).map(type => (
+              <option key={type} value={type}>{TARGET_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+          >
+            <option value="">All admins</option>
+            {actors.map(actor => (
+              <option key={actor.id} value={actor.id}>{actor.display_name || actor.email}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+              title="From"
+            />
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+              title="To"
+            />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-100 overflow-hidden">
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-[#bf5700]"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-16">No audit log entries match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="w-8"></th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">When</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Admin</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Action</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Target</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-500">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {entries.map(entry => {
+                    const expanded = expandedId === entry.id;
+                    return (
+                      <React.Fragment key={entry.id}>
+                        <tr
+                          className="hover:bg-gray-50 cursor-pointer"
+                          onClick={() => setExpandedId(expanded ? null : entry.id)}
+                        >
+                          <td className="pl-4 text-gray-400">
+                            {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                          </td>
+                          <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                          <td className="px-4 py-3 text-gray-900">{entry.actor?.display_name || entry.actor?.email || entry.actor_name || entry.actor_email || entry.actor_id || 'Deleted admin'}</td>
+                          <td className="px-4 py-3 text-gray-900">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                          <td className="px-4 py-3 text-gray-600">
+                            <span className="text-xs text-gray-500 mr-1">{TARGET_TYPE_LABELS[entry.target_type] || entry.target_type}</span>
+                            <span className="font-mono text-xs">{entry.target_id}</span>
+                          </td>
+                          <td className="px-4 py-3 text-gray-600 max-w-xs truncate">{entry.reason || '—'}</td>
+                        </tr>
+                        {expanded && (
+                          <tr className="bg-gray-50">
+                            <td></td>
+                            <td colSpan={5} className="px-4 py-3">
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                  <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Before</h4>
+                                  <pre className="text-xs bg-white border border-gray-200 rounded p-3 overflow-x-auto max-h-64">{entry.before ? JSON.stringify(entry.before, null, 2) : '—'}</pre>
+                                </div>
+                                <div>
+                                  <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">After</h4>
+                                  <pre className="text-xs bg-white border border-gray-200 rounded p-3 overflow-x-auto max-h-64">{entry.after ? JSON.stringify(entry.after, null, 2) : '—'}</pre>
+                                </div>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between px-4 py-3 border-t border-gray-100 text-sm text-gray-600">
+            <span>{total} {total === 1 ? 'entry' : 'entries'}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0 || loading}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount || loading}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <ToastContainer position="bottom-right" />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default AdminAuditLogPage;
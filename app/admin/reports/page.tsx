@@ -7,6 +7,8 @@ import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import Image from 'next/image';
 import AdminLayout from '../../../components/admin/AdminLayout';
+import { useAuth } from '../../context/AuthContext';
+import { AuditLogService } from '../../lib/database/AuditLogService';
 
 interface ReportData {
   id: string;
@@ -24,6 +26,7 @@ interface ReportData {
 }
 
 const AdminReportsPage = () => {
+  const { user } = useAuth();
   const [reports, setReports] = useState<ReportData[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -198,6 +201,19 @@ const AdminReportsPage = () => {
         return;
       }
 
+      if (user) {
+        const report = reports.find(r => r.id === reportId);
+        await AuditLogService.record({
+          actorId: user.id,
+          action: type === 'listing' ? 'listing_report.approve' : 'user_report.approve',
+          targetType: type === 'listing' ? 'listing_report' : 'user_report',
+          targetId: reportId,
+          before: report ? { status: report.status } : null,
+          after: { status: 'resolved' },
+          reason: report?.reason,
+        });
+      }
+
       toast.success('Report resolved successfully');
       await fetchReports();
       setShowModal(false);
@@ -224,6 +240,19 @@ const AdminReportsPage = () => {
         return;
       }
 
+      if (user) {
+        const report = reports.find(r => r.id === reportId);
+        await AuditLogService.record({
+          actorId: user.id,
+          action: type === 'listing' ? 'listing_report.reject' : 'user_report.reject',
+          targetType: type === 'listing' ? 'listing_report' : 'user_report',
+          targetId: reportId,
+          before: report ? { status: report.status } : null,
+          after: { status: 'dismissed' },
+          reason: report?.reason,
+        });
+      }
+
       toast.success('Report dismissed successfully');
       await fetchReports();
       setShowModal(false);
@@ -1,23 +1,32 @@
 "use client";
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabaseClient';
-import { Settings, Shield, Users, FileText, Bell, Database, Lock, Save, Eye, EyeOff, FileEdit } from 'lucide-react';
+import { Settings, Shield, Users, FileText, Bell, Database, Lock, Save, Eye, EyeOff, FileEdit, History, Trash2 } from 'lucide-react';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import { useAuth } from '../../context/AuthContext';
 import AdminLayout from '../../../components/admin/AdminLayout';
-
-interface AdminSettings {
-  require_listing_approval: boolean;
-  max_images_per_listing: number;
-  min_listing_price: number;
-  max_listing_price: number;
-  auto_delete_denied_listings_days: number;
-  allow_user_registration: boolean;
-  maintenance_mode: boolean;
-  site_announcement: string;
-  contact_email: string;
-}
+import { AdminService } from '../../lib/database/AdminService';
+import { DEFAULT_PLATFORM_SETTINGS, PlatformSettings, SettingChange, SettingsService } from '../../lib/database/SettingsService';
+import { ORPHANED_IMAGE_GRACE_HOURS, StorageCleanupRun, StorageCleanupService } from '../../lib/database/StorageCleanupService';
+
+// Subleases expire when their lease ends, so they have no day limit
+const EXPIRY_CATEGORIES = [
+  { key: 'furniture', label: 'Furniture' },
+  { key: 'tech', label: 'Tech' },
+  { key: 'vehicles', label: 'Vehicles' },
+  { key: 'textbooks', label: 'Textbooks' },
+  { key: 'clothing', label: 'Clothing' },
+  { key: 'kitchen', label: 'Kitchen' },
+  { key: 'other', label: 'Other' },
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
 
 interface TermsAndConditions {
   id: string | null;
@@ -37,18 +46,10 @@ interface SystemStats {
 
 const AdminSettingsPage = () => {
   const { user } = useAuth();
-  const [settings, setSettings] = useState<AdminSettings>({
-    require_listing_approval: true,
-    max_images_per_listing: 5,
-    min_listing_price: 1,
-    max_listing_price: 10000,
-    auto_delete_denied_listings_days: 30,
-    allow_user_registration: true,
-    maintenance_mode: false,
-    site_announcement: '',
-    contact_email: ''
-  });
+  const [settings, setSettings] = useState<PlatformSettings>(DEFAULT_PLATFORM_SETTINGS);
+  const [settingsHistory, setSettingsHistory] = useState<SettingChange[]>([]);
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null);
+  const [cleanupRuns, setCleanupRuns] = useState<StorageCleanupRun[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState<'general' | 'listings' | 'users' | 'system' | 'security' | 'terms'>('general');
@@ -62,18 +63,19 @@ const AdminSettingsPage = () => {
   useEffect(() => {
     fetchSettings();
     fetchSystemStats();
+    fetchCleanupRuns();
     fetchAdminUsers();
     fetchTerms();
   }, []);
 
   const fetchSettings = async () => {
     try {
-      // In a real app, these would come from a settings table
-      // For now, we'll use some default values and localStorage for persistence
-      const savedSettings = localStorage.getItem('admin_settings');
-      if (savedSettings) {
-        setSettings(JSON.parse(savedSettings));
-      }
+      const [savedSettings, history] = await Promise.all([
+        SettingsService.getSettings(undefined, false),
+        SettingsService.getSettingsHistory()
+      ]);
+      setSettings(savedSettings);
+      setSettingsHistory(history);
     } catch (error) {
       console.error('Error fetching settings:', error);
       toast.error('Failed to load settings');
@@ -111,6 +113,10 @@ const AdminSettingsPage = () => {
     }
   };
 
+  const fetchCleanupRuns = async () => {
+    setCleanupRuns(await StorageCleanupService.getRecentRuns());
+  };
+
   const fetchTerms = async () => {
     try {
       setTermsLoading(true);
@@ -218,12 +224,21 @@ const AdminSettingsPage = () => {
   };
 
   const handleSaveSettings = async () => {
+    if (!user) return;
+
     try {
       setSaving(true);
       
-      // In a real app, this would save to a database table
-      localStorage.setItem('admin_settings', JSON.stringify(settings));
-      
+      const result = await SettingsService.updateSettings(settings, user.id);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save settings');
+        return;
+      }
+
+      if (result.settings) {
+        setSettings(result.settings);
+      }
+      setSettingsHistory(await SettingsService.getSettingsHistory());
       toast.success('Settings saved successfully');
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -263,12 +278,9 @@ const AdminSettingsPage = () => {
       }
 
       // Make user admin
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ is_admin: true })
-        .eq('id', existingUser.id);
+      const promoted = user ? await AdminService.makeUserAdmin(existingUser.id, user.id) : false;
 
-      if (updateError) {
+      if (!promoted) {
         toast.error('Failed to make user admin');
         return;
       }
@@ -293,12 +305,9 @@ const AdminSettingsPage = () => {
     }
 
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({ is_admin: false })
-        .eq('id', userId);
+      const removed = user ? await AdminService.removeUserAdmin(userId, user.id) : false;
 
-      if (error) {
+      if (!removed) {
         toast.error('Failed to remove admin privileges');
         return;
       }
@@ -473,7 +482,7 @@ const AdminSettingsPage = () => {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-900 mb-2">Auto-delete Denied Listings (days)</label>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">Archive Denied Listings After (days)</label>
                       <input
                         type="number"
                         min="1"
@@ -510,6 +519,64 @@ const AdminSettingsPage = () => {
                       />
                     </div>
                   </div>
+
+                  <div className="pt-4 border-t border-gray-100">
+                    <h4 className="text-md font-medium text-gray-900 mb-1">Listing Expiry</h4>
+                    <p className="text-sm text-gray-500 mb-4">
+                      Approved listings are archived after this many days unless the owner renews them. Subleases expire when their lease ends.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-2">Default Expiry (days)</label>
+                        <input
+                          type="number"
+                          min="1"
+                          max="365"
+                          value={settings.listing_expiry_days}
+                          onChange={(e) => setSettings({...settings, listing_expiry_days: parseInt(e.target.value) || 30})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-2">Warn Owners Before Expiry (days)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="30"
+                          value={settings.expiry_warning_days}
+                          onChange={(e) => setSettings({...settings, expiry_warning_days: parseInt(e.target.value) || 0})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      {EXPIRY_CATEGORIES.map(category => (
+                        <div key={category.key}>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">{category.label}</label>
+                          <input
+                            type="number"
+                            min="1"
+                            max="365"
+                            value={settings.listing_expiry_days_by_category[category.key] ?? ''}
+                            placeholder={`${settings.listing_expiry_days}`}
+                            onChange={(e) => {
+                              const overrides = { ...settings.listing_expiry_days_by_category };
+                              const days = parseInt(e.target.value);
+                              if (days > 0) {
+                                overrides[category.key] = days;
+                              } else {
+                                delete overrides[category.key];
+                              }
+                              setSettings({...settings, listing_expiry_days_by_category: overrides});
+                            }}
+                            className="w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
                 </div>
               </div>
             </div>
@@ -614,6 +681,105 @@ const AdminSettingsPage = () => {
                   </div>
                 )}
               </div>
+
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                  <Trash2 size={18} className="mr-2" />
+                  Image Cleanup
+                </h3>
+                <p className="text-sm text-gray-500 mb-4">
+                  A daily job removes listing and profile photos nothing references anymore, once they&apos;re
+                  more than {ORPHANED_IMAGE_GRACE_HOURS} hours old.
+                </p>
+
+                {cleanupRuns.length === 0 ? (
+                  <p className="text-sm text-gray-500">The cleanup job hasn&apos;t run yet.</p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-500">Last Run</p>
+                        <p className="font-mono text-gray-900">{new Date(cleanupRuns[0].ran_at).toLocaleString()}</p>
+                      </div>
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-500">Reclaimed (last {cleanupRuns.length} runs)</p>
+                        <p className="font-mono text-gray-900">
+                          {formatBytes(cleanupRuns.reduce((total, run) => total + run.reclaimedBytes, 0))}
+                        </p>
+                      </div>
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <p className="text-sm text-gray-500">Waiting Out Grace Period</p>
+                        <p className="font-mono text-gray-900">
+                          {cleanupRuns[0].orphaned - cleanupRuns[0].deleted} files
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">When</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">Scanned</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">Orphaned</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">Deleted</th>
+                            <th className="px-4 py-2 text-left font-medium text-gray-500">Reclaimed</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {cleanupRuns.map((run) => (
+                            <tr key={run.id}>
+                              <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{new Date(run.ran_at).toLocaleString()}</td>
+                              <td className="px-4 py-2 font-mono text-gray-700">{run.scanned}</td>
+                              <td className="px-4 py-2 font-mono text-gray-700">{run.orphaned}</td>
+                              <td className="px-4 py-2 font-mono text-gray-700">{run.deleted}</td>
+                              <td className="px-4 py-2 font-mono text-gray-900">{formatBytes(run.reclaimedBytes)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                  <History size={18} className="mr-2" />
+                  Settings Change History
+                </h3>
+
+                {settingsHistory.length === 0 ? (
+                  <p className="text-sm text-gray-500">No settings have been changed yet.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">When</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Admin</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Setting</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {settingsHistory.map((change) => (
+                          <tr key={change.id}>
+                            <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{new Date(change.changed_at).toLocaleString()}</td>
+                            <td className="px-4 py-2 text-gray-900">{change.admin?.display_name || change.admin?.email || change.changed_by}</td>
+                            <td className="px-4 py-2 font-mono text-gray-700">{change.key}</td>
+                            <td className="px-4 py-2 text-gray-600">
+                              <span className="font-mono">{JSON.stringify(change.old_value)}</span>
+                              {' → '}
+                              <span className="font-mono text-gray-900">{JSON.stringify(change.new_value)}</span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
@@ -4,9 +4,12 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { User, Mail, Calendar, Package, Star, Activity, Clock, AlertTriangle, Ban, CheckCircle, Shield, ArrowLeft } from 'lucide-react';
 import { supabase } from '../../../lib/supabaseClient';
+import { AdminService, SuspendUserParams } from '../../../lib/database/AdminService';
 import { useAuth } from '../../../context/AuthContext';
 import Image from 'next/image';
 import AdminLayout from '../../../../components/admin/AdminLayout';
+import SuspendUserModal from '../../../../components/modals/SuspendUserModal';
+import { describeSuspension, isPermanentBan, isSuspended } from '../../../lib/utils/suspensionUtils';
 
 interface UserProfile {
   id: string;
@@ -17,6 +20,8 @@ interface UserProfile {
   last_sign_in_at?: string;
   is_admin?: boolean;
   is_banned?: boolean;
+  banned_until?: string | null;
+  ban_reason?: string | null;
 }
 
 interface UserListing {
@@ -51,6 +56,7 @@ const AdminUserProfilePage = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
+  const [showSuspendModal, setShowSuspendModal] = useState(false);
   const [stats, setStats] = useState({
     totalListings: 0,
     activeListings: 0,
@@ -148,32 +154,47 @@ const AdminUserProfilePage = () => {
 
   const handleBanUser = async () => {
     if (!currentUser?.id || !profile) return;
-    
-    const action = profile.is_banned ? 'unban' : 'ban';
-    if (!confirm(`Are you sure you want to ${action} this user?`)) {
+
+    if (!isSuspended(profile)) {
+      setShowSuspendModal(true);
+      return;
+    }
+
+    const reason = prompt('Reason to lift this suspension (recorded in the audit log):');
+    if (reason === null) {
       return;
     }
 
     setActionLoading(true);
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({ is_banned: !profile.is_banned })
-        .eq('id', userId as string);
+      const lifted = await AdminService.liftSuspension(userId as string, currentUser.id, reason);
 
-      if (error) {
-        throw new Error(error.message);
+      if (!lifted) {
+        throw new Error('Failed to lift suspension');
       }
 
-      setProfile({ ...profile, is_banned: !profile.is_banned });
+      setProfile({ ...profile, is_banned: false, banned_until: null, ban_reason: null });
     } catch (error) {
-      console.error(`Error ${action}ning user:`, error);
-      alert(`Failed to ${action} user`);
+      console.error('Error lifting suspension:', error);
+      alert('Failed to lift suspension');
     } finally {
       setActionLoading(false);
     }
   };
 
+  const handleSuspendUser = async (params: SuspendUserParams) => {
+    if (!currentUser?.id || !profile) return false;
+
+    const result = await AdminService.suspendUser(userId as string, currentUser.id, params);
+    if (!result.success || !result.suspension) {
+      alert('Failed to suspend user');
+      return false;
+    }
+
+    setProfile({ ...profile, ...result.suspension });
+    return true;
+  };
+
 
   const getUserStatusBadge = () => {
     if (!profile) return null;
@@ -186,11 +207,11 @@ const AdminUserProfilePage = () => {
         </span>
       );
     }
-    if (profile.is_banned) {
+    if (isSuspended(profile)) {
       return (
         <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
           <Ban size={14} className="mr-1" />
-          Banned
+          {isPermanentBan(profile) ? 'Banned' : 'Suspended'}
         </span>
       );
     }
@@ -404,18 +425,24 @@ const AdminUserProfilePage = () => {
                 Admin Actions
               </h3>
               <div className="space-y-3">
+                {isSuspended(profile) && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+                    <p className="font-medium text-red-800">{describeSuspension(profile)}</p>
+                    {profile.ban_reason && <p className="text-red-700 mt-1">{profile.ban_reason}</p>}
+                  </div>
+                )}
                 {!profile.is_admin && (
                   <button
                     onClick={handleBanUser}
                     disabled={actionLoading}
                     className={`w-full px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
-                      profile.is_banned 
+                      isSuspended(profile)
                         ? 'bg-green-600 hover:bg-green-700 text-white'
                         : 'bg-red-600 hover:bg-red-700 text-white'
                     } disabled:opacity-50 disabled:cursor-not-allowed`}
                   >
-                    {profile.is_banned ? <CheckCircle size={18} /> : <Ban size={18} />}
-                    {actionLoading ? 'Processing...' : (profile.is_banned ? 'Unban User' : 'Ban User')}
+                    {isSuspended(profile) ? <CheckCircle size={18} /> : <Ban size={18} />}
+                    {actionLoading ? 'Processing...' : (isSuspended(profile) ? 'Lift Suspension' : 'Suspend User')}
                   </button>
                 )}
               </div>
@@ -499,6 +526,13 @@ const AdminUserProfilePage = () => {
           </div>
         </div>
       </div>
+
+      <SuspendUserModal
+        isOpen={showSuspendModal}
+        onClose={() => setShowSuspendModal(false)}
+        userName={profile.display_name || profile.email}
+        onSuspend={handleSuspendUser}
+      />
     </AdminLayout>
   );
 };
@@ -1,6 +1,6 @@
 "use client";
 import React, { useState, useEffect } from 'react';
-import { AdminService } from '../../lib/database/AdminService';
+import { AdminService, SuspendUserParams } from '../../lib/database/AdminService';
 import { supabase } from '../../lib/supabaseClient';
 import { User, Shield, Search, Ban, CheckCircle2, ExternalLink } from 'lucide-react';
 import { toast, ToastContainer } from 'react-toastify';
@@ -8,6 +8,9 @@ import 'react-toastify/dist/ReactToastify.css';
 import Image from 'next/image';
 import AdminLayout from '../../../components/admin/AdminLayout';
 import Link from 'next/link';
+import { useAuth } from '../../context/AuthContext';
+import SuspendUserModal from '../../../components/modals/SuspendUserModal';
+import { describeSuspension, isPermanentBan, isSuspended } from '../../lib/utils/suspensionUtils';
 
 interface UserData {
   id: string;
@@ -18,16 +21,20 @@ interface UserData {
   last_sign_in_at?: string;
   is_admin?: boolean;
   is_banned?: boolean;
+  banned_until?: string | null;
+  ban_reason?: string | null;
   listing_count?: number;
   review_count?: number;
   average_rating?: number;
 }
 
 const AdminUsersPage = () => {
+  const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<UserData[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'banned' | 'admin'>('all');
+  const [suspendTarget, setSuspendTarget] = useState<UserData | null>(null);
 
   useEffect(() => {
     fetchUsers();
@@ -124,41 +131,51 @@ const AdminUsersPage = () => {
   };
 
 
-  const handleBanUser = async (userId: string, currentBanStatus: boolean) => {
-    const action = currentBanStatus ? 'unban' : 'ban';
-    
-    if (!confirm(`Are you sure you want to ${action} this user?`)) {
+  const handleBanUser = async (user: UserData) => {
+    if (!currentUser?.id) return;
+
+    if (!isSuspended(user)) {
+      setSuspendTarget(user);
+      return;
+    }
+
+    const reason = prompt('Reason to lift this suspension (recorded in the audit log):');
+    if (reason === null) {
       return;
     }
 
     try {
-      // Try to update the is_banned column, but handle gracefully if it doesn't exist
-      const { error } = await supabase
-        .from('users')
-        .update({ is_banned: !currentBanStatus })
-        .eq('id', userId);
+      const lifted = await AdminService.liftSuspension(user.id, currentUser.id, reason);
 
-      if (error) {
-        // If the column doesn't exist, we could add it or show a different message
-        console.error(`Error ${action}ning user:`, error);
-        
-        if (error.message?.includes('column') && error.message?.includes('does not exist')) {
-          toast.error(`Ban functionality requires database migration. Column 'is_banned' not found.`);
-        } else {
-          toast.error(`Failed to ${action} user: ${error.message}`);
-        }
+      if (!lifted) {
+        toast.error('Failed to lift suspension');
         return;
       }
 
-      toast.success(`User ${action}ned successfully`);
+      toast.success('Suspension lifted successfully');
       await fetchUsers();
     } catch (error) {
-      console.error(`Error ${action}ning user:`, error);
-      toast.error(`Error ${action}ning user`);
+      console.error('Error lifting suspension:', error);
+      toast.error('Error lifting suspension');
     }
   };
 
+  const handleSuspendUser = async (params: SuspendUserParams) => {
+    if (!currentUser?.id || !suspendTarget) return false;
+
+    const result = await AdminService.suspendUser(suspendTarget.id, currentUser.id, params);
+    if (!result.success) {
+      toast.error('Failed to suspend user');
+      return false;
+    }
+
+    toast.success(params.days === null ? 'User banned successfully' : 'User suspended successfully');
+    await fetchUsers();
+    return true;
+  };
+
   const handleToggleAdmin = async (userId: string, currentAdminStatus: boolean) => {
+    if (!currentUser?.id) return;
     const action = currentAdminStatus ? 'remove admin privileges from' : 'make admin';
     
     if (!confirm(`Are you sure you want to ${action} this user?`)) {
@@ -166,20 +183,12 @@ const AdminUsersPage = () => {
     }
 
     try {
-      // Try to update the is_admin column, but handle gracefully if it doesn't exist
-      const { error } = await supabase
-        .from('users')
-        .update({ is_admin: !currentAdminStatus })
-        .eq('id', userId);
+      const success = currentAdminStatus
+        ? await AdminService.removeUserAdmin(userId, currentUser.id)
+        : await AdminService.makeUserAdmin(userId, currentUser.id);
 
-      if (error) {
-        console.error('Error updating user privileges:', error);
-        
-        if (error.message?.includes('column') && error.message?.includes('does not exist')) {
-          toast.error(`Admin functionality requires database migration. Column 'is_admin' not found.`);
-        } else {
-          toast.error(`Failed to update user privileges: ${error.message}`);
-        }
+      if (!success) {
+        toast.error('Failed to update user privileges');
         return;
       }
 
@@ -198,8 +207,8 @@ const AdminUsersPage = () => {
     
     const matchesStatus = 
       statusFilter === 'all' ||
-      (statusFilter === 'active' && !user.is_banned && !user.is_admin) ||
-      (statusFilter === 'banned' && user.is_banned === true) ||
+      (statusFilter === 'active' && !isSuspended(user) && !user.is_admin) ||
+      (statusFilter === 'banned' && isSuspended(user)) ||
       (statusFilter === 'admin' && user.is_admin === true);
     
     return matchesSearch && matchesStatus;
@@ -214,11 +223,14 @@ const AdminUsersPage = () => {
         </span>
       );
     }
-    if (user.is_banned === true) {
+    if (isSuspended(user)) {
       return (
-        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+        <span
+          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+          title={[describeSuspension(user), user.ban_reason].filter(Boolean).join(': ')}
+        >
           <Ban size={12} className="mr-1" />
-          Banned
+          {isPermanentBan(user) ? 'Banned' : 'Suspended'}
         </span>
       );
     }
@@ -274,7 +286,7 @@ const AdminUsersPage = () => {
           >
             <option value="all">All Users</option>
             <option value="active">Active Users</option>
-            <option value="banned">Banned Users</option>
+            <option value="banned">Banned &amp; Suspended Users</option>
             <option value="admin">Administrators</option>
           </select>
         </div>
@@ -367,15 +379,15 @@ const AdminUsersPage = () => {
                       </Link>
                       {user.is_admin !== true && (
                         <button
-                          onClick={() => handleBanUser(user.id, user.is_banned === true)}
+                          onClick={() => handleBanUser(user)}
                           className={`p-1 rounded ${
-                            user.is_banned === true
+                            isSuspended(user)
                               ? 'text-green-600 hover:text-green-800 hover:bg-green-50'
                               : 'text-red-600 hover:text-red-800 hover:bg-red-50'
                           }`}
-                          title={user.is_banned === true ? 'Unban User' : 'Ban User'}
+                          title={isSuspended(user) ? 'Lift Suspension' : 'Suspend User'}
                         >
-                          {user.is_banned === true ? <CheckCircle2 size={16} /> : <Ban size={16} />}
+                          {isSuspended(user) ? <CheckCircle2 size={16} /> : <Ban size={16} />}
                         </button>
                       )}
                     </div>
@@ -394,6 +406,12 @@ const AdminUsersPage = () => {
       </div>
 
 
+        <SuspendUserModal
+          isOpen={!!suspendTarget}
+          onClose={() => setSuspendTarget(null)}
+          userName={suspendTarget?.display_name || suspendTarget?.email || 'this user'}
+          onSuspend={handleSuspendUser}
+        />
         <ToastContainer position="bottom-right" />
       </div>
     </AdminLayout>
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCronClient } from '../../../lib/server/cronClient';
+import { StorageCleanupService } from '../../../lib/database/StorageCleanupService';
+
+// GET /api/cron/cleanup-storage - Remove listing and profile images nothing references anymore (scheduled job)
+export async function GET(request: NextRequest) {
+  // The job has to see every object and every user's rows, so it runs outside row level security
+  const cron = getCronClient(request);
+  if ('response' in cron) {
+    return cron.response;
+  }
+
+  try {
+    const result = await StorageCleanupService.runCleanupJob(cron.client);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error running storage cleanup job:', error);
+    return NextResponse.json(
+      { error: 'Failed to run storage cleanup job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCronClient } from '../../../lib/server/cronClient';
+import { ListingExpiryService } from '../../../lib/database/ListingExpiryService';
+
+// GET /api/cron/expire-listings - Warn, expire and archive stale listings (scheduled job)
+export async function GET(request: NextRequest) {
+  // The job touches every user's listings, so it runs outside row level security
+  const cron = getCronClient(request);
+  if ('response' in cron) {
+    return cron.response;
+  }
+
+  try {
+    const result = await ListingExpiryService.runExpiryJob(cron.client);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error running listing expiry job:', error);
+    return NextResponse.json(
+      { error: 'Failed to run listing expiry job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCronClient } from '../../../lib/server/cronClient';
+import { MessageService } from '../../../lib/database/MessageService';
+
+// GET /api/cron/purge-conversations - Remove conversations deleted by both sides or past retention (scheduled job)
+export async function GET(request: NextRequest) {
+  // The job touches every user's conversations, so it runs outside row level security
+  const cron = getCronClient(request);
+  if ('response' in cron) {
+    return cron.response;
+  }
+
+  try {
+    const result = await MessageService.purgeDeletedConversations(cron.client);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error purging deleted conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge deleted conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '../../../lib/server/cronClient';
+import { SavedSearchService } from '../../../lib/database/SavedSearchService';
+
+// POST /api/saved-searches/notify - Alert users whose saved searches match a newly approved listing
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const { listingId } = await request.json().catch(() => ({}));
+  if (!listingId) {
+    return NextResponse.json(
+      { error: 'listingId is required' },
+      { status: 400 }
+    );
+  }
+
+  // Matching reads every user's saved searches, so it runs outside row level security
+  const supabase = createServiceRoleClient();
+  if (!supabase) {
+    return NextResponse.json(
+      { error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Invalid authentication' },
+        { status: 401 }
+      );
+    }
+
+    const { data: listing, error: listingError } = await supabase
+      .from('listings')
+      .select('*')
+      .eq('id', listingId)
+      .single();
+
+    if (listingError || !listing) {
+      return NextResponse.json(
+        { error: 'Listing not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the seller (publishing) or an admin (approving) can trigger alerts for a listing
+    if (listing.user_id !== user.id) {
+      const { data: profile } = await supabase
+        .from('users')
+        .select('is_admin')
+        .eq('id', user.id)
+        .single();
+
+      if (!profile?.is_admin) {
+        return NextResponse.json(
+          { error: 'Not allowed to send alerts for this listing' },
+          { status: 403 }
+        );
+      }
+    }
+
+    if (listing.status !== 'approved' || listing.is_draft) {
+      return NextResponse.json({ notified: 0 });
+    }
+
+    const notified = await SavedSearchService.matchListingToSearches(supabase, listing);
+    return NextResponse.json({ notified });
+  } catch (error) {
+    console.error('Error sending saved search alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to send saved search alerts' },
+      { status: 500 }
+    );
+  }
+}
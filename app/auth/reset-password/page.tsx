@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CheckCircle, KeyRound } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import UnlockMessagesModal from '../../../components/modals/UnlockMessagesModal';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export default function ResetPassword() {
+  const router = useRouter();
+  const { user, loading: authLoading, completePasswordReset } = useAuth();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    const { error, keysUnlocked } = await completePasswordReset(password);
+    setSaving(false);
+
+    if (error) {
+      setError(error.message);
+      return;
+    }
+
+    setDone(true);
+    // The message key is still protected by the old password; offer to restore it
+    if (!keysUnlocked) {
+      setShowRecovery(true);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-[#bf5700]"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 bg-white p-8 rounded-2xl shadow-xl">
+        {!user ? (
+          <div className="text-center space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Reset Link Expired</h1>
+            <p className="text-gray-600">
+              This password reset link is invalid or has expired. Request a new one from the sign in page.
+            </p>
+            <button
+              onClick={() => router.push('/auth/signin')}
+              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-ut-orange hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 transition-colors"
+            >
+              Go to Sign In
+            </button>
+          </div>
+        ) : done ? (
+          <div className="text-center space-y-6">
+            <div className="flex justify-center">
+              <div className="w-20 h-20 rounded-full bg-green-100 flex items-center justify-center">
+                <CheckCircle className="h-12 w-12 text-green-600" />
+              </div>
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Password Updated</h1>
+            <p className="text-gray-600">You can now use your new password to sign in.</p>
+            <button
+              onClick={() => router.push('/')}
+              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-ut-orange hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 transition-colors"
+            >
+              Continue
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="text-center">
+              <div className="flex justify-center mb-4">
+                <div className="w-16 h-16 rounded-full bg-orange-100 flex items-center justify-center">
+                  <KeyRound className="h-8 w-8 text-[#bf5700]" />
+                </div>
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900">Choose a New Password</h1>
+              <p className="text-sm text-gray-600 mt-2">for {user.email}</p>
+            </div>
+
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="New password"
+              autoComplete="new-password"
+              className="block w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-ut-orange focus:border-transparent text-sm"
+            />
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              className="block w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-ut-orange focus:border-transparent text-sm"
+            />
+
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex justify-center py-3 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-ut-orange hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Update Password'}
+            </button>
+          </form>
+        )}
+      </div>
+
+      {user && (
+        <UnlockMessagesModal
+          isOpen={showRecovery}
+          onClose={() => setShowRecovery(false)}
+          userId={user.id}
+          email={user.email || ''}
+          verifiedPassword={password}
+        />
+      )}
+    </div>
+  );
+}
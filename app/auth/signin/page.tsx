@@ -21,7 +21,8 @@ export default function SignIn() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [showTermsModal, setShowTermsModal] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const [resetEmailSent, setResetEmailSent] = useState(false);
+  const { signIn, signUp, requestPasswordReset } = useAuth();
   const router = useRouter();
 
   // Check for error parameter in URL
@@ -152,6 +153,27 @@ export default function SignIn() {
     }
   };
 
+  const handleForgotPassword = async () => {
+    setError(null);
+    setResetEmailSent(false);
+
+    if (!email) {
+      setEmailError('Enter your email to reset your password');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await requestPasswordReset(email);
+      if (error) throw error;
+      setResetEmailSent(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleGoogleSignIn = async () => {
     setError(null);
     setLoading(true);
@@ -434,6 +456,18 @@ export default function SignIn() {
                 {showPassword ? 'Hide' : 'Show'}
               </motion.button>
               </div>
+              {!isSignUp && (
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleForgotPassword}
+                    disabled={loading}
+                    className="text-xs text-[#bf5700] hover:text-[#a54700] hover:underline transition-colors duration-200"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              )}
             </div>
           </motion.div>
           {/* Confirm Password Row - Always present but conditionally visible */}
@@ -506,6 +540,20 @@ export default function SignIn() {
             )}
           </AnimatePresence>
           
+          <AnimatePresence>
+            {resetEmailSent && !error && (
+              <motion.div 
+                initial={{ opacity: 0, y: -10, height: 0 }}
+                animate={{ opacity: 1, y: 0, height: 'auto' }}
+                exit={{ opacity: 0, y: -10, height: 0 }}
+                transition={{ duration: 0.2 }}
+                className="text-green-600 text-sm text-center mt-2"
+              >
+                Check your email for a link to reset your password.
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           <AnimatePresence>
             {error && (
               <motion.div 
@@ -1,17 +1,88 @@
 import React from 'react';
-import { CalendarDays, DollarSign, XCircle } from 'lucide-react';
+import { CalendarDays, Clock, DollarSign, Home, ListChecks, Tag, XCircle } from 'lucide-react';
+import { AttributeField, AttributeFilterValues } from '../../lib/utils/attributeUtils';
+
+const conditions = ['New', 'Like New', 'Good', 'Fair', 'Poor'];
+
+const availabilityOptions = [
+  { value: '', label: 'Available & reserved' },
+  { value: 'available', label: 'Available now' },
+  { value: 'reserved', label: 'Reserved' },
+];
+
+interface AttributeFacetProps {
+  field: AttributeField;
+  values: AttributeFilterValues;
+  onChange: (key: string, value: string) => void;
+}
+
+// Selects and yes/no fields filter on one value; numbers filter on a min/max range
+const AttributeFacet: React.FC<AttributeFacetProps> = ({ field, values, onChange }) => (
+  <div className="flex flex-col items-center">
+    <label className="flex text-xs font-semibold mb-1 items-center gap-1">
+      <ListChecks size={16}/>{field.label}{field.unit ? ` (${field.unit})` : ''}
+    </label>
+    {field.type === 'number' ? (
+      <div className="flex gap-2 w-full">
+        {(['min', 'max'] as const).map(bound => (
+          <input
+            key={bound}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            placeholder={bound === 'min' ? 'Min' : 'Max'}
+            className="w-full border rounded-md px-2 py-1"
+            value={values[`${field.key}_${bound}`] || ''}
+            onChange={e => onChange(`${field.key}_${bound}`, e.target.value)}
+          />
+        ))}
+      </div>
+    ) : (
+      <select
+        className="w-full border rounded-md px-2 py-1 bg-white"
+        value={values[field.key] || ''}
+        onChange={e => onChange(field.key, e.target.value)}
+      >
+        <option value="">Any</option>
+        {field.type === 'boolean' ? (
+          <>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </>
+        ) : (
+          field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))
+        )}
+      </select>
+    )}
+  </div>
+);
 
 interface FilterModalProps {
   minPriceValue: string;
   maxPriceValue: string;
   postedAfterValue: string;
   postedBeforeValue: string;
+  conditionValue: string;
+  availabilityValue: string;
+  showLeaseDates: boolean; // Only subleases have lease dates to filter on
+  availableFromValue: string;
+  availableToValue: string;
+  attributeFields: AttributeField[]; // Facets of the selected category
+  attributeFilterValues: AttributeFilterValues;
   minPriceLimit: number;
   maxPriceLimit: number;
   setMinPriceValue: (v: string) => void;
   setMaxPriceValue: (v: string) => void;
   setPostedAfterValue: (v: string) => void;
   setPostedBeforeValue: (v: string) => void;
+  setConditionValue: (v: string) => void;
+  setAvailabilityValue: (v: string) => void;
+  setAvailableFromValue: (v: string) => void;
+  setAvailableToValue: (v: string) => void;
+  setAttributeFilterValues: (v: AttributeFilterValues) => void;
   onApply: () => void;
   onClear: () => void;
 }
@@ -21,12 +92,24 @@ const FilterModal: React.FC<FilterModalProps> = ({
   maxPriceValue,
   postedAfterValue,
   postedBeforeValue,
+  conditionValue,
+  availabilityValue,
+  showLeaseDates,
+  availableFromValue,
+  availableToValue,
+  attributeFields,
+  attributeFilterValues,
   minPriceLimit,
   maxPriceLimit,
   setMinPriceValue,
   setMaxPriceValue,
   setPostedAfterValue,
   setPostedBeforeValue,
+  setConditionValue,
+  setAvailabilityValue,
+  setAvailableFromValue,
+  setAvailableToValue,
+  setAttributeFilterValues,
   onApply,
   onClear,
 }) => (
@@ -77,6 +160,68 @@ const FilterModal: React.FC<FilterModalProps> = ({
         />
       </div>
     </div>
+    <div className="flex gap-4 items-center">
+      <div className="flex-1 flex flex-col items-center">
+        <label className="flex text-xs font-semibold mb-1 items-center gap-1"><Tag size={16}/>Condition</label>
+        <select
+          className="w-full border rounded-md px-2 py-1 bg-white"
+          value={conditionValue}
+          onChange={e => setConditionValue(e.target.value)}
+        >
+          <option value="">Any condition</option>
+          {conditions.map(condition => (
+            <option key={condition} value={condition}>{condition}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex-1 flex flex-col items-center">
+        <label className="flex text-xs font-semibold mb-1 items-center gap-1"><Clock size={16}/>Availability</label>
+        <select
+          className="w-full border rounded-md px-2 py-1 bg-white"
+          value={availabilityValue}
+          onChange={e => setAvailabilityValue(e.target.value)}
+        >
+          {availabilityOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+    {showLeaseDates && (
+      <div className="flex gap-4 items-center">
+        <div className="flex-1 flex flex-col items-center">
+          <label className="flex text-xs font-semibold mb-1 items-center gap-1"><Home size={16}/>Available From</label>
+          <input
+            type="date"
+            className="w-full border rounded-md px-2 py-1"
+            value={availableFromValue}
+            onChange={e => setAvailableFromValue(e.target.value)}
+          />
+        </div>
+        <div className="flex-1 flex flex-col items-center">
+          <label className="flex text-xs font-semibold mb-1 items-center gap-1"><Home size={16}/>Available Until</label>
+          <input
+            type="date"
+            className="w-full border rounded-md px-2 py-1"
+            value={availableToValue}
+            min={availableFromValue || undefined}
+            onChange={e => setAvailableToValue(e.target.value)}
+          />
+        </div>
+      </div>
+    )}
+    {attributeFields.length > 0 && (
+      <div className="grid grid-cols-2 gap-4">
+        {attributeFields.map(field => (
+          <AttributeFacet
+            key={field.key}
+            field={field}
+            values={attributeFilterValues}
+            onChange={(key, value) => setAttributeFilterValues({ ...attributeFilterValues, [key]: value })}
+          />
+        ))}
+      </div>
+    )}
     <div className="flex justify-end gap-2 mt-2">
       <button
         className="px-4 py-2 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center gap-1"
@@ -1,16 +1,27 @@
 import React from "react";
 import Link from "next/link";
+import { Clock } from "lucide-react";
 import { ListingCardProps } from "../../props/listing";
 import UserRatingDisplay from "../../../components/user/UserRatingDisplay";
 import Image from 'next/image';
 import { Suspense } from "react";
+import { findMatchRanges } from "../../lib/search/searchEngine";
+import { formatLeaseDates, formatListingPrice, isSubleaseCategory } from "../../lib/utils/subleaseUtils";
 
-const highlight = (text: string, searchTerm?: string) => {
-  if (!searchTerm) return text;
-  const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'ig');
-  return text.split(regex).map((part, i) =>
-    regex.test(part) ? <mark key={i} className="bg-yellow-200 px-0.5 rounded">{part}</mark> : part
-  );
+const highlight = (text: string, searchTerm?: string, ranges?: { start: number; end: number }[]) => {
+  if (!text || !searchTerm) return text;
+  const hits = ranges || findMatchRanges(text, searchTerm);
+  if (hits.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  hits.forEach(({ start, end }, i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-yellow-200 px-0.5 rounded">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
 };
 
 const ListingCard: React.FC<ListingCardProps> = ({
@@ -23,19 +34,29 @@ const ListingCard: React.FC<ListingCardProps> = ({
   user,
   condition,
   searchTerm,
+  matches,
   userRating,
+  availability,
+  rentPeriod,
+  leaseStartDate,
+  leaseEndDate,
+  imageVariant,
 }) => {
+  const titleMatches = matches?.filter((match) => match.field === 'title');
+  const leaseDates = formatLeaseDates(leaseStartDate, leaseEndDate);
+
   return (
     <div className="group bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm hover:shadow-lg transition-all duration-300 transform hover:-translate-y-1">
       <div className="relative aspect-[4/3] bg-gray-100 overflow-hidden">
         {images && images.length > 0 ? (
           <Image
-            src={images[0]}
+            src={imageVariant?.medium ?? images[0]}
             alt={title}
             width={400}
             height={300}
             className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
             priority={true}
+            {...(imageVariant && { placeholder: "blur" as const, blurDataURL: imageVariant.placeholder })}
           />
         ) : (
           <div className="w-full h-full flex items-center justify-center text-gray-400 text-sm">
@@ -45,20 +66,30 @@ const ListingCard: React.FC<ListingCardProps> = ({
         <div className="absolute top-2 left-2 bg-[#bf5700] text-white text-xs font-semibold px-2 py-1 rounded">
           {category}
         </div>
+        {availability === "reserved" && (
+          <div className="absolute top-2 right-2 bg-amber-100 text-amber-800 text-xs font-semibold px-2 py-1 rounded inline-flex items-center gap-1">
+            <Clock size={12} />
+            Reserved
+          </div>
+        )}
       </div>
 
       {/* Details */}
       <div className="p-4 space-y-1">
         <div className="flex justify-between items-center">
           <h3 className="text-sm font-semibold text-gray-900 truncate group-hover:text-[#bf5700] transition-colors duration-200">
-            {highlight(title, searchTerm)}
+            {highlight(title, searchTerm, titleMatches)}
           </h3>
-          <span className="text-[#bf5700] font-bold text-sm">${price}</span>
+          <span className="text-[#bf5700] font-bold text-sm">{formatListingPrice(price, rentPeriod)}</span>
         </div>
         <p className="text-xs text-gray-500">{highlight(location, searchTerm)}</p>
-        <p className="text-xs text-gray-500">
-          {category === "Subleases" ? "Lease Duration" : "Condition"}: {highlight(condition, searchTerm)}
-        </p>
+        {leaseDates ? (
+          <p className="text-xs text-gray-500">Available: {leaseDates}</p>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {isSubleaseCategory(category) ? "Lease Duration" : "Condition"}: {highlight(condition, searchTerm)}
+          </p>
+        )}
         <div className="flex items-center justify-between text-xs text-gray-400 mt-2">
           <div className="flex flex-row items-center gap-2">
             <Link href={`/profile/${user.user_id}`}>
@@ -8,7 +8,7 @@ import React, {
 import {
   Search,
   Filter,
-
+  BookmarkPlus,
 } from "lucide-react";
 import {
   Sofa,
@@ -25,6 +25,16 @@ import SearchInput from "./SearchInput";
 import SortDropdown from "./SortDropdown";
 import FilterModal from "./FilterModal";
 import CategoryButtons from "./CategoryButtons";
+import { toast } from "react-toastify";
+import { useAuth } from "../../context/AuthContext";
+import { SavedSearchService } from "../../lib/database/SavedSearchService";
+import { isSubleaseCategory } from "../../lib/utils/subleaseUtils";
+import {
+  AttributeFilterValues,
+  getAttributeFilterValues,
+  getFilterableAttributes,
+  toAttributeFilterParams,
+} from "../../lib/utils/attributeUtils";
 
 const categories = [
   { name: "All Categories", icon: Search },
@@ -47,12 +57,18 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
   const searchParams = useSearchParams();
   const query = searchParams.get("category") || "";
   const search = searchParams.get("search") || "";
-  const sort = searchParams.get("sort") || "newest";
+  // Empty means "default": best match while searching, newest otherwise
+  const sort = searchParams.get("sort") || "";
   const minPrice = searchParams.get("minPrice") || "";
   const maxPrice = searchParams.get("maxPrice") || "";
   const postedAfter = searchParams.get("postedAfter") || "";
   const postedBefore = searchParams.get("postedBefore") || "";
+  const condition = searchParams.get("condition") || "";
+  const availability = searchParams.get("availability") || "";
+  const availableFrom = searchParams.get("availableFrom") || "";
+  const availableTo = searchParams.get("availableTo") || "";
   const { setLoading } = props;
+  const { user } = useAuth();
 
   const [searchValue, setSearchValue] = useState(search);
   const [sortValue, setSortValue] = useState(sort);
@@ -61,6 +77,14 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
   const [maxPriceValue, setMaxPriceValue] = useState(maxPrice);
   const [postedAfterValue, setPostedAfterValue] = useState(postedAfter);
   const [postedBeforeValue, setPostedBeforeValue] = useState(postedBefore);
+  const [conditionValue, setConditionValue] = useState(condition);
+  const [availabilityValue, setAvailabilityValue] = useState(availability);
+  const [availableFromValue, setAvailableFromValue] = useState(availableFrom);
+  const [availableToValue, setAvailableToValue] = useState(availableTo);
+  const [attributeFilterValues, setAttributeFilterValues] = useState<AttributeFilterValues>(
+    () => getAttributeFilterValues(searchParams)
+  );
+  const [savingSearch, setSavingSearch] = useState(false);
 
   // Add default min/max for slider
   const minPriceLimit = 0;
@@ -82,6 +106,12 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
     return params;
   };
 
+  // Lease dates and attribute facets only apply to their own category, so they're dropped when browsing another
+  const categoryFilterParams = (category: string) => ({
+    ...(isSubleaseCategory(category) && { availableFrom: availableFromValue, availableTo: availableToValue }),
+    ...toAttributeFilterParams(category, attributeFilterValues),
+  });
+
   const handleCategoryClick = (name: string) => {
     if (setLoading) setLoading(true);
     const newQuery = name === "All Categories" ? "" : name;
@@ -93,6 +123,9 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
       maxPrice: maxPriceValue,
       postedAfter: postedAfterValue,
       postedBefore: postedBeforeValue,
+      condition: conditionValue,
+      availability: availabilityValue,
+      ...categoryFilterParams(newQuery),
     });
     router.push(`/browse${params.toString() ? `?${params.toString()}` : ""}`);
   };
@@ -108,6 +141,9 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
       maxPrice: maxPriceValue,
       postedAfter: postedAfterValue,
       postedBefore: postedBeforeValue,
+      condition: conditionValue,
+      availability: availabilityValue,
+      ...categoryFilterParams(query),
     });
     router.push(`/browse${params.toString() ? `?${params.toString()}` : ""}`);
   };
@@ -123,6 +159,9 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
       maxPrice: maxPriceValue,
       postedAfter: postedAfterValue,
       postedBefore: postedBeforeValue,
+      condition: conditionValue,
+      availability: availabilityValue,
+      ...categoryFilterParams(query),
     });
     router.push(`/browse${params.toString() ? `?${params.toString()}` : ""}`);
   };
@@ -137,6 +176,9 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
       maxPrice: maxPriceValue,
       postedAfter: postedAfterValue,
       postedBefore: postedBeforeValue,
+      condition: conditionValue,
+      availability: availabilityValue,
+      ...categoryFilterParams(query),
     });
     router.push(`/browse${params.toString() ? `?${params.toString()}` : ""}`);
     setShowFilters(false);
@@ -147,12 +189,41 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
     setMaxPriceValue("");
     setPostedAfterValue("");
     setPostedBeforeValue("");
+    setConditionValue("");
+    setAvailabilityValue("");
+    setAvailableFromValue("");
+    setAvailableToValue("");
+    setAttributeFilterValues({});
     setSearchValue("");
-    setSortValue("newest");
+    setSortValue("");
     router.push(`/browse`);
     setShowFilters(false);
   };
 
+  // Save the currently applied (URL) filters, not unapplied edits in the filter panel
+  const handleSaveSearch = async () => {
+    if (!user?.id || savingSearch) return;
+
+    setSavingSearch(true);
+    const savedSearch = await SavedSearchService.createSavedSearch({
+      userId: user.id,
+      filters: {
+        searchTerm: search || undefined,
+        category: query || undefined,
+        minPrice: minPrice ? Number(minPrice) : undefined,
+        maxPrice: maxPrice ? Number(maxPrice) : undefined,
+        condition: condition || undefined,
+      },
+    });
+    setSavingSearch(false);
+
+    if (savedSearch) {
+      toast.success(`Saved "${savedSearch.name}". We'll notify you when new listings match.`);
+    } else {
+      toast.error("Failed to save search");
+    }
+  };
+
   useImperativeHandle(ref, () => ({
     handleClearFilters,
   }));
@@ -171,7 +242,16 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
               <Filter size={16} />
               <span className="text-sm text-gray-700 font-semibold">Filters</span>
             </button>
-            <SortDropdown value={sortValue} onChange={handleSortChange} />
+            <button
+              className="flex items-center gap-2 border rounded-md px-4 py-2 bg-white shadow-sm border-gray-200 hover:bg-gray-100 transition w-full sm:w-auto justify-center disabled:opacity-50"
+              onClick={handleSaveSearch}
+              disabled={!user || savingSearch}
+              title="Get notified when new listings match this search"
+            >
+              <BookmarkPlus size={16} />
+              <span className="text-sm text-gray-700 font-semibold whitespace-nowrap">Save search</span>
+            </button>
+            <SortDropdown value={sortValue || (searchValue ? "relevance" : "newest")} onChange={handleSortChange} />
           </div>
         </div>
       </div>
@@ -184,12 +264,24 @@ const SearchBar = forwardRef((props: SearchBarProps, ref) => {
             maxPriceValue={maxPriceValue}
             postedAfterValue={postedAfterValue}
             postedBeforeValue={postedBeforeValue}
+            conditionValue={conditionValue}
+            availabilityValue={availabilityValue}
+            showLeaseDates={isSubleaseCategory(query)}
+            availableFromValue={availableFromValue}
+            availableToValue={availableToValue}
+            attributeFields={getFilterableAttributes(query)}
+            attributeFilterValues={attributeFilterValues}
             minPriceLimit={minPriceLimit}
             maxPriceLimit={maxPriceLimit}
             setMinPriceValue={setMinPriceValue}
             setMaxPriceValue={setMaxPriceValue}
             setPostedAfterValue={setPostedAfterValue}
             setPostedBeforeValue={setPostedBeforeValue}
+            setConditionValue={setConditionValue}
+            setAvailabilityValue={setAvailabilityValue}
+            setAvailableFromValue={setAvailableFromValue}
+            setAvailableToValue={setAvailableToValue}
+            setAttributeFilterValues={setAttributeFilterValues}
             onApply={handleApplyFilters}
             onClear={handleClearFilters}
           />
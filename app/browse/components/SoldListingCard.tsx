@@ -1,5 +1,5 @@
 import React from "react";
-import { CheckCircle2 } from "lucide-react";
+import { CheckCircle2, Clock } from "lucide-react";
 import ListingCard from "./ListingCard";
 import { ListingCardProps } from "../../props/listing";
 
@@ -7,13 +7,19 @@ interface SoldListingCardProps extends ListingCardProps {
   onClick?: () => void;
 }
 
-const SoldListingCard: React.FC<SoldListingCardProps> = ({ onClick, ...props }) => {
+const SoldListingCard: React.FC<SoldListingCardProps> = ({ onClick, availability = "sold", ...props }) => {
+  const reserved = availability === "reserved";
+
   return (
     <div className="relative group cursor-pointer" onClick={onClick}>
-      <div className="absolute inset-0 bg-gray-800/50 rounded-xl z-10 flex items-center justify-center">
+      <div className={`absolute inset-0 rounded-xl z-10 flex items-center justify-center ${reserved ? "bg-gray-800/30" : "bg-gray-800/50"}`}>
         <div className="bg-white/90 text-gray-800 px-4 py-2 rounded-full flex items-center gap-2">
-          <CheckCircle2 size={16} className="text-green-500" />
-          <span className="font-semibold">Sold</span>
+          {reserved ? (
+            <Clock size={16} className="text-amber-500" />
+          ) : (
+            <CheckCircle2 size={16} className="text-green-500" />
+          )}
+          <span className="font-semibold">{reserved ? "Reserved" : "Sold"}</span>
         </div>
       </div>
       <ListingCard {...props} />
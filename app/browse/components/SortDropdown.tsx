@@ -11,8 +11,13 @@ const SortDropdown: React.FC<SortDropdownProps> = ({ value, onChange }) => (
     value={value}
     onChange={onChange}
   >
+    <option value="relevance">Sort: Best match</option>
     <option value="newest">Sort: Newest first</option>
     <option value="oldest">Sort: Oldest first</option>
+    <option value="price_asc">Sort: Price low to high</option>
+    <option value="price_desc">Sort: Price high to low</option>
+    <option value="nearest">Sort: Nearest to me</option>
+    <option value="most_favorited">Sort: Most favorited</option>
   </select>
 );
 
@@ -1,12 +1,15 @@
 "use client";
-import React, { useEffect, useState, useRef, Suspense } from "react";
+import React, { useEffect, useMemo, useState, useRef, useCallback, Suspense } from "react";
 import { motion } from "framer-motion";
 import { useSearchParams } from "next/navigation";
 import SearchBar from "./components/SearchBar";
 import ListingCard from "./components/ListingCard";
 import * as timeago from "timeago.js";
-import { toast } from "react-toastify";
-import { ListingService } from "../lib/database/ListingService"; 
+import { toast, ToastContainer } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import { ListingService, GetListingsParams, ListingSortOption } from "../lib/database/ListingService";
+import { determineListingAvailability } from "../lib/utils/statusUtils";
+import { buildAttributeFilters, getAttributeFilterValues } from "../lib/utils/attributeUtils";
 import {
   containerVariants,
   searchBarVariants,
@@ -18,65 +21,137 @@ import BrowseLoader from "./components/BrowseLoader";
 import { useAuth } from "../context/AuthContext";
 import NotLoggedIn from "../../components/globals/NotLoggedIn";
 
+const PAGE_SIZE = 24;
+
+// Resolve the browser's location for "nearest" sorting, falling back to campus when unavailable
+const getBrowserLocation = () =>
+  new Promise<{ lat: number; lng: number } | null>((resolve) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      () => resolve(null),
+      { timeout: 5000, maximumAge: 10 * 60 * 1000 }
+    );
+  });
+
 const Browse = () => {
   const searchParams = useSearchParams();
   const queryCategory = searchParams.get("category");
   const searchTerm = searchParams.get("search") || "";
-  const sortOrder = searchParams.get("sort") || "newest";
+  const sortOrder = (searchParams.get("sort") || (searchTerm ? "relevance" : "newest")) as ListingSortOption;
   const minPrice = searchParams.get("minPrice");
   const maxPrice = searchParams.get("maxPrice");
   const postedAfter = searchParams.get("postedAfter");
   const postedBefore = searchParams.get("postedBefore");
+  const condition = searchParams.get("condition");
+  const availability = searchParams.get("availability");
+  const availableFrom = searchParams.get("availableFrom");
+  const availableTo = searchParams.get("availableTo");
+  const attributeFilters = useMemo(
+    () => buildAttributeFilters(queryCategory, getAttributeFilterValues(searchParams)),
+    [queryCategory, searchParams]
+  );
 
   const [listings, setListings] = useState<any[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const searchBarRef = useRef<any>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const queryParamsRef = useRef<GetListingsParams | null>(null);
   const [loading, setLoading] = useState(true);
   const { user, loading: authLoading } = useAuth();
 
   useEffect(() => {
+    let cancelled = false;
+
     const fetchListings = async () => {
       try {
-        const listingsData = await ListingService.getListings({
+        const nearCoords = sortOrder === "nearest" ? await getBrowserLocation() : null;
+
+        const queryParams: GetListingsParams = {
           category: queryCategory || undefined,
           searchTerm: searchTerm || undefined,
           excludeSold: true,
+          availability: availability === "available" || availability === "reserved" ? availability : undefined,
           excludeDrafts: true,
-          limit: 100 // Increased limit for browse page
-        });
-
-        // Apply client-side sorting since ListingService returns newest first by default
-        const sortedListings = sortOrder === "oldest" 
-          ? [...listingsData].reverse() 
-          : listingsData;
+          sortBy: sortOrder,
+          minPrice: minPrice ? Number(minPrice) : undefined,
+          maxPrice: maxPrice ? Number(maxPrice) : undefined,
+          postedAfter: postedAfter || undefined,
+          // Date inputs give midnight; include the whole "posted before" day
+          postedBefore: postedBefore ? `${postedBefore}T23:59:59.999Z` : undefined,
+          condition: condition || undefined,
+          availableFrom: availableFrom || undefined,
+          availableTo: availableTo || undefined,
+          attributeFilters,
+          nearLat: nearCoords?.lat,
+          nearLng: nearCoords?.lng,
+          limit: PAGE_SIZE,
+          currentUserId: user?.id,
+        };
 
-        // Listings already have user_name and user_image from ListingService
-        const formattedListings = sortedListings;
+        const page = await ListingService.getListingsPage(queryParams);
+        if (cancelled) return;
 
-        setListings(formattedListings);
+        queryParamsRef.current = queryParams;
+        setListings(page.listings);
+        setNextCursor(page.nextCursor);
       } catch (error) {
         console.error("Error fetching listings:", error);
         toast.error("Failed to load listings");
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchListings();
-  }, [queryCategory, searchTerm, sortOrder]);
 
-  let filteredListings = listings;
-  if (minPrice) {
-    filteredListings = filteredListings.filter((listing) => Number(listing.price) >= Number(minPrice));
-  }
-  if (maxPrice) {
-    filteredListings = filteredListings.filter((listing) => Number(listing.price) <= Number(maxPrice));
-  }
-  if (postedAfter) {
-    filteredListings = filteredListings.filter((listing) => new Date(listing.created_at) >= new Date(postedAfter));
-  }
-  if (postedBefore) {
-    filteredListings = filteredListings.filter((listing) => new Date(listing.created_at) <= new Date(postedBefore));
-  }
+    return () => {
+      cancelled = true;
+    };
+  }, [queryCategory, searchTerm, sortOrder, minPrice, maxPrice, postedAfter, postedBefore, condition, availability, availableFrom, availableTo, attributeFilters, user?.id]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || !queryParamsRef.current) return;
+
+    const queryParams = queryParamsRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await ListingService.getListingsPage({ ...queryParams, cursor: nextCursor });
+      // Ignore the page if the filters changed while it was loading
+      if (queryParamsRef.current !== queryParams) return;
+
+      setListings((prev) => {
+        const seen = new Set(prev.map((listing) => listing.id));
+        return [...prev, ...page.listings.filter((listing) => !seen.has(listing.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading more listings:", error);
+      toast.error("Failed to load more listings");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore]);
+
+  // Infinite scroll: fetch the next page when the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore, loading]);
 
   // Helper to clear filters from child
   const handleClearFilters = () => {
@@ -123,6 +198,7 @@ const Browse = () => {
       initial="hidden"
       animate="visible"
     >
+      <ToastContainer position="bottom-right" />
       <div className="p-8">
         <motion.div variants={searchBarVariants}>
           <SearchBar ref={searchBarRef} setLoading={setLoading} />
@@ -135,7 +211,7 @@ const Browse = () => {
           >
             <BrowseLoader />
           </motion.div>
-        ) : filteredListings.length === 0 ? (
+        ) : listings.length === 0 ? (
           <motion.div 
             className="flex flex-col items-center justify-center min-h-[60vh]"
             variants={emptyStateVariants}
@@ -154,7 +230,7 @@ const Browse = () => {
             className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mt-8"
             variants={containerVariants}
           >
-            {filteredListings.map((listing, index) => (
+            {listings.map((listing, index) => (
               <motion.div
                 key={listing.id}
                 onClick={() => (window.location.href = `/listing/${listing.id}`)}
@@ -172,11 +248,25 @@ const Browse = () => {
                   user={{ name: listing.user_name, user_id: listing.user_id, image: listing.user_image }}
                   condition={listing.condition}
                   searchTerm={searchTerm}
+                  matches={listing.search_matches}
+                  availability={determineListingAvailability(listing)}
+                  rentPeriod={listing.rent_period}
+                  leaseStartDate={listing.lease_start_date}
+                  leaseEndDate={listing.lease_end_date}
+                  imageVariant={listing.image_variants?.[listing.images?.[0]]}
                 />
               </motion.div>
             ))}
           </motion.div>
         )}
+
+        {!loading && nextCursor && (
+          <div ref={loadMoreRef} className="flex justify-center py-8">
+            {loadingMore && (
+              <svg className="h-8 w-8 animate-spin text-[#bf5700]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="#bf5700" d="M4 12a8 8 0 018-8v8z"></path></svg>
+            )}
+          </div>
+        )}
       </div>
     </motion.div>
   );
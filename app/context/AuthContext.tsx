@@ -2,6 +2,9 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabaseClient';
+import { SettingsService } from '../lib/database/SettingsService';
+import { useCrypto } from './CryptoContext';
+import { getUserKeysDecrypted, rewrapPrivateKey } from '../lib/database/KeyService';
 import { useRouter } from 'next/navigation';
 
 interface AuthContextType {
@@ -11,6 +14,9 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signUp: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ error: string | null }>;
+  requestPasswordReset: (email: string) => Promise<{ error: AuthError | null }>;
+  completePasswordReset: (newPassword: string) => Promise<{ error: AuthError | null; keysUnlocked: boolean }>;
 }
 
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
@@ -20,6 +26,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState(false);
   const router = useRouter();
+  const { privateKey, unlockKeys, clearKeys } = useCrypto();
 
   useEffect(() => {
     // Check active sessions and sets the user
@@ -34,8 +41,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     });
 
     // Listen for changes on auth state (signed in, signed out, etc.)
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       setUser(session?.user ?? null);
+      // Signing out anywhere (another tab, an expired session) drops the message keys
+      if (event === 'SIGNED_OUT') {
+        clearKeys();
+      }
       if (session?.user) {
         checkAdminStatus(session.user.id);
       } else {
@@ -46,7 +57,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     });
 
     return () => subscription.unsubscribe();
-  }, [router]);
+  }, [router, clearKeys]);
 
   const checkAdminStatus = async (userId: string) => {
     try {
@@ -66,7 +77,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+    // The password is only available here, so unlock the message keys now.
+    // A failure doesn't block sign-in; the messages page offers to unlock later.
+    if (!error && data.user) {
+      const unlocked = await unlockKeys(data.user.id, password);
+      if (!unlocked) {
+        console.warn('Signed in without message encryption keys');
+      }
+    }
+
     return { error };
   };
 
@@ -81,25 +102,111 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         } as AuthError 
       };
     }
+
+    const settings = await SettingsService.getSettings(supabase, false);
+    if (!settings.allow_user_registration) {
+      return {
+        error: {
+          message: 'New account registration is currently closed',
+          name: 'AuthError',
+          status: 403
+        } as AuthError
+      };
+    }
     
-    const { error } = await supabase.auth.signUp({
+    const { data, error } = await supabase.auth.signUp({
       email,
       password,
       options: {
         emailRedirectTo: `${window.location.origin}/auth/callback?type=signup&email=${encodeURIComponent(email)}`,
       },
     });
+
+    // Storing keys needs a session; when email confirmation is required there isn't one
+    // yet, and the keys are generated on first sign-in instead
+    if (!error && data.user && data.session) {
+      await unlockKeys(data.user.id, password);
+    }
     
     return { error };
   };
 
+  /**
+   * Change the password of a signed-in user
+   * The message private key is wrapped with the password, so it is re-wrapped
+   * with the new one before the password itself changes
+   */
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user?.email) {
+      return { error: 'You must be signed in to change your password' };
+    }
+
+    const { error: verifyError } = await supabase.auth.signInWithPassword({
+      email: user.email,
+      password: currentPassword,
+    });
+    if (verifyError) {
+      return { error: 'Current password is incorrect' };
+    }
+
+    // Use the unlocked key if we have it, otherwise open it with the current password.
+    // If neither works the key was already lost to an earlier reset; nothing to re-wrap.
+    let messageKey = privateKey;
+    if (!messageKey) {
+      try {
+        messageKey = (await getUserKeysDecrypted(user.id, currentPassword))?.privateKey ?? null;
+      } catch {
+        messageKey = null;
+      }
+    }
+
+    if (messageKey && !(await rewrapPrivateKey(user.id, messageKey, newPassword))) {
+      return { error: 'Failed to update your message encryption keys. Your password was not changed.' };
+    }
+
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error) {
+      // Put the key back under the password that is still in effect
+      if (messageKey) {
+        await rewrapPrivateKey(user.id, messageKey, currentPassword);
+      }
+      return { error: error.message };
+    }
+
+    return { error: null };
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/auth/callback?next=/auth/reset-password`,
+    });
+    return { error };
+  };
+
+  /**
+   * Set a new password from the reset link
+   * The stored message key is still wrapped with the forgotten password, so this
+   * usually leaves messages locked until a recovery code is used or keys are regenerated
+   */
+  const completePasswordReset = async (newPassword: string) => {
+    const { data, error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error || !data.user) {
+      return { error, keysUnlocked: false };
+    }
+
+    // Succeeds when the user had no keys yet (they get generated) or reset to the same password
+    const keysUnlocked = await unlockKeys(data.user.id, newPassword);
+    return { error: null, keysUnlocked };
+  };
+
   const signOut = async () => {
+    clearKeys();
     await supabase.auth.signOut();
     router.push('/');
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, isAdmin, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, loading, isAdmin, signIn, signUp, signOut, changePassword, requestPasswordReset, completePasswordReset }}>
       {children}
     </AuthContext.Provider>
   );
@@ -3,7 +3,7 @@
  *
  * This context stores the user's decrypted private key and public key in memory
  * (NOT in localStorage or database). The keys are:
- * - Loaded when user logs in
+ * - Loaded when user logs in, or unlocked with their password after a page reload
  * - Available to all components that need to encrypt/decrypt messages
  * - Cleared when user logs out or closes the browser
  *
@@ -12,8 +12,9 @@
 
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { isValidKey } from '../lib/encryption';
+import { ensureUserHasKeys, getUserKeysDecrypted } from '../lib/database/KeyService';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -27,6 +28,9 @@ interface CryptoContextType {
   // Set both keys (called after successful login)
   setKeys: (privateKey: string, publicKey: string) => void;
 
+  // Decrypt the user's private key with their password and load it (generating keys if missing)
+  unlockKeys: (userId: string, password: string) => Promise<boolean>;
+
   // Clear keys (called on logout)
   clearKeys: () => void;
 
@@ -70,16 +74,43 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     console.log('✅ Encryption keys loaded into memory');
   };
 
+  /**
+   * Unlock the user's keys with their password
+   * Called at sign-in, and from the unlock prompt when a session outlives the in-memory keys.
+   * Users who signed up before keys existed (or whose signup had no session yet) get
+   * their keys generated here.
+   *
+   * @returns false if the password can't decrypt the private key or the keys can't be loaded
+   */
+  const unlockKeys = async (newUserId: string, password: string): Promise<boolean> => {
+    try {
+      const existing = await ensureUserHasKeys(newUserId, password);
+      if (!existing) return false;
+
+      const keys = await getUserKeysDecrypted(newUserId, password);
+      if (!keys || !isValidKey(keys.privateKey) || !isValidKey(keys.publicKey)) return false;
+
+      setPrivateKey(keys.privateKey);
+      setPublicKey(keys.publicKey);
+      setUserId(newUserId);
+      console.log('✅ Encryption keys unlocked');
+      return true;
+    } catch (error) {
+      console.error('Failed to unlock encryption keys:', error);
+      return false;
+    }
+  };
+
   /**
    * Clear all keys from memory
    * Called on logout or when keys are no longer needed
    */
-  const clearKeys = () => {
+  const clearKeys = useCallback(() => {
     setPrivateKey(null);
     setPublicKey(null);
     setUserId(null);
     console.log('🔒 Encryption keys cleared from memory');
-  };
+  }, []);
 
   /**
    * Check if valid keys are loaded
@@ -103,6 +134,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
     privateKey,
     publicKey,
     setKeys,
+    unlockKeys,
     clearKeys,
     hasKeys,
     userId,
@@ -0,0 +1,92 @@
+"use client";
+import React from "react";
+import { ListChecks } from "lucide-react";
+import { AttributeField, getCategoryAttributes, ListingAttributes } from "../../lib/utils/attributeUtils";
+
+interface CategoryAttributeFieldsProps {
+  category: string;
+  value: ListingAttributes; // Raw form input; cleaned against the schema on save
+  onChange: (value: ListingAttributes) => void;
+}
+
+const CategoryAttributeFields: React.FC<CategoryAttributeFieldsProps> = ({ category, value, onChange }) => {
+  const fields = getCategoryAttributes(category);
+  if (fields.length === 0) return null;
+
+  const update = (key: string, fieldValue: string | boolean) => onChange({ ...value, [key]: fieldValue });
+
+  const renderInput = (field: AttributeField) => {
+    const current = value[field.key];
+
+    if (field.type === "select") {
+      return (
+        <select
+          className="w-full border rounded-md px-3 py-2 text-sm"
+          value={current === undefined ? "" : String(current)}
+          onChange={(e) => update(field.key, e.target.value)}
+        >
+          <option value="">Select {field.label.toLowerCase()}</option>
+          {field.options?.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (field.type === "boolean") {
+      return (
+        <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+          <input
+            type="checkbox"
+            className="accent-[#bf5700]"
+            checked={current === true}
+            onChange={(e) => update(field.key, e.target.checked)}
+          />
+          {field.label}
+        </label>
+      );
+    }
+
+    return (
+      <div className="relative">
+        <input
+          type={field.type === "number" ? "number" : "text"}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          placeholder={field.placeholder}
+          className={`w-full border rounded-md px-3 py-2 text-sm ${field.unit ? "pr-10" : ""}`}
+          value={current === undefined ? "" : String(current)}
+          onChange={(e) => update(field.key, e.target.value)}
+        />
+        {field.unit && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">{field.unit}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border rounded-md p-4 mb-4 bg-gray-50 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+        <ListChecks size={16} className="text-[#bf5700]" />
+        Item Details
+      </h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {fields.map((field) => (
+          <div key={field.key}>
+            {field.type !== "boolean" && (
+              <label className="text-sm font-medium text-gray-700 mb-1 block">
+                {field.label}
+                {field.required && <span className="text-red-500"> *</span>}
+              </label>
+            )}
+            {renderInput(field)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryAttributeFields;
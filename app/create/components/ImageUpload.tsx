@@ -1,16 +1,46 @@
 "use client";
-import React from "react";
-import { ImagePlus, UploadCloud, X } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import { GripVertical, ImagePlus, Star, X } from "lucide-react";
 import { ImageUploadProps } from "../../props/image-upload";
 import Image from "next/image";
 
+// Object URLs are revoked when the preview goes away so picked files aren't held in memory
+const ImagePreview: React.FC<{ image: File | string; alt: string }> = ({ image, alt }) => {
+  const [src, setSrc] = useState(typeof image === "string" ? image : "");
+
+  useEffect(() => {
+    if (typeof image === "string") {
+      setSrc(image);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(image);
+    setSrc(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  if (!src) return null;
+  return <Image src={src} alt={alt} fill className="object-cover rounded-md pointer-events-none" sizes="96px" />;
+};
+
 const ImageUpload: React.FC<ImageUploadProps> = ({
   images,
   fileInputRef,
   handleFileChange,
   handleAddPhotoClick,
   handleRemoveImage,
+  handleMoveImage,
+  maxImages,
 }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) handleMoveImage(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
   return (
     <div className="border rounded-md p-6 mb-8 bg-white shadow-sm">
       <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
@@ -18,21 +48,48 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
         Photos
       </h2>
       <p className="text-sm text-gray-500 mb-4">
-        Add up to 5 photos to showcase your item. The first photo will be your listing&apos;s cover image.
+        Add up to {maxImages} photos to showcase your item. Drag to reorder; the first photo is your listing&apos;s cover image.
+        Photos are resized and location data is removed before upload.
       </p>
-      <div className="flex items-center gap-4 mb-4">
-        {images.map((file, index) => (
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        {images.map((image, index) => (
           <div
-            key={index}
-            className="w-24 h-24 bg-gray-100 rounded-md flex items-center justify-center border relative overflow-hidden"
+            key={typeof image === "string" ? image : `${image.name}-${image.lastModified}-${index}`}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`w-24 h-24 bg-gray-100 rounded-md flex items-center justify-center border relative overflow-hidden cursor-move ${
+              dropIndex === index && dragIndex !== index ? "ring-2 ring-[#bf5700]" : ""
+            } ${dragIndex === index ? "opacity-50" : ""}`}
           >
-            <Image
-              src={URL.createObjectURL(file)}
-              alt={`Uploaded ${index}`}
-              fill
-              className="object-cover rounded-md"
-              sizes="96px"
-            />
+            <ImagePreview image={image} alt={`Uploaded ${index}`} />
+            <GripVertical size={14} className="absolute top-1 left-1 text-white drop-shadow" />
+            {index === 0 ? (
+              <span className="absolute bottom-0 inset-x-0 bg-[#bf5700] text-white text-[10px] font-semibold text-center py-0.5">
+                Cover
+              </span>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleMoveImage(index, 0)}
+                className="absolute bottom-1 left-1 bg-white rounded-full p-1 shadow text-gray-500 hover:text-[#bf5700]"
+                title="Make cover photo"
+              >
+                <Star size={12} />
+              </button>
+            )}
             <span
               onClick={() => handleRemoveImage(index)}
               className="absolute top-1 right-1 bg-white text-xs rounded-full p-1 shadow cursor-pointer"
@@ -41,7 +98,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
             </span>
           </div>
         ))}
-        {images.length < 5 && (
+        {images.length < maxImages && (
           <div
             onClick={handleAddPhotoClick}
             className="w-24 h-24 border border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center text-gray-400 cursor-pointer hover:bg-gray-50 text-xs gap-1"
@@ -0,0 +1,155 @@
+"use client";
+import React from "react";
+import { BedDouble, Bath, CalendarDays, Home, Users } from "lucide-react";
+import {
+  GENDER_PREFERENCE_OPTIONS,
+  RENT_PERIOD_OPTIONS,
+  SubleaseDetails,
+  UTILITIES_OPTIONS,
+} from "../../lib/utils/subleaseUtils";
+
+interface SubleaseFieldsFormProps {
+  value: SubleaseDetails;
+  onChange: (value: SubleaseDetails) => void;
+}
+
+// Empty inputs are stored as null so optional counts stay unset
+const parseCount = (value: string) => (value === "" ? null : Math.max(0, Number(value)));
+
+const SubleaseFieldsForm: React.FC<SubleaseFieldsFormProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<SubleaseDetails>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="border rounded-md p-4 mb-4 bg-orange-50/40 border-[#bf5700]/20 space-y-4">
+      <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+        <Home size={16} className="text-[#bf5700]" />
+        Sublease Details
+      </h3>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <CalendarDays size={14} /> Move-in Date
+          </label>
+          <input
+            type="date"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.leaseStartDate}
+            onChange={(e) => update({ leaseStartDate: e.target.value })}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <CalendarDays size={14} /> Move-out Date
+          </label>
+          <input
+            type="date"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.leaseEndDate}
+            min={value.leaseStartDate || undefined}
+            onChange={(e) => update({ leaseEndDate: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-1 block">Price Type</label>
+        <div className="flex gap-4">
+          {RENT_PERIOD_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name="rentPeriod"
+                className="accent-[#bf5700]"
+                checked={value.rentPeriod === option.value}
+                onChange={() => update({ rentPeriod: option.value })}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <BedDouble size={14} /> Bedrooms
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.bedrooms ?? ""}
+            onChange={(e) => update({ bedrooms: parseCount(e.target.value) })}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <Bath size={14} /> Bathrooms
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.bathrooms ?? ""}
+            onChange={(e) => update({ bathrooms: parseCount(e.target.value) })}
+          />
+        </div>
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <Users size={14} /> Roommates
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.roommateCount ?? ""}
+            onChange={(e) => update({ roommateCount: parseCount(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 block">Utilities</label>
+          <select
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.utilities}
+            onChange={(e) => update({ utilities: e.target.value as SubleaseDetails["utilities"] })}
+          >
+            {UTILITIES_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 block">Roommate Preference</label>
+          <select
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.genderPreference}
+            onChange={(e) => update({ genderPreference: e.target.value as SubleaseDetails["genderPreference"] })}
+          >
+            {GENDER_PREFERENCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="accent-[#bf5700]"
+          checked={value.furnished}
+          onChange={(e) => update({ furnished: e.target.checked })}
+        />
+        Furnished
+      </label>
+    </div>
+  );
+};
+
+export default SubleaseFieldsForm;
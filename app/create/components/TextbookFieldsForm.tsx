@@ -0,0 +1,132 @@
+"use client";
+import React, { useState } from "react";
+import { Barcode, BookOpen, GraduationCap, X } from "lucide-react";
+import { normalizeCourseCode, TextbookDetails, toIsbn13 } from "../../lib/utils/textbookUtils";
+
+interface TextbookFieldsFormProps {
+  value: TextbookDetails;
+  onChange: (value: TextbookDetails) => void;
+}
+
+const TextbookFieldsForm: React.FC<TextbookFieldsFormProps> = ({ value, onChange }) => {
+  const [courseInput, setCourseInput] = useState("");
+  const [courseError, setCourseError] = useState<string | null>(null);
+  const update = (changes: Partial<TextbookDetails>) => onChange({ ...value, ...changes });
+
+  const isbnEntered = value.isbn.trim().length > 0;
+  const isbnValid = !!toIsbn13(value.isbn);
+
+  const addCourse = () => {
+    if (!courseInput.trim()) return;
+
+    const code = normalizeCourseCode(courseInput);
+    if (!code) {
+      setCourseError(`"${courseInput.trim()}" isn't a course code like M 408C.`);
+      return;
+    }
+
+    if (!value.courseCodes.includes(code)) {
+      update({ courseCodes: [...value.courseCodes, code] });
+    }
+    setCourseInput("");
+    setCourseError(null);
+  };
+
+  const handleCourseKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addCourse();
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-4 mb-4 bg-orange-50/40 border-[#bf5700]/20 space-y-4">
+      <h3 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+        <BookOpen size={16} className="text-[#bf5700]" />
+        Textbook Details
+      </h3>
+
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <Barcode size={14} /> ISBN
+          </label>
+          <input
+            type="text"
+            placeholder="e.g., 978-0134685991"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.isbn}
+            onChange={(e) => update({ isbn: e.target.value })}
+            maxLength={17}
+          />
+          {isbnEntered && (
+            <p className={`text-xs mt-1 ${isbnValid ? "text-green-600" : "text-red-500"}`}>
+              {isbnValid ? "Valid ISBN" : "Check the ISBN: it should be 10 or 13 digits from the back cover"}
+            </p>
+          )}
+        </div>
+        <div className="w-1/3">
+          <label className="text-sm font-medium text-gray-700 mb-1 block">Edition</label>
+          <input
+            type="text"
+            placeholder="e.g., 3rd"
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={value.edition}
+            onChange={(e) => update({ edition: e.target.value.slice(0, 30) })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+          <GraduationCap size={14} /> Courses
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="e.g., M 408C"
+            className="flex-1 border rounded-md px-3 py-2 text-sm"
+            value={courseInput}
+            onChange={(e) => {
+              setCourseInput(e.target.value);
+              setCourseError(null);
+            }}
+            onKeyDown={handleCourseKeyDown}
+          />
+          <button
+            type="button"
+            onClick={addCourse}
+            className="px-3 py-2 text-sm rounded-md border border-[#bf5700] text-[#bf5700] hover:bg-orange-50"
+          >
+            Add
+          </button>
+        </div>
+        {courseError && <p className="text-xs text-red-500 mt-1">{courseError}</p>}
+        {value.courseCodes.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {value.courseCodes.map((code) => (
+              <span
+                key={code}
+                className="inline-flex items-center gap-1 bg-[#bf5700]/10 text-[#bf5700] px-2 py-1 rounded-full text-xs font-semibold"
+              >
+                {code}
+                <button
+                  type="button"
+                  onClick={() => update({ courseCodes: value.courseCodes.filter((existing) => existing !== code) })}
+                  className="hover:text-[#a54700]"
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-1">
+          Add every course that uses this book so students can find it by course number.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TextbookFieldsForm;
@@ -1,5 +1,5 @@
 "use client";
-import React, { useRef, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { toast, ToastContainer } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import { motion, Variants } from "framer-motion";
@@ -15,10 +15,24 @@ import {
 import { useAuth } from '../context/AuthContext';
 import { useRouter } from 'next/navigation';
 import ImageUploader from "./components/ImageUpload";
+import SubleaseFieldsForm from "./components/SubleaseFieldsForm";
+import CategoryAttributeFields from "./components/CategoryAttributeFields";
+import TextbookFieldsForm from "./components/TextbookFieldsForm";
 import dynamic from "next/dynamic";
 import { ListingService } from '../lib/database/ListingService';
 import { UserService } from '../lib/database/UserService';
+import { DEFAULT_PLATFORM_SETTINGS, PlatformSettings, SettingsService } from '../lib/database/SettingsService';
 import { dbLogger } from '../lib/database/utils';
+import {
+  EMPTY_SUBLEASE_DETAILS,
+  isSubleaseCategory,
+  LEASE_DURATION_OPTIONS,
+  SubleaseDetails,
+  validateSubleaseDetails,
+} from '../lib/utils/subleaseUtils';
+import { cleanListingAttributes, ListingAttributes, validateListingAttributes } from '../lib/utils/attributeUtils';
+import { EMPTY_TEXTBOOK_DETAILS, isTextbookCategory, TextbookDetails, validateTextbookDetails } from '../lib/utils/textbookUtils';
+import { moveItem } from '../lib/utils/imageUtils';
 import NotLoggedIn from '../../components/globals/NotLoggedIn';
 
 
@@ -39,7 +53,17 @@ const Create = () => {
   const [locationLat, setLocationLat] = useState<number | null>(null);
   const [locationLng, setLocationLng] = useState<number | null>(null);
   const [condition, setCondition] = useState("");
+  const [sublease, setSublease] = useState<SubleaseDetails>(EMPTY_SUBLEASE_DETAILS);
+  const [attributes, setAttributes] = useState<ListingAttributes>({});
+  const [textbook, setTextbook] = useState<TextbookDetails>(EMPTY_TEXTBOOK_DETAILS);
   const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState<PlatformSettings>(DEFAULT_PLATFORM_SETTINGS);
+  const isSublease = isSubleaseCategory(category);
+  const isTextbook = isTextbookCategory(category);
+
+  useEffect(() => {
+    SettingsService.getSettings().then(setSettings);
+  }, []);
 
   // Animation variants
   const containerVariants: Variants = {
@@ -80,7 +104,7 @@ const Create = () => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const fileArray = Array.from(e.target.files);
-      setImages((prev) => [...prev, ...fileArray].slice(0, 5));
+      setImages((prev) => [...prev, ...fileArray].slice(0, settings.max_images_per_listing));
     }
   };
 
@@ -92,6 +116,10 @@ const Create = () => {
     setImages((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const handleMoveImage = (from: number, to: number) => {
+    setImages((prev) => moveItem(prev, from, to));
+  };
+
   const handleLocationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const selectedValue = e.target.value;
     setLocation(selectedValue);
@@ -105,20 +133,32 @@ const Create = () => {
     }
   };
 
+  // Conditions and lease durations share the condition field, so switching between them clears it
+  const handleCategoryChange = (value: string) => {
+    if (isSubleaseCategory(value) !== isSublease) setCondition("");
+    setCategory(value);
+    setAttributes((previous) => cleanListingAttributes(value, previous));
+  };
+
   const handleSaveDraft = async () => {
     if (!user?.id) {
       toast.error("You must be logged in to save a draft.");
       return;
     }
 
+    const textbookViolation = isTextbook ? validateTextbookDetails(textbook) : null;
+    if (textbookViolation) {
+      toast.error(textbookViolation);
+      return;
+    }
+
     try {
       setSaving(true);
       
       // Upload images using the service
-      let uploadedImageUrls: string[] = [];
-      if (images.length > 0) {
-        uploadedImageUrls = await ListingService.uploadImages(images, user.id);
-      }
+      const uploaded = images.length > 0
+        ? await ListingService.uploadImages(images, user.id)
+        : { images: [], imageVariants: {} };
 
       const draftLocation = showCustomLocationInput ? customLocation : location;
       
@@ -129,11 +169,15 @@ const Create = () => {
         category: category || "",
         condition: condition || "",
         description: description || "",
-        images: uploadedImageUrls,
+        images: uploaded.images,
+        imageVariants: uploaded.imageVariants,
         userId: user.id,
         isDraft: true,
         locationLat: locationLat || undefined,
         locationLng: locationLng || undefined,
+        sublease: isSublease ? sublease : undefined,
+        attributes,
+        textbook: isTextbook ? textbook : undefined,
       });
 
       if (listing) {
@@ -168,11 +212,35 @@ const Create = () => {
       return;
     }
 
+    const violation = SettingsService.validateListing({ price, imageCount: images.length }, settings);
+    if (violation) {
+      toast.error(violation);
+      return;
+    }
+
+    const subleaseViolation = isSublease ? validateSubleaseDetails(sublease) : null;
+    if (subleaseViolation) {
+      toast.error(subleaseViolation);
+      return;
+    }
+
+    const attributeViolation = validateListingAttributes(category, cleanListingAttributes(category, attributes));
+    if (attributeViolation) {
+      toast.error(attributeViolation);
+      return;
+    }
+
+    const textbookViolation = isTextbook ? validateTextbookDetails(textbook) : null;
+    if (textbookViolation) {
+      toast.error(textbookViolation);
+      return;
+    }
+
     try {
       setSaving(true);
       
       // Upload images using the service
-      const uploadedImageUrls = await ListingService.uploadImages(images, user.id);
+      const uploaded = await ListingService.uploadImages(images, user.id);
 
       const listing = await ListingService.createListing({
         title,
@@ -181,15 +249,21 @@ const Create = () => {
         category,
         condition,
         description,
-        images: uploadedImageUrls,
+        images: uploaded.images,
+        imageVariants: uploaded.imageVariants,
         userId: user.id,
         isDraft: false,
         locationLat: locationLat || undefined,
         locationLng: locationLng || undefined,
+        sublease: isSublease ? sublease : undefined,
+        attributes,
+        textbook: isTextbook ? textbook : undefined,
       });
 
       if (listing) {
-        toast.success("🎉 Listing created successfully! It's now pending admin approval and will be visible once approved.");
+        toast.success(listing.status === 'approved'
+          ? "🎉 Listing created successfully! It's now live."
+          : "🎉 Listing created successfully! It's now pending admin approval and will be visible once approved.");
         router.push('/my-listings');
       } else {
         throw new Error('Failed to create listing');
@@ -259,11 +333,12 @@ const Create = () => {
         <motion.div variants={itemVariants}>
           <ImageUploader
             images={images}
-            setImages={setImages}
             fileInputRef={fileInputRef}
             handleFileChange={handleFileChange}
             handleAddPhotoClick={handleAddPhotoClick}
             handleRemoveImage={handleRemoveImage}
+            handleMoveImage={handleMoveImage}
+            maxImages={settings.max_images_per_listing}
           />
         </motion.div>
 
@@ -301,7 +376,7 @@ const Create = () => {
               <select
                 className="w-full border rounded-md px-3 py-2 text-sm"
                 value={category}
-                onChange={(e) => setCategory(e.target.value)}
+                onChange={(e) => handleCategoryChange(e.target.value)}
                 required
               >
                 <option>Select a category</option>
@@ -318,7 +393,7 @@ const Create = () => {
             <div className="w-1/3">
               <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
                 <DollarSign size={14} />
-                Price ($)
+                {isSublease && sublease.rentPeriod === "monthly" ? "Rent ($/month)" : "Price ($)"}
               </label>
               <div className="relative">
                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">$</span>
@@ -352,7 +427,7 @@ const Create = () => {
           <div className="mb-4">
             <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
               <Text size={14} />
-              Condition
+              {isSublease ? "Lease Duration" : "Condition"}
             </label>
             <select
               className="w-full border rounded-md px-3 py-2 text-sm"
@@ -360,15 +435,32 @@ const Create = () => {
               onChange={(e) => setCondition(e.target.value)}
               required
             >
-              <option>Select condition</option>
-              <option>New</option>
-              <option>Like New</option>
-              <option>Good</option>
-              <option>Fair</option>
-              <option>Poor</option>
+              {isSublease ? (
+                <>
+                  <option value="">Select lease duration</option>
+                  {LEASE_DURATION_OPTIONS.map((option) => (
+                    <option key={option}>{option}</option>
+                  ))}
+                </>
+              ) : (
+                <>
+                  <option value="">Select condition</option>
+                  <option>New</option>
+                  <option>Like New</option>
+                  <option>Good</option>
+                  <option>Fair</option>
+                  <option>Poor</option>
+                </>
+              )}
             </select>
           </div>
 
+          {isSublease && <SubleaseFieldsForm value={sublease} onChange={setSublease} />}
+
+          {isTextbook && <TextbookFieldsForm value={textbook} onChange={setTextbook} />}
+
+          <CategoryAttributeFields category={category} value={attributes} onChange={setAttributes} />
+
           <div className="mb-4">
             <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
               <MapPin size={14} />
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter, Roboto_Flex } from "next/font/google";
 import "./globals.css";
 import Navbar from "../components/globals/Navbar";
+import SiteAnnouncement from "../components/globals/SiteAnnouncement";
 import { AuthProvider } from './context/AuthContext';
 import { CryptoProvider } from './context/CryptoContext';
 import FooterWrapper from "../components/globals/FooterWrapper";
@@ -31,16 +32,16 @@ export default function RootLayout({
     <html lang="en" className={robotoFlex.variable}>
       <body className="font-sans">
         <div className="flex flex-col min-h-screen">
-          <AuthProvider>
-            <CryptoProvider>
+          <CryptoProvider>
+            <AuthProvider>
               <AdminRedirectWrapper
-                navbar={<Navbar />}
+                navbar={<><SiteAnnouncement /><Navbar /></>}
                 footer={<FooterWrapper />}
               >
                 {children}
               </AdminRedirectWrapper>
-            </CryptoProvider>
-          </AuthProvider>
+            </AuthProvider>
+          </CryptoProvider>
         </div>
       </body>
     </html>
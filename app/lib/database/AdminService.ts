@@ -1,6 +1,12 @@
 import { supabase } from '../supabaseClient';
 import { Listing } from '../../props/listing';
 import { dbLogger } from './utils';
+import { SavedSearchService } from './SavedSearchService';
+import { WatchlistService } from './WatchlistService';
+import { AuditLogService } from './AuditLogService';
+import { USER_REPORT_REASONS } from './ReportService';
+import { quoteFilterValue } from '../utils/cursorUtils';
+import { getSuspensionEndDate, SuspensionFields } from '../utils/suspensionUtils';
 
 export interface AdminUser {
   id: string;
@@ -10,10 +16,17 @@ export interface AdminUser {
   created_at: string;
   is_admin: boolean;
   is_banned: boolean;
+  banned_until: string | null; // NULL while banned means the ban is permanent
+  ban_reason: string | null;
   listing_count?: number;
   last_active?: string;
 }
 
+export interface SuspendUserParams {
+  days: number | null; // null = permanent ban
+  reason: string;
+}
+
 export interface AdminListing extends Listing {
   user: {
     id: string;
@@ -204,7 +217,8 @@ export class AdminService {
         const { count } = await supabase
           .from('users')
           .select('*', { count: 'exact', head: true })
-          .eq('is_banned', true);
+          .eq('is_banned', true)
+          .or(`banned_until.is.null,banned_until.gt.${quoteFilterValue(new Date().toISOString())}`);
         bannedUsers = count || 0;
       } else {
         dbLogger.warn('is_banned column does not exist, defaulting to 0');
@@ -261,6 +275,8 @@ export class AdminService {
           created_at,
           is_admin,
           is_banned,
+          banned_until,
+          ban_reason,
           last_sign_in_at
         `)
         .range(offset, offset + limit - 1)
@@ -349,53 +365,108 @@ export class AdminService {
   }
 
   /**
-   * Ban/unban a user
+   * Suspend a user for a number of days, or ban them permanently
    */
-  static async toggleUserBan(userId: string, adminId: string): Promise<{ success: boolean; isBanned: boolean }> {
+  static async suspendUser(userId: string, adminId: string, params: SuspendUserParams): Promise<{ success: boolean; suspension?: SuspensionFields }> {
+    const suspension: SuspensionFields = {
+      is_banned: true,
+      banned_until: getSuspensionEndDate(params.days),
+      ban_reason: params.reason.trim() || null,
+    };
+
     try {
-      dbLogger.info('Toggling user ban status', { userId, adminId });
+      dbLogger.info('Suspending user', { userId, adminId, days: params.days });
 
-      // First check if admin
-      const isAdmin = await this.isUserAdmin(adminId);
-      if (!isAdmin) {
-        throw new Error('Unauthorized: Only admins can ban users');
+      if (userId === adminId) {
+        throw new Error('Cannot suspend your own admin account');
       }
 
-      // Get current ban status
-      const { data: currentUser, error: fetchError } = await supabase
-        .from('users')
-        .select('is_banned')
-        .eq('id', userId)
-        .single();
+      const result = await this.setSuspension(userId, adminId, suspension, params.days === null ? 'user.ban' : 'user.suspend');
+      if (!result) return { success: false };
 
-      if (fetchError) {
-        throw fetchError;
-      }
+      dbLogger.success('User suspended', { userId, bannedUntil: suspension.banned_until });
+      return { success: true, suspension };
+    } catch (error) {
+      dbLogger.error('Error suspending user:', error);
+      return { success: false };
+    }
+  }
 
-      const newBanStatus = !currentUser.is_banned;
+  /**
+   * Lift a user's ban or suspension early
+   */
+  static async liftSuspension(userId: string, adminId: string, reason?: string): Promise<boolean> {
+    try {
+      dbLogger.info('Lifting user suspension', { userId, adminId });
+
+      const lifted = await this.setSuspension(
+        userId,
+        adminId,
+        { is_banned: false, banned_until: null, ban_reason: null },
+        'user.unban',
+        reason
+      );
+      if (!lifted) return false;
+
+      dbLogger.success('User suspension lifted', { userId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error lifting user suspension:', error);
+      return false;
+    }
+  }
 
-      // Update ban status
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ is_banned: newBanStatus })
-        .eq('id', userId);
+  /**
+   * Helper: Write a user's ban fields and record the change in the audit log
+   */
+  private static async setSuspension(
+    userId: string,
+    adminId: string,
+    suspension: SuspensionFields,
+    action: 'user.ban' | 'user.suspend' | 'user.unban',
+    reason?: string
+  ): Promise<boolean> {
+    const isAdmin = await this.isUserAdmin(adminId);
+    if (!isAdmin) {
+      throw new Error('Unauthorized: Only admins can ban users');
+    }
 
-      if (updateError) {
-        throw updateError;
-      }
+    const { data: currentUser, error: fetchError } = await supabase
+      .from('users')
+      .select('is_banned, banned_until, ban_reason')
+      .eq('id', userId)
+      .single();
 
-      dbLogger.success('User ban status updated', { userId, isBanned: newBanStatus });
-      return { success: true, isBanned: newBanStatus };
-    } catch (error) {
-      dbLogger.error('Error toggling user ban:', error);
-      return { success: false, isBanned: false };
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update(suspension)
+      .eq('id', userId);
+
+    if (updateError) {
+      throw updateError;
     }
+
+    await AuditLogService.record({
+      actorId: adminId,
+      action,
+      targetType: 'user',
+      targetId: userId,
+      before: currentUser,
+      after: suspension,
+      reason: reason ?? suspension.ban_reason ?? undefined,
+    });
+
+    return true;
   }
 
   /**
    * Delete a user and all their data
    */
-  static async deleteUser(userId: string, adminId: string): Promise<boolean> {
+  static async deleteUser(userId: string, adminId: string, reason?: string): Promise<boolean> {
     try {
       dbLogger.info('Deleting user', { userId, adminId });
 
@@ -410,6 +481,13 @@ export class AdminService {
         throw new Error('Cannot delete your own admin account');
       }
 
+      // Snapshot the account for the audit log before anything is removed
+      const { data: userSnapshot } = await supabase
+        .from('users')
+        .select('id, email, display_name, is_admin, is_banned, created_at')
+        .eq('id', userId)
+        .single();
+
       // Delete user's listings first
       const { error: listingsError } = await supabase
         .from('listings')
@@ -450,6 +528,15 @@ export class AdminService {
         throw userError;
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: userId,
+        before: userSnapshot,
+        reason,
+      });
+
       dbLogger.success('User deleted successfully', { userId });
       return true;
     } catch (error) {
@@ -461,7 +548,7 @@ export class AdminService {
   /**
    * Delete a listing
    */
-  static async deleteListing(listingId: string, adminId: string): Promise<boolean> {
+  static async deleteListing(listingId: string, adminId: string, reason?: string): Promise<boolean> {
     try {
       dbLogger.info('Admin deleting listing', { listingId, adminId });
 
@@ -471,6 +558,14 @@ export class AdminService {
         throw new Error('Unauthorized: Only admins can delete listings');
       }
 
+      // Look up watchers before their watchlist rows are removed
+      const { data: listing } = await supabase
+        .from('listings')
+        .select('*')
+        .eq('id', listingId)
+        .single();
+      const watcherIds = listing ? await WatchlistService.getWatcherIds(listingId, listing.user_id) : [];
+
       // Delete listing favorites first
       const { error: favoritesError } = await supabase
         .from('user_favorites')
@@ -501,7 +596,21 @@ export class AdminService {
         throw listingError;
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'listing.delete',
+        targetType: 'listing',
+        targetId: listingId,
+        before: listing,
+        reason,
+      });
+
       dbLogger.success('Listing deleted successfully by admin', { listingId });
+
+      if (listing && watcherIds.length > 0) {
+        await WatchlistService.notifyWatchers(listing, 'deleted', { watcherIds });
+      }
+
       return true;
     } catch (error) {
       dbLogger.error('Error deleting listing:', error);
@@ -545,6 +654,15 @@ export class AdminService {
         throw updateError;
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: newStatus === 'approved' ? 'listing.approve' : 'listing.unapprove',
+        targetType: 'listing',
+        targetId: listingId,
+        before: { status: currentListing.status },
+        after: { status: newStatus },
+      });
+
       dbLogger.success('Listing approval status updated', { listingId, isApproved: newStatus === 'approved' });
       return { success: true, isApproved: newStatus === 'approved' };
     } catch (error) {
@@ -566,6 +684,12 @@ export class AdminService {
         throw new Error('Unauthorized: Only admins can make other users admin');
       }
 
+      const { data: currentUser } = await supabase
+        .from('users')
+        .select('is_admin')
+        .eq('id', userId)
+        .single();
+
       const { error } = await supabase
         .from('users')
         .update({ is_admin: true })
@@ -575,6 +699,15 @@ export class AdminService {
         throw error;
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'user.make_admin',
+        targetType: 'user',
+        targetId: userId,
+        before: { is_admin: !!currentUser?.is_admin },
+        after: { is_admin: true },
+      });
+
       dbLogger.success('User made admin successfully', { userId });
       return true;
     } catch (error) {
@@ -583,6 +716,50 @@ export class AdminService {
     }
   }
 
+  /**
+   * Remove admin privileges from a user
+   */
+  static async removeUserAdmin(userId: string, adminId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Removing user admin', { userId, adminId });
+
+      // First check if current user is admin
+      const isAdmin = await this.isUserAdmin(adminId);
+      if (!isAdmin) {
+        throw new Error('Unauthorized: Only admins can remove admin privileges');
+      }
+
+      // Don't allow admins to lock themselves out
+      if (userId === adminId) {
+        throw new Error('Cannot remove your own admin privileges');
+      }
+
+      const { error } = await supabase
+        .from('users')
+        .update({ is_admin: false })
+        .eq('id', userId);
+
+      if (error) {
+        throw error;
+      }
+
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'user.remove_admin',
+        targetType: 'user',
+        targetId: userId,
+        before: { is_admin: true },
+        after: { is_admin: false },
+      });
+
+      dbLogger.success('User admin privileges removed', { userId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error removing user admin:', error);
+      return false;
+    }
+  }
+
   /**
    * Search users
    */
@@ -598,6 +775,8 @@ export class AdminService {
           created_at,
           is_admin,
           is_banned,
+          banned_until,
+          ban_reason,
           last_sign_in_at
         `)
         .or(`email.ilike.%${searchTerm}%,display_name.ilike.%${searchTerm}%`)
@@ -720,7 +899,7 @@ export class AdminService {
       // Get the report details
       const { data: report, error: reportError } = await supabase
         .from('listing_reports')
-        .select('listing_id')
+        .select('*')
         .eq('id', reportId)
         .single();
 
@@ -728,6 +907,12 @@ export class AdminService {
         return { success: false, error: 'Report not found' };
       }
 
+      const { data: reportedListing } = await supabase
+        .from('listings')
+        .select('*')
+        .eq('id', report.listing_id)
+        .single();
+
       // Delete the listing first (this will also delete related favorites, etc. due to CASCADE)
       const { error: deleteListingError } = await supabase
         .from('listings')
@@ -751,6 +936,16 @@ export class AdminService {
         return { success: false, error: 'Listing removed but failed to delete report' };
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'listing_report.approve',
+        targetType: 'listing_report',
+        targetId: reportId,
+        before: { report, listing: reportedListing },
+        after: { listing_removed: true },
+        reason: report.reason,
+      });
+
       dbLogger.success('Listing report approved and processed', { reportId });
       return { success: true };
     } catch (error) {
@@ -772,6 +967,12 @@ export class AdminService {
         return { success: false, error: 'Unauthorized: Only admins can reject reports' };
       }
 
+      const { data: report } = await supabase
+        .from('listing_reports')
+        .select('*')
+        .eq('id', reportId)
+        .single();
+
       // Delete the report only
       const { error: deleteError } = await supabase
         .from('listing_reports')
@@ -783,6 +984,15 @@ export class AdminService {
         return { success: false, error: 'Failed to delete report' };
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'listing_report.reject',
+        targetType: 'listing_report',
+        targetId: reportId,
+        before: { report },
+        reason: report?.reason,
+      });
+
       dbLogger.success('Listing report rejected and deleted', { reportId });
       return { success: true };
     } catch (error) {
@@ -807,7 +1017,7 @@ export class AdminService {
       // Get the report details
       const { data: report, error: reportError } = await supabase
         .from('user_reports')
-        .select('reported_user_id')
+        .select('*')
         .eq('id', reportId)
         .single();
 
@@ -815,10 +1025,21 @@ export class AdminService {
         return { success: false, error: 'Report not found' };
       }
 
-      // Ban the user
+      const { data: reportedUser } = await supabase
+        .from('users')
+        .select('is_banned, banned_until, ban_reason')
+        .eq('id', report.reported_user_id)
+        .single();
+
+      // Ban the user permanently
+      const suspension: SuspensionFields = {
+        is_banned: true,
+        banned_until: null,
+        ban_reason: USER_REPORT_REASONS.find(reason => reason.key === report.reason)?.label || report.reason,
+      };
       const { error: banError } = await supabase
         .from('users')
-        .update({ is_banned: true })
+        .update(suspension)
         .eq('id', report.reported_user_id);
 
       if (banError) {
@@ -838,6 +1059,16 @@ export class AdminService {
         return { success: false, error: 'User banned but failed to delete report' };
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'user_report.approve',
+        targetType: 'user_report',
+        targetId: reportId,
+        before: { report, ...reportedUser },
+        after: suspension,
+        reason: report.reason,
+      });
+
       dbLogger.success('User report approved and user banned', { reportId });
       return { success: true };
     } catch (error) {
@@ -859,6 +1090,12 @@ export class AdminService {
         return { success: false, error: 'Unauthorized: Only admins can reject reports' };
       }
 
+      const { data: report } = await supabase
+        .from('user_reports')
+        .select('*')
+        .eq('id', reportId)
+        .single();
+
       // Delete the report only
       const { error: deleteError } = await supabase
         .from('user_reports')
@@ -870,6 +1107,15 @@ export class AdminService {
         return { success: false, error: 'Failed to delete report' };
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'user_report.reject',
+        targetType: 'user_report',
+        targetId: reportId,
+        before: { report },
+        reason: report?.reason,
+      });
+
       dbLogger.success('User report rejected and deleted', { reportId });
       return { success: true };
     } catch (error) {
@@ -998,6 +1244,21 @@ export class AdminService {
         dbLogger.info('Listing status after update', { listingId, status: updatedListing?.status });
       }
 
+      // Alert users whose saved searches match the newly approved listing
+      const approvedListing = result.data?.[0];
+      if (approvedListing && beforeUpdate?.status !== 'approved' && !approvedListing.is_draft) {
+        await SavedSearchService.notifyMatchingSearches(approvedListing);
+      }
+
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'listing.approve',
+        targetType: 'listing',
+        targetId: listingId,
+        before: beforeUpdate ? { status: beforeUpdate.status, denial_reason: beforeUpdate.denial_reason } : null,
+        after: { status: 'approved', denial_reason: null },
+      });
+
       dbLogger.success('Listing approved successfully', { listingId });
       return { success: true };
     } catch (error) {
@@ -1019,6 +1280,12 @@ export class AdminService {
         return { success: false, error: 'Unauthorized: Only admins can deny listings' };
       }
 
+      const { data: beforeUpdate } = await supabase
+        .from('listings')
+        .select('status, denial_reason')
+        .eq('id', listingId)
+        .single();
+
       // Update listing status to denied with reason
       // First try with status column, if that fails, just update a timestamp to indicate processing
       let error: any;
@@ -1028,7 +1295,8 @@ export class AdminService {
           .from('listings')
           .update({ 
             status: 'denied',
-            denial_reason: reason
+            denial_reason: reason,
+            denied_at: new Date().toISOString()
           })
           .eq('id', listingId);
         error = result.error;
@@ -1049,6 +1317,16 @@ export class AdminService {
         return { success: false, error: `Failed to deny listing: ${error.message}` };
       }
 
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'listing.deny',
+        targetType: 'listing',
+        targetId: listingId,
+        before: beforeUpdate,
+        after: { status: 'denied', denial_reason: reason },
+        reason,
+      });
+
       dbLogger.success('Listing denied successfully', { listingId, reason });
       return { success: true };
     } catch (error) {
@@ -1120,12 +1398,14 @@ export class AdminService {
         return { success: false, error: 'Only denied listings can be resubmitted' };
       }
 
-      // Update listing status back to pending
+      // Update listing status back to pending (un-archiving it if it sat denied too long)
       const { error } = await supabase
         .from('listings')
         .update({ 
           status: 'pending',
-          denial_reason: null
+          denial_reason: null,
+          archived_at: null,
+          archive_reason: null
         })
         .eq('id', listingId);
 
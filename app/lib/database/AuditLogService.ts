@@ -0,0 +1,219 @@
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { quoteFilterValue } from '../utils/cursorUtils';
+
+export type AuditAction =
+  | 'user.ban'
+  | 'user.suspend'
+  | 'user.unban'
+  | 'user.delete'
+  | 'user.make_admin'
+  | 'user.remove_admin'
+  | 'listing.approve'
+  | 'listing.unapprove'
+  | 'listing.deny'
+  | 'listing.delete'
+  | 'listing_report.approve'
+  | 'listing_report.reject'
+  | 'user_report.approve'
+  | 'user_report.reject'
+  | 'settings.update';
+
+export type AuditTargetType = 'user' | 'listing' | 'listing_report' | 'user_report' | 'settings';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.ban': 'Banned user',
+  'user.suspend': 'Suspended user',
+  'user.unban': 'Unbanned user',
+  'user.delete': 'Deleted user',
+  'user.make_admin': 'Made user admin',
+  'user.remove_admin': 'Removed admin privileges',
+  'listing.approve': 'Approved listing',
+  'listing.unapprove': 'Revoked listing approval',
+  'listing.deny': 'Denied listing',
+  'listing.delete': 'Deleted listing',
+  'listing_report.approve': 'Upheld listing report',
+  'listing_report.reject': 'Dismissed listing report',
+  'user_report.approve': 'Upheld user report',
+  'user_report.reject': 'Dismissed user report',
+  'settings.update': 'Changed platform settings',
+};
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null; // NULL once the admin's account is deleted
+  actor_email: string | null; // Copied when the entry is written, so it outlives the account
+  actor_name: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  reason: string | null;
+  created_at: string;
+  actor?: {
+    email: string;
+    display_name: string | null;
+  } | null;
+}
+
+export interface RecordAuditParams {
+  actorId: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  reason?: string | null;
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actorId?: string;
+  search?: string; // Matches target id or reason
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * AuditLogService class for the append-only record of admin moderation actions
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE admin_audit_log (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   actor_id UUID NULL REFERENCES users(id) ON DELETE SET NULL, -- Deleting an admin keeps their entries
+ *   actor_email TEXT NULL,
+ *   actor_name TEXT NULL,
+ *   action TEXT NOT NULL,
+ *   target_type TEXT NOT NULL CHECK (target_type IN ('user', 'listing', 'listing_report', 'user_report', 'settings')),
+ *   target_id TEXT NOT NULL,
+ *   before JSONB NULL,
+ *   after JSONB NULL,
+ *   reason TEXT NULL,
+ *   created_at TIMESTAMP DEFAULT NOW()
+ * );
+ *
+ * CREATE INDEX idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+ * CREATE INDEX idx_admin_audit_log_target ON admin_audit_log(target_type, target_id);
+ * CREATE INDEX idx_admin_audit_log_actor ON admin_audit_log(actor_id);
+ *
+ * -- Admins may read and append; nobody may edit or remove entries
+ * ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY admin_audit_log_read ON admin_audit_log FOR SELECT
+ *   USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin));
+ * CREATE POLICY admin_audit_log_insert ON admin_audit_log FOR INSERT
+ *   WITH CHECK (actor_id = auth.uid() AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin));
+ *
+ * -- The actor's email and name are copied from their account, not taken from the client
+ * CREATE FUNCTION fill_audit_actor() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   SELECT email, display_name INTO NEW.actor_email, NEW.actor_name FROM users WHERE id = NEW.actor_id;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER admin_audit_log_fill_actor BEFORE INSERT ON admin_audit_log
+ *   FOR EACH ROW EXECUTE FUNCTION fill_audit_actor();
+ */
+export class AuditLogService {
+  /**
+   * Record an admin action
+   * Failures are logged but never block the action itself
+   */
+  static async record(params: RecordAuditParams): Promise<boolean> {
+    const { actorId, action, targetType, targetId, before = null, after = null, reason = null } = params;
+
+    try {
+      const { error } = await supabase
+        .from('admin_audit_log')
+        .insert({
+          actor_id: actorId,
+          action,
+          target_type: targetType,
+          target_id: targetId,
+          before,
+          after,
+          reason: reason?.trim() || null,
+        });
+
+      if (error) {
+        dbLogger.error('Failed to write audit log entry', { action, targetId, error });
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in AuditLogService.record', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get audit log entries matching the filters, newest first
+   */
+  static async getEntries(filters: AuditLogFilters = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const { action, targetType, actorId, search, from, to, limit = 50, offset = 0 } = filters;
+
+    try {
+      let query = supabase
+        .from('admin_audit_log')
+        .select(`
+          *,
+          actor:users!admin_audit_log_actor_id_fkey(email, display_name)
+        `, { count: 'exact' });
+
+      if (action) query = query.eq('action', action);
+      if (targetType) query = query.eq('target_type', targetType);
+      if (actorId) query = query.eq('actor_id', actorId);
+      if (from) query = query.gte('created_at', from);
+      if (to) query = query.lte('created_at', to);
+
+      const term = search?.trim();
+      if (term) {
+        const pattern = quoteFilterValue(`%${term}%`);
+        query = query.or(`target_id.ilike.${pattern},reason.ilike.${pattern}`);
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        dbLogger.error('Failed to fetch audit log', error);
+        return { entries: [], total: 0 };
+      }
+
+      return { entries: (data || []) as AuditLogEntry[], total: count || 0 };
+    } catch (error) {
+      dbLogger.error('Error in getEntries', error);
+      return { entries: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get admin accounts, for filtering the audit log by actor
+   */
+  static async getActors(): Promise<{ id: string; email: string; display_name: string | null }[]> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, display_name')
+        .eq('is_admin', true)
+        .order('email');
+
+      if (error) {
+        dbLogger.error('Failed to fetch audit log actors', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      dbLogger.error('Error in getActors', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+
+export interface BlockedUser {
+  id: string;
+  display_name: string | null;
+  profile_image_url: string | null;
+  blocked_at: string;
+}
+
+export interface BlockStatus {
+  blockedByMe: boolean;
+  blockedMe: boolean;
+}
+
+/**
+ * BlockService class for user block lists
+ * A block works both ways: neither user can message the other, and each
+ * stops seeing the other's listings
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE user_blocks (
+ *   blocker_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   blocked_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   created_at TIMESTAMP DEFAULT NOW(),
+ *   PRIMARY KEY (blocker_id, blocked_id),
+ *   CHECK (blocker_id <> blocked_id)
+ * );
+ *
+ * CREATE INDEX idx_user_blocks_blocked_id ON user_blocks(blocked_id);
+ *
+ * -- Both sides can see a block (the blocked user needs it to hide the blocker's listings);
+ * -- only the blocker can create or remove it
+ * ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY user_blocks_read ON user_blocks FOR SELECT
+ *   USING (auth.uid() IN (blocker_id, blocked_id));
+ * CREATE POLICY user_blocks_insert ON user_blocks FOR INSERT WITH CHECK (auth.uid() = blocker_id);
+ * CREATE POLICY user_blocks_delete ON user_blocks FOR DELETE USING (auth.uid() = blocker_id);
+ *
+ * -- Blocks are re-checked in the database so they hold for any client
+ * CREATE FUNCTION enforce_message_blocks() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   IF EXISTS (
+ *     SELECT 1 FROM user_blocks
+ *     WHERE (blocker_id = NEW.sender_id AND blocked_id = NEW.receiver_id)
+ *        OR (blocker_id = NEW.receiver_id AND blocked_id = NEW.sender_id)
+ *   ) THEN
+ *     RAISE EXCEPTION 'Messages between these users are blocked';
+ *   END IF;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER messages_enforce_blocks BEFORE INSERT ON messages
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_message_blocks();
+ */
+export class BlockService {
+  /**
+   * Block a user
+   */
+  static async blockUser(blockerId: string, blockedId: string): Promise<boolean> {
+    if (blockerId === blockedId) return false;
+
+    try {
+      dbLogger.info('Blocking user', { blockerId, blockedId });
+
+      const { error } = await supabase
+        .from('user_blocks')
+        .upsert({ blocker_id: blockerId, blocked_id: blockedId }, { onConflict: 'blocker_id,blocked_id' });
+
+      if (error) {
+        dbLogger.error('Failed to block user', error);
+        return false;
+      }
+
+      dbLogger.success('User blocked', { blockerId, blockedId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in blockUser', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a block the user created
+   */
+  static async unblockUser(blockerId: string, blockedId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Unblocking user', { blockerId, blockedId });
+
+      const { error } = await supabase
+        .from('user_blocks')
+        .delete()
+        .eq('blocker_id', blockerId)
+        .eq('blocked_id', blockedId);
+
+      if (error) {
+        dbLogger.error('Failed to unblock user', error);
+        return false;
+      }
+
+      dbLogger.success('User unblocked', { blockerId, blockedId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in unblockUser', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether either user has blocked the other
+   */
+  static async getBlockStatus(userId: string, otherUserId: string): Promise<BlockStatus> {
+    try {
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('blocker_id')
+        .or(
+          `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),` +
+          `and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`
+        );
+
+      if (error) {
+        dbLogger.error('Failed to fetch block status', error);
+        return { blockedByMe: false, blockedMe: false };
+      }
+
+      return {
+        blockedByMe: (data || []).some(row => row.blocker_id === userId),
+        blockedMe: (data || []).some(row => row.blocker_id === otherUserId),
+      };
+    } catch (error) {
+      dbLogger.error('Error in getBlockStatus', error);
+      return { blockedByMe: false, blockedMe: false };
+    }
+  }
+
+  /**
+   * Get the users someone has blocked, most recent first
+   */
+  static async getBlockedUsers(userId: string): Promise<BlockedUser[]> {
+    try {
+      dbLogger.info('Fetching blocked users', { userId });
+
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('blocked_id, created_at, blocked:users!blocked_id(display_name, profile_image_url)')
+        .eq('blocker_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        dbLogger.error('Failed to fetch blocked users', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => ({
+        id: row.blocked_id,
+        display_name: row.blocked?.display_name || null,
+        profile_image_url: row.blocked?.profile_image_url || null,
+        blocked_at: row.created_at,
+      }));
+    } catch (error) {
+      dbLogger.error('Error in getBlockedUsers', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get everyone on either side of a block with the user
+   * Their listings are hidden from the user's browse and search results
+   */
+  static async getHiddenUserIds(userId: string): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_blocks')
+        .select('blocker_id, blocked_id')
+        .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+      if (error) {
+        dbLogger.error('Failed to fetch hidden users', error);
+        return [];
+      }
+
+      return Array.from(new Set((data || []).map(row =>
+        row.blocker_id === userId ? row.blocked_id : row.blocker_id
+      )));
+    } catch (error) {
+      dbLogger.error('Error in getHiddenUserIds', error);
+      return [];
+    }
+  }
+}
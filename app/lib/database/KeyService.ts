@@ -5,6 +5,9 @@
  * - Storing new user encryption keys (during signup)
  * - Fetching user encryption keys (during login)
  * - Retrieving public keys for other users (for encrypting messages to them)
+ * - Re-wrapping the private key when the password changes
+ * - Recovery codes, so a password reset doesn't cost the user their message history
+ * - Remembering which contacts' keys the user has verified, and noticing when they change
  *
  * Database Schema Required:
  * Table: user_keys
@@ -12,6 +15,25 @@
  * - public_key (TEXT, NOT NULL) - Stored in plain text (public keys are meant to be public)
  * - encrypted_private_key (TEXT, NOT NULL) - Encrypted with user's password
  * - created_at (TIMESTAMP, DEFAULT NOW())
+ *
+ * Table: user_key_recovery_codes
+ * - id (UUID, PRIMARY KEY, DEFAULT gen_random_uuid())
+ * - user_id (TEXT, NOT NULL, references users.id ON DELETE CASCADE)
+ * - code_hash (TEXT, NOT NULL, UNIQUE) - SHA-256 of the code, used for lookup only
+ * - encrypted_private_key (TEXT, NOT NULL) - Private key encrypted with the code
+ * - used_at (TIMESTAMP, NULL) - Codes are single use
+ * - created_at (TIMESTAMP, DEFAULT NOW())
+ * RLS: users can select, insert, update and delete only rows where user_id = auth.uid()
+ *
+ * Table: contact_key_verifications
+ * - user_id (TEXT, NOT NULL, references users.id ON DELETE CASCADE)
+ * - contact_id (TEXT, NOT NULL, references users.id ON DELETE CASCADE)
+ * - seen_fingerprint (TEXT, NOT NULL) - Fingerprint of the contact's key when last checked
+ * - verified_fingerprint (TEXT, NULL) - Fingerprint the user confirmed via the safety number
+ * - verified_at (TIMESTAMP, NULL)
+ * - key_changed_at (TIMESTAMP, NULL) - Set when the contact's key changes; cleared by re-verifying
+ * - PRIMARY KEY (user_id, contact_id)
+ * RLS: users can select, insert, update and delete only rows where user_id = auth.uid()
  */
 
 import { supabase } from '../supabaseClient';
@@ -19,8 +41,15 @@ import {
     generateKeyPair,
     encryptPrivateKey,
     decryptPrivateKey,
+    generateRecoveryCode,
+    hashRecoveryCode,
+    normalizeRecoveryCode,
 } from '../encryption';
 
+// Whether the user has confirmed a contact's key out of band
+// 'changed' means the key differs from the one seen before and must be verified again
+export type ContactKeyStatus = 'unverified' | 'verified' | 'changed';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -279,4 +308,348 @@ export async function ensureUserHasKeys(
         `User ${userId} has no encryption keys. Generating now (migration path)...`
     );
     return await generateAndStoreUserKeys(userId, password);
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// PASSWORD CHANGES
+// ============================================================================
+
+/**
+ * Re-encrypts the private key with a new password
+ * Called when the user changes their password, so past messages stay readable
+ *
+ * @param userId - User's ID
+ * @param privateKey - The user's decrypted private key (base64)
+ * @param newPassword - The password the key should be protected with from now on
+ * @returns true if the stored key was updated
+ */
+export async function rewrapPrivateKey(
+    userId: string,
+    privateKey: string,
+    newPassword: string
+): Promise<boolean> {
+    try {
+        const encryptedPrivateKey = await encryptPrivateKey(privateKey, newPassword);
+
+        const { error } = await supabase
+            .from('user_keys')
+            .update({ encrypted_private_key: encryptedPrivateKey })
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Failed to re-wrap private key:', error);
+            return false;
+        }
+
+        console.log(`✅ Private key re-wrapped for user ${userId}`);
+        return true;
+    } catch (error) {
+        console.error('Error re-wrapping private key:', error);
+        return false;
+    }
+}
+
+/**
+ * Replaces the user's key pair with a brand new one
+ * Last resort after a password reset without a recovery code: messages encrypted
+ * for the old key can no longer be read, and old recovery codes are discarded
+ *
+ * @param userId - User's ID
+ * @param password - User's current password
+ * @returns The new keys, ready to load into CryptoContext
+ */
+export async function regenerateUserKeys(
+    userId: string,
+    password: string
+): Promise<DecryptedUserKeys | null> {
+    try {
+        console.warn(`Regenerating encryption keys for user ${userId}; old messages will be unreadable`);
+
+        const { publicKey, privateKey } = await generateKeyPair();
+        const encryptedPrivateKey = await encryptPrivateKey(privateKey, password);
+
+        const { error } = await supabase.from('user_keys').upsert({
+            user_id: userId,
+            public_key: publicKey,
+            encrypted_private_key: encryptedPrivateKey,
+        });
+
+        if (error) {
+            console.error('Failed to store regenerated keys:', error);
+            return null;
+        }
+
+        // Old codes wrap the old key, which is no longer in use
+        await supabase.from('user_key_recovery_codes').delete().eq('user_id', userId);
+
+        return { userId, publicKey, privateKey };
+    } catch (error) {
+        console.error('Error regenerating user keys:', error);
+        return null;
+    }
+}
+
+// ============================================================================
+// RECOVERY CODES
+// ============================================================================
+
+/**
+ * Generates a fresh set of recovery codes, replacing any existing ones
+ * Each code encrypts its own copy of the private key. The codes are only
+ * returned here; the database keeps a hash of each.
+ *
+ * @param userId - User's ID
+ * @param privateKey - The user's decrypted private key (base64)
+ * @param count - How many codes to generate
+ * @returns The plain recovery codes to show the user once (or null on failure)
+ */
+export async function generateRecoveryCodes(
+    userId: string,
+    privateKey: string,
+    count: number = 8
+): Promise<string[] | null> {
+    try {
+        const codes = Array.from({ length: count }, () => generateRecoveryCode());
+
+        const rows = await Promise.all(
+            codes.map(async (code) => ({
+                user_id: userId,
+                code_hash: await hashRecoveryCode(code),
+                encrypted_private_key: await encryptPrivateKey(privateKey, normalizeRecoveryCode(code)),
+            }))
+        );
+
+        const { error: deleteError } = await supabase
+            .from('user_key_recovery_codes')
+            .delete()
+            .eq('user_id', userId);
+
+        if (deleteError) {
+            console.error('Failed to remove old recovery codes:', deleteError);
+            return null;
+        }
+
+        const { error } = await supabase.from('user_key_recovery_codes').insert(rows);
+
+        if (error) {
+            console.error('Failed to store recovery codes:', error);
+            return null;
+        }
+
+        console.log(`✅ Generated ${count} recovery codes for user ${userId}`);
+        return codes;
+    } catch (error) {
+        console.error('Error generating recovery codes:', error);
+        return null;
+    }
+}
+
+/**
+ * Counts the recovery codes a user has left
+ *
+ * @param userId - User's ID
+ * @returns Number of unused codes
+ */
+export async function getRemainingRecoveryCodeCount(userId: string): Promise<number> {
+    try {
+        const { count, error } = await supabase
+            .from('user_key_recovery_codes')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .is('used_at', null);
+
+        if (error) {
+            console.error('Failed to count recovery codes:', error);
+            return 0;
+        }
+
+        return count || 0;
+    } catch (error) {
+        console.error('Error counting recovery codes:', error);
+        return 0;
+    }
+}
+
+/**
+ * Recovers the private key with a recovery code and protects it with the new password
+ * Called after a password reset, when the stored key is still wrapped with the old password
+ *
+ * @param userId - User's ID
+ * @param code - Recovery code as entered by the user
+ * @param newPassword - The user's current (new) password
+ * @returns Decrypted keys ready to load into CryptoContext (or null if the code is invalid)
+ */
+export async function restoreKeysWithRecoveryCode(
+    userId: string,
+    code: string,
+    newPassword: string
+): Promise<DecryptedUserKeys | null> {
+    try {
+        const { data: recovery, error } = await supabase
+            .from('user_key_recovery_codes')
+            .select('id, encrypted_private_key')
+            .eq('user_id', userId)
+            .eq('code_hash', await hashRecoveryCode(code))
+            .is('used_at', null)
+            .maybeSingle();
+
+        if (error || !recovery) {
+            console.error('Recovery code not found or already used:', error);
+            return null;
+        }
+
+        const keys = await getUserKeys(userId);
+        if (!keys) return null;
+
+        const privateKey = await decryptPrivateKey(recovery.encrypted_private_key, normalizeRecoveryCode(code));
+
+        if (!(await rewrapPrivateKey(userId, privateKey, newPassword))) {
+            return null;
+        }
+
+        await supabase
+            .from('user_key_recovery_codes')
+            .update({ used_at: new Date().toISOString() })
+            .eq('id', recovery.id);
+
+        console.log(`✅ Keys restored with a recovery code for user ${userId}`);
+
+        return {
+            userId,
+            publicKey: keys.publicKey,
+            privateKey,
+        };
+    } catch (error) {
+        console.error('Error restoring keys with recovery code:', error);
+        return null;
+    }
+}
+
+// ============================================================================
+// CONTACT KEY VERIFICATION
+// ============================================================================
+
+/**
+ * Checks a contact's current key against what the user has seen and verified before
+ * Records the key on first sight. If it has changed since, any earlier verification
+ * is dropped and the contact stays 'changed' until the user verifies the new key.
+ *
+ * @param userId - The current user's ID
+ * @param contactId - The conversation partner's ID
+ * @param fingerprint - Fingerprint of the partner's current public key
+ * @returns The contact's verification status
+ */
+export async function checkContactKey(
+    userId: string,
+    contactId: string,
+    fingerprint: string
+): Promise<ContactKeyStatus> {
+    try {
+        const { data: record, error } = await supabase
+            .from('contact_key_verifications')
+            .select('seen_fingerprint, verified_fingerprint, key_changed_at')
+            .eq('user_id', userId)
+            .eq('contact_id', contactId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Failed to fetch contact key verification:', error);
+            return 'unverified';
+        }
+
+        if (!record) {
+            await supabase.from('contact_key_verifications').insert({
+                user_id: userId,
+                contact_id: contactId,
+                seen_fingerprint: fingerprint,
+            });
+            return 'unverified';
+        }
+
+        if (record.seen_fingerprint !== fingerprint) {
+            console.warn(`Public key for contact ${contactId} has changed`);
+            await supabase
+                .from('contact_key_verifications')
+                .update({
+                    seen_fingerprint: fingerprint,
+                    verified_fingerprint: null,
+                    verified_at: null,
+                    key_changed_at: new Date().toISOString(),
+                })
+                .eq('user_id', userId)
+                .eq('contact_id', contactId);
+            return 'changed';
+        }
+
+        if (record.key_changed_at) return 'changed';
+        return record.verified_fingerprint === fingerprint ? 'verified' : 'unverified';
+    } catch (error) {
+        console.error('Error checking contact key:', error);
+        return 'unverified';
+    }
+}
+
+/**
+ * Marks a contact's current key as verified by the user
+ *
+ * @param userId - The current user's ID
+ * @param contactId - The conversation partner's ID
+ * @param fingerprint - Fingerprint of the key whose safety number was compared
+ * @returns true if saved
+ */
+export async function markContactVerified(
+    userId: string,
+    contactId: string,
+    fingerprint: string
+): Promise<boolean> {
+    try {
+        const { error } = await supabase.from('contact_key_verifications').upsert({
+            user_id: userId,
+            contact_id: contactId,
+            seen_fingerprint: fingerprint,
+            verified_fingerprint: fingerprint,
+            verified_at: new Date().toISOString(),
+            key_changed_at: null,
+        });
+
+        if (error) {
+            console.error('Failed to mark contact as verified:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error marking contact as verified:', error);
+        return false;
+    }
+}
+
+/**
+ * Removes the verified mark from a contact
+ *
+ * @param userId - The current user's ID
+ * @param contactId - The conversation partner's ID
+ * @returns true if saved
+ */
+export async function clearContactVerification(
+    userId: string,
+    contactId: string
+): Promise<boolean> {
+    try {
+        const { error } = await supabase
+            .from('contact_key_verifications')
+            .update({ verified_fingerprint: null, verified_at: null })
+            .eq('user_id', userId)
+            .eq('contact_id', contactId);
+
+        if (error) {
+            console.error('Failed to clear contact verification:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error clearing contact verification:', error);
+        return false;
+    }
+}
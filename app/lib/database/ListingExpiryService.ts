@@ -0,0 +1,238 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { SettingsService } from './SettingsService';
+import { NotificationService } from './NotificationService';
+import { determineListingAvailability } from '../utils/statusUtils';
+import { getListingExpiryDate, getSubleaseEndDate, isListingExpiringSoon } from '../utils/expiryUtils';
+
+export type ArchiveReason = 'expired' | 'denied';
+
+export interface ExpiryJobResult {
+  warned: number;
+  archived: number;
+  deniedArchived: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows fetched per request while scanning live listings
+const SCAN_PAGE_SIZE = 1000;
+
+// Keeps .in() filters well under URL length limits
+const UPDATE_CHUNK_SIZE = 200;
+
+/**
+ * ListingExpiryService class for retiring stale listings
+ *
+ * A scheduled job (see app/api/cron/expire-listings) warns owners shortly before
+ * a listing expires and archives it once it does. Denied listings are archived
+ * after the admin-configured grace period. Archived listings are hidden from
+ * browsing but never deleted, so transactions, ratings and price history keep
+ * pointing at a real row. Owners can renew from My Listings to restart the clock.
+ *
+ * Database Schema:
+ *
+ * ALTER TABLE listings ADD COLUMN renewed_at TIMESTAMP NULL;
+ * ALTER TABLE listings ADD COLUMN expiry_warned_at TIMESTAMP NULL;
+ * ALTER TABLE listings ADD COLUMN archived_at TIMESTAMP NULL;
+ * ALTER TABLE listings ADD COLUMN archive_reason TEXT NULL CHECK (archive_reason IN ('expired', 'denied'));
+ * ALTER TABLE listings ADD COLUMN denied_at TIMESTAMP NULL;
+ *
+ * CREATE INDEX idx_listings_live ON listings(status, created_at) WHERE archived_at IS NULL AND NOT is_sold AND NOT is_draft;
+ */
+export class ListingExpiryService {
+  /**
+   * Warn owners of listings about to expire and archive expired and long-denied listings
+   * Runs with a server client so it can update every user's listings
+   */
+  static async runExpiryJob(client: SupabaseClient, now: Date = new Date()): Promise<ExpiryJobResult> {
+    const result: ExpiryJobResult = { warned: 0, archived: 0, deniedArchived: 0 };
+
+    try {
+      dbLogger.info('Running listing expiry job', { now: now.toISOString() });
+
+      const settings = await SettingsService.getSettings(client, false);
+      const liveListings = await this.getLiveListings(client);
+
+      const toWarn: any[] = [];
+      const toArchive: any[] = [];
+
+      for (const listing of liveListings) {
+        // A reserved listing is mid-handoff; let the reservation play out first
+        if (determineListingAvailability(listing, now) === 'reserved') continue;
+
+        if (getListingExpiryDate(listing, settings).getTime() <= now.getTime()) {
+          toArchive.push(listing);
+        } else if (!listing.expiry_warned_at && isListingExpiringSoon(listing, settings, now)) {
+          toWarn.push(listing);
+        }
+      }
+
+      if (toWarn.length > 0) {
+        await this.updateInChunks(client, toWarn.map(listing => listing.id), { expiry_warned_at: now.toISOString() });
+        await NotificationService.createNotifications(toWarn.map(listing => {
+          const expiresAt = getListingExpiryDate(listing, settings);
+          return {
+            userId: listing.user_id,
+            type: 'listing_expiring' as const,
+            title: 'Your listing expires soon',
+            body: `"${listing.title}" will be archived on ${expiresAt.toLocaleDateString()}. Renew it to keep it live.`,
+            link: '/my-listings',
+            data: { listing_id: listing.id, expires_at: expiresAt.toISOString() },
+          };
+        }), client);
+        result.warned = toWarn.length;
+      }
+
+      if (toArchive.length > 0) {
+        await this.updateInChunks(client, toArchive.map(listing => listing.id), {
+          archived_at: now.toISOString(),
+          archive_reason: 'expired',
+        });
+        await NotificationService.createNotifications(toArchive.map(listing => ({
+          userId: listing.user_id,
+          type: 'listing_expired' as const,
+          title: 'Your listing was archived',
+          body: getSubleaseEndDate(listing)
+            ? `"${listing.title}" was archived because the lease has ended.`
+            : `"${listing.title}" was archived after ${settings.listing_expiry_days_by_category?.[listing.category] || settings.listing_expiry_days} days. Renew it from My Listings if it's still available.`,
+          link: '/my-listings',
+          data: { listing_id: listing.id },
+        })), client);
+        result.archived = toArchive.length;
+      }
+
+      result.deniedArchived = await this.archiveDeniedListings(client, settings.auto_delete_denied_listings_days, now);
+
+      dbLogger.success('Listing expiry job finished', result);
+      return result;
+    } catch (error) {
+      dbLogger.error('Error in runExpiryJob', error);
+      return result;
+    }
+  }
+
+  /**
+   * Restart the expiry clock on a listing, bringing it back if it was archived for expiring
+   */
+  static async renewListing(listingId: string, userId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      dbLogger.info('Renewing listing', { listingId, userId });
+
+      const { data: listing, error: fetchError } = await supabase
+        .from('listings')
+        .select('*')
+        .eq('id', listingId)
+        .eq('user_id', userId)
+        .single();
+
+      if (fetchError || !listing) {
+        return { success: false, error: 'Listing not found' };
+      }
+
+      if (listing.is_sold) {
+        return { success: false, error: 'Sold listings cannot be renewed' };
+      }
+
+      if (listing.status !== 'approved' || listing.archive_reason === 'denied') {
+        return { success: false, error: 'Only approved listings can be renewed' };
+      }
+
+      const leaseEnd = getSubleaseEndDate(listing);
+      if (leaseEnd && leaseEnd.getTime() <= Date.now()) {
+        return { success: false, error: 'This lease has already ended' };
+      }
+
+      const { error } = await supabase
+        .from('listings')
+        .update({
+          renewed_at: new Date().toISOString(),
+          expiry_warned_at: null,
+          archived_at: null,
+          archive_reason: null,
+        })
+        .eq('id', listingId)
+        .eq('user_id', userId);
+
+      if (error) {
+        dbLogger.error('Failed to renew listing', error);
+        return { success: false, error: 'Failed to renew listing' };
+      }
+
+      dbLogger.success('Listing renewed', { listingId });
+      return { success: true };
+    } catch (error) {
+      dbLogger.error('Error in renewListing', error);
+      return { success: false, error: 'An error occurred while renewing the listing' };
+    }
+  }
+
+  /**
+   * Helper: Fetch every approved, unsold, unarchived listing
+   */
+  private static async getLiveListings(client: SupabaseClient): Promise<any[]> {
+    const listings: any[] = [];
+
+    for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+      const { data, error } = await client
+        .from('listings')
+        .select('*')
+        .eq('status', 'approved')
+        .eq('is_sold', false)
+        .eq('is_draft', false)
+        .is('archived_at', null)
+        .order('id')
+        .range(offset, offset + SCAN_PAGE_SIZE - 1);
+
+      if (error) {
+        dbLogger.error('Failed to fetch live listings for expiry', error);
+        break;
+      }
+
+      listings.push(...(data || []));
+      if (!data || data.length < SCAN_PAGE_SIZE) break;
+    }
+
+    return listings;
+  }
+
+  /**
+   * Helper: Archive listings that have stayed denied past the grace period
+   */
+  private static async archiveDeniedListings(client: SupabaseClient, graceDays: number, now: Date): Promise<number> {
+    const cutoff = new Date(now.getTime() - graceDays * DAY_MS).toISOString();
+
+    // Listings denied before denied_at existed fall back to their creation date
+    const { data, error } = await client
+      .from('listings')
+      .update({ archived_at: now.toISOString(), archive_reason: 'denied' })
+      .eq('status', 'denied')
+      .is('archived_at', null)
+      .or(`denied_at.lte.${cutoff},and(denied_at.is.null,created_at.lte.${cutoff})`)
+      .select('id');
+
+    if (error) {
+      dbLogger.error('Failed to archive denied listings', error);
+      return 0;
+    }
+
+    return data?.length || 0;
+  }
+
+  /**
+   * Helper: Apply the same update to many listings
+   */
+  private static async updateInChunks(client: SupabaseClient, ids: string[], values: Record<string, any>) {
+    for (let i = 0; i < ids.length; i += UPDATE_CHUNK_SIZE) {
+      const { error } = await client
+        .from('listings')
+        .update(values)
+        .in('id', ids.slice(i, i + UPDATE_CHUNK_SIZE));
+
+      if (error) {
+        dbLogger.error('Failed to update listings for expiry', error);
+      }
+    }
+  }
+}
@@ -1,9 +1,70 @@
 import { supabase } from '../supabaseClient';
-import { Listing, ListingCardProps, ListingPageProps } from '../../props/listing';
+import { Listing, ListingCardProps, ListingImageVariants, ListingPageProps } from '../../props/listing';
 import { dbLogger } from './utils';
-import { determineListingStatus, processListingsWithStatus } from '../utils/statusUtils';
+import { determineListingAvailability, determineListingStatus, ListingAvailability, processListingsWithStatus } from '../utils/statusUtils';
+import { decodeCursor, encodeCursor, quoteFilterValue } from '../utils/cursorUtils';
+import { rankDocuments, SearchMatch, SearchResult } from '../search/searchEngine';
+import { WatchlistService } from './WatchlistService';
+import { SettingsService } from './SettingsService';
+import { SavedSearchService } from './SavedSearchService';
+import { BlockService } from './BlockService';
+import { SuspensionService } from './SuspensionService';
+import { isSubleaseCategory, pickSubleaseFields, SubleaseDetails, toSubleaseColumns, validateSubleaseDetails } from '../utils/subleaseUtils';
+import { AttributeFilter, cleanListingAttributes, ListingAttributes, validateListingAttributes } from '../utils/attributeUtils';
+import {
+  isTextbookCategory,
+  normalizeCourseCode,
+  normalizeCourseCodes,
+  pickTextbookFields,
+  TextbookDetails,
+  toIsbn13,
+  toTextbookColumns,
+  validateTextbookDetails,
+} from '../utils/textbookUtils';
+import { processListingImage } from '../utils/imageUtils';
 import * as timeago from 'timeago.js';
 
+// Default reference point for "nearest" sorting when the browser doesn't share a location
+const CAMPUS_COORDINATES = { lat: 30.2849, lng: -97.7341 };
+
+// Rows fetched per request while collecting candidates for text search and sorts that can't be done
+// with a column order; every matching listing is paged through, so older listings stay searchable
+const CANDIDATE_PAGE_SIZE = 1000;
+
+// Textbooks fetched per page on the "books for my courses" page
+const TEXTBOOK_PAGE_SIZE = 48;
+
+// Listing ids per favorite-count lookup, so the id list stays well within URL limits
+const FAVORITE_COUNT_CHUNK_SIZE = 200;
+
+// Edits to these fields are worth telling watchers about (price drops and sales have their own alerts)
+const WATCHED_FIELDS = ['title', 'description', 'condition', 'location', 'category', 'images', 'lease_start_date', 'lease_end_date', 'attributes'];
+
+// Sorts that map directly onto a column order and can page with a keyset cursor
+const KEYSET_SORTS: Partial<Record<ListingSortOption, { column: 'created_at' | 'price'; ascending: boolean }>> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  price_asc: { column: 'price', ascending: true },
+  price_desc: { column: 'price', ascending: false },
+};
+
+// Listing photos are public; each one is stored as a large, medium and thumbnail JPEG
+const LISTING_IMAGES_BUCKET = 'listing-images';
+
+// Only keep variants for photos still on the listing
+const pickImageVariants = (images: string[], variants: ListingImageVariants | null | undefined): ListingImageVariants =>
+  Object.fromEntries(images.filter(url => variants?.[url]).map(url => [url, variants![url]]));
+
+// Great-circle distance between two coordinates in miles
+const getDistanceMiles = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
 // Helper function to convert UI values to database enum values (same as mobile app)
 const convertToDbFormat = (value: string, type: 'category' | 'condition') => {
   if (type === 'category') {
@@ -79,6 +140,10 @@ export interface CreateListingParams {
   locationLat?: number;
   locationLng?: number;
   status?: 'pending' | 'approved' | 'denied';
+  sublease?: SubleaseDetails; // Lease terms, only stored when category is Subleases
+  attributes?: ListingAttributes; // Category-specific fields, checked against the category's attribute schema
+  textbook?: TextbookDetails; // ISBN, edition and courses, only stored when category is Textbooks
+  imageVariants?: ListingImageVariants; // From uploadImages, keyed by the URLs in images
 }
 
 export interface UpdateListingParams {
@@ -95,19 +160,65 @@ export interface UpdateListingParams {
   locationLat?: number;
   locationLng?: number;
   status?: 'pending' | 'approved' | 'denied';
+  sublease?: SubleaseDetails; // Replaces the stored lease terms; cleared when the category isn't Subleases
+  attributes?: ListingAttributes; // Replaces the stored attributes; fields the new category doesn't have are dropped
+  textbook?: TextbookDetails; // Replaces the stored textbook details; cleared when the category isn't Textbooks
+  imageVariants?: ListingImageVariants; // Variants for newly uploaded photos; stored ones are kept while their photo is
+}
+
+export interface UploadedListingImages {
+  images: string[]; // Full-size URLs, in the order given
+  imageVariants: ListingImageVariants; // Only for the photos uploaded by this call
 }
 
+export type ListingSortOption =
+  | 'newest'
+  | 'oldest'
+  | 'price_asc'
+  | 'price_desc'
+  | 'nearest'
+  | 'most_favorited'
+  | 'relevance';
+
 export interface GetListingsParams {
   limit?: number;
   offset?: number;
   category?: string;
-  searchTerm?: string;
+  searchTerm?: string; // Ranked with the search engine; results carry search_score and search_matches
   userId?: string;
   excludeSold?: boolean;
+  availability?: ListingAvailability | 'active'; // 'active' = available or reserved; overrides excludeSold
   excludeDrafts?: boolean;
+  includeArchived?: boolean; // Expired and long-denied listings are archived and hidden by default
   status?: 'pending' | 'approved' | 'denied' | 'all';
   includeOwnListings?: boolean;
-  currentUserId?: string;
+  currentUserId?: string; // Also hides sellers on either side of a block with this user
+  excludeUserIds?: string[];
+  sortBy?: ListingSortOption;
+  minPrice?: number;
+  maxPrice?: number;
+  postedAfter?: string; // ISO date or timestamp, inclusive
+  postedBefore?: string; // ISO date or timestamp, inclusive
+  condition?: string;
+  availableFrom?: string; // YYYY-MM-DD; only subleases whose lease covers the whole stay match
+  availableTo?: string; // YYYY-MM-DD
+  attributeFilters?: AttributeFilter[]; // Category facets, see buildAttributeFilters
+  isbn?: string; // ISBN-10 or ISBN-13 in any format
+  courseCodes?: string[]; // Textbooks for any of these courses
+  nearLat?: number; // Reference point for 'nearest' (defaults to campus)
+  nearLng?: number;
+  cursor?: string | null; // Opaque cursor returned as nextCursor by getListingsPage
+}
+
+interface RankedListing {
+  id: string;
+  score?: number;
+  matches?: SearchMatch[];
+}
+
+export interface ListingsPage {
+  listings: Listing[];
+  nextCursor: string | null;
 }
 
 export interface FavoriteListingParams {
@@ -119,6 +230,47 @@ export interface FavoriteListingParams {
 /**
  * ListingService class following mobile app service layer pattern
  * Provides consistent database operations for listing functionality
+ *
+ * Database Schema (sublease terms, NULL on every other category):
+ *
+ * ALTER TABLE listings ADD COLUMN lease_start_date DATE NULL;
+ * ALTER TABLE listings ADD COLUMN lease_end_date DATE NULL;
+ * ALTER TABLE listings ADD COLUMN rent_period TEXT NULL CHECK (rent_period IN ('monthly', 'one_time'));
+ * ALTER TABLE listings ADD COLUMN bedrooms INTEGER NULL CHECK (bedrooms >= 0);
+ * ALTER TABLE listings ADD COLUMN bathrooms NUMERIC(3, 1) NULL CHECK (bathrooms >= 0);
+ * ALTER TABLE listings ADD COLUMN roommate_count INTEGER NULL CHECK (roommate_count >= 0);
+ * ALTER TABLE listings ADD COLUMN furnished BOOLEAN NULL;
+ * ALTER TABLE listings ADD COLUMN utilities TEXT NULL CHECK (utilities IN ('included', 'partial', 'not_included'));
+ * ALTER TABLE listings ADD COLUMN gender_preference TEXT NULL CHECK (gender_preference IN ('any', 'female', 'male'));
+ *
+ * CREATE INDEX idx_listings_lease_dates ON listings(lease_start_date, lease_end_date)
+ *   WHERE lease_start_date IS NOT NULL;
+ *
+ * Database Schema (category attributes, see CATEGORY_ATTRIBUTE_SCHEMAS):
+ *
+ * ALTER TABLE listings ADD COLUMN attributes JSONB NOT NULL DEFAULT '{}';
+ * CREATE INDEX idx_listings_attributes ON listings USING GIN (attributes);
+ *
+ * Database Schema (textbooks, NULL on every other category):
+ *
+ * ALTER TABLE listings ADD COLUMN isbn TEXT NULL CHECK (isbn ~ '^97[89][0-9]{10}$'); -- Always ISBN-13
+ * ALTER TABLE listings ADD COLUMN edition TEXT NULL;
+ * ALTER TABLE listings ADD COLUMN course_codes TEXT[] NULL; -- e.g. {"M 408C","CS 312"}
+ *
+ * CREATE INDEX idx_listings_isbn ON listings(isbn) WHERE isbn IS NOT NULL;
+ * CREATE INDEX idx_listings_course_codes ON listings USING GIN (course_codes);
+ *
+ * Database Schema (photo variants, see uploadImages):
+ *
+ * ALTER TABLE listings ADD COLUMN image_variants JSONB NOT NULL DEFAULT '{}'; -- Keyed by the URLs in images
+ *
+ * Database Schema (most favorited sort, counted in the database rather than from every favorite row):
+ *
+ * CREATE VIEW listing_favorite_counts AS
+ *   SELECT listing_id, COUNT(*)::INTEGER AS favorite_count
+ *   FROM user_favorites
+ *   WHERE type = 'favorite'
+ *   GROUP BY listing_id;
  */
 export class ListingService {
   /**
@@ -137,12 +289,49 @@ export class ListingService {
       isDraft = false,
       locationLat,
       locationLng,
-      status = 'pending'
+      status,
+      sublease,
+      attributes,
+      textbook,
+      imageVariants
     } = params;
 
     try {
       dbLogger.info('Creating listing', { title, userId });
 
+      if (await SuspensionService.isUserSuspended(userId)) return null;
+
+      const settings = await SettingsService.getSettings();
+      const violation = SettingsService.validateListing({ price, imageCount: images.length, isDraft }, settings);
+      if (violation) {
+        dbLogger.warn('Listing rejected by platform settings', { userId, reason: violation });
+        return null;
+      }
+
+      const isSublease = isSubleaseCategory(category);
+      const subleaseViolation = isSublease && !isDraft && sublease ? validateSubleaseDetails(sublease) : null;
+      if (subleaseViolation) {
+        dbLogger.warn('Sublease listing rejected', { userId, reason: subleaseViolation });
+        return null;
+      }
+
+      const isTextbook = isTextbookCategory(category);
+      const textbookViolation = isTextbook && textbook ? validateTextbookDetails(textbook) : null;
+      if (textbookViolation) {
+        dbLogger.warn('Textbook listing rejected', { userId, reason: textbookViolation });
+        return null;
+      }
+
+      const listingAttributes = cleanListingAttributes(category, attributes);
+      const attributeViolation = validateListingAttributes(category, listingAttributes, { requireAll: !isDraft });
+      if (attributeViolation) {
+        dbLogger.warn('Listing attributes rejected', { userId, reason: attributeViolation });
+        return null;
+      }
+
+      // Listings skip the review queue when an admin has turned approval off
+      const initialStatus = status || (settings.require_listing_approval ? 'pending' : 'approved');
+
       const { data, error } = await supabase
         .from('listings')
         .insert({
@@ -153,12 +342,16 @@ export class ListingService {
           condition: convertToDbFormat(condition, 'condition'),
           description,
           images,
+          image_variants: pickImageVariants(images, imageVariants),
           user_id: userId,
           is_draft: isDraft,
           is_sold: false,
           location_lat: locationLat || null,
           location_lng: locationLng || null,
-          status: status,
+          status: initialStatus,
+          ...toSubleaseColumns(isSublease ? sublease : null),
+          attributes: listingAttributes,
+          ...toTextbookColumns(isTextbook ? textbook : null),
         })
         .select()
         .single();
@@ -169,6 +362,10 @@ export class ListingService {
       }
 
       dbLogger.success('Listing created successfully', { listingId: data.id });
+      await WatchlistService.recordPrice(data.id, data.price);
+      if (data.status === 'approved' && !data.is_draft) {
+        await SavedSearchService.notifyMatchingSearches(data);
+      }
       return data as Listing;
     } catch (error) {
       dbLogger.error('Error in createListing', error);
@@ -180,16 +377,79 @@ export class ListingService {
    * Update an existing listing
    */
   static async updateListing(params: UpdateListingParams): Promise<Listing | null> {
-    const { id, ...updateData } = params;
+    const { id, locationLat, locationLng, sublease, attributes, textbook, imageVariants, ...updateData } = params;
 
     try {
       dbLogger.info('Updating listing', { listingId: id });
 
-      const updatePayload: any = {
-        ...updateData,
-        location_lat: updateData.locationLat || null,
-        location_lng: updateData.locationLng || null,
-      };
+      // Snapshot the current row so price history and watcher alerts can tell what changed
+      const { data: previous } = await supabase
+        .from('listings')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (previous && await SuspensionService.isUserSuspended(previous.user_id)) return null;
+
+      if (previous && (updateData.price !== undefined || updateData.images || updateData.is_draft !== undefined)) {
+        const violation = SettingsService.validateListing({
+          price: updateData.price ?? previous.price,
+          imageCount: (updateData.images ?? previous.images ?? []).length,
+          isDraft: updateData.is_draft ?? previous.is_draft,
+        }, await SettingsService.getSettings());
+        if (violation) {
+          dbLogger.warn('Listing update rejected by platform settings', { listingId: id, reason: violation });
+          return null;
+        }
+      }
+
+      const updatePayload: any = { ...updateData };
+      if (updateData.is_sold !== undefined) {
+        // Selling or unselling always ends a reservation
+        updatePayload.reserved_for = null;
+        updatePayload.reserved_until = null;
+      }
+      if (updateData.images) {
+        updatePayload.image_variants = pickImageVariants(updateData.images, { ...previous?.image_variants, ...imageVariants });
+      }
+      if (locationLat !== undefined) updatePayload.location_lat = locationLat || null;
+      if (locationLng !== undefined) updatePayload.location_lng = locationLng || null;
+
+      const category = updateData.category ?? previous?.category;
+      const isDraft = updateData.is_draft ?? previous?.is_draft;
+
+      // Moving a listing out of Subleases drops its lease terms
+      if (sublease || (updateData.category && !isSubleaseCategory(category))) {
+        const isSublease = isSubleaseCategory(category);
+        const subleaseViolation = isSublease && !isDraft && sublease ? validateSubleaseDetails(sublease) : null;
+        if (subleaseViolation) {
+          dbLogger.warn('Sublease update rejected', { listingId: id, reason: subleaseViolation });
+          return null;
+        }
+        Object.assign(updatePayload, toSubleaseColumns(isSublease ? sublease : null));
+      }
+
+      // Likewise moving out of Textbooks drops the ISBN and courses
+      if (textbook || (updateData.category && !isTextbookCategory(category))) {
+        const isTextbook = isTextbookCategory(category);
+        const textbookViolation = isTextbook && textbook ? validateTextbookDetails(textbook) : null;
+        if (textbookViolation) {
+          dbLogger.warn('Textbook update rejected', { listingId: id, reason: textbookViolation });
+          return null;
+        }
+        Object.assign(updatePayload, toTextbookColumns(isTextbook ? textbook : null));
+      }
+
+      // Re-checked on a category change too, since the stored attributes may not fit the new schema
+      if (attributes || updateData.category || updateData.is_draft === false) {
+        const listingAttributes = cleanListingAttributes(category, attributes ?? previous?.attributes);
+        const attributeViolation = validateListingAttributes(category, listingAttributes, { requireAll: !isDraft });
+        if (attributeViolation) {
+          dbLogger.warn('Listing attribute update rejected', { listingId: id, reason: attributeViolation });
+          return null;
+        }
+        updatePayload.attributes = listingAttributes;
+      }
 
       // Convert category and condition if provided
       if (updateData.category) {
@@ -212,6 +472,11 @@ export class ListingService {
       }
 
       dbLogger.success('Listing updated successfully', { listingId: data.id });
+
+      if (previous) {
+        await this.handleListingChange(previous, data);
+      }
+
       return data as Listing;
     } catch (error) {
       dbLogger.error('Error in updateListing', error);
@@ -219,121 +484,485 @@ export class ListingService {
     }
   }
 
+  /**
+   * Helper: Record price changes and alert watchers after a listing row changes
+   */
+  private static async handleListingChange(previous: any, updated: any) {
+    const previousPrice = Number(previous.price);
+    const newPrice = Number(updated.price);
+    const priceChanged = previousPrice !== newPrice;
+
+    if (priceChanged) {
+      await WatchlistService.recordPrice(updated.id, newPrice);
+    }
+
+    // Drafts have no watchers worth alerting yet
+    if (updated.is_draft) return;
+
+    if (!previous.is_sold && updated.is_sold) {
+      await WatchlistService.notifyWatchers(updated, 'sold');
+    } else if (priceChanged && newPrice < previousPrice) {
+      await WatchlistService.notifyWatchers(updated, 'price_drop', { previousPrice });
+    } else if (WATCHED_FIELDS.some(field => JSON.stringify(previous[field]) !== JSON.stringify(updated[field]))) {
+      await WatchlistService.notifyWatchers(updated, 'updated');
+    }
+  }
+
   /**
    * Get listings with optional filtering
    */
   static async getListings(params: GetListingsParams = {}): Promise<Listing[]> {
+    const { listings } = await this.getListingsPage(params);
+    return listings;
+  }
+
+  /**
+   * Get a page of listings with server-side filtering, sorting and cursor pagination
+   * Pass the returned nextCursor back in as `cursor` to fetch the following page
+   */
+  static async getListingsPage(requestParams: GetListingsParams = {}): Promise<ListingsPage> {
     const {
       limit = 20,
       offset = 0,
+      sortBy = 'newest',
+      cursor,
+    } = requestParams;
+
+    try {
+      dbLogger.info('Fetching listings', requestParams);
+
+      const params = await this.withHiddenSellersExcluded(this.withStructuredSearch(requestParams));
+      const { searchTerm } = params;
+
+      const decodedCursor = decodeCursor(cursor);
+      const keysetSort = KEYSET_SORTS[sortBy];
+      let rows: any[] = [];
+      let nextCursor: string | null = null;
+
+      if (keysetSort && !searchTerm) {
+        const { column, ascending } = keysetSort;
+
+        let query = this.applyListingFilters(supabase.from('listings').select('*'), params)
+          .order(column, { ascending })
+          .order('id', { ascending });
+
+        if (decodedCursor?.kind === 'keyset') {
+          // Seek past the last row of the previous page (ties broken by id)
+          const operator = ascending ? 'gt' : 'lt';
+          const value = quoteFilterValue(decodedCursor.value);
+          query = query
+            .or(`${column}.${operator}.${value},and(${column}.eq.${value},id.${operator}.${quoteFilterValue(decodedCursor.id)})`)
+            .limit(limit + 1);
+        } else {
+          const start = decodedCursor?.kind === 'offset' ? decodedCursor.offset : offset;
+          query = query.range(start, start + limit); // One extra row tells us if there is another page
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          dbLogger.error('Failed to fetch listings', error);
+          return { listings: [], nextCursor: null };
+        }
+
+        rows = (data || []).slice(0, limit);
+
+        if ((data?.length || 0) > limit) {
+          const last = rows[rows.length - 1];
+          nextCursor = encodeCursor({ kind: 'keyset', value: last[column], id: last.id });
+        }
+      } else {
+        // Relevance, distance and favorite counts can't be ordered through PostgREST,
+        // so rank the matching listings first and then load the requested slice
+        const start = decodedCursor?.kind === 'offset' ? decodedCursor.offset : offset;
+        const ranked = await this.rankListings(params);
+        const pageRanks = ranked.slice(start, start + limit);
+        const pageIds = pageRanks.map(rank => rank.id);
+
+        if (start + limit < ranked.length) {
+          nextCursor = encodeCursor({ kind: 'offset', offset: start + limit });
+        }
+
+        if (pageIds.length > 0) {
+          const { data, error } = await supabase
+            .from('listings')
+            .select('*')
+            .in('id', pageIds);
+
+          if (error) {
+            dbLogger.error('Failed to fetch listings', error);
+            return { listings: [], nextCursor: null };
+          }
+
+          const rowMap = new Map((data || []).map(listing => [listing.id, listing]));
+          rows = pageRanks
+            .filter(rank => rowMap.has(rank.id))
+            .map(rank => ({
+              ...rowMap.get(rank.id),
+              ...(rank.score !== undefined && { search_score: rank.score, search_matches: rank.matches }),
+            }));
+        }
+      }
+
+      const listings = await this.attachUserInfo(rows);
+
+      dbLogger.success('Listings fetched successfully', { count: listings.length, hasMore: !!nextCursor });
+      return { listings, nextCursor };
+    } catch (error) {
+      dbLogger.error('Error in getListings', error);
+      return { listings: [], nextCursor: null };
+    }
+  }
+
+  /**
+   * Helper: Turn a search term that is an ISBN, or a course code while browsing Textbooks, into an
+   * exact filter instead of a text search, so "0134685997" or "M 408C" finds the book
+   * Elsewhere "xbox 360" also looks like a course code, so it stays a text search (see rankSearchResults)
+   */
+  private static withStructuredSearch<
+    T extends { searchTerm?: string; category?: string; isbn?: string; courseCodes?: string[] }
+  >(params: T): T {
+    const searchTerm = params.searchTerm?.trim();
+    if (!searchTerm) return params;
+
+    if (toIsbn13(searchTerm)) {
+      return { ...params, searchTerm: undefined, isbn: searchTerm };
+    }
+
+    const courseCode = isTextbookCategory(params.category) ? normalizeCourseCode(searchTerm) : null;
+    if (courseCode) {
+      return { ...params, searchTerm: undefined, courseCodes: [...(params.courseCodes || []), courseCode] };
+    }
+
+    return params;
+  }
+
+  /**
+   * Helper: Rank rows against a text search, best match first
+   * When the term reads as a course code, textbooks for that course are added after the text matches
+   */
+  private static rankSearchResults<T extends { title: string; description?: string | null; course_codes?: string[] | null }>(
+    rows: T[],
+    searchTerm: string
+  ): SearchResult<T>[] {
+    const results = rankDocuments(rows, searchTerm, row => row);
+
+    const courseCode = normalizeCourseCode(searchTerm);
+    if (!courseCode) return results;
+
+    const textMatches = new Set(results.map(result => result.item));
+    const courseMatches = rows
+      .filter(row => !textMatches.has(row) && row.course_codes?.includes(courseCode))
+      .map(item => ({ item, score: 0, matches: [] }));
+
+    return [...results, ...courseMatches];
+  }
+
+  /**
+   * Helper: Add suspended sellers, and sellers the viewer has blocked (or been blocked by), to excludeUserIds
+   */
+  private static async withHiddenSellersExcluded<T extends { currentUserId?: string; excludeUserIds?: string[] }>(
+    params: T
+  ): Promise<T> {
+    const [suspendedUserIds, blockedUserIds] = await Promise.all([
+      SuspensionService.getSuspendedUserIds(),
+      params.currentUserId ? BlockService.getHiddenUserIds(params.currentUserId) : Promise.resolve([]),
+    ]);
+    const hiddenUserIds = [...suspendedUserIds, ...blockedUserIds];
+    if (hiddenUserIds.length === 0) return params;
+
+    return { ...params, excludeUserIds: [...(params.excludeUserIds || []), ...hiddenUserIds] };
+  }
+
+  /**
+   * Helper: Apply the shared GetListingsParams filters to a listings query
+   */
+  private static applyListingFilters(query: any, params: GetListingsParams) {
+    const {
       category,
-      searchTerm,
       userId,
       excludeSold = true,
+      availability,
       excludeDrafts = true,
+      includeArchived = false,
       status = 'approved',
       includeOwnListings = false,
-      currentUserId
+      currentUserId,
+      minPrice,
+      maxPrice,
+      postedAfter,
+      postedBefore,
+      condition,
+      availableFrom,
+      availableTo,
+      attributeFilters,
+      isbn,
+      courseCodes,
+      excludeUserIds,
     } = params;
 
-    try {
-      dbLogger.info('Fetching listings', params);
-
-      let query = supabase
-        .from('listings')
-        .select(`
-          *
-        `)
-        .range(offset, offset + limit - 1)
-        .order('created_at', { ascending: false });
-
-      if (excludeSold) {
+    if (availability) {
+      // Reservations lapse on their own, so "reserved" means reserved_until is still in the future
+      const now = new Date().toISOString();
+      if (availability === 'sold') {
+        query = query.eq('is_sold', true);
+      } else if (availability === 'reserved') {
+        query = query.eq('is_sold', false).not('reserved_for', 'is', null).gt('reserved_until', now);
+      } else if (availability === 'available') {
+        query = query.eq('is_sold', false).or(`reserved_for.is.null,reserved_until.is.null,reserved_until.lte.${quoteFilterValue(now)}`);
+      } else {
         query = query.eq('is_sold', false);
       }
+    } else if (excludeSold) {
+      query = query.eq('is_sold', false);
+    }
 
-      if (excludeDrafts) {
-        query = query.eq('is_draft', false);
-      }
+    if (excludeDrafts) {
+      query = query.eq('is_draft', false);
+    }
 
-      // Note: Status filtering is now done after data processing to handle missing columns
+    if (!includeArchived) {
+      query = query.is('archived_at', null);
+    }
 
-      if (category && category !== 'All') {
-        query = query.eq('category', convertToDbFormat(category, 'category'));
+    if (status !== 'all') {
+      if (includeOwnListings && currentUserId) {
+        // Show all listings by current user regardless of status, but filter others by status
+        query = query.or(`status.eq.${status},user_id.eq.${currentUserId}`);
+      } else {
+        query = query.eq('status', status);
       }
+    }
 
-      if (searchTerm) {
-        query = query.or(`title.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`);
-      }
+    if (category && category !== 'All') {
+      query = query.eq('category', convertToDbFormat(category, 'category'));
+    }
 
-      if (userId) {
-        query = query.eq('user_id', userId);
-      }
+    if (condition) {
+      query = query.eq('condition', convertToDbFormat(condition, 'condition'));
+    }
+
+    if (minPrice !== undefined && !isNaN(minPrice)) {
+      query = query.gte('price', minPrice);
+    }
 
-      const { data: listingsData, error } = await query;
+    if (maxPrice !== undefined && !isNaN(maxPrice)) {
+      query = query.lte('price', maxPrice);
+    }
 
-      if (error) {
-        dbLogger.error('Failed to fetch listings', error);
-        return [];
+    if (postedAfter) {
+      query = query.gte('created_at', postedAfter);
+    }
+
+    if (postedBefore) {
+      query = query.lte('created_at', postedBefore);
+    }
+
+    if (availableFrom || availableTo) {
+      // The lease has to cover the whole stay; an open-ended stay is a single day
+      query = query
+        .lte('lease_start_date', availableFrom || availableTo)
+        .gte('lease_end_date', availableTo || availableFrom);
+    }
+
+    attributeFilters?.forEach(filter => {
+      // ->> compares as text for enum values; -> keeps JSON numbers and booleans typed
+      if (filter.type === 'equals') {
+        query = typeof filter.value === 'boolean'
+          ? query.eq(`attributes->${filter.key}`, filter.value)
+          : query.eq(`attributes->>${filter.key}`, filter.value);
+      } else {
+        if (filter.min !== undefined) query = query.gte(`attributes->${filter.key}`, filter.min);
+        if (filter.max !== undefined) query = query.lte(`attributes->${filter.key}`, filter.max);
       }
+    });
 
-      if (!listingsData || listingsData.length === 0) {
-        return [];
+    if (isbn) {
+      // An invalid ISBN can't match anything stored, so compare it as typed
+      query = query.eq('isbn', toIsbn13(isbn) || isbn);
+    }
+
+    const normalizedCourseCodes = normalizeCourseCodes(courseCodes || []);
+    if (normalizedCourseCodes.length > 0) {
+      query = query.overlaps('course_codes', normalizedCourseCodes);
+    }
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    if (excludeUserIds && excludeUserIds.length > 0) {
+      query = query.not('user_id', 'in', `(${excludeUserIds.join(',')})`);
+    }
+
+    return query;
+  }
+
+  /**
+   * Helper: Rank every matching listing for text searches and for sorts that
+   * can't be expressed as a column order
+   */
+  private static async rankListings(params: GetListingsParams): Promise<RankedListing[]> {
+    const {
+      searchTerm,
+      sortBy = 'newest',
+      nearLat = CAMPUS_COORDINATES.lat,
+      nearLng = CAMPUS_COORDINATES.lng,
+    } = params;
+
+    const data = await this.fetchCandidates<any>(
+      () => this.applyListingFilters(
+        supabase.from('listings').select('id, title, description, course_codes, price, created_at, location_lat, location_lng'),
+        params
+      ),
+      searchTerm ? rows => this.rankSearchResults(rows, searchTerm).map(result => result.item) : undefined
+    );
+
+    if (!data) {
+      return [];
+    }
+
+    // Candidates arrive newest first, and Array.prototype.sort is stable, so ties stay newest first
+    let ranked: (RankedListing & { row: any })[] = searchTerm
+      ? this.rankSearchResults<any>(data || [], searchTerm).map(result => ({
+          id: result.item.id,
+          row: result.item,
+          score: result.score,
+          matches: result.matches,
+        }))
+      : (data || []).map(listing => ({ id: listing.id, row: listing }));
+
+    const keysetSort = KEYSET_SORTS[sortBy];
+
+    if (keysetSort) {
+      const { column, ascending } = keysetSort;
+      const valueOf = (row: any) => column === 'created_at' ? new Date(row.created_at).getTime() : Number(row.price);
+      ranked = ranked.sort((a, b) => ascending ? valueOf(a.row) - valueOf(b.row) : valueOf(b.row) - valueOf(a.row));
+    } else if (sortBy === 'nearest') {
+      const distanceOf = (listing: any) =>
+        listing.location_lat != null && listing.location_lng != null
+          ? getDistanceMiles(nearLat, nearLng, listing.location_lat, listing.location_lng)
+          : Number.POSITIVE_INFINITY; // Listings without a pin go last
+
+      ranked = ranked.sort((a, b) => distanceOf(a.row) - distanceOf(b.row));
+    } else if (sortBy === 'most_favorited') {
+      const favoriteCounts = await this.getFavoriteCounts(ranked.map(listing => listing.id));
+      ranked = ranked.sort((a, b) => (favoriteCounts[b.id] || 0) - (favoriteCounts[a.id] || 0));
+    }
+    // 'relevance' keeps the search score order (or newest first without a search term)
+
+    return ranked.map(({ id, score, matches }) => ({ id, score, matches }));
+  }
+
+  /**
+   * Helper: Favorite counts for the given listings, from the listing_favorite_counts view
+   * Listings nobody has favorited are left out
+   */
+  private static async getFavoriteCounts(listingIds: string[]): Promise<Record<string, number>> {
+    const favoriteCounts: Record<string, number> = {};
+
+    for (let i = 0; i < listingIds.length; i += FAVORITE_COUNT_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('listing_favorite_counts')
+        .select('listing_id, favorite_count')
+        .in('listing_id', listingIds.slice(i, i + FAVORITE_COUNT_CHUNK_SIZE));
+
+      if (error) {
+        dbLogger.error('Failed to fetch favorite counts', error);
+        continue;
       }
 
-      // Get unique user IDs from listings
-      const userIds = Array.from(new Set(listingsData.map(listing => listing.user_id)));
-      
-      // Fetch user data using the same pattern as mobile app
-      let userSettings: any[] = [];
-      if (userIds.length > 0) {
-        const { data: userData } = await supabase
-          .from('users')
-          .select('id, email, display_name, profile_image_url')
-          .in('id', userIds);
-        
-        userSettings = userData || [];
-      }
-
-      // Create user lookup map (same as mobile app)
-      const userMap: any = {};
-      userSettings.forEach(u => {
-        userMap[u.id] = {
-          name: u.display_name || (u.email ? u.email.split('@')[0] : 'User'),
-          image: u.profile_image_url || null,
-        };
+      data?.forEach(row => {
+        favoriteCounts[row.listing_id] = row.favorite_count;
       });
+    }
 
-      // Join user data with listings and add status information
-      const enrichedListings = listingsData.map(listing => ({
-        ...listing,
-        category: convertFromDbFormat(listing.category, 'category'),
-        condition: convertFromDbFormat(listing.condition, 'condition'),
-        user_name: userMap[listing.user_id]?.name || listing.user_id,
-        user_image: userMap[listing.user_id]?.image || null,
-      }));
+    return favoriteCounts;
+  }
 
-      // Add status information to all listings
-      const listingsWithStatus = processListingsWithStatus(enrichedListings);
+  /**
+   * Helper: Fetch every row a filtered query matches, newest first, a page at a time
+   * keep() can drop rows from each page (e.g. ones that don't match a search) so they aren't all held at once
+   * Returns null if any page fails, rather than a partial list
+   */
+  private static async fetchCandidates<T extends { id: string; created_at: string }>(
+    buildQuery: () => any,
+    keep: (rows: T[]) => T[] = rows => rows
+  ): Promise<T[] | null> {
+    const candidates: T[] = [];
+    let last: T | null = null;
+
+    while (true) {
+      let query = buildQuery()
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(CANDIDATE_PAGE_SIZE);
+
+      if (last) {
+        // Seek past the previous page (ties broken by id), like the keyset cursors
+        const createdAt = quoteFilterValue(last.created_at);
+        query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${last.id})`);
+      }
 
-      // Filter by status - only show approved listings by default, unless specifically requested
-      let filteredListings = listingsWithStatus;
-      if (status !== 'all') {
-        if (includeOwnListings && currentUserId) {
-          // Show all listings by current user regardless of status, but filter others by status
-          filteredListings = listingsWithStatus.filter(listing => 
-            listing.status === status || listing.user_id === currentUserId
-          );
-        } else {
-          filteredListings = listingsWithStatus.filter(listing => listing.status === status);
-        }
+      const { data, error } = await query;
+
+      if (error) {
+        dbLogger.error('Failed to fetch listing candidates', error);
+        return null;
       }
 
-      dbLogger.success('Listings fetched successfully', { count: filteredListings.length });
-      return filteredListings as Listing[];
-    } catch (error) {
-      dbLogger.error('Error in getListings', error);
+      const page: T[] = data || [];
+      const kept = new Set(keep(page));
+      candidates.push(...page.filter(row => kept.has(row)));
+
+      if (page.length < CANDIDATE_PAGE_SIZE) break;
+      last = page[page.length - 1];
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Helper: Join seller display info onto raw listing rows
+   */
+  private static async attachUserInfo(listingsData: any[]): Promise<Listing[]> {
+    if (listingsData.length === 0) {
       return [];
     }
+
+    // Get unique user IDs from listings
+    const userIds = Array.from(new Set(listingsData.map(listing => listing.user_id)));
+
+    // Fetch user data using the same pattern as mobile app
+    let userSettings: any[] = [];
+    if (userIds.length > 0) {
+      const { data: userData } = await supabase
+        .from('users')
+        .select('id, email, display_name, profile_image_url')
+        .in('id', userIds);
+
+      userSettings = userData || [];
+    }
+
+    // Create user lookup map (same as mobile app)
+    const userMap: any = {};
+    userSettings.forEach(u => {
+      userMap[u.id] = {
+        name: u.display_name || (u.email ? u.email.split('@')[0] : 'User'),
+        image: u.profile_image_url || null,
+      };
+    });
+
+    // Join user data with listings and add status information
+    const enrichedListings = listingsData.map(listing => ({
+      ...listing,
+      category: convertFromDbFormat(listing.category, 'category'),
+      condition: convertFromDbFormat(listing.condition, 'condition'),
+      user_name: userMap[listing.user_id]?.name || listing.user_id,
+      user_image: userMap[listing.user_id]?.image || null,
+    }));
+
+    return processListingsWithStatus(enrichedListings) as Listing[];
   }
 
   /**
@@ -416,13 +1045,20 @@ export class ListingService {
         return null;
       }
 
+      // Archived listings are kept for history but only their owner can open them
+      if (data.archived_at && currentUserId !== data.user_id) {
+        dbLogger.warn('Access to archived listing', { listingId, currentUserId });
+        return null;
+      }
+
       // Get user's other listings count
       const { data: userListings } = await supabase
         .from('listings')
         .select('id')
         .eq('user_id', data.user_id)
         .eq('is_sold', false)
-        .eq('is_draft', false);
+        .eq('is_draft', false)
+        .is('archived_at', null);
 
       // Get user's average rating
       const { data: ratings } = await supabase
@@ -456,6 +1092,12 @@ export class ListingService {
         location_lng: data.location_lng,
         status: status,
         denial_reason: denialReason,
+        availability: determineListingAvailability(data),
+        reserved_until: data.reserved_until,
+        ...pickSubleaseFields(data),
+        attributes: data.attributes || {},
+        ...pickTextbookFields(data),
+        image_variants: data.image_variants || {},
       };
 
       dbLogger.success('Listing fetched successfully', { listingId });
@@ -473,6 +1115,17 @@ export class ListingService {
     try {
       dbLogger.info('Deleting listing', { listingId, userId });
 
+      // Watchers have to be looked up before the delete removes their watchlist rows
+      const { data: listing } = await supabase
+        .from('listings')
+        .select('id, title, price, user_id, is_draft')
+        .eq('id', listingId)
+        .eq('user_id', userId)
+        .single();
+      const watcherIds = listing && !listing.is_draft
+        ? await WatchlistService.getWatcherIds(listingId, userId)
+        : [];
+
       const { error } = await supabase
         .from('listings')
         .delete()
@@ -485,6 +1138,11 @@ export class ListingService {
       }
 
       dbLogger.success('Listing deleted successfully', { listingId });
+
+      if (listing && watcherIds.length > 0) {
+        await WatchlistService.notifyWatchers(listing, 'deleted', { watcherIds });
+      }
+
       return true;
     } catch (error) {
       dbLogger.error('Error in deleteListing', error);
@@ -494,16 +1152,19 @@ export class ListingService {
 
   /**
    * Mark listing as sold/unsold
+   * Selling ends any reservation; unselling puts the listing back to available
    */
   static async markListingAsSold(listingId: string, userId: string, isSold: boolean): Promise<boolean> {
     try {
       dbLogger.info('Updating listing sold status', { listingId, userId, isSold });
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('listings')
-        .update({ is_sold: isSold })
+        .update({ is_sold: isSold, reserved_for: null, reserved_until: null })
         .eq('id', listingId)
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .select('id, title, price, user_id, is_draft')
+        .single();
 
       if (error) {
         dbLogger.error('Failed to update listing sold status', error);
@@ -511,6 +1172,11 @@ export class ListingService {
       }
 
       dbLogger.success('Listing sold status updated successfully', { listingId, isSold });
+
+      if (isSold && data && !data.is_draft) {
+        await WatchlistService.notifyWatchers(data, 'sold');
+      }
+
       return true;
     } catch (error) {
       dbLogger.error('Error in markListingAsSold', error);
@@ -518,6 +1184,91 @@ export class ListingService {
     }
   }
 
+  /**
+   * Reserve a listing for a buyer until the given time
+   * Only available listings (or ones already reserved for the same buyer) can be reserved
+   */
+  static async reserveListing(
+    listingId: string,
+    sellerId: string,
+    buyerId: string,
+    reservedUntil: Date
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      dbLogger.info('Reserving listing', { listingId, buyerId, reservedUntil });
+
+      if (buyerId === sellerId) {
+        return { success: false, error: "You can't reserve your own listing for yourself" };
+      }
+      if (reservedUntil.getTime() <= Date.now()) {
+        return { success: false, error: 'Reservation must end in the future' };
+      }
+
+      const { data: listing, error: fetchError } = await supabase
+        .from('listings')
+        .select('id, user_id, is_sold, reserved_for, reserved_until')
+        .eq('id', listingId)
+        .eq('user_id', sellerId) // Ensure user owns the listing
+        .single();
+
+      if (fetchError || !listing) {
+        return { success: false, error: 'Listing not found' };
+      }
+
+      const availability = determineListingAvailability(listing);
+      if (availability === 'sold') {
+        return { success: false, error: 'This listing has already been sold' };
+      }
+      if (availability === 'reserved' && listing.reserved_for !== buyerId) {
+        return { success: false, error: 'This listing is already reserved for another buyer' };
+      }
+
+      const { error } = await supabase
+        .from('listings')
+        .update({ reserved_for: buyerId, reserved_until: reservedUntil.toISOString() })
+        .eq('id', listingId)
+        .eq('user_id', sellerId);
+
+      if (error) {
+        dbLogger.error('Failed to reserve listing', error);
+        return { success: false, error: 'Failed to reserve listing' };
+      }
+
+      dbLogger.success('Listing reserved successfully', { listingId, buyerId });
+      return { success: true };
+    } catch (error) {
+      dbLogger.error('Error in reserveListing', error);
+      return { success: false, error: 'Failed to reserve listing' };
+    }
+  }
+
+  /**
+   * Release a reservation, putting the listing back to available
+   */
+  static async releaseReservation(listingId: string, sellerId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Releasing listing reservation', { listingId, sellerId });
+
+      const { error } = await supabase
+        .from('listings')
+        .update({ reserved_for: null, reserved_until: null })
+        .eq('id', listingId)
+        .eq('user_id', sellerId) // Ensure user owns the listing
+        .eq('is_sold', false);
+
+      if (error) {
+        dbLogger.error('Failed to release listing reservation', error);
+        return false;
+      }
+
+      dbLogger.success('Listing reservation released successfully', { listingId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in releaseReservation', error);
+      return false;
+    }
+  }
+
   /**
    * Add/remove favorite/watchlist listing
    */
@@ -649,110 +1400,180 @@ export class ListingService {
   }
 
   /**
-   * Upload images to storage
+   * Upload listing photos to storage
+   * Each new photo is resized, recompressed and stripped of metadata in the browser first, so the
+   * original (and its GPS coordinates) is never uploaded. URLs that are already uploaded pass through
+   * in place, so an edited listing keeps its photo order.
    */
-  static async uploadImages(images: File[], userId: string): Promise<string[]> {
-    const uploadedUrls: string[] = [];
+  static async uploadImages(images: (File | string)[], userId: string): Promise<UploadedListingImages> {
+    const uploaded: UploadedListingImages = { images: [], imageVariants: {} };
 
     try {
       dbLogger.info('Uploading images', { count: images.length, userId });
 
-      for (const image of images) {
-        const fileExt = image.name.split('.').pop();
-        const fileName = `${userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-        const filePath = `listings/${fileName}`;
-
-        const { data, error } = await supabase.storage
-          .from('listing-images')
-          .upload(filePath, image);
+      const { max_images_per_listing } = await SettingsService.getSettings();
+      if (images.length > max_images_per_listing) {
+        dbLogger.warn('Too many images, uploading only the allowed number', { count: images.length, max: max_images_per_listing });
+      }
 
-        if (error) {
-          dbLogger.error('Failed to upload image', error);
+      for (const image of images.slice(0, max_images_per_listing)) {
+        if (typeof image === 'string') {
+          uploaded.images.push(image);
           continue;
         }
 
-        const { data: urlData } = supabase.storage
-          .from('listing-images')
-          .getPublicUrl(data.path);
+        const basePath = `listings/${userId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const uploadedPaths: string[] = [];
+
+        try {
+          const { variants, placeholder } = await processListingImage(image);
+          const files: [string, Blob][] = [
+            [`${basePath}.jpg`, variants.large.blob],
+            [`${basePath}-medium.jpg`, variants.medium.blob],
+            [`${basePath}-thumb.jpg`, variants.thumbnail.blob],
+          ];
+
+          for (const [path, blob] of files) {
+            const { error } = await supabase.storage
+              .from(LISTING_IMAGES_BUCKET)
+              .upload(path, blob, { contentType: 'image/jpeg' });
+
+            if (error) {
+              throw error;
+            }
+            uploadedPaths.push(path);
+          }
+
+          const [largeUrl, mediumUrl, thumbnailUrl] = uploadedPaths.map(
+            path => supabase.storage.from(LISTING_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl
+          );
 
-        uploadedUrls.push(urlData.publicUrl);
+          uploaded.images.push(largeUrl);
+          uploaded.imageVariants[largeUrl] = {
+            medium: mediumUrl,
+            thumbnail: thumbnailUrl,
+            placeholder,
+            width: variants.large.width,
+            height: variants.large.height,
+          };
+        } catch (error) {
+          // Skip this photo without leaving half its variants behind
+          dbLogger.error('Failed to upload image', error);
+          if (uploadedPaths.length > 0) {
+            await supabase.storage.from(LISTING_IMAGES_BUCKET).remove(uploadedPaths);
+          }
+        }
       }
 
-      dbLogger.success('Images uploaded successfully', { count: uploadedUrls.length });
-      return uploadedUrls;
+      dbLogger.success('Images uploaded successfully', { count: Object.keys(uploaded.imageVariants).length });
+      return uploaded;
     } catch (error) {
       dbLogger.error('Error in uploadImages', error);
-      return uploadedUrls; // Return what we managed to upload
+      return uploaded; // Return what we managed to upload
     }
   }
 
   /**
    * Search listings with advanced filters
+   * Results are ranked by relevance and include match offsets for highlighting
    */
-  static async searchListings(searchTerm: string, filters: {
+  static async searchListings(searchTerm: string, searchFilters: {
     category?: string;
     minPrice?: number;
     maxPrice?: number;
     condition?: string;
     location?: string;
+    isbn?: string;
+    courseCodes?: string[];
+    currentUserId?: string; // Hides sellers on either side of a block with this user
+    excludeUserIds?: string[];
   } = {}): Promise<Listing[]> {
     try {
-      dbLogger.info('Searching listings', { searchTerm, filters });
+      dbLogger.info('Searching listings', { searchTerm, filters: searchFilters });
 
-      let query = supabase
-        .from('listings')
-        .select(`
-          *,
-          user:users!user_id(
-            id,
-            display_name,
-            profile_image_url
-          )
-        `)
-        .eq('is_sold', false)
-        .eq('is_draft', false)
-        .eq('status', 'approved')
-        .order('created_at', { ascending: false });
+      const { searchTerm: textSearchTerm, ...filters } = await this.withHiddenSellersExcluded(
+        this.withStructuredSearch({ ...searchFilters, searchTerm })
+      );
 
-      if (searchTerm) {
-        query = query.or(`title.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`);
-      }
+      const buildQuery = () => {
+        let query = supabase
+          .from('listings')
+          .select(`
+            *,
+            user:users!user_id(
+              id,
+              display_name,
+              profile_image_url
+            )
+          `)
+          .eq('is_sold', false)
+          .eq('is_draft', false)
+          .eq('status', 'approved')
+          .is('archived_at', null);
+
+        if (filters.category && filters.category !== 'All') {
+          query = query.eq('category', convertToDbFormat(filters.category, 'category'));
+        }
 
-      if (filters.category && filters.category !== 'All') {
-        query = query.eq('category', convertToDbFormat(filters.category, 'category'));
-      }
+        if (filters.minPrice !== undefined) {
+          query = query.gte('price', filters.minPrice);
+        }
 
-      if (filters.minPrice !== undefined) {
-        query = query.gte('price', filters.minPrice);
-      }
+        if (filters.maxPrice !== undefined) {
+          query = query.lte('price', filters.maxPrice);
+        }
 
-      if (filters.maxPrice !== undefined) {
-        query = query.lte('price', filters.maxPrice);
-      }
+        if (filters.condition) {
+          query = query.eq('condition', convertToDbFormat(filters.condition, 'condition'));
+        }
 
-      if (filters.condition) {
-        query = query.eq('condition', convertToDbFormat(filters.condition, 'condition'));
-      }
+        if (filters.location) {
+          query = query.ilike('location', `%${filters.location}%`);
+        }
 
-      if (filters.location) {
-        query = query.ilike('location', `%${filters.location}%`);
-      }
+        if (filters.isbn) {
+          query = query.eq('isbn', toIsbn13(filters.isbn) || filters.isbn);
+        }
 
-      const { data, error } = await query;
+        const courseCodes = normalizeCourseCodes(filters.courseCodes || []);
+        if (courseCodes.length > 0) {
+          query = query.overlaps('course_codes', courseCodes);
+        }
 
-      if (error) {
-        dbLogger.error('Failed to search listings', error);
+        if (filters.excludeUserIds && filters.excludeUserIds.length > 0) {
+          query = query.not('user_id', 'in', `(${filters.excludeUserIds.join(',')})`);
+        }
+
+        return query;
+      };
+
+      // Drop rows that don't match the text search page by page, so they aren't all held in memory
+      const data = await this.fetchCandidates<any>(
+        buildQuery,
+        textSearchTerm ? rows => this.rankSearchResults(rows, textSearchTerm).map(result => result.item) : undefined
+      );
+
+      if (!data) {
         return [];
       }
 
-      const convertedData = data?.map(listing => ({
+      const convertedData = data.map(listing => ({
         ...listing,
         category: convertFromDbFormat(listing.category, 'category'),
         condition: convertFromDbFormat(listing.condition, 'condition'),
-      })) || [];
+      }));
+
+      // Rank by relevance when there is a search term (ties stay newest first)
+      const rankedData = textSearchTerm
+        ? this.rankSearchResults(convertedData, textSearchTerm).map(result => ({
+            ...result.item,
+            search_score: result.score,
+            search_matches: result.matches,
+          }))
+        : convertedData;
 
       // Add status information and filter to only approved listings
-      const listingsWithStatus = processListingsWithStatus(convertedData);
+      const listingsWithStatus = processListingsWithStatus(rankedData);
       const approvedListings = listingsWithStatus.filter(listing => listing.status === 'approved');
 
       dbLogger.success('Search completed successfully', { count: approvedListings.length });
@@ -763,6 +1584,30 @@ export class ListingService {
     }
   }
 
+  /**
+   * Get a page of available textbooks tagged with any of the given course codes, cheapest first
+   * Backs the "books for my courses" page; each listing carries its course_codes for grouping.
+   * Pass the returned nextCursor back in as `cursor` to fetch the following page
+   */
+  static async getTextbooksForCourses(
+    courseCodes: string[],
+    currentUserId?: string,
+    cursor?: string | null
+  ): Promise<ListingsPage> {
+    const normalizedCourseCodes = normalizeCourseCodes(courseCodes);
+    if (normalizedCourseCodes.length === 0) return { listings: [], nextCursor: null };
+
+    return this.getListingsPage({
+      category: 'Textbooks',
+      courseCodes: normalizedCourseCodes,
+      availability: 'active',
+      currentUserId,
+      sortBy: 'price_asc',
+      limit: TEXTBOOK_PAGE_SIZE,
+      cursor,
+    });
+  }
+
   /**
    * Get user's denied listings that need to be edited and resubmitted
    */
@@ -812,7 +1657,7 @@ export class ListingService {
 
       const { error } = await supabase
         .from('listings')
-        .update({ status: 'pending' })
+        .update({ status: 'pending', archived_at: null, archive_reason: null })
         .eq('id', listingId)
         .eq('user_id', userId) // Ensure user owns the listing
         .eq('status', 'denied'); // Only allow resubmission of denied listings
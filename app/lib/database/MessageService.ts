@@ -1,18 +1,30 @@
+import { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../supabaseClient';
-import { Message, Conversation } from '../../props/listing';
+import { Message, MessageAttachment, Conversation } from '../../props/listing';
 import {
-  buildMessageQuery,
+  buildConversationLookupQuery,
+  buildMessagePageQuery,
   buildConversationQuery,
   buildUserSettingsQuery,
   buildListingQuery,
   buildMarkAsReadQuery,
-  buildDeleteMessagesQuery,
+  orderParticipants,
   MessageQueryParams,
   ConversationQueryParams,
   dbLogger
 } from './utils';
-import { encryptMessage, decryptMessage } from '../encryption';
-import { getPublicKey } from './KeyService';
+import {
+  encryptMessage,
+  encryptMessageWithAttachments,
+  decryptMessage,
+  decryptAttachment,
+  getKeyFingerprint,
+  getMessageFormat
+} from '../encryption';
+import { checkContactKey, getPublicKeys } from './KeyService';
+import { UserService } from './UserService';
+import { resizeImage } from '../utils/imageUtils';
+import { quoteFilterValue } from '../utils/cursorUtils';
 
 export interface SendMessageParams {
   senderId: string;
@@ -20,6 +32,7 @@ export interface SendMessageParams {
   content: string;
   listingId?: string | null;
   encryptionEnabled?: boolean; // Flag to enable/disable encryption (default: true)
+  attachments?: File[]; // Images, always sent encrypted
 }
 
 export interface GetMessagesParams {
@@ -27,41 +40,282 @@ export interface GetMessagesParams {
   otherUserId: string;
   listingId?: string | null;
   privateKey?: string; // User's private key for decryption (optional for backwards compatibility)
+  before?: Pick<Message, 'id' | 'created_at'>; // Oldest message already loaded; omit for the latest page
+  limit?: number;
 }
 
-export interface DeleteConversationParams {
-  userId: string;
-  otherUserId: string;
-  listingId?: string | null;
+export type MessageChangeEvent = 'INSERT' | 'UPDATE';
+
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  hasMore: boolean; // Older messages exist before this page
+  conversationId: string | null;
+}
+
+// Row shape of the conversations table, with the embedded last message
+interface ConversationRow {
+  id: string;
+  user_a: string;
+  user_b: string;
+  listing_id: string | null;
+  last_message_id: string | null;
+  last_message_at: string | null;
+  unread_count_a: number;
+  unread_count_b: number;
+  archived_a: boolean;
+  archived_b: boolean;
+  deleted_at_a: string | null;
+  deleted_at_b: string | null;
+  last_message: Message | null;
 }
 
+export interface PurgeJobResult {
+  purged: number;
+}
+
+const MESSAGE_PAGE_SIZE = 30;
+
+// A conversation deleted by one side is purged after this long without new messages
+export const DELETED_CONVERSATION_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps .in() filters well under URL length limits
+const PURGE_CHUNK_SIZE = 200;
+
+// Conversations fetched per request while looking for ones to purge
+const PURGE_SCAN_PAGE_SIZE = 1000;
+
+// Previews shown for message bodies the current user can't read
+const ENCRYPTED_PREVIEW = '🔒 Encrypted message';
+const LEGACY_SENT_PREVIEW = '🔒 Sent before message history was encrypted';
+const PHOTO_PREVIEW = '📷 Photo';
+
+const PRESENCE_CHANNEL = 'online-users';
+
+const ATTACHMENTS_BUCKET = 'message-attachments';
+export const MAX_MESSAGE_ATTACHMENTS = 4;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+const THUMBNAIL_SIZE = 320;
+
 /**
  * MessageService class following mobile app service layer pattern
  * Provides consistent database operations for messaging functionality
+ *
+ * Photo attachments are encrypted with the message's content key before upload,
+ * so the storage bucket only ever holds ciphertext.
+ *
+ * Each pair of users has one conversation per listing (plus one "general" chat).
+ * Triggers on messages keep the conversation's last message and unread counters
+ * current, so the inbox never has to scan the messages table.
+ *
+ * Archiving and deleting only affect the participant who does it. Deleting hides
+ * everything sent so far from that participant; the messages themselves are kept
+ * for the other side (and for reports) until both participants have deleted the
+ * conversation or it has sat deleted past the retention window. A scheduled job
+ * (see app/api/cron/purge-conversations) removes them after that.
+ *
+ * Database Schema (conversations):
+ *
+ * CREATE TABLE conversations (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   user_a UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   user_b UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   listing_id UUID NULL REFERENCES listings(id) ON DELETE CASCADE, -- NULL for general chats
+ *   last_message_id UUID NULL,
+ *   last_message_at TIMESTAMP NULL,
+ *   unread_count_a INT NOT NULL DEFAULT 0,
+ *   unread_count_b INT NOT NULL DEFAULT 0,
+ *   archived_a BOOLEAN NOT NULL DEFAULT FALSE,
+ *   archived_b BOOLEAN NOT NULL DEFAULT FALSE,
+ *   created_at TIMESTAMP DEFAULT NOW(),
+ *   CHECK (user_a < user_b),
+ *   UNIQUE NULLS NOT DISTINCT (user_a, user_b, listing_id)
+ * );
+ *
+ * ALTER TABLE messages ADD COLUMN conversation_id UUID NULL REFERENCES conversations(id) ON DELETE CASCADE;
+ * ALTER TABLE conversations ADD CONSTRAINT conversations_last_message_id_fkey
+ *   FOREIGN KEY (last_message_id) REFERENCES messages(id) ON DELETE SET NULL;
+ *
+ * CREATE INDEX idx_messages_conversation_created ON messages(conversation_id, created_at DESC, id DESC);
+ * CREATE INDEX idx_conversations_user_a ON conversations(user_a, last_message_at DESC);
+ * CREATE INDEX idx_conversations_user_b ON conversations(user_b, last_message_at DESC);
+ *
+ * ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY conversations_participants ON conversations FOR SELECT
+ *   USING (auth.uid() IN (user_a, user_b));
+ *
+ * -- Every new message is filed under its conversation, creating it on first contact
+ * CREATE FUNCTION assign_message_conversation() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   INSERT INTO conversations (user_a, user_b, listing_id)
+ *   VALUES (LEAST(NEW.sender_id, NEW.receiver_id), GREATEST(NEW.sender_id, NEW.receiver_id), NEW.listing_id)
+ *   ON CONFLICT (user_a, user_b, listing_id) DO UPDATE SET user_a = EXCLUDED.user_a
+ *   RETURNING id INTO NEW.conversation_id;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER messages_assign_conversation BEFORE INSERT ON messages
+ *   FOR EACH ROW EXECUTE FUNCTION assign_message_conversation();
+ *
+ * CREATE FUNCTION bump_conversation() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   UPDATE conversations SET
+ *     last_message_id = NEW.id,
+ *     last_message_at = NEW.created_at,
+ *     unread_count_a = unread_count_a + (CASE WHEN user_a = NEW.receiver_id THEN 1 ELSE 0 END),
+ *     unread_count_b = unread_count_b + (CASE WHEN user_b = NEW.receiver_id THEN 1 ELSE 0 END),
+ *     -- A new message brings an archived conversation back to the receiver's inbox
+ *     archived_a = archived_a AND user_a <> NEW.receiver_id,
+ *     archived_b = archived_b AND user_b <> NEW.receiver_id
+ *   WHERE id = NEW.conversation_id;
+ *   RETURN NULL;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER messages_bump_conversation AFTER INSERT ON messages
+ *   FOR EACH ROW EXECUTE FUNCTION bump_conversation();
+ *
+ * -- Reads and deletes are rarer than inserts, so they simply recount
+ * CREATE FUNCTION refresh_conversation() RETURNS TRIGGER AS $$
+ * DECLARE
+ *   target UUID := COALESCE(NEW.conversation_id, OLD.conversation_id);
+ * BEGIN
+ *   UPDATE conversations c SET
+ *     unread_count_a = (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND m.receiver_id = c.user_a AND NOT m.is_read),
+ *     unread_count_b = (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND m.receiver_id = c.user_b AND NOT m.is_read),
+ *     (last_message_id, last_message_at) = (
+ *       SELECT m.id, m.created_at FROM messages m WHERE m.conversation_id = c.id
+ *       ORDER BY m.created_at DESC, m.id DESC LIMIT 1
+ *     )
+ *   WHERE c.id = target;
+ *   RETURN NULL;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER messages_refresh_conversation AFTER UPDATE OF is_read OR DELETE ON messages
+ *   FOR EACH ROW EXECUTE FUNCTION refresh_conversation();
+ *
+ * -- Backfill for messages sent before conversations existed
+ * INSERT INTO conversations (user_a, user_b, listing_id)
+ *   SELECT DISTINCT LEAST(sender_id, receiver_id), GREATEST(sender_id, receiver_id), listing_id FROM messages
+ *   ON CONFLICT DO NOTHING;
+ * UPDATE messages m SET conversation_id = c.id FROM conversations c
+ *   WHERE c.user_a = LEAST(m.sender_id, m.receiver_id) AND c.user_b = GREATEST(m.sender_id, m.receiver_id)
+ *   AND c.listing_id IS NOT DISTINCT FROM m.listing_id;
+ * -- Touching one message per conversation runs refresh_conversation to fill in the counters
+ * UPDATE messages SET is_read = is_read WHERE id IN (SELECT DISTINCT ON (conversation_id) id FROM messages);
+ *
+ * Database Schema (archive and delete):
+ *
+ * ALTER TABLE conversations ADD COLUMN deleted_at_a TIMESTAMP NULL; -- user_a hid every message up to this time
+ * ALTER TABLE conversations ADD COLUMN deleted_at_b TIMESTAMP NULL;
+ *
+ * CREATE INDEX idx_conversations_deleted ON conversations(id)
+ *   WHERE deleted_at_a IS NOT NULL OR deleted_at_b IS NOT NULL;
+ *
+ * CREATE POLICY conversations_participants_update ON conversations FOR UPDATE
+ *   USING (auth.uid() IN (user_a, user_b));
+ *
+ * -- Participants may only change their own archive and delete state; the message
+ * -- triggers above run as the table owner and are not affected
+ * CREATE FUNCTION guard_conversation_update() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   IF current_user = 'authenticated' AND (
+ *     (NEW.user_a, NEW.user_b, NEW.listing_id, NEW.last_message_id, NEW.last_message_at, NEW.unread_count_a, NEW.unread_count_b)
+ *       IS DISTINCT FROM (OLD.user_a, OLD.user_b, OLD.listing_id, OLD.last_message_id, OLD.last_message_at, OLD.unread_count_a, OLD.unread_count_b)
+ *     OR (auth.uid() <> OLD.user_a AND (NEW.archived_a, NEW.deleted_at_a) IS DISTINCT FROM (OLD.archived_a, OLD.deleted_at_a))
+ *     OR (auth.uid() <> OLD.user_b AND (NEW.archived_b, NEW.deleted_at_b) IS DISTINCT FROM (OLD.archived_b, OLD.deleted_at_b))
+ *   ) THEN
+ *     RAISE EXCEPTION 'Participants can only archive or delete their own side of a conversation';
+ *   END IF;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql;
+ *
+ * CREATE TRIGGER conversations_guard_update BEFORE UPDATE ON conversations
+ *   FOR EACH ROW EXECUTE FUNCTION guard_conversation_update();
+ *
+ * Database Schema (attachments):
+ *
+ * ALTER TABLE messages ADD COLUMN attachments JSONB NULL;
+ *
+ * -- Private bucket; objects live under {sender_id}/{receiver_id}/
+ * INSERT INTO storage.buckets (id, name, public) VALUES ('message-attachments', 'message-attachments', false);
+ * CREATE POLICY message_attachments_upload ON storage.objects FOR INSERT
+ *   WITH CHECK (bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+ * CREATE POLICY message_attachments_read ON storage.objects FOR SELECT
+ *   USING (bucket_id = 'message-attachments' AND auth.uid()::text IN ((storage.foldername(name))[1], (storage.foldername(name))[2]));
+ * -- Only the sender removes their own files; purging deleted conversations runs with the service role
+ * CREATE POLICY message_attachments_delete ON storage.objects FOR DELETE
+ *   USING (bucket_id = 'message-attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
  */
 export class MessageService {
   /**
    * Send a new message (with optional encryption)
+   * Returns null without sending if the receiver's key changed and the sender hasn't verified the new one
    */
   static async sendMessage(params: SendMessageParams): Promise<Message | null> {
-    const { senderId, receiverId, content, listingId, encryptionEnabled = true } = params;
+    const { senderId, receiverId, content, listingId, encryptionEnabled = true, attachments = [] } = params;
 
     try {
-      dbLogger.info('Sending message', { senderId, receiverId, listingId, encrypted: encryptionEnabled });
+      dbLogger.info('Sending message', { senderId, receiverId, listingId, encrypted: encryptionEnabled, attachments: attachments.length });
+
+      if (!(await UserService.canContactUser(senderId, receiverId))) {
+        dbLogger.warn('Message blocked: users cannot contact each other', { senderId, receiverId });
+        return null;
+      }
+
+      if (attachments.length > MAX_MESSAGE_ATTACHMENTS) {
+        dbLogger.warn('Too many attachments', { count: attachments.length });
+        return null;
+      }
+      if (attachments.some(file => !file.type.startsWith('image/') || file.size > MAX_ATTACHMENT_SIZE)) {
+        dbLogger.warn('Attachment rejected: not an image or too large');
+        return null;
+      }
+      if (attachments.length > 0 && !encryptionEnabled) {
+        dbLogger.warn('Attachments can only be sent encrypted');
+        return null;
+      }
 
       let contentToStore = content;
+      let storedAttachments: MessageAttachment[] | null = null;
 
       // Encrypt message if encryption is enabled
       if (encryptionEnabled) {
-        // Fetch receiver's public key
-        const receiverPublicKey = await getPublicKey(receiverId);
+        // Fetch both participants' public keys so the sender can read their own history
+        const publicKeys = await getPublicKeys([receiverId, senderId]);
+        const receiverPublicKey = publicKeys.get(receiverId);
+        const senderPublicKey = publicKeys.get(senderId);
 
         if (!receiverPublicKey) {
+          if (attachments.length > 0) {
+            dbLogger.warn('Receiver has no public key, cannot send attachments', { receiverId });
+            return null;
+          }
           dbLogger.warn('Receiver has no public key, sending unencrypted', { receiverId });
           // Fall back to unencrypted if receiver has no keys (backwards compatibility)
         } else {
-          // Encrypt the message
-          contentToStore = await encryptMessage(content, receiverPublicKey);
+          // Never encrypt to a key the sender hasn't re-verified since it changed, whatever the caller
+          const keyStatus = await checkContactKey(senderId, receiverId, await getKeyFingerprint(receiverPublicKey));
+          if (keyStatus === 'changed') {
+            dbLogger.warn('Message blocked: receiver key changed and is not verified', { senderId, receiverId });
+            return null;
+          }
+          if (!senderPublicKey) {
+            dbLogger.warn('Sender has no public key, message will only be readable by the receiver', { senderId });
+          }
+          const recipientKeys = senderPublicKey ? [receiverPublicKey, senderPublicKey] : [receiverPublicKey];
+
+          if (attachments.length > 0) {
+            const prepared = await this.uploadEncryptedAttachments(senderId, receiverId, content, attachments, recipientKeys);
+            if (!prepared) return null;
+            contentToStore = prepared.content;
+            storedAttachments = prepared.attachments;
+          } else {
+            contentToStore = await encryptMessage(content, recipientKeys);
+          }
           dbLogger.info('Message encrypted successfully');
         }
       }
@@ -74,12 +328,14 @@ export class MessageService {
           content: contentToStore, // Now encrypted (or plain if encryption disabled/unavailable)
           is_read: false,
           listing_id: listingId || null,
+          attachments: storedAttachments,
         })
         .select()
         .single();
 
       if (error) {
         dbLogger.error('Failed to send message', error);
+        if (storedAttachments) await this.removeAttachmentFiles([{ attachments: storedAttachments }]);
         return null;
       }
 
@@ -89,6 +345,7 @@ export class MessageService {
       return {
         ...data,
         content: content, // Return original content, not encrypted version
+        encrypted_content: storedAttachments ? contentToStore : undefined,
       } as Message;
     } catch (error) {
       dbLogger.error('Error in sendMessage', error);
@@ -97,129 +354,105 @@ export class MessageService {
   }
 
   /**
-   * Get messages between two users for a specific conversation (with decryption)
+   * Get one page of messages between two users for a specific conversation (with decryption)
+   * Returns the latest page by default; pass the oldest loaded message as `before` to scroll back
    */
-  static async getMessages(params: GetMessagesParams): Promise<Message[]> {
-    const { userId, otherUserId, listingId, privateKey } = params;
+  static async getMessages(params: GetMessagesParams): Promise<MessagePage> {
+    const { userId, otherUserId, listingId, privateKey, before, limit = MESSAGE_PAGE_SIZE } = params;
+    const emptyPage: MessagePage = { messages: [], hasMore: false, conversationId: null };
 
     try {
-      dbLogger.info('Fetching messages', { userId, otherUserId, listingId });
+      dbLogger.info('Fetching messages', { userId, otherUserId, listingId, before: before?.id });
 
-      const query = buildMessageQuery(supabase, {
+      const { data: conversation, error: conversationError } = await buildConversationLookupQuery(supabase, {
         userId,
         otherUserId,
         listingId
-      });
+      }).maybeSingle();
 
-      const { data, error } = await query;
+      if (conversationError) {
+        dbLogger.error('Failed to look up conversation', conversationError);
+        return emptyPage;
+      }
+      if (!conversation) {
+        // No messages have been sent yet
+        return emptyPage;
+      }
+
+      // Fetch one extra row to know whether there is another page
+      const { data, error } = await buildMessagePageQuery(supabase, {
+        conversationId: conversation.id,
+        before,
+        after: conversation.user_a === userId ? conversation.deleted_at_a : conversation.deleted_at_b,
+        limit: limit + 1
+      });
 
       if (error) {
         dbLogger.error('Failed to fetch messages', error);
-        return [];
+        return { ...emptyPage, conversationId: conversation.id };
       }
 
-      const messages = data as Message[] || [];
-
-      // Decrypt messages if private key is provided
-      if (privateKey && messages.length > 0) {
-        dbLogger.info('Decrypting messages', { count: messages.length });
-
-        const decryptedMessages = await Promise.all(
-          messages.map(async (msg) => {
-            try {
-              // Only decrypt messages where current user is the receiver
-              // (messages are encrypted with receiver's public key)
-              if (msg.receiver_id === userId) {
-                const decryptedContent = await decryptMessage(msg.content, privateKey);
-                return { ...msg, content: decryptedContent };
-              }
-              // For sent messages, try to decrypt (they should be encrypted with the other user's key)
-              // If decryption fails, it's likely an old unencrypted message
-              else if (msg.sender_id === userId) {
-                // Sent messages were encrypted with receiver's public key
-                // We can't decrypt them (we don't have receiver's private key)
-                // Just return as-is (will show encrypted or plain text)
-                return msg;
-              }
-              return msg;
-            } catch (error) {
-              // If decryption fails, it's likely an old unencrypted message
-              dbLogger.warn('Failed to decrypt message, returning as-is', { messageId: msg.id });
-              return msg;
-            }
-          })
-        );
+      const rows = (data as Message[]) || [];
+      const hasMore = rows.length > limit;
+      const messages = rows.slice(0, limit).reverse();
 
-        dbLogger.success('Messages decrypted successfully');
-        return decryptedMessages;
-      }
+      // Decrypt sent and received messages alike; plaintext passes through untouched
+      const decryptedMessages = await Promise.all(
+        messages.map((msg) => this.decryptForDisplay(msg, userId, privateKey))
+      );
 
-      dbLogger.success('Messages fetched successfully', { count: messages.length });
-      return messages;
+      dbLogger.success('Messages fetched successfully', { count: decryptedMessages.length, hasMore });
+      return { messages: decryptedMessages, hasMore, conversationId: conversation.id };
     } catch (error) {
       dbLogger.error('Error in getMessages', error);
-      return [];
+      return emptyPage;
     }
   }
 
   /**
    * Get all conversations for a user (with encrypted message preview handling)
+   * Archived and deleted conversations are included and flagged so they can be restored
    */
   static async getConversations(userId: string, privateKey?: string): Promise<Conversation[]> {
     try {
       dbLogger.info('Fetching conversations', { userId });
 
       const query = buildConversationQuery(supabase, { userId });
-      const { data: messagesData, error: messagesError } = await query;
+      const { data: conversationData, error: conversationsError } = await query;
 
-      if (messagesError) {
-        dbLogger.error('Failed to fetch conversations', messagesError);
+      if (conversationsError) {
+        dbLogger.error('Failed to fetch conversations', conversationsError);
         return [];
       }
 
-      const filteredMessages = messagesData?.filter(
-        (msg) => msg.sender_id === userId || msg.receiver_id === userId
-      ) || [];
-
-      // Group by user_id and listing_id
+      const rows = (conversationData as ConversationRow[]) || [];
       const conversationMap = new Map<string, Conversation>();
 
-      for (const message of filteredMessages) {
-        const partnerId = message.sender_id === userId ? message.receiver_id : message.sender_id;
-        const listingId = message.listing_id || "general";
-        const key = `${partnerId}:${listingId}`;
-
-        // Decrypt last message if possible
-        let lastMessage = message.content;
-        if (privateKey && message.receiver_id === userId) {
-          try {
-            lastMessage = await decryptMessage(message.content, privateKey);
-          } catch (error) {
-            // If decryption fails, show encrypted indicator
-            lastMessage = "🔒 Encrypted message";
-          }
-        } else if (this.looksEncrypted(message.content)) {
-          // Message is encrypted but we can't decrypt it
-          lastMessage = "🔒 Encrypted message";
-        }
-
-        if (!conversationMap.has(key)) {
-          conversationMap.set(key, {
-            user_id: partnerId,
-            user_name: "", // Will be populated later
-            user_image: undefined,
-            listing_id: listingId,
-            listing_title: "",
-            last_message: lastMessage,
-            last_message_time: message.created_at,
-            unread_count: message.receiver_id === userId && !message.is_read ? 1 : 0,
-          });
-        } else {
-          const conv = conversationMap.get(key)!;
-          if (message.receiver_id === userId && !message.is_read) {
-            conv.unread_count++;
-          }
-        }
+      for (const row of rows) {
+        const isUserA = row.user_a === userId;
+        const partnerId = isUserA ? row.user_b : row.user_a;
+        const listingId = row.listing_id || "general";
+        const deletedAt = isUserA ? row.deleted_at_a : row.deleted_at_b;
+
+        const lastMessage = row.last_message
+          ? (await this.decryptContent(row.last_message, userId, privateKey))
+            || (row.last_message.attachments?.length ? PHOTO_PREVIEW : '')
+          : '';
+
+        conversationMap.set(row.id, {
+          id: row.id,
+          user_id: partnerId,
+          user_name: "", // Will be populated later
+          user_image: undefined,
+          listing_id: listingId,
+          listing_title: "",
+          last_message: lastMessage,
+          last_message_time: row.last_message_at || undefined,
+          unread_count: isUserA ? row.unread_count_a : row.unread_count_b,
+          archived: isUserA ? row.archived_a : row.archived_b,
+          // Messages sent after a delete bring the conversation back
+          deleted: !!deletedAt && !this.hasMessagesAfter(row, deletedAt),
+        });
       }
 
       // Fetch user settings for all partner IDs
@@ -288,6 +521,34 @@ export class MessageService {
     }
   }
 
+  /**
+   * Mark everything the user has received in a conversation as read
+   * Covers older pages that haven't been loaded yet
+   */
+  static async markConversationAsRead(conversationId: string, userId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Marking conversation as read', { conversationId, userId });
+
+      const { error } = await supabase
+        .from('messages')
+        .update({ is_read: true })
+        .eq('conversation_id', conversationId)
+        .eq('receiver_id', userId)
+        .eq('is_read', false);
+
+      if (error) {
+        dbLogger.error('Failed to mark conversation as read', error);
+        return false;
+      }
+
+      dbLogger.success('Conversation marked as read');
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in markConversationAsRead', error);
+      return false;
+    }
+  }
+
   /**
    * Delete a single message
    */
@@ -295,16 +556,19 @@ export class MessageService {
     try {
       dbLogger.info('Deleting message', { messageId });
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('messages')
         .delete()
-        .eq('id', messageId);
+        .eq('id', messageId)
+        .select('attachments');
 
       if (error) {
         dbLogger.error('Failed to delete message', error);
         return false;
       }
 
+      await this.removeAttachmentFiles(data || []);
+
       dbLogger.success('Message deleted successfully');
       return true;
     } catch (error) {
@@ -314,102 +578,166 @@ export class MessageService {
   }
 
   /**
-   * Delete entire conversation between two users
+   * Move a conversation out of the user's inbox (the other participant is unaffected)
    */
-  static async deleteConversation(params: DeleteConversationParams): Promise<boolean> {
-    const { userId, otherUserId, listingId } = params;
+  static async archiveConversation(conversationId: string, userId: string): Promise<boolean> {
+    dbLogger.info('Archiving conversation', { conversationId, userId });
+    return this.updateOwnSide(conversationId, userId, { archived: true });
+  }
 
-    try {
-      dbLogger.info('Deleting conversation', { userId, otherUserId, listingId });
+  /**
+   * Return an archived conversation to the user's inbox
+   */
+  static async unarchiveConversation(conversationId: string, userId: string): Promise<boolean> {
+    dbLogger.info('Unarchiving conversation', { conversationId, userId });
+    return this.updateOwnSide(conversationId, userId, { archived: false });
+  }
 
-      const query = buildDeleteMessagesQuery(supabase, {
-        userId,
-        otherUserId,
-        listingId
-      });
+  /**
+   * Delete a conversation for the user only
+   * The other participant keeps their copy; new messages start the conversation afresh
+   */
+  static async deleteConversation(conversationId: string, userId: string): Promise<boolean> {
+    dbLogger.info('Deleting conversation', { conversationId, userId });
+
+    const deleted = await this.updateOwnSide(conversationId, userId, {
+      archived: false,
+      deleted_at: new Date().toISOString(),
+    });
+    if (deleted) {
+      await this.markConversationAsRead(conversationId, userId);
+    }
+    return deleted;
+  }
 
-      const { error } = await query;
+  /**
+   * Bring back a conversation the user deleted, as long as it hasn't been purged
+   */
+  static async restoreConversation(conversationId: string, userId: string): Promise<boolean> {
+    dbLogger.info('Restoring conversation', { conversationId, userId });
+    return this.updateOwnSide(conversationId, userId, { deleted_at: null });
+  }
 
-      if (error) {
-        dbLogger.error('Failed to delete conversation', error);
-        return false;
+  /**
+   * Permanently remove conversations both participants deleted, or that one side deleted
+   * longer ago than the retention window, along with their messages and attachments
+   * Runs with a server client so it can see every user's conversations
+   */
+  static async purgeDeletedConversations(client: SupabaseClient, now: Date = new Date()): Promise<PurgeJobResult> {
+    const result: PurgeJobResult = { purged: 0 };
+
+    try {
+      dbLogger.info('Purging deleted conversations', { now: now.toISOString() });
+
+      const cutoff = now.getTime() - DELETED_CONVERSATION_RETENTION_DAYS * DAY_MS;
+      const cutoffValue = quoteFilterValue(new Date(cutoff).toISOString());
+
+      // Only rows that can be purged come back: deleted by both sides, or by one side before the cutoff.
+      // New messages after a delete point still keep a row, so pages are walked by id to the end
+      // rather than assuming kept rows drop out of the next query
+      let lastId: string | null = null;
+
+      while (true) {
+        let query = client
+          .from('conversations')
+          .select('id, last_message_at, deleted_at_a, deleted_at_b')
+          .or(`and(deleted_at_a.not.is.null,deleted_at_b.not.is.null),deleted_at_a.lt.${cutoffValue},deleted_at_b.lt.${cutoffValue}`)
+          .order('id')
+          .limit(PURGE_SCAN_PAGE_SIZE);
+        if (lastId) query = query.gt('id', lastId);
+
+        const { data, error } = await query;
+
+        if (error) {
+          dbLogger.error('Failed to fetch deleted conversations', error);
+          break;
+        }
+
+        const page = data || [];
+        const expiredIds = page
+          .filter(row => {
+            const deletedA = row.deleted_at_a && !this.hasMessagesAfter(row, row.deleted_at_a) ? new Date(row.deleted_at_a).getTime() : null;
+            const deletedB = row.deleted_at_b && !this.hasMessagesAfter(row, row.deleted_at_b) ? new Date(row.deleted_at_b).getTime() : null;
+            return (deletedA !== null && deletedB !== null)
+              || (deletedA !== null && deletedA < cutoff)
+              || (deletedB !== null && deletedB < cutoff);
+          })
+          .map(row => row.id);
+
+        for (let i = 0; i < expiredIds.length; i += PURGE_CHUNK_SIZE) {
+          const chunk = expiredIds.slice(i, i + PURGE_CHUNK_SIZE);
+
+          const { data: withAttachments } = await client
+            .from('messages')
+            .select('attachments')
+            .in('conversation_id', chunk)
+            .not('attachments', 'is', null);
+          await this.removeAttachmentFiles(withAttachments || [], client);
+
+          // Messages go with their conversation (ON DELETE CASCADE)
+          const { error: deleteError } = await client
+            .from('conversations')
+            .delete()
+            .in('id', chunk);
+
+          if (deleteError) {
+            dbLogger.error('Failed to purge conversations', deleteError);
+            continue;
+          }
+          result.purged += chunk.length;
+        }
+
+        if (page.length < PURGE_SCAN_PAGE_SIZE) break;
+        lastId = page[page.length - 1].id;
       }
 
-      dbLogger.success('Conversation deleted successfully');
-      return true;
+      dbLogger.success('Deleted conversations purged', result);
+      return result;
     } catch (error) {
-      dbLogger.error('Error in deleteConversation', error);
-      return false;
+      dbLogger.error('Error in purgeDeletedConversations', error);
+      return result;
     }
   }
 
   /**
    * Subscribe to real-time message updates (with decryption)
+   * Only rows the user sent or received are streamed; UPDATE events on sent
+   * messages carry read receipts
    */
   static subscribeToMessages(
     userId: string,
-    onMessage: (message: Message) => void,
+    onMessage: (message: Message, event: MessageChangeEvent) => void,
     onError?: (error: any) => void,
     privateKey?: string
   ) {
     dbLogger.info('Setting up message subscription', { userId, encrypted: !!privateKey });
 
+    const handleChange = async (payload: RealtimePostgresChangesPayload<Message>) => {
+      try {
+        if (payload.eventType !== 'INSERT' && payload.eventType !== 'UPDATE') return;
+
+        const message = payload.new as Message;
+        dbLogger.info('Message change received via subscription', { messageId: message.id, event: payload.eventType });
+
+        onMessage(await this.decryptForDisplay(message, userId, privateKey), payload.eventType);
+      } catch (error) {
+        dbLogger.error('Error processing subscription event', error);
+        if (onError) onError(error);
+      }
+    };
+
+    // Realtime filters take a single column, so received and sent messages are separate bindings
     const subscription = supabase
-      .channel('messages_channel')
-      .on(
+      .channel(`messages:${userId}`)
+      .on<Message>(
         'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'messages'
-        },
-        async (payload) => {
-          try {
-            if (payload.eventType === 'INSERT') {
-              const newMessage = payload.new as Message;
-              if (newMessage.sender_id === userId || newMessage.receiver_id === userId) {
-                dbLogger.info('New message received via subscription', { messageId: newMessage.id });
-
-                // Decrypt if this is a received message and we have the private key
-                if (privateKey && newMessage.receiver_id === userId) {
-                  try {
-                    const decryptedContent = await decryptMessage(newMessage.content, privateKey);
-                    onMessage({ ...newMessage, content: decryptedContent });
-                  } catch (error) {
-                    dbLogger.warn('Failed to decrypt incoming message', { messageId: newMessage.id });
-                    onMessage(newMessage); // Pass through even if decryption fails
-                  }
-                } else {
-                  onMessage(newMessage);
-                }
-              }
-            } else if (payload.eventType === 'UPDATE') {
-              const updatedMessage = payload.new as Message;
-              if (updatedMessage.sender_id === userId || updatedMessage.receiver_id === userId) {
-                dbLogger.info('Message updated via subscription', { messageId: updatedMessage.id });
-
-                // Decrypt if this is a received message and we have the private key
-                if (privateKey && updatedMessage.receiver_id === userId) {
-                  try {
-                    const decryptedContent = await decryptMessage(updatedMessage.content, privateKey);
-                    onMessage({ ...updatedMessage, content: decryptedContent });
-                  } catch (error) {
-                    dbLogger.warn('Failed to decrypt updated message', { messageId: updatedMessage.id });
-                    onMessage(updatedMessage); // Pass through even if decryption fails
-                  }
-                } else {
-                  onMessage(updatedMessage);
-                }
-              }
-            } else if (payload.eventType === 'DELETE') {
-              // Handle message deletion if needed
-              dbLogger.info('Message deleted via subscription');
-            }
-          } catch (error) {
-            dbLogger.error('Error processing subscription event', error);
-            if (onError) onError(error);
-          }
-        }
+        { event: '*', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` },
+        handleChange
+      )
+      .on<Message>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages', filter: `sender_id=eq.${userId}` },
+        handleChange
       )
       .subscribe((status) => {
         if (status === 'SUBSCRIBED') {
@@ -423,15 +751,254 @@ export class MessageService {
   }
 
   /**
-   * Helper: Check if a string looks like an encrypted message (base64)
-   * Encrypted messages are typically long base64 strings
+   * Join a conversation's broadcast channel to share "typing…" state
+   * Nothing is stored; events only reach participants who are currently connected
    */
-  private static looksEncrypted(content: string): boolean {
-    // Encrypted messages are base64 and typically quite long
-    if (!content || content.length < 50) return false;
+  static subscribeToTyping(
+    params: MessageQueryParams,
+    onTypingChange: (isTyping: boolean) => void
+  ) {
+    const { userId, otherUserId, listingId } = params;
+    const [userA, userB] = orderParticipants(userId, otherUserId);
+    const channel = supabase.channel(`typing:${userA}:${userB}:${listingId || 'general'}`, {
+      config: { broadcast: { self: false } }
+    });
+
+    channel
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload?.user_id === otherUserId) {
+          onTypingChange(!!payload.is_typing);
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          dbLogger.error('Typing channel error', status);
+        }
+      });
+
+    return {
+      sendTyping: (isTyping: boolean) => {
+        channel.send({ type: 'broadcast', event: 'typing', payload: { user_id: userId, is_typing: isTyping } });
+      },
+      unsubscribe: () => {
+        channel.unsubscribe();
+      }
+    };
+  }
+
+  /**
+   * Track the user as online and report who else is
+   * Presence is keyed by user id, so several open tabs count once
+   */
+  static subscribeToPresence(userId: string, onChange: (onlineUserIds: Set<string>) => void) {
+    const channel = supabase.channel(PRESENCE_CHANNEL, {
+      config: { presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        onChange(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ online_at: new Date().toISOString() });
+        } else if (status === 'CHANNEL_ERROR') {
+          dbLogger.error('Presence channel error', status);
+        }
+      });
 
-    // Check if it's mostly base64 characters
-    const base64Regex = /^[A-Za-z0-9+/=]+$/;
-    return base64Regex.test(content) && content.length > 100;
+    return channel;
   }
-}
\ No newline at end of file
+
+  /**
+   * Download and decrypt a photo attachment
+   * The caller owns the returned object URL and should revoke it when done
+   *
+   * @returns Object URL of the decrypted image, or null if it can't be opened
+   */
+  static async loadAttachment(
+    message: Message,
+    attachment: MessageAttachment,
+    privateKey: string,
+    variant: 'thumbnail' | 'full' = 'thumbnail'
+  ): Promise<string | null> {
+    if (!message.encrypted_content) return null;
+
+    try {
+      const path = variant === 'thumbnail' ? attachment.thumbnail_path : attachment.path;
+      const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(path);
+
+      if (error || !data) {
+        dbLogger.error('Failed to download attachment', error);
+        return null;
+      }
+
+      const decrypted = await decryptAttachment(await data.arrayBuffer(), message.encrypted_content, privateKey);
+      const type = variant === 'thumbnail' ? 'image/jpeg' : attachment.mime_type;
+      return URL.createObjectURL(new Blob([decrypted], { type }));
+    } catch (error) {
+      dbLogger.error('Error in loadAttachment', error);
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Encrypt images with the message key and upload them with their thumbnails
+   * Removes anything already uploaded if a later upload fails
+   */
+  private static async uploadEncryptedAttachments(
+    senderId: string,
+    receiverId: string,
+    content: string,
+    files: File[],
+    recipientKeys: string[]
+  ): Promise<{ content: string; attachments: MessageAttachment[] } | null> {
+    const uploadedPaths: string[] = [];
+
+    try {
+      const images = await Promise.all(
+        files.map(async (file) => {
+          const thumbnail = await resizeImage(file, THUMBNAIL_SIZE);
+          return { file, thumbnail, data: await file.arrayBuffer(), thumbnailData: await thumbnail.blob.arrayBuffer() };
+        })
+      );
+
+      // Full image and thumbnail for each file, in that order
+      const sealed = await encryptMessageWithAttachments(
+        content,
+        images.flatMap(image => [image.data, image.thumbnailData]),
+        recipientKeys
+      );
+
+      const attachments: MessageAttachment[] = [];
+      for (let i = 0; i < images.length; i++) {
+        const path = `${senderId}/${receiverId}/${crypto.randomUUID()}`;
+        const thumbnailPath = `${path}-thumb`;
+        const uploads: [string, ArrayBuffer][] = [
+          [path, sealed.attachments[i * 2]],
+          [thumbnailPath, sealed.attachments[i * 2 + 1]],
+        ];
+
+        for (const [uploadPath, part] of uploads) {
+          const { error } = await supabase.storage
+            .from(ATTACHMENTS_BUCKET)
+            .upload(uploadPath, new Blob([part], { type: 'application/octet-stream' }), { upsert: false });
+
+          if (error) {
+            throw error;
+          }
+          uploadedPaths.push(uploadPath);
+        }
+
+        attachments.push({
+          path,
+          thumbnail_path: thumbnailPath,
+          mime_type: images[i].file.type,
+          size: images[i].file.size,
+          width: images[i].thumbnail.originalWidth,
+          height: images[i].thumbnail.originalHeight,
+        });
+      }
+
+      return { content: sealed.content, attachments };
+    } catch (error) {
+      dbLogger.error('Failed to upload attachments', error);
+      if (uploadedPaths.length > 0) {
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploadedPaths);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Update the user's own archive/delete columns on a conversation
+   */
+  private static async updateOwnSide(
+    conversationId: string,
+    userId: string,
+    changes: { archived?: boolean; deleted_at?: string | null }
+  ): Promise<boolean> {
+    try {
+      const { data: conversation, error: fetchError } = await supabase
+        .from('conversations')
+        .select('user_a, user_b')
+        .eq('id', conversationId)
+        .single();
+
+      if (fetchError || !conversation || ![conversation.user_a, conversation.user_b].includes(userId)) {
+        dbLogger.error('Conversation not found for user', fetchError);
+        return false;
+      }
+
+      const side = conversation.user_a === userId ? 'a' : 'b';
+      const update: Record<string, boolean | string | null> = {};
+      if (changes.archived !== undefined) update[`archived_${side}`] = changes.archived;
+      if (changes.deleted_at !== undefined) update[`deleted_at_${side}`] = changes.deleted_at;
+
+      const { error } = await supabase
+        .from('conversations')
+        .update(update)
+        .eq('id', conversationId);
+
+      if (error) {
+        dbLogger.error('Failed to update conversation', error);
+        return false;
+      }
+
+      dbLogger.success('Conversation updated', { conversationId, ...update });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in updateOwnSide', error);
+      return false;
+    }
+  }
+
+  /**
+   * Helper: Whether a conversation has messages newer than a participant's delete point
+   */
+  private static hasMessagesAfter(conversation: { last_message_at: string | null }, deletedAt: string): boolean {
+    return !!conversation.last_message_at
+      && new Date(conversation.last_message_at).getTime() > new Date(deletedAt).getTime();
+  }
+
+  /**
+   * Helper: Remove the stored files of deleted messages
+   */
+  private static async removeAttachmentFiles(
+    rows: { attachments?: MessageAttachment[] | null }[],
+    client: SupabaseClient = supabase
+  ) {
+    const paths = rows.flatMap(row => (row.attachments || []).flatMap(a => [a.path, a.thumbnail_path]));
+    if (paths.length === 0) return;
+
+    const { error } = await client.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+    if (error) {
+      dbLogger.error('Failed to remove message attachments', error);
+    }
+  }
+
+  /**
+   * Helper: Decrypt a message for the UI, keeping the envelope when it has attachments
+   */
+  private static async decryptForDisplay(message: Message, userId: string, privateKey?: string): Promise<Message> {
+    return {
+      ...message,
+      content: await this.decryptContent(message, userId, privateKey),
+      encrypted_content: message.attachments?.length ? message.content : undefined,
+    };
+  }
+
+  /**
+   * Helper: Turn a stored message body into text the current user can display
+   * Dispatches on the stored format; legacy v1 messages were encrypted for the receiver only
+   */
+  private static async decryptContent(message: Message, userId: string, privateKey?: string): Promise<string> {
+    const format = getMessageFormat(message.content);
+
+    if (format === 'plaintext') return message.content;
+    if (format === 'legacy-rsa' && message.sender_id === userId) return LEGACY_SENT_PREVIEW;
+    if (!privateKey) return ENCRYPTED_PREVIEW;
+
+    return decryptMessage(message.content, privateKey);
+  }
+}
@@ -0,0 +1,187 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+
+export type NotificationType =
+  | 'saved_search_match'
+  | 'watchlist_price_drop'
+  | 'watchlist_sold'
+  | 'watchlist_updated'
+  | 'watchlist_deleted'
+  | 'offer_update'
+  | 'transaction_confirmation'
+  | 'transaction_completed'
+  | 'listing_expiring'
+  | 'listing_expired';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string | null;
+  data?: Record<string, any> | null;
+  is_read: boolean;
+  created_at: string;
+}
+
+export interface CreateNotificationParams {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * NotificationService class for in-app notifications that aren't chat messages
+ * (saved search matches, watchlist alerts and others shown in the Notifications dropdown)
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE notifications (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   type VARCHAR(50) NOT NULL,
+ *   title TEXT NOT NULL,
+ *   body TEXT NOT NULL,
+ *   link TEXT,
+ *   data JSONB,
+ *   is_read BOOLEAN DEFAULT FALSE,
+ *   created_at TIMESTAMP DEFAULT NOW()
+ * );
+ *
+ * CREATE INDEX idx_notifications_user_unread ON notifications(user_id, is_read, created_at DESC);
+ */
+export class NotificationService {
+  /**
+   * Create notifications for one or more users
+   * Pass a server client when notifying from a scheduled job
+   */
+  static async createNotifications(params: CreateNotificationParams[], client: SupabaseClient = supabase): Promise<boolean> {
+    if (params.length === 0) return true;
+
+    try {
+      dbLogger.info('Creating notifications', { count: params.length });
+
+      const { error } = await client
+        .from('notifications')
+        .insert(params.map(({ userId, type, title, body, link, data }) => ({
+          user_id: userId,
+          type,
+          title,
+          body,
+          link: link || null,
+          data: data || null,
+          is_read: false,
+        })));
+
+      if (error) {
+        dbLogger.error('Failed to create notifications', error);
+        return false;
+      }
+
+      dbLogger.success('Notifications created successfully', { count: params.length });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in createNotifications', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's notifications, newest first
+   */
+  static async getNotifications(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<AppNotification[]> {
+    const { unreadOnly = false, limit = 20 } = options;
+
+    try {
+      dbLogger.info('Fetching notifications', { userId, unreadOnly });
+
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (unreadOnly) {
+        query = query.eq('is_read', false);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        dbLogger.error('Failed to fetch notifications', error);
+        return [];
+      }
+
+      dbLogger.success('Notifications fetched successfully', { count: data?.length || 0 });
+      return (data || []) as AppNotification[];
+    } catch (error) {
+      dbLogger.error('Error in getNotifications', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark notifications as read
+   */
+  static async markAsRead(notificationIds: string[]): Promise<boolean> {
+    if (notificationIds.length === 0) return true;
+
+    try {
+      dbLogger.info('Marking notifications as read', { count: notificationIds.length });
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true })
+        .in('id', notificationIds);
+
+      if (error) {
+        dbLogger.error('Failed to mark notifications as read', error);
+        return false;
+      }
+
+      dbLogger.success('Notifications marked as read successfully');
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in markAsRead', error);
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe to new notifications for a user
+   */
+  static subscribeToNotifications(
+    userId: string,
+    onNotification: (notification: AppNotification) => void
+  ) {
+    dbLogger.info('Setting up notification subscription', { userId });
+
+    return supabase
+      .channel(`notifications_${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          onNotification(payload.new as AppNotification);
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          dbLogger.success('Notification subscription active');
+        } else if (status === 'CHANNEL_ERROR') {
+          dbLogger.error('Notification subscription error', status);
+        }
+      });
+  }
+}
@@ -0,0 +1,529 @@
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { NotificationService } from './NotificationService';
+import { SUSPENDED_ERROR, SuspensionService } from './SuspensionService';
+import { determineListingAvailability } from '../utils/statusUtils';
+
+export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'withdrawn';
+
+export interface Offer {
+  id: string;
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+  proposer_id: string; // Whoever made this offer (the buyer, or the seller when countering)
+  amount: number;
+  status: OfferStatus;
+  expires_at: string;
+  parent_offer_id?: string | null; // The offer this one counters
+  created_at: string;
+  responded_at?: string | null;
+}
+
+export interface CreateOfferParams {
+  listingId: string;
+  buyerId: string;
+  amount: number;
+  expiresInHours?: number;
+}
+
+export interface OfferResult {
+  success: boolean;
+  offer?: Offer;
+  error?: string;
+}
+
+const DEFAULT_OFFER_EXPIRY_HOURS = 48;
+// How long an accepted offer holds the listing for the buyer
+const RESERVATION_HOURS = 48;
+
+/**
+ * OfferService class for structured price negotiation inside listing conversations
+ * A conversation is identified by its listing plus the buyer/seller pair, same as messages
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE offers (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+ *   buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   proposer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   amount NUMERIC NOT NULL CHECK (amount > 0),
+ *   status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'countered', 'withdrawn')),
+ *   expires_at TIMESTAMP NOT NULL,
+ *   parent_offer_id UUID REFERENCES offers(id) ON DELETE SET NULL,
+ *   created_at TIMESTAMP DEFAULT NOW(),
+ *   responded_at TIMESTAMP NULL
+ * );
+ *
+ * CREATE INDEX idx_offers_conversation ON offers(listing_id, buyer_id, created_at);
+ *
+ * ALTER TABLE listings ADD COLUMN reserved_for UUID REFERENCES users(id) ON DELETE SET NULL;
+ * ALTER TABLE listings ADD COLUMN reserved_until TIMESTAMP NULL;
+ *
+ * -- Accepting reserves the seller's listing and opens the transaction in one step. The buyer
+ * -- accepting a counter-offer can't update the seller's listing under RLS, so this runs as
+ * -- SECURITY DEFINER and re-checks everything against the signed-in user. Errors raised here
+ * -- (SQLSTATE P0001) are shown to the user as-is.
+ * CREATE FUNCTION accept_offer(p_offer_id UUID, p_reservation_hours INTEGER) RETURNS offers AS $$
+ * DECLARE
+ *   v_offer offers;
+ *   v_listing listings;
+ * BEGIN
+ *   IF is_user_suspended(auth.uid()) THEN
+ *     RAISE EXCEPTION 'Your account is suspended';
+ *   END IF;
+ *
+ *   SELECT * INTO v_offer FROM offers WHERE id = p_offer_id FOR UPDATE;
+ *   IF NOT FOUND OR auth.uid() NOT IN (v_offer.buyer_id, v_offer.seller_id) THEN
+ *     RAISE EXCEPTION 'Offer not found';
+ *   END IF;
+ *   IF v_offer.proposer_id = auth.uid() THEN
+ *     RAISE EXCEPTION 'You can''t respond to your own offer';
+ *   END IF;
+ *   IF v_offer.status <> 'pending' THEN
+ *     RAISE EXCEPTION 'This offer has already been responded to';
+ *   END IF;
+ *   IF v_offer.expires_at <= NOW() THEN
+ *     RAISE EXCEPTION 'This offer has expired';
+ *   END IF;
+ *
+ *   SELECT * INTO v_listing FROM listings WHERE id = v_offer.listing_id AND user_id = v_offer.seller_id FOR UPDATE;
+ *   IF NOT FOUND THEN
+ *     RAISE EXCEPTION 'Listing not found';
+ *   END IF;
+ *   IF v_listing.is_sold THEN
+ *     RAISE EXCEPTION 'This listing has already been sold';
+ *   END IF;
+ *   IF v_listing.reserved_for IS NOT NULL AND v_listing.reserved_for <> v_offer.buyer_id
+ *      AND v_listing.reserved_until > NOW() THEN
+ *     RAISE EXCEPTION 'This listing is already reserved for another buyer';
+ *   END IF;
+ *
+ *   UPDATE offers SET status = 'accepted', responded_at = NOW() WHERE id = v_offer.id RETURNING * INTO v_offer;
+ *
+ *   UPDATE listings
+ *   SET reserved_for = v_offer.buyer_id, reserved_until = NOW() + make_interval(hours => p_reservation_hours)
+ *   WHERE id = v_listing.id;
+ *
+ *   INSERT INTO transactions (listing_id, seller_id, buyer_id, offer_id, amount, status)
+ *   VALUES (v_offer.listing_id, v_offer.seller_id, v_offer.buyer_id, v_offer.id, v_offer.amount, 'pending');
+ *
+ *   -- Other buyers' open offers can't be accepted anymore
+ *   UPDATE offers SET status = 'declined', responded_at = NOW()
+ *   WHERE listing_id = v_offer.listing_id AND status = 'pending' AND buyer_id <> v_offer.buyer_id;
+ *
+ *   RETURN v_offer;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ */
+export class OfferService {
+  /**
+   * Whether a pending offer has passed its expiry time
+   */
+  static isExpired(offer: Offer): boolean {
+    return offer.status === 'pending' && new Date(offer.expires_at).getTime() <= Date.now();
+  }
+
+  /**
+   * Make an offer on a listing (buyers only)
+   */
+  static async createOffer(params: CreateOfferParams): Promise<OfferResult> {
+    const { listingId, buyerId, expiresInHours = DEFAULT_OFFER_EXPIRY_HOURS } = params;
+    const amount = this.normalizeAmount(params.amount);
+
+    try {
+      dbLogger.info('Creating offer', { listingId, buyerId, amount });
+
+      if (amount === null) {
+        return { success: false, error: 'Offer amount must be greater than $0' };
+      }
+      if (await SuspensionService.isUserSuspended(buyerId)) {
+        return { success: false, error: SUSPENDED_ERROR };
+      }
+
+      const { data: listing, error: listingError } = await supabase
+        .from('listings')
+        .select('id, title, user_id, is_sold')
+        .eq('id', listingId)
+        .single();
+
+      if (listingError || !listing) {
+        return { success: false, error: 'Listing not found' };
+      }
+      if (listing.user_id === buyerId) {
+        return { success: false, error: "You can't make an offer on your own listing" };
+      }
+      if (listing.is_sold) {
+        return { success: false, error: 'This listing has already been sold' };
+      }
+
+      const openOffer = await this.getOpenOffer(listingId, buyerId);
+      if (openOffer) {
+        return { success: false, error: 'There is already an open offer in this conversation' };
+      }
+
+      const offer = await this.insertOffer({
+        listingId,
+        buyerId,
+        sellerId: listing.user_id,
+        proposerId: buyerId,
+        amount,
+        expiresInHours,
+      });
+      if (!offer) {
+        return { success: false, error: 'Failed to create offer' };
+      }
+
+      await this.notifyCounterparty(offer, `New offer on ${listing.title}`, `$${amount} offered`);
+
+      dbLogger.success('Offer created successfully', { offerId: offer.id });
+      return { success: true, offer };
+    } catch (error) {
+      dbLogger.error('Error in createOffer', error);
+      return { success: false, error: 'Failed to create offer' };
+    }
+  }
+
+  /**
+   * Counter a pending offer with a new amount (the offer's recipient only)
+   */
+  static async counterOffer(offerId: string, userId: string, amount: number): Promise<OfferResult> {
+    try {
+      dbLogger.info('Countering offer', { offerId, userId, amount });
+
+      const normalizedAmount = this.normalizeAmount(amount);
+      if (normalizedAmount === null) {
+        return { success: false, error: 'Offer amount must be greater than $0' };
+      }
+
+      const check = await this.getRespondableOffer(offerId, userId);
+      if (!check.offer) return { success: false, error: check.error };
+      const original = check.offer;
+
+      const updated = await this.setStatus(original.id, 'countered');
+      if (!updated) {
+        return { success: false, error: 'This offer has already been responded to' };
+      }
+
+      const counter = await this.insertOffer({
+        listingId: original.listing_id,
+        buyerId: original.buyer_id,
+        sellerId: original.seller_id,
+        proposerId: userId,
+        amount: normalizedAmount,
+        expiresInHours: DEFAULT_OFFER_EXPIRY_HOURS,
+        parentOfferId: original.id,
+      });
+      if (!counter) {
+        return { success: false, error: 'Failed to create counter-offer' };
+      }
+
+      await this.notifyCounterparty(counter, 'You received a counter-offer', `$${normalizedAmount} countered`);
+
+      dbLogger.success('Offer countered successfully', { offerId, counterOfferId: counter.id });
+      return { success: true, offer: counter };
+    } catch (error) {
+      dbLogger.error('Error in counterOffer', error);
+      return { success: false, error: 'Failed to counter offer' };
+    }
+  }
+
+  /**
+   * Accept a pending offer (the offer's recipient only)
+   * Reserves the listing for the buyer and opens a transaction at the agreed amount, through accept_offer
+   */
+  static async acceptOffer(offerId: string, userId: string): Promise<OfferResult> {
+    try {
+      dbLogger.info('Accepting offer', { offerId, userId });
+
+      const check = await this.getRespondableOffer(offerId, userId);
+      if (!check.offer) return { success: false, error: check.error };
+      const offer = check.offer;
+
+      const { data: listing, error: listingError } = await supabase
+        .from('listings')
+        .select('id, title, is_sold, reserved_for, reserved_until')
+        .eq('id', offer.listing_id)
+        .single();
+
+      if (listingError || !listing) {
+        return { success: false, error: 'Listing not found' };
+      }
+      const availability = determineListingAvailability(listing);
+      if (availability === 'sold') {
+        return { success: false, error: 'This listing has already been sold' };
+      }
+      if (availability === 'reserved' && listing.reserved_for !== offer.buyer_id) {
+        return { success: false, error: 'This listing is already reserved for another buyer' };
+      }
+
+      // Accepting, reserving the listing and opening the transaction succeed or fail together
+      const { data: accepted, error: acceptError } = await supabase
+        .rpc('accept_offer', { p_offer_id: offer.id, p_reservation_hours: RESERVATION_HOURS })
+        .single();
+
+      if (acceptError || !accepted) {
+        dbLogger.error('Failed to accept offer', acceptError);
+        // Checks raised by accept_offer carry a message meant for the user
+        return {
+          success: false,
+          error: acceptError?.code === 'P0001' ? acceptError.message : 'Failed to accept offer',
+        };
+      }
+
+      await this.notifyCounterparty(
+        { ...offer, proposer_id: userId },
+        'Offer accepted',
+        `$${offer.amount} for ${listing.title} was accepted`
+      );
+
+      dbLogger.success('Offer accepted successfully', { offerId });
+      return { success: true, offer: accepted as Offer };
+    } catch (error) {
+      dbLogger.error('Error in acceptOffer', error);
+      return { success: false, error: 'Failed to accept offer' };
+    }
+  }
+
+  /**
+   * Decline a pending offer (the offer's recipient only)
+   */
+  static async declineOffer(offerId: string, userId: string): Promise<OfferResult> {
+    try {
+      dbLogger.info('Declining offer', { offerId, userId });
+
+      const check = await this.getRespondableOffer(offerId, userId);
+      if (!check.offer) return { success: false, error: check.error };
+
+      const declined = await this.setStatus(check.offer.id, 'declined');
+      if (!declined) {
+        return { success: false, error: 'This offer has already been responded to' };
+      }
+
+      await this.notifyCounterparty({ ...declined, proposer_id: userId }, 'Offer declined', `Your $${declined.amount} offer was declined`);
+
+      dbLogger.success('Offer declined successfully', { offerId });
+      return { success: true, offer: declined };
+    } catch (error) {
+      dbLogger.error('Error in declineOffer', error);
+      return { success: false, error: 'Failed to decline offer' };
+    }
+  }
+
+  /**
+   * Withdraw a pending offer (the offer's proposer only)
+   */
+  static async withdrawOffer(offerId: string, userId: string): Promise<OfferResult> {
+    try {
+      dbLogger.info('Withdrawing offer', { offerId, userId });
+
+      const { data, error } = await supabase
+        .from('offers')
+        .update({ status: 'withdrawn', responded_at: new Date().toISOString() })
+        .eq('id', offerId)
+        .eq('proposer_id', userId) // Ensure user made the offer
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        dbLogger.error('Failed to withdraw offer', error);
+        return { success: false, error: 'Failed to withdraw offer' };
+      }
+      if (!data) {
+        return { success: false, error: 'This offer can no longer be withdrawn' };
+      }
+
+      dbLogger.success('Offer withdrawn successfully', { offerId });
+      return { success: true, offer: data as Offer };
+    } catch (error) {
+      dbLogger.error('Error in withdrawOffer', error);
+      return { success: false, error: 'Failed to withdraw offer' };
+    }
+  }
+
+  /**
+   * Get every offer exchanged between two users on a listing, oldest first
+   */
+  static async getConversationOffers(userId: string, otherUserId: string, listingId: string): Promise<Offer[]> {
+    try {
+      dbLogger.info('Fetching conversation offers', { userId, otherUserId, listingId });
+
+      const { data, error } = await supabase
+        .from('offers')
+        .select('*')
+        .eq('listing_id', listingId)
+        .or(
+          `and(buyer_id.eq.${userId},seller_id.eq.${otherUserId}),` +
+          `and(buyer_id.eq.${otherUserId},seller_id.eq.${userId})`
+        )
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        dbLogger.error('Failed to fetch conversation offers', error);
+        return [];
+      }
+
+      return (data || []) as Offer[];
+    } catch (error) {
+      dbLogger.error('Error in getConversationOffers', error);
+      return [];
+    }
+  }
+
+  /**
+   * Subscribe to offer changes on a listing
+   */
+  static subscribeToListingOffers(listingId: string, onChange: (offer: Offer) => void) {
+    dbLogger.info('Setting up offer subscription', { listingId });
+
+    return supabase
+      .channel(`offers_${listingId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'offers',
+          filter: `listing_id=eq.${listingId}`,
+        },
+        (payload) => {
+          if (payload.new && (payload.new as Offer).id) {
+            onChange(payload.new as Offer);
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          dbLogger.error('Offer subscription error', status);
+        }
+      });
+  }
+
+  /**
+   * Helper: The pending, unexpired offer in a buyer's conversation about a listing
+   */
+  private static async getOpenOffer(listingId: string, buyerId: string): Promise<Offer | null> {
+    const { data } = await supabase
+      .from('offers')
+      .select('*')
+      .eq('listing_id', listingId)
+      .eq('buyer_id', buyerId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .limit(1);
+
+    return data && data.length > 0 ? (data[0] as Offer) : null;
+  }
+
+  /**
+   * Helper: Load an offer and check the user is allowed to respond to it
+   */
+  private static async getRespondableOffer(offerId: string, userId: string): Promise<{ offer?: Offer; error?: string }> {
+    if (await SuspensionService.isUserSuspended(userId)) return { error: SUSPENDED_ERROR };
+
+    const { data, error } = await supabase
+      .from('offers')
+      .select('*')
+      .eq('id', offerId)
+      .single();
+
+    if (error || !data) return { error: 'Offer not found' };
+
+    const offer = data as Offer;
+    if (offer.buyer_id !== userId && offer.seller_id !== userId) {
+      return { error: 'Unauthorized: You are not part of this offer' };
+    }
+    if (offer.proposer_id === userId) {
+      return { error: "You can't respond to your own offer" };
+    }
+    if (offer.status !== 'pending') {
+      return { error: 'This offer has already been responded to' };
+    }
+    if (this.isExpired(offer)) {
+      return { error: 'This offer has expired' };
+    }
+
+    return { offer };
+  }
+
+  /**
+   * Helper: Move a pending offer to a new status (no-op if it was already responded to)
+   */
+  private static async setStatus(offerId: string, status: OfferStatus): Promise<Offer | null> {
+    const { data, error } = await supabase
+      .from('offers')
+      .update({ status, responded_at: new Date().toISOString() })
+      .eq('id', offerId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      dbLogger.error('Failed to update offer status', error);
+      return null;
+    }
+    return data as Offer | null;
+  }
+
+  /**
+   * Helper: Insert a new pending offer
+   */
+  private static async insertOffer(params: {
+    listingId: string;
+    buyerId: string;
+    sellerId: string;
+    proposerId: string;
+    amount: number;
+    expiresInHours: number;
+    parentOfferId?: string;
+  }): Promise<Offer | null> {
+    const { data, error } = await supabase
+      .from('offers')
+      .insert({
+        listing_id: params.listingId,
+        buyer_id: params.buyerId,
+        seller_id: params.sellerId,
+        proposer_id: params.proposerId,
+        amount: params.amount,
+        status: 'pending',
+        expires_at: new Date(Date.now() + params.expiresInHours * 60 * 60 * 1000).toISOString(),
+        parent_offer_id: params.parentOfferId || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      dbLogger.error('Failed to insert offer', error);
+      return null;
+    }
+    return data as Offer;
+  }
+
+  /**
+   * Helper: Let the other side of an offer know something happened
+   */
+  private static async notifyCounterparty(offer: Offer, title: string, body: string) {
+    const recipientId = offer.proposer_id === offer.buyer_id ? offer.seller_id : offer.buyer_id;
+
+    await NotificationService.createNotifications([{
+      userId: recipientId,
+      type: 'offer_update',
+      title,
+      body,
+      // ?listing= opens the chat with the listing's seller, so only buyers can deep link
+      link: recipientId === offer.buyer_id ? `/messages?listing=${offer.listing_id}` : '/messages',
+      data: { offer_id: offer.id, listing_id: offer.listing_id },
+    }]);
+  }
+
+  /**
+   * Helper: Round to cents and reject non-positive amounts
+   */
+  private static normalizeAmount(amount: number): number | null {
+    if (!Number.isFinite(amount) || amount <= 0) return null;
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../supabaseClient';
 import { dbLogger } from './utils';
+import { SUSPENDED_ERROR, SuspensionService } from './SuspensionService';
 
 export interface ReportReason {
   key: string;
@@ -116,6 +117,10 @@ export class ReportService {
     try {
       dbLogger.info('Creating listing report', { listingId, reporterId, reason });
 
+      if (await SuspensionService.isUserSuspended(reporterId)) {
+        return { success: false, error: SUSPENDED_ERROR };
+      }
+
       // Check if user has already reported this listing
       const { data: existingReport } = await supabase
         .from('listing_reports')
@@ -177,6 +182,10 @@ export class ReportService {
     try {
       dbLogger.info('Creating user report', { reportedUserId, reporterId, reason });
 
+      if (await SuspensionService.isUserSuspended(reporterId)) {
+        return { success: false, error: SUSPENDED_ERROR };
+      }
+
       // Don't allow users to report themselves
       if (reportedUserId === reporterId) {
         return { success: false, error: 'You cannot report yourself' };
@@ -0,0 +1,403 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { NotificationService } from './NotificationService';
+import { parseQuery, scoreDocument } from '../search/searchEngine';
+
+/**
+ * Subset of the browse/search filters that can be saved and matched against new listings
+ * Values use the same UI format as the browse page URL (e.g. category "Subleases")
+ */
+export interface SavedSearchFilters {
+  searchTerm?: string;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  condition?: string;
+  location?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alerts_enabled: boolean;
+  created_at: string;
+  last_matched_at?: string | null;
+}
+
+export interface CreateSavedSearchParams {
+  userId: string;
+  filters: SavedSearchFilters;
+  name?: string;
+  alertsEnabled?: boolean;
+}
+
+// Normalizes UI and database enum values ("Like New" / "like_new") for comparison
+const normalizeEnumValue = (value: string) => value.trim().toLowerCase().replace(/\s+/g, '_');
+
+// Rows fetched per request while matching saved searches and checking earlier alerts
+const SCAN_PAGE_SIZE = 1000;
+
+/**
+ * SavedSearchService class for saved browse queries and new-listing alerts
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE saved_searches (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   name TEXT NOT NULL,
+ *   filters JSONB NOT NULL DEFAULT '{}',
+ *   alerts_enabled BOOLEAN DEFAULT TRUE,
+ *   created_at TIMESTAMP DEFAULT NOW(),
+ *   last_matched_at TIMESTAMP NULL
+ * );
+ *
+ * CREATE INDEX idx_saved_searches_user_id ON saved_searches(user_id);
+ * CREATE INDEX idx_saved_searches_alerts ON saved_searches(alerts_enabled) WHERE alerts_enabled;
+ * -- Earlier alerts for a listing are checked before matching, so a repeat approval doesn't alert twice
+ * CREATE INDEX idx_notifications_saved_search_listing ON notifications((data->>'listing_id'))
+ *   WHERE type = 'saved_search_match';
+ *
+ * -- Saved searches are private; matching them against new listings happens in
+ * -- app/api/saved-searches/notify with the service role
+ * ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY saved_searches_owner ON saved_searches FOR ALL
+ *   USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+ */
+export class SavedSearchService {
+  /**
+   * Save a search for a user
+   */
+  static async createSavedSearch(params: CreateSavedSearchParams): Promise<SavedSearch | null> {
+    const { userId, name, alertsEnabled = true } = params;
+    const filters = this.cleanFilters(params.filters);
+
+    try {
+      dbLogger.info('Creating saved search', { userId, filters });
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({
+          user_id: userId,
+          name: name?.trim() || this.describeFilters(filters),
+          filters,
+          alerts_enabled: alertsEnabled,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        dbLogger.error('Failed to create saved search', error);
+        return null;
+      }
+
+      dbLogger.success('Saved search created successfully', { savedSearchId: data.id });
+      return data as SavedSearch;
+    } catch (error) {
+      dbLogger.error('Error in createSavedSearch', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a user's saved searches, newest first
+   */
+  static async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    try {
+      dbLogger.info('Fetching saved searches', { userId });
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        dbLogger.error('Failed to fetch saved searches', error);
+        return [];
+      }
+
+      dbLogger.success('Saved searches fetched successfully', { count: data?.length || 0 });
+      return (data || []) as SavedSearch[];
+    } catch (error) {
+      dbLogger.error('Error in getSavedSearches', error);
+      return [];
+    }
+  }
+
+  /**
+   * Turn new-listing alerts on or off for a saved search
+   */
+  static async setAlertsEnabled(savedSearchId: string, userId: string, enabled: boolean): Promise<boolean> {
+    try {
+      dbLogger.info('Updating saved search alerts', { savedSearchId, enabled });
+
+      const { error } = await supabase
+        .from('saved_searches')
+        .update({ alerts_enabled: enabled })
+        .eq('id', savedSearchId)
+        .eq('user_id', userId); // Ensure user owns the saved search
+
+      if (error) {
+        dbLogger.error('Failed to update saved search alerts', error);
+        return false;
+      }
+
+      dbLogger.success('Saved search alerts updated successfully', { savedSearchId, enabled });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in setAlertsEnabled', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  static async deleteSavedSearch(savedSearchId: string, userId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Deleting saved search', { savedSearchId, userId });
+
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearchId)
+        .eq('user_id', userId); // Ensure user owns the saved search
+
+      if (error) {
+        dbLogger.error('Failed to delete saved search', error);
+        return false;
+      }
+
+      dbLogger.success('Saved search deleted successfully', { savedSearchId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in deleteSavedSearch', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a listing row satisfies a saved search's filters
+   */
+  static listingMatchesFilters(listing: any, filters: SavedSearchFilters): boolean {
+    if (filters.category && filters.category !== 'All' &&
+        normalizeEnumValue(filters.category) !== normalizeEnumValue(listing.category || '')) {
+      return false;
+    }
+
+    if (filters.condition &&
+        normalizeEnumValue(filters.condition) !== normalizeEnumValue(listing.condition || '')) {
+      return false;
+    }
+
+    const price = Number(listing.price);
+    if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+
+    if (filters.location &&
+        !(listing.location || '').toLowerCase().includes(filters.location.toLowerCase())) {
+      return false;
+    }
+
+    if (filters.searchTerm) {
+      return scoreDocument(parseQuery(filters.searchTerm), listing) !== null;
+    }
+
+    return true;
+  }
+
+  /**
+   * Ask the server to alert every user whose saved search matches a newly approved listing
+   * Called from AdminService.approveListing and ListingService.createListing; other users'
+   * saved searches aren't readable from the browser, so the matching runs in app/api/saved-searches/notify
+   */
+  static async notifyMatchingSearches(listing: { id: string }): Promise<number> {
+    try {
+      dbLogger.info('Requesting saved search alerts for listing', { listingId: listing.id });
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        dbLogger.warn('No session for saved search alerts', { listingId: listing.id });
+        return 0;
+      }
+
+      const response = await fetch('/api/saved-searches/notify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ listingId: listing.id }),
+      });
+
+      if (!response.ok) {
+        dbLogger.error('Failed to send saved search alerts', { listingId: listing.id, status: response.status });
+        return 0;
+      }
+
+      const { notified } = await response.json();
+      return notified ?? 0;
+    } catch (error) {
+      dbLogger.error('Error in notifyMatchingSearches', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Notify every user whose saved search matches an approved listing
+   * Runs with a server client so it can read every user's saved searches; searches
+   * already alerted for this listing are skipped, so repeat calls don't duplicate alerts
+   */
+  static async matchListingToSearches(client: SupabaseClient, listing: any): Promise<number> {
+    try {
+      dbLogger.info('Matching saved searches against approved listing', { listingId: listing.id });
+
+      const alreadyNotified = await this.getNotifiedSearchIds(client, listing.id);
+      if (!alreadyNotified) return 0;
+
+      // Saved searches are matched a page at a time (by id), so every one is seen without holding them all
+      let notified = 0;
+      let lastId: string | null = null;
+
+      while (true) {
+        let query = client
+          .from('saved_searches')
+          .select('*')
+          .eq('alerts_enabled', true)
+          .neq('user_id', listing.user_id) // Sellers don't need alerts for their own listings
+          .order('id')
+          .limit(SCAN_PAGE_SIZE);
+        if (lastId) query = query.gt('id', lastId);
+
+        const { data, error } = await query;
+
+        if (error) {
+          dbLogger.error('Failed to fetch saved searches for matching', error);
+          break;
+        }
+
+        const page = (data || []) as SavedSearch[];
+        const matches = page
+          .filter(savedSearch => !alreadyNotified.has(savedSearch.id))
+          .filter(savedSearch => this.listingMatchesFilters(listing, savedSearch.filters || {}));
+
+        if (matches.length > 0) {
+          const created = await NotificationService.createNotifications(matches.map(savedSearch => ({
+            userId: savedSearch.user_id,
+            type: 'saved_search_match' as const,
+            title: `New match for "${savedSearch.name}"`,
+            body: `${listing.title} · $${listing.price}`,
+            link: `/listing/${listing.id}`,
+            data: { saved_search_id: savedSearch.id, listing_id: listing.id },
+          })), client);
+
+          if (created) {
+            await client
+              .from('saved_searches')
+              .update({ last_matched_at: new Date().toISOString() })
+              .in('id', matches.map(savedSearch => savedSearch.id));
+            notified += matches.length;
+          }
+        }
+
+        if (page.length < SCAN_PAGE_SIZE) break;
+        lastId = page[page.length - 1].id;
+      }
+
+      if (notified === 0) {
+        dbLogger.info('No saved searches matched listing', { listingId: listing.id });
+        return 0;
+      }
+
+      dbLogger.success('Saved search alerts sent', { listingId: listing.id, count: notified });
+      return notified;
+    } catch (error) {
+      dbLogger.error('Error in matchListingToSearches', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Helper: Ids of the saved searches already alerted about a listing, read a page at a time
+   * Returns null if any page fails, since a partial set would send duplicate alerts
+   */
+  private static async getNotifiedSearchIds(client: SupabaseClient, listingId: string): Promise<Set<string> | null> {
+    const notifiedIds = new Set<string>();
+
+    for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+      const { data, error } = await client
+        .from('notifications')
+        .select('id, data')
+        .eq('type', 'saved_search_match')
+        .eq('data->>listing_id', listingId)
+        .order('id')
+        .range(from, from + SCAN_PAGE_SIZE - 1);
+
+      if (error) {
+        dbLogger.error('Failed to fetch earlier saved search alerts', error);
+        return null;
+      }
+
+      (data || []).forEach(notification => {
+        if (notification.data?.saved_search_id) notifiedIds.add(notification.data.saved_search_id);
+      });
+      if (!data || data.length < SCAN_PAGE_SIZE) break;
+    }
+
+    return notifiedIds;
+  }
+
+  /**
+   * Human-readable summary of a set of filters, used as the default saved search name
+   */
+  static describeFilters(filters: SavedSearchFilters): string {
+    const parts: string[] = [];
+
+    if (filters.category && filters.category !== 'All') parts.push(filters.category);
+    if (filters.searchTerm) parts.push(`"${filters.searchTerm}"`);
+    if (filters.condition) parts.push(filters.condition);
+    if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+      parts.push(`$${filters.minPrice}–$${filters.maxPrice}`);
+    } else if (filters.maxPrice !== undefined) {
+      parts.push(`under $${filters.maxPrice}`);
+    } else if (filters.minPrice !== undefined) {
+      parts.push(`over $${filters.minPrice}`);
+    }
+    if (filters.location) parts.push(`near ${filters.location}`);
+
+    return parts.length > 0 ? parts.join(' · ') : 'All listings';
+  }
+
+  /**
+   * Browse page URL that re-runs a saved search
+   */
+  static toBrowseUrl(filters: SavedSearchFilters): string {
+    const params = new URLSearchParams();
+    if (filters.category && filters.category !== 'All') params.set('category', filters.category);
+    if (filters.searchTerm) params.set('search', filters.searchTerm);
+    if (filters.minPrice !== undefined) params.set('minPrice', String(filters.minPrice));
+    if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice));
+    if (filters.condition) params.set('condition', filters.condition);
+
+    const query = params.toString();
+    return `/browse${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Helper: Drop empty values so stored filters only contain what the user set
+   */
+  private static cleanFilters(filters: SavedSearchFilters): SavedSearchFilters {
+    const cleaned: SavedSearchFilters = {};
+    if (filters.searchTerm?.trim()) cleaned.searchTerm = filters.searchTerm.trim();
+    if (filters.category && filters.category !== 'All') cleaned.category = filters.category;
+    if (filters.minPrice !== undefined && !isNaN(filters.minPrice)) cleaned.minPrice = filters.minPrice;
+    if (filters.maxPrice !== undefined && !isNaN(filters.maxPrice)) cleaned.maxPrice = filters.maxPrice;
+    if (filters.condition) cleaned.condition = filters.condition;
+    if (filters.location?.trim()) cleaned.location = filters.location.trim();
+    return cleaned;
+  }
+}
@@ -0,0 +1,309 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { AdminService } from './AdminService';
+import { AuditLogService } from './AuditLogService';
+
+export interface PlatformSettings {
+  require_listing_approval: boolean;
+  max_images_per_listing: number;
+  min_listing_price: number;
+  max_listing_price: number;
+  auto_delete_denied_listings_days: number;
+  listing_expiry_days: number;
+  listing_expiry_days_by_category: Record<string, number>; // Keyed by database category (e.g. "furniture")
+  expiry_warning_days: number;
+  allow_user_registration: boolean;
+  maintenance_mode: boolean;
+  site_announcement: string;
+  contact_email: string;
+}
+
+export type PlatformSettingKey = keyof PlatformSettings;
+
+export interface SettingChange {
+  id: string;
+  key: PlatformSettingKey;
+  old_value: unknown;
+  new_value: unknown;
+  changed_by: string;
+  changed_at: string;
+  admin?: {
+    email: string;
+    display_name: string | null;
+  } | null;
+}
+
+export interface ListingConstraintInput {
+  price: number;
+  imageCount: number;
+  isDraft?: boolean;
+}
+
+export const DEFAULT_PLATFORM_SETTINGS: PlatformSettings = {
+  require_listing_approval: true,
+  max_images_per_listing: 5,
+  min_listing_price: 1,
+  max_listing_price: 10000,
+  auto_delete_denied_listings_days: 30,
+  listing_expiry_days: 30,
+  listing_expiry_days_by_category: {},
+  expiry_warning_days: 3,
+  allow_user_registration: true,
+  maintenance_mode: false,
+  site_announcement: '',
+  contact_email: '',
+};
+
+// Settings change rarely, so repeated reads within a page session share one fetch
+const CACHE_TTL_MS = 30 * 1000;
+
+let cachedSettings: { value: PlatformSettings; fetchedAt: number } | null = null;
+
+/**
+ * SettingsService class for platform-wide settings managed from the admin panel
+ *
+ * Every setting is stored as its own row so changes can be audited per key.
+ * Reads fall back to DEFAULT_PLATFORM_SETTINGS for keys that were never saved.
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE platform_settings (
+ *   key TEXT PRIMARY KEY,
+ *   value JSONB NOT NULL,
+ *   updated_by UUID REFERENCES users(id),
+ *   updated_at TIMESTAMP DEFAULT NOW()
+ * );
+ *
+ * CREATE TABLE platform_settings_history (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   key TEXT NOT NULL,
+ *   old_value JSONB NULL,
+ *   new_value JSONB NOT NULL,
+ *   changed_by UUID NOT NULL REFERENCES users(id),
+ *   changed_at TIMESTAMP DEFAULT NOW()
+ * );
+ *
+ * CREATE INDEX idx_platform_settings_history_changed_at ON platform_settings_history(changed_at DESC);
+ *
+ * -- Anyone may read settings (middleware and signup run before sign-in); only admins may write
+ * ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY platform_settings_read ON platform_settings FOR SELECT USING (true);
+ * CREATE POLICY platform_settings_write ON platform_settings FOR ALL
+ *   USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin));
+ * ALTER TABLE platform_settings_history ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY platform_settings_history_admin ON platform_settings_history FOR ALL
+ *   USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND is_admin));
+ *
+ * -- Price and image limits are re-checked in the database so they hold for any client
+ * CREATE FUNCTION enforce_listing_settings() RETURNS TRIGGER AS $$
+ * DECLARE
+ *   min_price NUMERIC := COALESCE((SELECT (value #>> '{}')::NUMERIC FROM platform_settings WHERE key = 'min_listing_price'), 1);
+ *   max_price NUMERIC := COALESCE((SELECT (value #>> '{}')::NUMERIC FROM platform_settings WHERE key = 'max_listing_price'), 10000);
+ *   max_images INT := COALESCE((SELECT (value #>> '{}')::INT FROM platform_settings WHERE key = 'max_images_per_listing'), 5);
+ * BEGIN
+ *   IF NOT NEW.is_draft AND (NEW.price < min_price OR NEW.price > max_price) THEN
+ *     RAISE EXCEPTION 'Listing price must be between % and %', min_price, max_price;
+ *   END IF;
+ *   IF COALESCE(array_length(NEW.images, 1), 0) > max_images THEN
+ *     RAISE EXCEPTION 'Listings may have at most % images', max_images;
+ *   END IF;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql;
+ *
+ * CREATE TRIGGER listings_enforce_settings BEFORE INSERT OR UPDATE OF price, images, is_draft ON listings
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_listing_settings();
+ *
+ * CREATE FUNCTION enforce_registration_open() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   IF (SELECT value = 'false'::JSONB FROM platform_settings WHERE key = 'allow_user_registration') THEN
+ *     RAISE EXCEPTION 'New account registration is currently closed';
+ *   END IF;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER auth_users_registration_open BEFORE INSERT ON auth.users
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_registration_open();
+ */
+export class SettingsService {
+  /**
+   * Get the current platform settings, merged over the defaults
+   * Pass a server client (e.g. from middleware) to read outside the browser
+   */
+  static async getSettings(client: SupabaseClient = supabase, useCache = true): Promise<PlatformSettings> {
+    if (useCache && cachedSettings && Date.now() - cachedSettings.fetchedAt < CACHE_TTL_MS) {
+      return cachedSettings.value;
+    }
+
+    try {
+      const { data, error } = await client
+        .from('platform_settings')
+        .select('key, value');
+
+      if (error) {
+        dbLogger.error('Failed to fetch platform settings', error);
+        return { ...DEFAULT_PLATFORM_SETTINGS };
+      }
+
+      const settings: PlatformSettings = { ...DEFAULT_PLATFORM_SETTINGS };
+      for (const row of data || []) {
+        if (row.key in DEFAULT_PLATFORM_SETTINGS) {
+          (settings as any)[row.key] = row.value;
+        }
+      }
+
+      cachedSettings = { value: settings, fetchedAt: Date.now() };
+      return settings;
+    } catch (error) {
+      dbLogger.error('Error in getSettings', error);
+      return { ...DEFAULT_PLATFORM_SETTINGS };
+    }
+  }
+
+  /**
+   * Save changed settings and record who changed what (admin only)
+   */
+  static async updateSettings(
+    changes: Partial<PlatformSettings>,
+    adminId: string
+  ): Promise<{ success: boolean; settings?: PlatformSettings; error?: string }> {
+    try {
+      dbLogger.info('Updating platform settings', { adminId, keys: Object.keys(changes) });
+
+      const isAdmin = await AdminService.isUserAdmin(adminId);
+      if (!isAdmin) {
+        return { success: false, error: 'Admin privileges required' };
+      }
+
+      const current = await this.getSettings(supabase, false);
+      const validationError = this.validateSettings({ ...current, ...changes });
+      if (validationError) {
+        return { success: false, error: validationError };
+      }
+
+      const changedKeys = (Object.keys(changes) as PlatformSettingKey[]).filter(
+        key => key in DEFAULT_PLATFORM_SETTINGS && changes[key] !== undefined && JSON.stringify(changes[key]) !== JSON.stringify(current[key])
+      );
+
+      if (changedKeys.length === 0) {
+        return { success: true, settings: current };
+      }
+
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('platform_settings')
+        .upsert(
+          changedKeys.map(key => ({ key, value: changes[key], updated_by: adminId, updated_at: now })),
+          { onConflict: 'key' }
+        );
+
+      if (error) {
+        dbLogger.error('Failed to update platform settings', error);
+        return { success: false, error: 'Failed to save settings' };
+      }
+
+      const { error: historyError } = await supabase
+        .from('platform_settings_history')
+        .insert(changedKeys.map(key => ({
+          key,
+          old_value: current[key],
+          new_value: changes[key],
+          changed_by: adminId,
+          changed_at: now,
+        })));
+
+      if (historyError) {
+        dbLogger.error('Failed to record settings history', historyError);
+      }
+
+      await AuditLogService.record({
+        actorId: adminId,
+        action: 'settings.update',
+        targetType: 'settings',
+        targetId: changedKeys.join(','),
+        before: Object.fromEntries(changedKeys.map(key => [key, current[key]])),
+        after: Object.fromEntries(changedKeys.map(key => [key, changes[key]])),
+      });
+
+      const settings = { ...current, ...changes };
+      cachedSettings = { value: settings, fetchedAt: Date.now() };
+
+      dbLogger.success('Platform settings updated', { keys: changedKeys });
+      return { success: true, settings };
+    } catch (error) {
+      dbLogger.error('Error in updateSettings', error);
+      return { success: false, error: 'An error occurred while saving settings' };
+    }
+  }
+
+  /**
+   * Get recent settings changes, newest first
+   */
+  static async getSettingsHistory(limit = 50): Promise<SettingChange[]> {
+    try {
+      const { data, error } = await supabase
+        .from('platform_settings_history')
+        .select(`
+          *,
+          admin:users!platform_settings_history_changed_by_fkey(email, display_name)
+        `)
+        .order('changed_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        dbLogger.error('Failed to fetch settings history', error);
+        return [];
+      }
+
+      return (data || []) as SettingChange[];
+    } catch (error) {
+      dbLogger.error('Error in getSettingsHistory', error);
+      return [];
+    }
+  }
+
+  /**
+   * Check a listing against the price and image limits
+   * Returns an error message, or null if the listing is allowed
+   */
+  static validateListing(listing: ListingConstraintInput, settings: PlatformSettings): string | null {
+    if (listing.imageCount > settings.max_images_per_listing) {
+      return `Listings can have at most ${settings.max_images_per_listing} images`;
+    }
+
+    // Drafts may be saved with a placeholder price and are checked again when published
+    if (!listing.isDraft && (listing.price < settings.min_listing_price || listing.price > settings.max_listing_price)) {
+      return `Price must be between $${settings.min_listing_price} and $${settings.max_listing_price}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Helper: Reject settings values that would make the platform unusable
+   */
+  private static validateSettings(settings: PlatformSettings): string | null {
+    if (!Number.isInteger(settings.max_images_per_listing) || settings.max_images_per_listing < 1) {
+      return 'Max images per listing must be at least 1';
+    }
+    if (settings.min_listing_price < 0) {
+      return 'Minimum price cannot be negative';
+    }
+    if (settings.auto_delete_denied_listings_days < 1) {
+      return 'Auto-delete period must be at least 1 day';
+    }
+    if (settings.listing_expiry_days < 1 || Object.values(settings.listing_expiry_days_by_category || {}).some(days => days < 1)) {
+      return 'Listings must stay up for at least 1 day';
+    }
+    if (settings.expiry_warning_days < 0 || settings.expiry_warning_days >= settings.listing_expiry_days) {
+      return 'Expiry warnings must be sent before the listing expires';
+    }
+    if (settings.min_listing_price > settings.max_listing_price) {
+      return 'Minimum price cannot be higher than maximum price';
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,245 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+
+export interface StorageCleanupResult {
+  scanned: number; // Objects looked at across both buckets
+  orphaned: number; // Unreferenced objects, including ones still inside the grace period
+  deleted: number;
+  reclaimedBytes: number;
+}
+
+export interface StorageCleanupRun extends StorageCleanupResult {
+  id: string;
+  ran_at: string;
+}
+
+// Unreferenced uploads younger than this are left alone, so photos picked for a
+// listing that hasn't been saved yet aren't removed from under the form
+export const ORPHANED_IMAGE_GRACE_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Objects listed per storage request, and removed per remove() call
+const STORAGE_PAGE_SIZE = 1000;
+const REMOVE_CHUNK_SIZE = 200;
+
+// Rows fetched per request while collecting referenced URLs
+const SCAN_PAGE_SIZE = 1000;
+
+// Folders each bucket keeps uploads in; profile photos have lived at the bucket root and under profiles/
+const CLEANUP_BUCKETS: { bucket: string; folders: string[] }[] = [
+  { bucket: 'listing-images', folders: ['listings'] },
+  { bucket: 'profile-images', folders: ['', 'profiles'] },
+];
+
+interface StorageObject {
+  path: string;
+  size: number;
+  createdAt: number;
+}
+
+/**
+ * StorageCleanupService class for removing images nothing points at anymore
+ *
+ * Deleting a listing, replacing its photos or swapping an avatar leaves the old
+ * files in storage. Rather than deleting at each of those points (and losing a
+ * file if the database write then fails), a scheduled job (see
+ * app/api/cron/cleanup-storage) diffs each bucket against the URLs still stored
+ * on listings and users, and removes orphans once they're past the grace period.
+ * Each run is recorded so admins can see the space reclaimed.
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE storage_cleanup_runs (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   ran_at TIMESTAMP NOT NULL DEFAULT NOW(),
+ *   scanned INTEGER NOT NULL DEFAULT 0,
+ *   orphaned INTEGER NOT NULL DEFAULT 0,
+ *   deleted INTEGER NOT NULL DEFAULT 0,
+ *   reclaimed_bytes BIGINT NOT NULL DEFAULT 0
+ * );
+ *
+ * CREATE INDEX idx_storage_cleanup_runs_ran_at ON storage_cleanup_runs(ran_at DESC);
+ */
+export class StorageCleanupService {
+  /**
+   * Remove unreferenced listing and profile images older than the grace period and record the run
+   * Runs with a server client so it can see every object and every user's rows
+   */
+  static async runCleanupJob(client: SupabaseClient, now: Date = new Date()): Promise<StorageCleanupResult> {
+    const result: StorageCleanupResult = { scanned: 0, orphaned: 0, deleted: 0, reclaimedBytes: 0 };
+
+    try {
+      dbLogger.info('Running storage cleanup job', { now: now.toISOString() });
+
+      const referenced = await this.getReferencedPaths(client);
+      const cutoff = now.getTime() - ORPHANED_IMAGE_GRACE_HOURS * HOUR_MS;
+
+      for (const { bucket, folders } of CLEANUP_BUCKETS) {
+        const objects = await this.listObjects(client, bucket, folders);
+        const orphans = objects.filter(object => !referenced[bucket]?.has(object.path));
+        const expired = orphans.filter(object => object.createdAt < cutoff);
+
+        result.scanned += objects.length;
+        result.orphaned += orphans.length;
+
+        for (let i = 0; i < expired.length; i += REMOVE_CHUNK_SIZE) {
+          const chunk = expired.slice(i, i + REMOVE_CHUNK_SIZE);
+          const { error } = await client.storage.from(bucket).remove(chunk.map(object => object.path));
+
+          if (error) {
+            dbLogger.error('Failed to remove orphaned images', { bucket, error });
+            continue;
+          }
+          result.deleted += chunk.length;
+          result.reclaimedBytes += chunk.reduce((total, object) => total + object.size, 0);
+        }
+      }
+
+      const { error: recordError } = await client.from('storage_cleanup_runs').insert({
+        ran_at: now.toISOString(),
+        scanned: result.scanned,
+        orphaned: result.orphaned,
+        deleted: result.deleted,
+        reclaimed_bytes: result.reclaimedBytes,
+      });
+      if (recordError) {
+        dbLogger.error('Failed to record storage cleanup run', recordError);
+      }
+
+      dbLogger.success('Storage cleanup job finished', result);
+      return result;
+    } catch (error) {
+      dbLogger.error('Error in runCleanupJob', error);
+      return result;
+    }
+  }
+
+  /**
+   * Get the most recent cleanup runs, newest first, for the admin settings page
+   */
+  static async getRecentRuns(limit: number = 10): Promise<StorageCleanupRun[]> {
+    try {
+      const { data, error } = await supabase
+        .from('storage_cleanup_runs')
+        .select('*')
+        .order('ran_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        dbLogger.error('Failed to fetch storage cleanup runs', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({
+        id: row.id,
+        ran_at: row.ran_at,
+        scanned: row.scanned,
+        orphaned: row.orphaned,
+        deleted: row.deleted,
+        reclaimedBytes: Number(row.reclaimed_bytes) || 0,
+      }));
+    } catch (error) {
+      dbLogger.error('Error in getRecentRuns', error);
+      return [];
+    }
+  }
+
+  /**
+   * Helper: Object paths still referenced by a listing or user, by bucket
+   * Drafts, archived and sold listings count too, since their photos can still be shown
+   */
+  private static async getReferencedPaths(client: SupabaseClient): Promise<Record<string, Set<string>>> {
+    const referenced: Record<string, Set<string>> = Object.fromEntries(
+      CLEANUP_BUCKETS.map(({ bucket }) => [bucket, new Set<string>()])
+    );
+    const addUrl = (url: string | null | undefined) => {
+      const match = url && this.parseStorageUrl(url);
+      if (match && referenced[match.bucket]) referenced[match.bucket].add(match.path);
+    };
+
+    const listings = await this.fetchAll(client, 'listings', 'id, images, image_variants');
+    for (const listing of listings) {
+      (listing.images || []).forEach(addUrl);
+      Object.values(listing.image_variants || {}).forEach((variant: any) => {
+        addUrl(variant?.medium);
+        addUrl(variant?.thumbnail);
+      });
+    }
+
+    const users = await this.fetchAll(client, 'users', 'id, profile_image_url');
+    users.forEach(user => addUrl(user.profile_image_url));
+
+    return referenced;
+  }
+
+  /**
+   * Helper: Bucket and object path from a public storage URL
+   */
+  private static parseStorageUrl(url: string): { bucket: string; path: string } | null {
+    const match = url.match(/\/storage\/v1\/object\/public\/([^/]+)\/([^?#]+)/);
+    if (!match) return null;
+    return { bucket: match[1], path: decodeURIComponent(match[2]) };
+  }
+
+  /**
+   * Helper: Every file directly inside the given folders of a bucket
+   */
+  private static async listObjects(client: SupabaseClient, bucket: string, folders: string[]): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+
+    for (const folder of folders) {
+      for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+        const { data, error } = await client.storage
+          .from(bucket)
+          .list(folder, { limit: STORAGE_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+
+        if (error) {
+          // Skip the folder rather than treat everything in it as unreferenced
+          dbLogger.error('Failed to list storage objects', { bucket, folder, error });
+          break;
+        }
+
+        for (const entry of data || []) {
+          // Sub-folders come back without an id
+          if (!entry.id) continue;
+          objects.push({
+            path: folder ? `${folder}/${entry.name}` : entry.name,
+            size: Number(entry.metadata?.size) || 0,
+            createdAt: new Date(entry.created_at).getTime(),
+          });
+        }
+
+        if (!data || data.length < STORAGE_PAGE_SIZE) break;
+      }
+    }
+
+    return objects;
+  }
+
+  /**
+   * Helper: Fetch every row of a table in pages
+   * Throws on failure, since a partial list of references would make live images look orphaned
+   */
+  private static async fetchAll(client: SupabaseClient, table: string, columns: string): Promise<any[]> {
+    const rows: any[] = [];
+
+    for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+      const { data, error } = await client
+        .from(table)
+        .select(columns)
+        .order('id')
+        .range(from, from + SCAN_PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < SCAN_PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+}
@@ -0,0 +1,117 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { isSuspended, SuspensionFields } from '../utils/suspensionUtils';
+
+export const SUSPENDED_ERROR = 'Your account is suspended';
+
+/**
+ * SuspensionService class for checking account bans and timed suspensions
+ * Admins suspend users through AdminService; every write path checks here first,
+ * and the triggers below re-check in the database so suspensions hold for any client
+ *
+ * Database Schema:
+ *
+ * ALTER TABLE users ADD COLUMN banned_until TIMESTAMP NULL; -- NULL while is_banned = permanent
+ * ALTER TABLE users ADD COLUMN ban_reason TEXT NULL;
+ *
+ * CREATE FUNCTION is_user_suspended(uid UUID) RETURNS BOOLEAN AS $$
+ *   SELECT COALESCE(
+ *     (SELECT is_banned AND (banned_until IS NULL OR banned_until > NOW()) FROM users WHERE id = uid),
+ *     FALSE
+ *   );
+ * $$ LANGUAGE sql STABLE SECURITY DEFINER;
+ *
+ * -- Checks the signed-in user, so scheduled jobs (no auth.uid()) are unaffected
+ * CREATE FUNCTION enforce_not_suspended() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   IF is_user_suspended(auth.uid()) THEN
+ *     RAISE EXCEPTION 'Your account is suspended';
+ *   END IF;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql;
+ *
+ * CREATE TRIGGER listings_enforce_not_suspended BEFORE INSERT OR UPDATE ON listings
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_not_suspended();
+ * CREATE TRIGGER messages_enforce_not_suspended BEFORE INSERT ON messages
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_not_suspended();
+ * CREATE TRIGGER offers_enforce_not_suspended BEFORE INSERT OR UPDATE ON offers
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_not_suspended();
+ * CREATE TRIGGER reviews_enforce_not_suspended BEFORE INSERT OR UPDATE ON reviews
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_not_suspended();
+ * CREATE TRIGGER listing_reports_enforce_not_suspended BEFORE INSERT ON listing_reports
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_not_suspended();
+ * CREATE TRIGGER user_reports_enforce_not_suspended BEFORE INSERT ON user_reports
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_not_suspended();
+ *
+ * -- What middleware.ts needs about the signed-in user, read together with the maintenance flag
+ * CREATE FUNCTION get_request_context()
+ * RETURNS TABLE (maintenance_mode BOOLEAN, onboard_complete BOOLEAN, is_admin BOOLEAN, is_banned BOOLEAN, banned_until TIMESTAMP) AS $$
+ *   SELECT
+ *     COALESCE((SELECT value = 'true'::JSONB FROM platform_settings WHERE key = 'maintenance_mode'), FALSE),
+ *     users.onboard_complete, users.is_admin, users.is_banned, users.banned_until
+ *   FROM (SELECT 1) AS request
+ *   LEFT JOIN users ON users.id = auth.uid();
+ * $$ LANGUAGE sql STABLE SECURITY DEFINER;
+ */
+export class SuspensionService {
+  /**
+   * Get a user's ban fields
+   * Pass a server client (e.g. from middleware) to read outside the browser
+   */
+  static async getSuspension(userId: string, client: SupabaseClient = supabase): Promise<SuspensionFields | null> {
+    try {
+      const { data, error } = await client
+        .from('users')
+        .select('is_banned, banned_until, ban_reason')
+        .eq('id', userId)
+        .single();
+
+      if (error) {
+        dbLogger.error('Failed to fetch suspension status', error);
+        return null;
+      }
+
+      return data as SuspensionFields;
+    } catch (error) {
+      dbLogger.error('Error in getSuspension', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a user is suspended right now
+   */
+  static async isUserSuspended(userId: string, client: SupabaseClient = supabase): Promise<boolean> {
+    const suspension = await this.getSuspension(userId, client);
+    const suspended = isSuspended(suspension);
+    if (suspended) {
+      dbLogger.warn('Action blocked for suspended user', { userId });
+    }
+    return suspended;
+  }
+
+  /**
+   * Get the ids of every currently suspended user
+   * Their listings are hidden from browse and search
+   */
+  static async getSuspendedUserIds(): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, is_banned, banned_until')
+        .eq('is_banned', true);
+
+      if (error) {
+        dbLogger.error('Failed to fetch suspended users', error);
+        return [];
+      }
+
+      return (data || []).filter(user => isSuspended(user)).map(user => user.id);
+    } catch (error) {
+      dbLogger.error('Error in getSuspendedUserIds', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,510 @@
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { ListingService } from './ListingService';
+import { NotificationService } from './NotificationService';
+
+/**
+ * Transaction lifecycle:
+ * pending (offer accepted) → awaiting_confirmation (seller marked sold to the buyer)
+ * → completed (buyer confirmed) or cancelled
+ */
+export type TransactionStatus = 'pending' | 'awaiting_confirmation' | 'completed' | 'cancelled';
+
+export interface Transaction {
+  id: string;
+  listing_id: string;
+  seller_id: string;
+  buyer_id: string;
+  offer_id?: string | null;
+  amount: number;
+  status: TransactionStatus;
+  created_at: string;
+  completed_at?: string | null;
+  listing_title?: string;
+}
+
+export interface CreateTransactionParams {
+  listingId: string;
+  sellerId: string;
+  buyerId: string;
+  amount: number;
+  offerId?: string;
+}
+
+export interface MarkSoldToParams {
+  listingId: string;
+  sellerId: string;
+  buyerId: string;
+  amount?: number; // Defaults to the agreed offer amount, then the listing price
+}
+
+export interface ConversationPartner {
+  id: string;
+  display_name: string;
+  profile_image_url?: string | null;
+}
+
+// Transactions that are still in progress for a listing
+const OPEN_STATUSES: TransactionStatus[] = ['pending', 'awaiting_confirmation'];
+
+/**
+ * TransactionService class for trades between a seller and a buyer
+ * Completed transactions back trade counts and decide who can rate whom
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE transactions (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   listing_id UUID REFERENCES listings(id) ON DELETE SET NULL,
+ *   seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   offer_id UUID REFERENCES offers(id) ON DELETE SET NULL,
+ *   amount NUMERIC NOT NULL,
+ *   status VARCHAR(30) DEFAULT 'pending' CHECK (status IN ('pending', 'awaiting_confirmation', 'completed', 'cancelled')),
+ *   created_at TIMESTAMP DEFAULT NOW(),
+ *   completed_at TIMESTAMP NULL
+ * );
+ *
+ * CREATE INDEX idx_transactions_seller_id ON transactions(seller_id);
+ * CREATE INDEX idx_transactions_buyer_id ON transactions(buyer_id);
+ * CREATE INDEX idx_transactions_listing_id ON transactions(listing_id);
+ *
+ * ALTER TABLE reviews ADD COLUMN transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE;
+ * CREATE UNIQUE INDEX idx_reviews_reviewer_transaction ON reviews(reviewer_id, transaction_id);
+ *
+ * -- Who may move a trade forward is enforced here, not just in this class: only the seller opens
+ * -- a trade (accept_offer opens one for an accepted offer as SECURITY DEFINER), only the seller
+ * -- marks it sold, only the buyer completes it, and either party can cancel while it's open
+ * ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY transactions_read ON transactions FOR SELECT
+ *   USING (auth.uid() IN (seller_id, buyer_id));
+ * CREATE POLICY transactions_insert ON transactions FOR INSERT WITH CHECK (
+ *   auth.uid() = seller_id
+ *   AND buyer_id <> seller_id
+ *   AND status IN ('pending', 'awaiting_confirmation')
+ *   AND completed_at IS NULL
+ *   AND EXISTS (SELECT 1 FROM listings WHERE listings.id = listing_id AND listings.user_id = auth.uid())
+ *   -- The buyer has to be someone the seller actually talked to about this listing
+ *   AND EXISTS (
+ *     SELECT 1 FROM messages
+ *     WHERE messages.listing_id = transactions.listing_id
+ *       AND ((messages.sender_id = seller_id AND messages.receiver_id = buyer_id)
+ *         OR (messages.sender_id = buyer_id AND messages.receiver_id = seller_id))
+ *   )
+ * );
+ * CREATE POLICY transactions_update ON transactions FOR UPDATE
+ *   USING (auth.uid() IN (seller_id, buyer_id));
+ *
+ * -- Checks the signed-in user, so scheduled jobs (no auth.uid()) are unaffected
+ * CREATE FUNCTION guard_transaction_update() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   IF auth.uid() IS NULL THEN
+ *     RETURN NEW;
+ *   END IF;
+ *   IF NEW.seller_id <> OLD.seller_id OR NEW.buyer_id <> OLD.buyer_id
+ *      OR NEW.listing_id IS DISTINCT FROM OLD.listing_id OR NEW.offer_id IS DISTINCT FROM OLD.offer_id
+ *      OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+ *     RAISE EXCEPTION 'Transaction parties and listing cannot be changed';
+ *   END IF;
+ *   IF OLD.status NOT IN ('pending', 'awaiting_confirmation') THEN
+ *     RAISE EXCEPTION 'Completed and cancelled transactions cannot be changed';
+ *   END IF;
+ *   IF NEW.amount <> OLD.amount AND auth.uid() <> OLD.seller_id THEN
+ *     RAISE EXCEPTION 'Only the seller can change the amount';
+ *   END IF;
+ *
+ *   IF NEW.status = 'awaiting_confirmation' AND OLD.status <> 'awaiting_confirmation' AND auth.uid() <> OLD.seller_id THEN
+ *     RAISE EXCEPTION 'Only the seller can mark a transaction sold';
+ *   ELSIF NEW.status = 'completed' AND (OLD.status <> 'awaiting_confirmation' OR auth.uid() <> OLD.buyer_id) THEN
+ *     RAISE EXCEPTION 'Only the buyer can complete a transaction awaiting confirmation';
+ *   ELSIF NEW.status = 'pending' AND OLD.status <> 'pending' THEN
+ *     RAISE EXCEPTION 'A transaction cannot go back to pending';
+ *   END IF;
+ *
+ *   NEW.completed_at := CASE WHEN NEW.status = 'completed' THEN NOW() ELSE NULL END;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql;
+ *
+ * CREATE TRIGGER transactions_guard_update BEFORE UPDATE ON transactions
+ *   FOR EACH ROW EXECUTE FUNCTION guard_transaction_update();
+ *
+ * -- A review has to point at a completed trade between the reviewer and the reviewed user
+ * ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ * CREATE POLICY reviews_read ON reviews FOR SELECT USING (true);
+ * CREATE POLICY reviews_insert ON reviews FOR INSERT WITH CHECK (auth.uid() = reviewer_id);
+ * CREATE POLICY reviews_update ON reviews FOR UPDATE
+ *   USING (auth.uid() = reviewer_id) WITH CHECK (auth.uid() = reviewer_id);
+ *
+ * CREATE FUNCTION enforce_review_transaction() RETURNS TRIGGER AS $$
+ * BEGIN
+ *   IF NOT EXISTS (
+ *     SELECT 1 FROM transactions
+ *     WHERE id = NEW.transaction_id
+ *       AND status = 'completed'
+ *       AND ((seller_id = NEW.reviewer_id AND buyer_id = NEW.reviewed_id)
+ *         OR (buyer_id = NEW.reviewer_id AND seller_id = NEW.reviewed_id))
+ *   ) THEN
+ *     RAISE EXCEPTION 'Reviews need a completed transaction between these users';
+ *   END IF;
+ *   RETURN NEW;
+ * END;
+ * $$ LANGUAGE plpgsql SECURITY DEFINER;
+ *
+ * CREATE TRIGGER reviews_enforce_transaction BEFORE INSERT OR UPDATE OF reviewer_id, reviewed_id, transaction_id ON reviews
+ *   FOR EACH ROW EXECUTE FUNCTION enforce_review_transaction();
+ */
+export class TransactionService {
+  /**
+   * Open a transaction between a seller and a buyer (the seller only, with a buyer they messaged about the listing; enforced by transactions_insert)
+   */
+  static async createTransaction(params: CreateTransactionParams): Promise<Transaction | null> {
+    const { listingId, sellerId, buyerId, amount, offerId } = params;
+
+    try {
+      dbLogger.info('Creating transaction', { listingId, sellerId, buyerId, amount });
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .insert({
+          listing_id: listingId,
+          seller_id: sellerId,
+          buyer_id: buyerId,
+          offer_id: offerId || null,
+          amount,
+          status: 'pending',
+        })
+        .select()
+        .single();
+
+      if (error) {
+        dbLogger.error('Failed to create transaction', error);
+        return null;
+      }
+
+      dbLogger.success('Transaction created successfully', { transactionId: data.id });
+      return data as Transaction;
+    } catch (error) {
+      dbLogger.error('Error in createTransaction', error);
+      return null;
+    }
+  }
+
+  /**
+   * Seller marks a listing as sold to a specific buyer, who then has to confirm
+   * Reuses the transaction from an accepted offer when there is one
+   */
+  static async markSoldTo(params: MarkSoldToParams): Promise<{ success: boolean; transaction?: Transaction; error?: string }> {
+    const { listingId, sellerId, buyerId } = params;
+
+    try {
+      dbLogger.info('Marking listing sold to buyer', { listingId, sellerId, buyerId });
+
+      if (sellerId === buyerId) {
+        return { success: false, error: "You can't sell a listing to yourself" };
+      }
+
+      const { data: listing, error: listingError } = await supabase
+        .from('listings')
+        .select('id, title, price, user_id')
+        .eq('id', listingId)
+        .eq('user_id', sellerId) // Ensure user owns the listing
+        .single();
+
+      if (listingError || !listing) {
+        return { success: false, error: 'Listing not found' };
+      }
+
+      // Checked up front for a clear error; transactions_insert enforces the same rule
+      const { data: conversation } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('listing_id', listingId)
+        .or(`and(sender_id.eq.${sellerId},receiver_id.eq.${buyerId}),and(sender_id.eq.${buyerId},receiver_id.eq.${sellerId})`)
+        .limit(1);
+
+      if (!conversation || conversation.length === 0) {
+        return { success: false, error: 'You can only mark a listing sold to someone you messaged about it' };
+      }
+
+      const { data: existing } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('listing_id', listingId)
+        .eq('buyer_id', buyerId)
+        .in('status', OPEN_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      const amount = params.amount ?? (existing && existing.length > 0 ? Number(existing[0].amount) : Number(listing.price));
+
+      let transaction: Transaction | null = null;
+      if (existing && existing.length > 0) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .update({ status: 'awaiting_confirmation', amount })
+          .eq('id', existing[0].id)
+          .select()
+          .single();
+        if (error) throw error;
+        transaction = data as Transaction;
+      } else {
+        const { data, error } = await supabase
+          .from('transactions')
+          .insert({
+            listing_id: listingId,
+            seller_id: sellerId,
+            buyer_id: buyerId,
+            amount,
+            status: 'awaiting_confirmation',
+          })
+          .select()
+          .single();
+        if (error) throw error;
+        transaction = data as Transaction;
+      }
+
+      // Any other buyer's deal on this listing is off
+      await supabase
+        .from('transactions')
+        .update({ status: 'cancelled' })
+        .eq('listing_id', listingId)
+        .neq('id', transaction.id)
+        .in('status', OPEN_STATUSES);
+
+      const marked = await ListingService.markListingAsSold(listingId, sellerId, true);
+      if (!marked) {
+        return { success: false, error: 'Failed to mark listing as sold' };
+      }
+
+      await NotificationService.createNotifications([{
+        userId: buyerId,
+        type: 'transaction_confirmation',
+        title: 'Confirm your purchase',
+        body: `The seller marked ${listing.title} as sold to you for $${amount}`,
+        link: `/listing/${listingId}`,
+        data: { transaction_id: transaction.id, listing_id: listingId },
+      }]);
+
+      dbLogger.success('Listing marked sold to buyer', { transactionId: transaction.id });
+      return { success: true, transaction };
+    } catch (error) {
+      dbLogger.error('Error in markSoldTo', error);
+      return { success: false, error: 'Failed to mark listing as sold' };
+    }
+  }
+
+  /**
+   * Buyer confirms they bought the listing, completing the transaction
+   */
+  static async confirmTransaction(transactionId: string, buyerId: string): Promise<Transaction | null> {
+    try {
+      dbLogger.info('Confirming transaction', { transactionId, buyerId });
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', transactionId)
+        .eq('buyer_id', buyerId) // Only the buyer can confirm
+        .eq('status', 'awaiting_confirmation')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        dbLogger.error('Failed to confirm transaction', error);
+        return null;
+      }
+      if (!data) {
+        dbLogger.warn('No transaction awaiting confirmation', { transactionId });
+        return null;
+      }
+
+      await NotificationService.createNotifications([{
+        userId: data.seller_id,
+        type: 'transaction_completed',
+        title: 'Sale confirmed',
+        body: 'The buyer confirmed your sale. You can now rate each other.',
+        link: `/profile/${data.buyer_id}`,
+        data: { transaction_id: data.id, listing_id: data.listing_id },
+      }]);
+
+      dbLogger.success('Transaction confirmed successfully', { transactionId });
+      return data as Transaction;
+    } catch (error) {
+      dbLogger.error('Error in confirmTransaction', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel an open transaction (either party)
+   */
+  static async cancelTransaction(transactionId: string, userId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Cancelling transaction', { transactionId, userId });
+
+      const { error } = await supabase
+        .from('transactions')
+        .update({ status: 'cancelled' })
+        .eq('id', transactionId)
+        .or(`seller_id.eq.${userId},buyer_id.eq.${userId}`) // Ensure user is part of the trade
+        .in('status', OPEN_STATUSES);
+
+      if (error) {
+        dbLogger.error('Failed to cancel transaction', error);
+        return false;
+      }
+
+      dbLogger.success('Transaction cancelled successfully', { transactionId });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in cancelTransaction', error);
+      return false;
+    }
+  }
+
+  /**
+   * Cancel every open transaction on a listing (e.g. when it's marked available again)
+   */
+  static async cancelOpenTransactions(listingId: string, sellerId: string): Promise<boolean> {
+    try {
+      dbLogger.info('Cancelling open transactions for listing', { listingId });
+
+      const { error } = await supabase
+        .from('transactions')
+        .update({ status: 'cancelled' })
+        .eq('listing_id', listingId)
+        .eq('seller_id', sellerId)
+        .in('status', OPEN_STATUSES);
+
+      if (error) {
+        dbLogger.error('Failed to cancel listing transactions', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in cancelOpenTransactions', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the transaction a buyer still has to confirm for a listing, if any
+   */
+  static async getAwaitingConfirmation(listingId: string, buyerId: string): Promise<Transaction | null> {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('listing_id', listingId)
+        .eq('buyer_id', buyerId)
+        .eq('status', 'awaiting_confirmation')
+        .limit(1);
+
+      if (error) {
+        dbLogger.error('Failed to fetch transaction awaiting confirmation', error);
+        return null;
+      }
+
+      return data && data.length > 0 ? (data[0] as Transaction) : null;
+    } catch (error) {
+      dbLogger.error('Error in getAwaitingConfirmation', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get completed transactions between two users (in either direction), newest first
+   * These are the trades one of them can rate the other for
+   */
+  static async getCompletedTransactionsBetween(userId: string, otherUserId: string): Promise<Transaction[]> {
+    try {
+      dbLogger.info('Fetching completed transactions between users', { userId, otherUserId });
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*, listing:listings(title)')
+        .eq('status', 'completed')
+        .or(
+          `and(seller_id.eq.${userId},buyer_id.eq.${otherUserId}),` +
+          `and(seller_id.eq.${otherUserId},buyer_id.eq.${userId})`
+        )
+        .order('completed_at', { ascending: false });
+
+      if (error) {
+        dbLogger.error('Failed to fetch completed transactions', error);
+        return [];
+      }
+
+      return (data || []).map(({ listing, ...transaction }) => ({
+        ...transaction,
+        listing_title: listing?.title || 'Deleted listing',
+      })) as Transaction[];
+    } catch (error) {
+      dbLogger.error('Error in getCompletedTransactionsBetween', error);
+      return [];
+    }
+  }
+
+  /**
+   * Count a user's completed trades as buyer or seller
+   */
+  static async getCompletedTransactionCount(userId: string): Promise<number> {
+    try {
+      const { count, error } = await supabase
+        .from('transactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'completed')
+        .or(`seller_id.eq.${userId},buyer_id.eq.${userId}`);
+
+      if (error) {
+        dbLogger.error('Failed to count completed transactions', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      dbLogger.error('Error in getCompletedTransactionCount', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the users a seller has messaged with about a listing
+   * These are the people the seller can mark the listing as sold to
+   */
+  static async getConversationPartners(listingId: string, sellerId: string): Promise<ConversationPartner[]> {
+    try {
+      const { data: messages, error } = await supabase
+        .from('messages')
+        .select('sender_id, receiver_id')
+        .eq('listing_id', listingId)
+        .or(`sender_id.eq.${sellerId},receiver_id.eq.${sellerId}`);
+
+      if (error) {
+        dbLogger.error('Failed to fetch listing conversation partners', error);
+        return [];
+      }
+
+      const partnerIds = Array.from(new Set((messages || []).map(message =>
+        message.sender_id === sellerId ? message.receiver_id : message.sender_id
+      ))).filter(id => id !== sellerId);
+
+      if (partnerIds.length === 0) return [];
+
+      const { data: users } = await supabase
+        .from('users')
+        .select('id, display_name, profile_image_url')
+        .in('id', partnerIds);
+
+      return (users || []).map(user => ({
+        ...user,
+        display_name: user.display_name || 'Unknown User',
+      }));
+    } catch (error) {
+      dbLogger.error('Error in getConversationPartners', error);
+      return [];
+    }
+  }
+}
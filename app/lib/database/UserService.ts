@@ -1,5 +1,9 @@
 import { supabase } from '../supabaseClient';
 import { dbLogger } from './utils';
+import { TransactionService } from './TransactionService';
+import { BlockService } from './BlockService';
+import { SuspensionService } from './SuspensionService';
+import { isSuspended } from '../utils/suspensionUtils';
 
 export interface UserProfile {
   id: string;
@@ -26,6 +30,7 @@ export interface UserRating {
   comment?: string;
   created_at: string;
   rater_name?: string;
+  transaction_id?: string | null;
 }
 
 export interface CreateUserProfileParams {
@@ -56,6 +61,7 @@ export interface UpdateUserProfileParams {
 export interface CreateRatingParams {
   raterId: string;
   ratedId: string;
+  transactionId: string; // The completed trade this rating is for
   rating: number;
   comment?: string;
 }
@@ -218,9 +224,11 @@ export class UserService {
 
   /**
    * Create or update user rating
+   * Only the counterparties of a completed transaction can rate each other, once per transaction
+   * (enforced by the reviews_enforce_transaction trigger; see TransactionService)
    */
   static async upsertUserRating(params: CreateRatingParams): Promise<UserRating | null> {
-    const { raterId, ratedId, rating, comment } = params;
+    const { raterId, ratedId, transactionId, rating, comment } = params;
 
     if (raterId === ratedId) {
       dbLogger.warn('User cannot rate themselves', { raterId, ratedId });
@@ -228,17 +236,28 @@ export class UserService {
     }
 
     try {
-      dbLogger.info('Upserting user rating', { raterId, ratedId, rating });
+      dbLogger.info('Upserting user rating', { raterId, ratedId, transactionId, rating });
+
+      if (await SuspensionService.isUserSuspended(raterId)) return null;
+
+      // Checked up front only to skip a request the database would reject anyway
+      const transactions = await TransactionService.getCompletedTransactionsBetween(raterId, ratedId);
+      if (!transactions.some(transaction => transaction.id === transactionId)) {
+        dbLogger.warn('No completed transaction between users for rating', { raterId, ratedId, transactionId });
+        return null;
+      }
 
       const { data, error } = await supabase
-        .from('user_ratings')
+        .from('reviews')
         .upsert({
-          rater_id: raterId,
-          rated_id: ratedId,
+          reviewer_id: raterId,
+          reviewed_id: ratedId,
+          transaction_id: transactionId,
           rating,
           comment,
+          created_at: new Date().toISOString(),
         }, {
-          onConflict: 'rater_id,rated_id'
+          onConflict: 'reviewer_id,transaction_id'
         })
         .select()
         .single();
@@ -249,7 +268,11 @@ export class UserService {
       }
 
       dbLogger.success('User rating upserted successfully', { ratingId: data.id });
-      return data as UserRating;
+      return {
+        ...data,
+        rater_id: data.reviewer_id,
+        rated_id: data.reviewed_id,
+      } as UserRating;
     } catch (error) {
       dbLogger.error('Error in upsertUserRating', error);
       return null;
@@ -354,11 +377,13 @@ export class UserService {
         ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length
         : 0;
 
+      const completedTransactions = await TransactionService.getCompletedTransactionCount(userId);
+
       const stats: UserStats = {
         listingsCount: listings?.length || 0,
         averageRating,
         totalRatings: ratings?.length || 0,
-        completedTransactions: 0, // This would need a transactions table
+        completedTransactions,
         memberSince: profile?.created_at || new Date().toISOString(),
       };
 
@@ -452,27 +477,24 @@ export class UserService {
   }
 
   /**
-   * Check if user can be contacted (not blocked, etc.)
+   * Check if user can be contacted: both accounts exist, neither is suspended and neither has blocked the other
    */
   static async canContactUser(fromUserId: string, toUserId: string): Promise<boolean> {
     try {
       dbLogger.info('Checking if user can be contacted', { fromUserId, toUserId });
 
-      // For now, just check if both users exist
-      // In the future, this could check for blocks, restrictions, etc.
-      const { data: fromUser } = await supabase
+      const { data: users } = await supabase
         .from('users')
-        .select('id')
-        .eq('id', fromUserId)
-        .single();
+        .select('id, is_banned, banned_until')
+        .in('id', [fromUserId, toUserId]);
 
-      const { data: toUser } = await supabase
-        .from('users')
-        .select('id')
-        .eq('id', toUserId)
-        .single();
+      if ((users?.length || 0) < 2 || users!.some(user => isSuspended(user))) {
+        dbLogger.success('Contact check completed', { canContact: false });
+        return false;
+      }
 
-      const canContact = !!(fromUser && toUser);
+      const { blockedByMe, blockedMe } = await BlockService.getBlockStatus(fromUserId, toUserId);
+      const canContact = !blockedByMe && !blockedMe;
       
       dbLogger.success('Contact check completed', { canContact });
       return canContact;
@@ -0,0 +1,166 @@
+import { supabase } from '../supabaseClient';
+import { dbLogger } from './utils';
+import { NotificationService, NotificationType } from './NotificationService';
+
+export type WatchlistEvent = 'price_drop' | 'sold' | 'updated' | 'deleted';
+
+export interface PriceHistoryPoint {
+  price: number;
+  recorded_at: string;
+}
+
+export interface WatchedListing {
+  id: string;
+  title: string;
+  price: number;
+  user_id: string;
+}
+
+const EVENT_NOTIFICATION_TYPES: Record<WatchlistEvent, NotificationType> = {
+  price_drop: 'watchlist_price_drop',
+  sold: 'watchlist_sold',
+  updated: 'watchlist_updated',
+  deleted: 'watchlist_deleted',
+};
+
+/**
+ * WatchlistService class for listing price history and watcher alerts
+ * Watchers are users with a 'watchlist' row in user_favorites for the listing
+ *
+ * Database Schema:
+ *
+ * CREATE TABLE listing_price_history (
+ *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+ *   listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+ *   price NUMERIC NOT NULL,
+ *   recorded_at TIMESTAMP DEFAULT NOW()
+ * );
+ *
+ * CREATE INDEX idx_listing_price_history_listing_id ON listing_price_history(listing_id, recorded_at);
+ */
+export class WatchlistService {
+  /**
+   * Record a listing's price (called on create and whenever the price changes)
+   */
+  static async recordPrice(listingId: string, price: number): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('listing_price_history')
+        .insert({ listing_id: listingId, price });
+
+      if (error) {
+        dbLogger.error('Failed to record listing price', error);
+        return false;
+      }
+
+      dbLogger.success('Listing price recorded', { listingId, price });
+      return true;
+    } catch (error) {
+      dbLogger.error('Error in recordPrice', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a listing's price history, oldest first
+   */
+  static async getPriceHistory(listingId: string): Promise<PriceHistoryPoint[]> {
+    try {
+      dbLogger.info('Fetching price history', { listingId });
+
+      const { data, error } = await supabase
+        .from('listing_price_history')
+        .select('price, recorded_at')
+        .eq('listing_id', listingId)
+        .order('recorded_at', { ascending: true });
+
+      if (error) {
+        dbLogger.error('Failed to fetch price history', error);
+        return [];
+      }
+
+      return (data || []).map(point => ({ ...point, price: Number(point.price) }));
+    } catch (error) {
+      dbLogger.error('Error in getPriceHistory', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the ids of users watching a listing (excluding its owner)
+   * Fetch these before deleting a listing, since its user_favorites rows go with it
+   */
+  static async getWatcherIds(listingId: string, ownerId?: string): Promise<string[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_favorites')
+        .select('user_id')
+        .eq('listing_id', listingId)
+        .eq('type', 'watchlist');
+
+      if (error) {
+        dbLogger.error('Failed to fetch listing watchers', error);
+        return [];
+      }
+
+      return Array.from(new Set((data || []).map(row => row.user_id)))
+        .filter(userId => userId !== ownerId);
+    } catch (error) {
+      dbLogger.error('Error in getWatcherIds', error);
+      return [];
+    }
+  }
+
+  /**
+   * Notify everyone watching a listing about a change
+   */
+  static async notifyWatchers(
+    listing: WatchedListing,
+    event: WatchlistEvent,
+    options: { previousPrice?: number; watcherIds?: string[] } = {}
+  ): Promise<number> {
+    try {
+      const watcherIds = options.watcherIds ?? await this.getWatcherIds(listing.id, listing.user_id);
+      if (watcherIds.length === 0) return 0;
+
+      dbLogger.info('Notifying listing watchers', { listingId: listing.id, event, count: watcherIds.length });
+
+      const { title, body } = this.describeEvent(listing, event, options.previousPrice);
+      const success = await NotificationService.createNotifications(watcherIds.map(userId => ({
+        userId,
+        type: EVENT_NOTIFICATION_TYPES[event],
+        title,
+        body,
+        // Deleted listings have nothing left to link to
+        link: event === 'deleted' ? '/favorites' : `/listing/${listing.id}`,
+        data: { listing_id: listing.id, price: listing.price, previous_price: options.previousPrice ?? null },
+      })));
+
+      return success ? watcherIds.length : 0;
+    } catch (error) {
+      dbLogger.error('Error in notifyWatchers', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Helper: Notification copy for each watchlist event
+   */
+  private static describeEvent(listing: WatchedListing, event: WatchlistEvent, previousPrice?: number) {
+    switch (event) {
+      case 'price_drop':
+        return {
+          title: 'Price drop on a watched listing',
+          body: previousPrice !== undefined
+            ? `${listing.title} dropped from $${previousPrice} to $${listing.price}`
+            : `${listing.title} is now $${listing.price}`,
+        };
+      case 'sold':
+        return { title: 'Watched listing sold', body: `${listing.title} has been marked as sold` };
+      case 'deleted':
+        return { title: 'Watched listing removed', body: `${listing.title} is no longer available` };
+      default:
+        return { title: 'Watched listing updated', body: `The seller updated ${listing.title}` };
+    }
+  }
+}
@@ -10,39 +10,78 @@ export interface ConversationQueryParams {
   userId: string;
 }
 
+export interface MessagePageQueryParams {
+  conversationId: string;
+  before?: { id: string; created_at: string };
+  after?: string | null; // The reader's delete point; older messages stay hidden from them
+  limit: number;
+}
+
 /**
- * Build a query to fetch messages between two users for a specific listing
- * Follows the same pattern as the mobile app's buildMessageQuery utility
+ * Conversations store their two participants in a fixed order (user_a < user_b)
+ * so each pair and listing maps to exactly one row
  */
-export const buildMessageQuery = (
-  supabase: SupabaseClient, 
+export const orderParticipants = (userId: string, otherUserId: string): [string, string] => {
+  return userId < otherUserId ? [userId, otherUserId] : [otherUserId, userId];
+};
+
+/**
+ * Build a query to find the conversation between two users for a specific listing
+ */
+export const buildConversationLookupQuery = (
+  supabase: SupabaseClient,
   params: MessageQueryParams
 ) => {
   const { userId, otherUserId, listingId } = params;
-  
+  const [userA, userB] = orderParticipants(userId, otherUserId);
+
+  const query = supabase
+    .from('conversations')
+    .select('*')
+    .eq('user_a', userA)
+    .eq('user_b', userB);
+
+  return listingId === null || listingId === undefined || listingId === "general"
+    ? query.is('listing_id', null)
+    : query.eq('listing_id', listingId);
+};
+
+/**
+ * Build a query to fetch one page of a conversation's messages, newest first
+ * Pass the oldest message already loaded as the cursor to page backwards
+ */
+export const buildMessagePageQuery = (
+  supabase: SupabaseClient,
+  params: MessagePageQueryParams
+) => {
+  const { conversationId, before, after, limit } = params;
+
   let query = supabase
     .from('messages')
-    .select('*');
+    .select('*')
+    .eq('conversation_id', conversationId);
 
-  if (listingId === null || listingId === "general") {
-    // General conversation (no specific listing)
-    query = query.or(
-      `and(sender_id.eq.${userId},receiver_id.eq.${otherUserId}),` +
-      `and(sender_id.eq.${otherUserId},receiver_id.eq.${userId})`
-    ).is('listing_id', null);
-  } else {
-    // Listing-specific conversation
+  if (after) {
+    query = query.gt('created_at', after);
+  }
+
+  if (before) {
+    // Ties on created_at are broken by id so no message is skipped or repeated
     query = query.or(
-      `and(sender_id.eq.${userId},receiver_id.eq.${otherUserId},listing_id.eq.${listingId}),` +
-      `and(sender_id.eq.${otherUserId},receiver_id.eq.${userId},listing_id.eq.${listingId})`
+      `created_at.lt."${before.created_at}",` +
+      `and(created_at.eq."${before.created_at}",id.lt.${before.id})`
     );
   }
 
-  return query.order('created_at', { ascending: true });
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
 };
 
 /**
- * Build a query to fetch all conversations for a user
+ * Build a query to fetch all conversations for a user, most recent first
+ * The last message is embedded so previews don't need a second round trip
  */
 export const buildConversationQuery = (
   supabase: SupabaseClient, 
@@ -51,10 +90,11 @@ export const buildConversationQuery = (
   const { userId } = params;
   
   return supabase
-    .from('messages')
-    .select('*')
-    .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
-    .order('created_at', { ascending: false });
+    .from('conversations')
+    .select('*, last_message:messages!conversations_last_message_id_fkey(*)')
+    .or(`user_a.eq.${userId},user_b.eq.${userId}`)
+    .not('last_message_id', 'is', null)
+    .order('last_message_at', { ascending: false });
 };
 
 /**
@@ -96,34 +136,6 @@ export const buildMarkAsReadQuery = (
     .in('id', messageIds);
 };
 
-/**
- * Build a query to delete messages
- */
-export const buildDeleteMessagesQuery = (
-  supabase: SupabaseClient, 
-  params: MessageQueryParams
-) => {
-  const { userId, otherUserId, listingId } = params;
-  
-  let query = supabase
-    .from('messages')
-    .delete();
-
-  if (listingId === null || listingId === "general") {
-    query = query.or(
-      `and(sender_id.eq.${userId},receiver_id.eq.${otherUserId}),` +
-      `and(sender_id.eq.${otherUserId},receiver_id.eq.${userId})`
-    ).is('listing_id', null);
-  } else {
-    query = query.or(
-      `and(sender_id.eq.${userId},receiver_id.eq.${otherUserId},listing_id.eq.${listingId}),` +
-      `and(sender_id.eq.${otherUserId},receiver_id.eq.${userId},listing_id.eq.${listingId})`
-    );
-  }
-
-  return query;
-};
-
 /**
  * Utility to validate user ID format
  */
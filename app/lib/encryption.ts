@@ -2,8 +2,9 @@
  * Encryption Utilities for End-to-End Encrypted Messaging
  *
  * This module provides client-side encryption/decryption using the Web Crypto API.
- * Messages are encrypted with the receiver's public key and can only be decrypted
- * with the receiver's private key (asymmetric encryption).
+ * Messages are encrypted with a one-off AES-GCM key, which is then wrapped with the
+ * public key of each participant (hybrid encryption). Only the sender and receiver
+ * can unwrap it with their private keys.
  */
 
 // ============================================================================
@@ -43,104 +44,313 @@ export async function generateKeyPair(): Promise<{
     };
 }
 
+// ============================================================================
+// MESSAGE FORMATS
+// ============================================================================
+
+/**
+ * How a stored message body is encoded
+ * - plaintext: sent before encryption existed, or to a user without keys
+ * - legacy-rsa: v1, the plaintext RSA-OAEP encrypted for the receiver only
+ * - envelope-v2: AES-GCM body with the content key wrapped for every participant
+ */
+export type MessageFormat = 'plaintext' | 'legacy-rsa' | 'envelope-v2';
+
+// Prefix that marks a v2 envelope; base64 never contains ':' so it can't collide with v1
+export const MESSAGE_ENVELOPE_PREFIX = 'e2e:v2:';
+
+// Shown in place of a message the current key can't open
+export const UNDECRYPTABLE_MESSAGE = '[Unable to decrypt message]';
+
+// A 2048-bit RSA-OAEP ciphertext is always 256 bytes, i.e. 344 base64 characters
+const LEGACY_CIPHERTEXT_LENGTH = 344;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+interface MessageEnvelope {
+    iv: string; // AES-GCM IV (base64)
+    ct: string; // AES-GCM ciphertext of the message (base64)
+    keys: string[]; // Content key wrapped with each participant's public key (base64)
+}
+
+/**
+ * Detects the format of a stored message body
+ */
+export function getMessageFormat(content: string | null | undefined): MessageFormat {
+    if (!content) return 'plaintext';
+    if (content.startsWith(MESSAGE_ENVELOPE_PREFIX)) return 'envelope-v2';
+    if (content.length === LEGACY_CIPHERTEXT_LENGTH && BASE64_PATTERN.test(content)) {
+        return 'legacy-rsa';
+    }
+    return 'plaintext';
+}
+
+/**
+ * Whether a stored message body is encrypted (in any format)
+ */
+export function isEncryptedMessage(content: string | null | undefined): boolean {
+    return getMessageFormat(content) !== 'plaintext';
+}
+
 // ============================================================================
 // MESSAGE ENCRYPTION
 // ============================================================================
 
 /**
- * Encrypts a message using the receiver's public key
- * Only the receiver (with their private key) can decrypt it
+ * Encrypts a message for one or more participants
+ * The body is encrypted with a random AES-GCM key, and that key is wrapped with each
+ * participant's public key. Pass both the receiver's and the sender's public keys so
+ * the sender can read their own history later; there is no length limit.
  *
  * @param plaintext - The message to encrypt
- * @param receiverPublicKeyBase64 - Receiver's public key (base64)
- * @returns Encrypted message (base64)
+ * @param recipientPublicKeysBase64 - Public key(s) that should be able to read it (base64)
+ * @returns Encrypted message envelope (prefixed string)
  */
 export async function encryptMessage(
     plaintext: string,
-    receiverPublicKeyBase64: string
+    recipientPublicKeysBase64: string | string[]
 ): Promise<string> {
     try {
-        // Import receiver's public key
-        const publicKeyBuffer = base64ToArrayBuffer(receiverPublicKeyBase64);
-        const publicKey = await crypto.subtle.importKey(
-            'spki',
-            publicKeyBuffer,
-            {
-                name: 'RSA-OAEP',
-                hash: 'SHA-256',
-            },
-            false,
-            ['encrypt']
-        );
-
-        // Convert message to bytes
-        const encoder = new TextEncoder();
-        const data = encoder.encode(plaintext);
+        const { content } = await sealEnvelope(plaintext, recipientPublicKeysBase64);
+        return content;
+    } catch (error) {
+        console.error('Encryption failed:', error);
+        throw new Error('Failed to encrypt message');
+    }
+}
 
-        // Encrypt with receiver's public key
-        const encryptedData = await crypto.subtle.encrypt(
-            { name: 'RSA-OAEP' },
-            publicKey,
-            data
+/**
+ * Encrypts a message together with binary attachments (e.g. photos)
+ * Attachments are encrypted with the message's own content key, so anyone who can
+ * read the message can open them and nobody else can. Each encrypted attachment is
+ * its 12-byte IV followed by the AES-GCM ciphertext.
+ *
+ * @param plaintext - The message text (may be empty)
+ * @param attachments - Raw attachment bytes
+ * @param recipientPublicKeysBase64 - Public key(s) that should be able to read it (base64)
+ * @returns The message envelope and the encrypted attachments, in the same order
+ */
+export async function encryptMessageWithAttachments(
+    plaintext: string,
+    attachments: ArrayBuffer[],
+    recipientPublicKeysBase64: string | string[]
+): Promise<{ content: string; attachments: ArrayBuffer[] }> {
+    try {
+        const { content, contentKey } = await sealEnvelope(plaintext, recipientPublicKeysBase64);
+
+        const encryptedAttachments = await Promise.all(
+            attachments.map(async (data) => {
+                const iv = crypto.getRandomValues(new Uint8Array(12));
+                const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv }, contentKey, data);
+
+                const combined = new Uint8Array(iv.byteLength + ciphertext.byteLength);
+                combined.set(iv, 0);
+                combined.set(new Uint8Array(ciphertext), iv.byteLength);
+                return combined.buffer;
+            })
         );
 
-        // Return as base64 string
-        return arrayBufferToBase64(encryptedData);
+        return { content, attachments: encryptedAttachments };
     } catch (error) {
-        console.error('Encryption failed:', error);
-        throw new Error('Failed to encrypt message');
+        console.error('Attachment encryption failed:', error);
+        throw new Error('Failed to encrypt attachments');
     }
 }
 
+/**
+ * Builds a v2 envelope and returns the content key so attachments can share it
+ */
+async function sealEnvelope(
+    plaintext: string,
+    recipientPublicKeysBase64: string | string[]
+): Promise<{ content: string; contentKey: CryptoKey }> {
+    const recipientKeys = Array.from(new Set(
+        Array.isArray(recipientPublicKeysBase64) ? recipientPublicKeysBase64 : [recipientPublicKeysBase64]
+    ));
+    if (recipientKeys.length === 0) {
+        throw new Error('At least one recipient public key is required');
+    }
+
+    // Fresh content key for every message
+    const contentKey = await crypto.subtle.generateKey(
+        { name: 'AES-GCM', length: 256 },
+        true, // Extractable so it can be wrapped
+        ['encrypt', 'decrypt']
+    );
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encoder = new TextEncoder();
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: iv },
+        contentKey,
+        encoder.encode(plaintext)
+    );
+
+    // Wrap the content key for each participant
+    const wrappedKeys = await Promise.all(
+        recipientKeys.map(async (publicKeyBase64) => {
+            const publicKey = await crypto.subtle.importKey(
+                'spki',
+                base64ToArrayBuffer(publicKeyBase64),
+                {
+                    name: 'RSA-OAEP',
+                    hash: 'SHA-256',
+                },
+                false,
+                ['wrapKey']
+            );
+            const wrapped = await crypto.subtle.wrapKey('raw', contentKey, publicKey, { name: 'RSA-OAEP' });
+            return arrayBufferToBase64(wrapped);
+        })
+    );
+
+    const envelope: MessageEnvelope = {
+        iv: arrayBufferToBase64(iv.buffer),
+        ct: arrayBufferToBase64(ciphertext),
+        keys: wrappedKeys,
+    };
+
+    return { content: MESSAGE_ENVELOPE_PREFIX + JSON.stringify(envelope), contentKey };
+}
+
 // ============================================================================
 // MESSAGE DECRYPTION
 // ============================================================================
 
 /**
- * Decrypts a message using the user's private key
+ * Decrypts a stored message using the user's private key
+ * Handles every format: v2 envelopes, legacy v1 RSA messages (readable by the
+ * receiver only) and plaintext, which is returned unchanged
  *
- * @param encryptedBase64 - Encrypted message (base64)
+ * @param content - Stored message body
  * @param privateKeyBase64 - User's private key (base64)
- * @returns Decrypted plaintext message
+ * @returns Decrypted plaintext message, or UNDECRYPTABLE_MESSAGE
  */
 export async function decryptMessage(
-    encryptedBase64: string,
+    content: string,
     privateKeyBase64: string
 ): Promise<string> {
-    try {
-        // Import private key
-        const privateKeyBuffer = base64ToArrayBuffer(privateKeyBase64);
-        const privateKey = await crypto.subtle.importKey(
-            'pkcs8',
-            privateKeyBuffer,
-            {
-                name: 'RSA-OAEP',
-                hash: 'SHA-256',
-            },
-            false,
-            ['decrypt']
-        );
-
-        // Convert encrypted message from base64
-        const encryptedData = base64ToArrayBuffer(encryptedBase64);
-
-        // Decrypt with private key
-        const decryptedData = await crypto.subtle.decrypt(
-            { name: 'RSA-OAEP' },
-            privateKey,
-            encryptedData
-        );
+    const format = getMessageFormat(content);
+    if (format === 'plaintext') return content;
 
-        // Convert bytes back to string
-        const decoder = new TextDecoder();
-        return decoder.decode(decryptedData);
+    try {
+        return format === 'envelope-v2'
+            ? await decryptEnvelope(content, privateKeyBase64)
+            : await decryptLegacyMessage(content, privateKeyBase64);
     } catch (error) {
         console.error('Decryption failed:', error);
         // Return a placeholder instead of throwing to prevent UI crashes
-        return '[Unable to decrypt message]';
+        return UNDECRYPTABLE_MESSAGE;
     }
 }
 
+/**
+ * Decrypts an attachment of a v2 message
+ * Throws if the message can't be opened with this key (unlike decryptMessage,
+ * there is no sensible placeholder for binary data)
+ *
+ * @param encryptedData - IV followed by ciphertext, as produced by encryptMessageWithAttachments
+ * @param content - The stored envelope of the message the attachment belongs to
+ * @param privateKeyBase64 - User's private key (base64)
+ * @returns The original attachment bytes
+ */
+export async function decryptAttachment(
+    encryptedData: ArrayBuffer,
+    content: string,
+    privateKeyBase64: string
+): Promise<ArrayBuffer> {
+    if (getMessageFormat(content) !== 'envelope-v2') {
+        throw new Error('Attachments require a v2 message envelope');
+    }
+
+    const contentKey = await unwrapContentKey(parseEnvelope(content), privateKeyBase64);
+    const bytes = new Uint8Array(encryptedData);
+
+    return crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.slice(0, 12) },
+        contentKey,
+        bytes.slice(12)
+    );
+}
+
+/**
+ * Opens a v2 envelope by unwrapping whichever content key belongs to this private key
+ */
+async function decryptEnvelope(content: string, privateKeyBase64: string): Promise<string> {
+    const envelope = parseEnvelope(content);
+    const contentKey = await unwrapContentKey(envelope, privateKeyBase64);
+
+    const decryptedData = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(envelope.iv)) },
+        contentKey,
+        base64ToArrayBuffer(envelope.ct)
+    );
+
+    return new TextDecoder().decode(decryptedData);
+}
+
+function parseEnvelope(content: string): MessageEnvelope {
+    return JSON.parse(content.slice(MESSAGE_ENVELOPE_PREFIX.length)) as MessageEnvelope;
+}
+
+/**
+ * Finds the content key wrapped for this private key
+ */
+async function unwrapContentKey(envelope: MessageEnvelope, privateKeyBase64: string): Promise<CryptoKey> {
+    const privateKey = await crypto.subtle.importKey(
+        'pkcs8',
+        base64ToArrayBuffer(privateKeyBase64),
+        {
+            name: 'RSA-OAEP',
+            hash: 'SHA-256',
+        },
+        false,
+        ['unwrapKey']
+    );
+
+    // Keys aren't labelled by participant; only ours will unwrap successfully
+    for (const wrapped of envelope.keys || []) {
+        try {
+            return await crypto.subtle.unwrapKey(
+                'raw',
+                base64ToArrayBuffer(wrapped),
+                privateKey,
+                { name: 'RSA-OAEP' },
+                { name: 'AES-GCM', length: 256 },
+                false,
+                ['decrypt']
+            );
+        } catch {
+            // Wrapped for another participant
+        }
+    }
+
+    throw new Error('Message was not encrypted for this key');
+}
+
+/**
+ * Decrypts a v1 message, which was RSA-OAEP encrypted with the receiver's key only
+ */
+async function decryptLegacyMessage(encryptedBase64: string, privateKeyBase64: string): Promise<string> {
+    const privateKey = await crypto.subtle.importKey(
+        'pkcs8',
+        base64ToArrayBuffer(privateKeyBase64),
+        {
+            name: 'RSA-OAEP',
+            hash: 'SHA-256',
+        },
+        false,
+        ['decrypt']
+    );
+
+    const decryptedData = await crypto.subtle.decrypt(
+        { name: 'RSA-OAEP' },
+        privateKey,
+        base64ToArrayBuffer(encryptedBase64)
+    );
+
+    return new TextDecoder().decode(decryptedData);
+}
+
 // ============================================================================
 // PRIVATE KEY PROTECTION
 // ============================================================================
@@ -262,6 +472,104 @@ export async function decryptPrivateKey(
     }
 }
 
+// ============================================================================
+// KEY FINGERPRINTS
+// ============================================================================
+
+// Digits contributed by each participant's key to a safety number
+const SAFETY_NUMBER_DIGITS_PER_KEY = 30;
+const SAFETY_NUMBER_GROUP_LENGTH = 5;
+
+/**
+ * Fingerprint of a public key, used to notice when a contact's key changes
+ *
+ * @param publicKeyBase64 - Public key (base64)
+ * @returns SHA-256 of the key (hex)
+ */
+export async function getKeyFingerprint(publicKeyBase64: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', base64ToArrayBuffer(publicKeyBase64));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Computes the safety number for a conversation from both participants' public keys
+ * Both sides get the same number regardless of who computes it, so two people can
+ * compare it in person (or over another channel) to confirm nobody swapped a key.
+ *
+ * @returns 60 digits in groups of five, e.g. "37205 91842 ..."
+ */
+export async function computeSafetyNumber(publicKeyA: string, publicKeyB: string): Promise<string> {
+    const parts = await Promise.all([publicKeyA, publicKeyB].map(keyToDigits));
+    const digits = parts.sort().join('');
+
+    const groups: string[] = [];
+    for (let i = 0; i < digits.length; i += SAFETY_NUMBER_GROUP_LENGTH) {
+        groups.push(digits.slice(i, i + SAFETY_NUMBER_GROUP_LENGTH));
+    }
+    return groups.join(' ');
+}
+
+/**
+ * Turns a public key into a fixed number of decimal digits
+ * Every 5 bytes of its SHA-256 hash become one 5-digit group
+ */
+async function keyToDigits(publicKeyBase64: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', base64ToArrayBuffer(publicKeyBase64)));
+
+    let digits = '';
+    for (let offset = 0; digits.length < SAFETY_NUMBER_DIGITS_PER_KEY; offset += 5) {
+        let chunk = 0;
+        for (let i = 0; i < 5; i++) {
+            chunk = chunk * 256 + digest[offset + i];
+        }
+        digits += String(chunk % 100000).padStart(SAFETY_NUMBER_GROUP_LENGTH, '0');
+    }
+    return digits;
+}
+
+// ============================================================================
+// RECOVERY CODES
+// ============================================================================
+
+// Unambiguous characters only (no 0/O, 1/I) so codes survive being written down
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_GROUPS = 4;
+const RECOVERY_CODE_GROUP_LENGTH = 5; // 20 characters = 100 bits of randomness
+
+/**
+ * Generates a random recovery code like "K7MQX-2HPRA-9TDWE-FNB4C"
+ * Each code wraps its own copy of the private key (see encryptPrivateKey)
+ */
+export function generateRecoveryCode(): string {
+    const length = RECOVERY_CODE_GROUPS * RECOVERY_CODE_GROUP_LENGTH;
+    // The alphabet has 32 characters, so masking a random byte keeps the choice uniform
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte & 31]);
+
+    const groups: string[] = [];
+    for (let i = 0; i < length; i += RECOVERY_CODE_GROUP_LENGTH) {
+        groups.push(chars.slice(i, i + RECOVERY_CODE_GROUP_LENGTH).join(''));
+    }
+    return groups.join('-');
+}
+
+/**
+ * Normalizes a recovery code as typed by the user (case, spaces and dashes don't matter)
+ */
+export function normalizeRecoveryCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Hashes a recovery code so it can be looked up without storing the code itself
+ *
+ * @returns SHA-256 of the normalized code (hex)
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
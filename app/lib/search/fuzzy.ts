@@ -0,0 +1,54 @@
+/**
+ * Typo tolerance helpers for listing search
+ */
+
+/**
+ * Maximum number of edits allowed for a query term of the given length
+ * Short terms must match exactly or "tv" would match half the catalog
+ */
+export function maxEditsFor(term: string): number {
+  if (term.length <= 3) return 0;
+  if (term.length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment) between two strings
+ * Stops early and returns maxDistance + 1 once the distance is known to exceed it
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let prevPrev: number[] = [];
+  let prev: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current: number[] = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        prev[j] + 1,        // Deletion
+        current[j - 1] + 1, // Insertion
+        prev[j - 1] + cost  // Substitution
+      );
+
+      // Transposition of two adjacent characters ("lpatop" -> "laptop")
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
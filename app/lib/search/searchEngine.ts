@@ -0,0 +1,224 @@
+import { tokenize, normalizeWord, Token } from './tokenizer';
+import { getSynonyms } from './synonyms';
+import { editDistance, maxEditsFor } from './fuzzy';
+
+/**
+ * Listing search engine
+ * Ranks documents against a free-text query with stemming, synonyms, typo
+ * tolerance and title-over-description weighting, and reports the character
+ * offsets of every hit so the UI can highlight them
+ */
+
+export type SearchField = 'title' | 'description';
+
+export interface SearchMatch {
+  field: SearchField;
+  start: number;
+  end: number;
+}
+
+export interface SearchDocument {
+  title: string;
+  description?: string | null;
+}
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  matches: SearchMatch[];
+}
+
+interface QueryTerm {
+  term: string;
+  synonyms: string[];
+  allowPrefix: boolean;
+}
+
+interface ParsedQuery {
+  terms: QueryTerm[];
+  phrase: string;
+}
+
+// A hit in the title is worth three hits in the description
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  description: 1,
+};
+
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.8,
+  synonym: 0.7,
+  fuzzy: 0.6,
+};
+
+// Bonus when a multi-word query appears verbatim (after stemming) in the title
+const PHRASE_BONUS = 2;
+
+/**
+ * Parses a raw query into stemmed terms with their synonyms
+ */
+export function parseQuery(query: string): ParsedQuery {
+  let tokens = tokenize(query);
+  // A query made only of stop words ("the") should still search for something
+  if (tokens.length === 0) tokens = tokenize(query, { keepStopWords: true });
+
+  const seen = new Set<string>();
+  const terms: QueryTerm[] = [];
+  tokens.forEach((token, index) => {
+    if (seen.has(token.term)) return;
+    seen.add(token.term);
+    terms.push({
+      term: token.term,
+      synonyms: getSynonyms(token.term),
+      // The last word is usually still being typed, so let it match as a prefix
+      allowPrefix: index === tokens.length - 1 && token.term.length >= 2,
+    });
+  });
+
+  return { terms, phrase: tokens.map(token => token.term).join(' ') };
+}
+
+/**
+ * How well a document token satisfies a query term (0 = no match)
+ */
+function matchQuality(queryTerm: QueryTerm, token: Token): number {
+  if (token.term === queryTerm.term) return MATCH_QUALITY.exact;
+  if (queryTerm.synonyms.includes(token.term)) return MATCH_QUALITY.synonym;
+
+  if (queryTerm.allowPrefix) {
+    const normalized = normalizeWord(token.raw);
+    if (normalized.startsWith(queryTerm.term) || token.term.startsWith(queryTerm.term)) {
+      return MATCH_QUALITY.prefix;
+    }
+  }
+
+  const maxEdits = maxEditsFor(queryTerm.term);
+  if (maxEdits > 0) {
+    const distance = editDistance(queryTerm.term, token.term, maxEdits);
+    if (distance <= maxEdits) {
+      return MATCH_QUALITY.fuzzy * (1 - (distance - 1) * 0.25);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Number of query terms a document has to match to count as a result
+ * Short queries need every term; longer ones tolerate a missing word
+ */
+function requiredTermCount(termCount: number): number {
+  return termCount <= 2 ? termCount : Math.ceil((termCount * 2) / 3);
+}
+
+/**
+ * Sorts matches by field and offset and merges overlapping ranges
+ */
+function mergeMatches(matches: SearchMatch[]): SearchMatch[] {
+  const sorted = [...matches].sort((a, b) =>
+    a.field === b.field ? a.start - b.start : a.field.localeCompare(b.field)
+  );
+
+  const merged: SearchMatch[] = [];
+  for (const match of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.field === match.field && match.start <= last.end) {
+      last.end = Math.max(last.end, match.end);
+    } else {
+      merged.push({ ...match });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Scores a single document against a parsed query
+ * Returns null when the document doesn't match enough of the query
+ */
+export function scoreDocument(
+  query: ParsedQuery,
+  document: SearchDocument
+): { score: number; matches: SearchMatch[] } | null {
+  if (query.terms.length === 0) return null;
+
+  const fieldTokens: Record<SearchField, Token[]> = {
+    title: tokenize(document.title || ''),
+    description: tokenize(document.description || ''),
+  };
+
+  const matches: SearchMatch[] = [];
+  let score = 0;
+  let matchedTerms = 0;
+
+  for (const queryTerm of query.terms) {
+    let best = 0;
+
+    (Object.keys(fieldTokens) as SearchField[]).forEach(field => {
+      for (const token of fieldTokens[field]) {
+        const quality = matchQuality(queryTerm, token);
+        if (quality > 0) {
+          matches.push({ field, start: token.start, end: token.end });
+          best = Math.max(best, quality * FIELD_WEIGHTS[field]);
+        }
+      }
+    });
+
+    if (best > 0) {
+      matchedTerms++;
+      score += best;
+    }
+  }
+
+  if (matchedTerms < requiredTermCount(query.terms.length)) return null;
+
+  // Penalize documents that only match part of a longer query
+  score *= matchedTerms / query.terms.length;
+
+  if (query.terms.length > 1) {
+    const titlePhrase = fieldTokens.title.map(token => token.term).join(' ');
+    if (titlePhrase.includes(query.phrase)) score += PHRASE_BONUS;
+  }
+
+  return { score, matches: mergeMatches(matches) };
+}
+
+/**
+ * Ranks items against a query, best match first
+ * Items that tie keep their input order, so pass them in the desired fallback order
+ */
+export function rankDocuments<T>(
+  items: T[],
+  query: string,
+  getDocument: (item: T) => SearchDocument
+): SearchResult<T>[] {
+  const parsed = parseQuery(query);
+  if (parsed.terms.length === 0) return [];
+
+  const results: SearchResult<T>[] = [];
+  for (const item of items) {
+    const scored = scoreDocument(parsed, getDocument(item));
+    if (scored) results.push({ item, ...scored });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Finds the ranges of a piece of text that match a query
+ * Used for highlighting fields that weren't part of the ranked search
+ */
+export function findMatchRanges(text: string, query: string): { start: number; end: number }[] {
+  if (!text || !query) return [];
+
+  const parsed = parseQuery(query);
+  const matches: SearchMatch[] = [];
+
+  for (const token of tokenize(text)) {
+    if (parsed.terms.some(queryTerm => matchQuality(queryTerm, token) > 0)) {
+      matches.push({ field: 'title', start: token.start, end: token.end });
+    }
+  }
+
+  return mergeMatches(matches).map(({ start, end }) => ({ start, end }));
+}
@@ -0,0 +1,51 @@
+import { normalizeWord, stem } from './tokenizer';
+
+/**
+ * Synonym groups for listing search
+ * Every word in a group also matches the others (at a reduced weight), so a
+ * search for "macbook" surfaces listings that only say "laptop" and vice versa
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ['laptop', 'macbook', 'notebook', 'chromebook', 'thinkpad'],
+  ['phone', 'iphone', 'smartphone', 'android', 'pixel'],
+  ['tablet', 'ipad'],
+  ['tv', 'television'],
+  ['monitor', 'display', 'screen'],
+  ['headphones', 'earbuds', 'airpods', 'headset'],
+  ['couch', 'sofa', 'loveseat', 'futon'],
+  ['dresser', 'drawers', 'chest'],
+  ['desk', 'workstation'],
+  ['mattress', 'bed'],
+  ['fridge', 'refrigerator', 'minifridge'],
+  ['microwave', 'oven'],
+  ['bike', 'bicycle'],
+  ['scooter', 'moped'],
+  ['car', 'vehicle', 'auto', 'sedan', 'suv'],
+  ['sublease', 'sublet', 'lease', 'apartment', 'apt', 'room'],
+  ['textbook', 'book'],
+  ['jacket', 'coat', 'hoodie'],
+  ['sneakers', 'shoes', 'trainers'],
+  ['pan', 'skillet'],
+];
+
+// Stemmed term -> stemmed synonyms, built once from the groups above
+const SYNONYM_INDEX: Map<string, string[]> = (() => {
+  const index = new Map<string, string[]>();
+
+  for (const group of SYNONYM_GROUPS) {
+    const terms = group.map(word => stem(normalizeWord(word)));
+    for (const term of terms) {
+      const others = terms.filter(other => other !== term);
+      index.set(term, Array.from(new Set([...(index.get(term) || []), ...others])));
+    }
+  }
+
+  return index;
+})();
+
+/**
+ * Returns the stemmed synonyms for a stemmed term (excluding the term itself)
+ */
+export function getSynonyms(term: string): string[] {
+  return SYNONYM_INDEX.get(term) || [];
+}
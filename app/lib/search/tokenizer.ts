@@ -0,0 +1,84 @@
+/**
+ * Tokenizer for listing search
+ * Splits text into normalized, stemmed tokens while keeping the character
+ * offsets of each token in the original string so matches can be highlighted
+ */
+
+export interface Token {
+  term: string;  // Normalized and stemmed form used for matching
+  raw: string;   // Text exactly as it appears in the source
+  start: number; // Offset of the first character in the source
+  end: number;   // Offset one past the last character in the source
+}
+
+// Words too common to carry meaning in a marketplace query
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in',
+  'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+// Letters (including Latin accents) and digits, optionally followed by an apostrophe suffix ("men's")
+const TOKEN_PATTERN = /[A-Za-z0-9\u00C0-\u024F]+(?:'[A-Za-z]+)?/g;
+
+/**
+ * Lowercases a word and strips accents and possessive suffixes
+ */
+export function normalizeWord(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/'s$/, '')
+    .replace(/'/g, '');
+}
+
+/**
+ * Light English suffix stripper so "chairs", "chairing" and "chair" share a stem
+ * Deliberately conservative: short words and numbers are left untouched
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /^\d+$/.test(word)) return word;
+
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (/(?:x|ch|sh|zz)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) return word.slice(0, -1);
+
+  for (const suffix of ['ing', 'ed']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      if (suffix === 'ed' && base.endsWith('e')) return word; // "speed", "need"
+      // "shipping" -> "ship", but keep "ll"/"ss" endings like "selling" -> "sell"
+      if (/([^aeiouls])\1$/.test(base)) return base.slice(0, -1);
+      return base;
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Splits text into tokens with offsets into the original string
+ */
+export function tokenize(text: string, options: { keepStopWords?: boolean } = {}): Token[] {
+  if (!text) return [];
+
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    const normalized = normalizeWord(match[0]);
+    if (!normalized) continue;
+    if (!options.keepStopWords && STOP_WORDS.has(normalized)) continue;
+
+    tokens.push({
+      term: stem(normalized),
+      raw: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
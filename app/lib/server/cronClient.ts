@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Supabase client with the service role key, for server code that has to work across
+ * every user's rows (scheduled jobs, saved search alerts); bypasses row level security
+ * Returns null when SUPABASE_SERVICE_ROLE_KEY isn't configured
+ */
+export function createServiceRoleClient(): SupabaseClient | null {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+}
+
+/**
+ * Check that a request comes from the scheduler (Bearer CRON_SECRET) and create the client the job runs with
+ * Returns the response to send back instead when the request isn't authorized or the service role key is missing
+ */
+export function getCronClient(request: NextRequest): { client: SupabaseClient } | { response: NextResponse } {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const client = createServiceRoleClient();
+  if (!client) {
+    return {
+      response: NextResponse.json(
+        { error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' },
+        { status: 500 }
+      ),
+    };
+  }
+
+  return { client };
+}
@@ -0,0 +1,272 @@
+/**
+ * Utility functions for category-specific listing attributes
+ * Each category declares its extra fields here; the schema drives the create/edit
+ * inputs, validation in ListingService, the listing page details and browse facets
+ */
+
+export type AttributeFieldType = 'text' | 'number' | 'select' | 'boolean';
+
+export interface AttributeField {
+  key: string; // Key in listings.attributes
+  label: string;
+  type: AttributeFieldType;
+  required?: boolean; // Needed to publish; drafts can leave it blank
+  options?: string[]; // Allowed values for 'select'
+  min?: number; // Bounds for 'number'
+  max?: number;
+  step?: number;
+  unit?: string; // Shown after numbers, e.g. "mi"
+  placeholder?: string;
+  filterable?: boolean; // Offered as a browse facet (select, number and boolean fields only)
+}
+
+export type AttributeValue = string | number | boolean;
+export type ListingAttributes = Record<string, AttributeValue>;
+
+// Browse facet values as they appear in the URL: "brand", "year_min", "year_max", ...
+export type AttributeFilterValues = Record<string, string>;
+
+export type AttributeFilter =
+  | { key: string; type: 'equals'; value: string | boolean }
+  | { key: string; type: 'range'; min?: number; max?: number };
+
+// Browse URL params for attribute facets are prefixed so they can't collide with other filters
+export const ATTRIBUTE_PARAM_PREFIX = 'attr_';
+
+const NEXT_MODEL_YEAR = new Date().getFullYear() + 1;
+
+/**
+ * Attribute schemas keyed by database category
+ * Subleases have dedicated columns (see subleaseUtils) rather than attributes
+ */
+export const CATEGORY_ATTRIBUTE_SCHEMAS: Record<string, AttributeField[]> = {
+  furniture: [
+    {
+      key: 'furniture_type',
+      label: 'Type',
+      type: 'select',
+      required: true,
+      options: ['Bed', 'Chair', 'Couch', 'Desk', 'Dresser', 'Lamp', 'Shelf', 'Table', 'Other'],
+      filterable: true,
+    },
+    { key: 'material', label: 'Material', type: 'text', placeholder: 'e.g., Wood, Metal' },
+    { key: 'dimensions', label: 'Dimensions', type: 'text', placeholder: 'e.g., 48" x 24" x 30"' },
+  ],
+  tech: [
+    {
+      key: 'device_type',
+      label: 'Device',
+      type: 'select',
+      required: true,
+      options: ['Laptop', 'Phone', 'Tablet', 'Monitor', 'Headphones', 'Gaming', 'Accessory', 'Other'],
+      filterable: true,
+    },
+    {
+      key: 'brand',
+      label: 'Brand',
+      type: 'select',
+      required: true,
+      options: ['Apple', 'Samsung', 'Google', 'Microsoft', 'Dell', 'HP', 'Lenovo', 'Sony', 'Other'],
+      filterable: true,
+    },
+    { key: 'model', label: 'Model', type: 'text', placeholder: 'e.g., MacBook Air M2' },
+    { key: 'storage_gb', label: 'Storage', type: 'number', min: 0, step: 1, unit: 'GB' },
+  ],
+  vehicles: [
+    {
+      key: 'vehicle_type',
+      label: 'Vehicle Type',
+      type: 'select',
+      required: true,
+      options: ['Car', 'Bike', 'Scooter', 'Motorcycle', 'Other'],
+      filterable: true,
+    },
+    { key: 'make', label: 'Make', type: 'text', placeholder: 'e.g., Honda' },
+    { key: 'model', label: 'Model', type: 'text', placeholder: 'e.g., Civic' },
+    { key: 'year', label: 'Year', type: 'number', min: 1950, max: NEXT_MODEL_YEAR, step: 1, filterable: true },
+    { key: 'mileage', label: 'Mileage', type: 'number', min: 0, step: 1, unit: 'mi', filterable: true },
+  ],
+  clothing: [
+    {
+      key: 'clothing_type',
+      label: 'Type',
+      type: 'select',
+      required: true,
+      options: ['Tops', 'Bottoms', 'Outerwear', 'Dresses', 'Shoes', 'Accessories', 'Other'],
+      filterable: true,
+    },
+    {
+      key: 'size',
+      label: 'Size',
+      type: 'select',
+      options: ['XS', 'S', 'M', 'L', 'XL', 'XXL', 'One Size'],
+      filterable: true,
+    },
+    { key: 'brand', label: 'Brand', type: 'text', placeholder: 'e.g., Nike' },
+  ],
+  kitchen: [
+    {
+      key: 'kitchen_type',
+      label: 'Type',
+      type: 'select',
+      options: ['Appliance', 'Cookware', 'Dishware', 'Utensils', 'Storage', 'Other'],
+      filterable: true,
+    },
+    { key: 'brand', label: 'Brand', type: 'text', placeholder: 'e.g., KitchenAid' },
+  ],
+};
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const parseBound = (value?: string) => {
+  const number = value ? Number(value) : NaN;
+  return isNaN(number) ? undefined : number;
+};
+
+/**
+ * Attribute fields for a category (UI or database format); empty for categories without a schema
+ */
+export function getCategoryAttributes(category: string | null | undefined): AttributeField[] {
+  return CATEGORY_ATTRIBUTE_SCHEMAS[(category || '').trim().toLowerCase()] || [];
+}
+
+/**
+ * Fields of a category that can be used as browse facets
+ */
+export function getFilterableAttributes(category: string | null | undefined): AttributeField[] {
+  return getCategoryAttributes(category).filter(field => field.filterable && field.type !== 'text');
+}
+
+/**
+ * Keep only the category's fields, coercing form input to the field types and dropping blanks
+ * Used before saving and when a listing moves to another category
+ */
+export function cleanListingAttributes(
+  category: string | null | undefined,
+  attributes: Record<string, unknown> | null | undefined
+): ListingAttributes {
+  const cleaned: ListingAttributes = {};
+
+  getCategoryAttributes(category).forEach(field => {
+    const value = attributes?.[field.key];
+    if (isBlank(value)) return;
+
+    if (field.type === 'number') {
+      const number = Number(value);
+      if (!isNaN(number)) cleaned[field.key] = number;
+    } else if (field.type === 'boolean') {
+      cleaned[field.key] = value === true || value === 'true';
+    } else {
+      cleaned[field.key] = String(value).trim();
+    }
+  });
+
+  return cleaned;
+}
+
+/**
+ * Check a listing's attributes against its category schema, returning the problem or null
+ * Required fields are only enforced when publishing
+ */
+export function validateListingAttributes(
+  category: string | null | undefined,
+  attributes: ListingAttributes,
+  { requireAll = true }: { requireAll?: boolean } = {}
+): string | null {
+  for (const field of getCategoryAttributes(category)) {
+    const value = attributes[field.key];
+
+    if (isBlank(value)) {
+      if (requireAll && field.required) return `${field.label} is required.`;
+      continue;
+    }
+
+    if (field.type === 'select' && !field.options?.includes(String(value))) {
+      return `${field.label} must be one of: ${field.options?.join(', ')}.`;
+    }
+
+    if (field.type === 'number') {
+      if (typeof value !== 'number' || isNaN(value)) return `${field.label} must be a number.`;
+      if (field.min !== undefined && value < field.min) return `${field.label} must be at least ${field.min}.`;
+      if (field.max !== undefined && value > field.max) return `${field.label} must be at most ${field.max}.`;
+    }
+
+    if (field.type === 'boolean' && typeof value !== 'boolean') {
+      return `${field.label} must be yes or no.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Display value for an attribute, e.g. "42,000 mi" or "Yes"
+ */
+export function formatAttributeValue(field: AttributeField, value: AttributeValue): string {
+  if (field.type === 'boolean') return value ? 'Yes' : 'No';
+  if (field.type === 'number') {
+    // Years read oddly with thousands separators
+    const formatted = field.key === 'year' ? String(value) : Number(value).toLocaleString('en-US');
+    return field.unit ? `${formatted} ${field.unit}` : formatted;
+  }
+  return String(value);
+}
+
+/**
+ * Read attribute facet values out of the browse URL
+ */
+export function getAttributeFilterValues(searchParams: URLSearchParams): AttributeFilterValues {
+  const values: AttributeFilterValues = {};
+  searchParams.forEach((value, key) => {
+    if (key.startsWith(ATTRIBUTE_PARAM_PREFIX) && value) {
+      values[key.slice(ATTRIBUTE_PARAM_PREFIX.length)] = value;
+    }
+  });
+  return values;
+}
+
+/**
+ * Browse URL params for attribute facet values (only facets of the given category are kept)
+ */
+export function toAttributeFilterParams(
+  category: string | null | undefined,
+  values: AttributeFilterValues
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  getFilterableAttributes(category).forEach(field => {
+    const keys = field.type === 'number' ? [`${field.key}_min`, `${field.key}_max`] : [field.key];
+    keys.forEach(key => {
+      if (values[key]) params[`${ATTRIBUTE_PARAM_PREFIX}${key}`] = values[key];
+    });
+  });
+  return params;
+}
+
+/**
+ * Turn facet values into the attribute filters ListingService applies to a query
+ */
+export function buildAttributeFilters(
+  category: string | null | undefined,
+  values: AttributeFilterValues
+): AttributeFilter[] {
+  const filters: AttributeFilter[] = [];
+
+  getFilterableAttributes(category).forEach(field => {
+    if (field.type === 'number') {
+      const min = parseBound(values[`${field.key}_min`]);
+      const max = parseBound(values[`${field.key}_max`]);
+      if (min !== undefined || max !== undefined) {
+        filters.push({ key: field.key, type: 'range', min, max });
+      }
+    } else if (values[field.key]) {
+      filters.push({
+        key: field.key,
+        type: 'equals',
+        value: field.type === 'boolean' ? values[field.key] === 'true' : values[field.key],
+      });
+    }
+  });
+
+  return filters;
+}
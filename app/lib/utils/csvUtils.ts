@@ -0,0 +1,51 @@
+/**
+ * Utility functions for exporting tabular data as CSV
+ */
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+// Leading characters spreadsheet apps treat as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a single CSV field, quoting it when it contains commas, quotes or newlines
+ * Objects are serialized as JSON so snapshots survive the round trip
+ * Fields that could be read as a formula (user-written titles, reasons) get a leading ' so they open as text
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  const raw = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Builds a CSV document with a header row from a list of rows
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const header = columns.map(column => escapeCsvField(column.header)).join(',');
+  const lines = rows.map(row => columns.map(column => escapeCsvField(column.value(row))).join(','));
+  return [header, ...lines].join('\r\n');
+}
+
+/**
+ * Triggers a browser download of a CSV document
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
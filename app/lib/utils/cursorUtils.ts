@@ -0,0 +1,68 @@
+/**
+ * Utility functions for opaque pagination cursors
+ * Cursors are base64-encoded JSON so callers can pass them around without
+ * depending on how a given query pages through its results
+ */
+
+export interface KeysetCursor {
+  kind: 'keyset';
+  value: string | number;
+  id: string;
+}
+
+export interface OffsetCursor {
+  kind: 'offset';
+  offset: number;
+}
+
+export type PageCursor = KeysetCursor | OffsetCursor;
+
+// Keyset cursors always point at a listing id; anything else is rejected before it reaches a filter
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Encodes a cursor into an opaque, URL-safe string
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  const json = JSON.stringify(cursor);
+  const base64 = typeof window === 'undefined'
+    ? Buffer.from(json, 'utf-8').toString('base64')
+    : btoa(unescape(encodeURIComponent(json)));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor, returning null if it is malformed
+ * Cursors come back from the client, so only the expected fields and types are kept
+ */
+export function decodeCursor(cursor: string | null | undefined): PageCursor | null {
+  if (!cursor) return null;
+
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const json = typeof window === 'undefined'
+      ? Buffer.from(base64, 'base64').toString('utf-8')
+      : decodeURIComponent(escape(atob(base64)));
+    const parsed = JSON.parse(json);
+
+    if (parsed?.kind === 'keyset' && typeof parsed.id === 'string' && UUID_PATTERN.test(parsed.id)
+        && (typeof parsed.value === 'string' || typeof parsed.value === 'number')) {
+      return { kind: 'keyset', value: parsed.value, id: parsed.id };
+    }
+    if (parsed?.kind === 'offset' && Number.isInteger(parsed.offset) && parsed.offset >= 0) {
+      return { kind: 'offset', offset: parsed.offset };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quotes a value for use inside a PostgREST logic tree (or/and filters)
+ * Timestamps contain reserved characters such as ':' and '.' that must be quoted
+ */
+export function quoteFilterValue(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
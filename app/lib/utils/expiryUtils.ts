@@ -0,0 +1,95 @@
+/**
+ * Utility functions for working out when a listing goes stale
+ * Expiry is computed from the listing row and the current platform settings
+ * rather than stored, so changing the settings applies to existing listings
+ */
+
+import type { PlatformSettings } from '../database/SettingsService';
+
+export type ExpirySettings = Pick<
+  PlatformSettings,
+  'listing_expiry_days' | 'listing_expiry_days_by_category' | 'expiry_warning_days'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Month count for each fixed "Lease Duration" option on sublease listings
+const LEASE_DURATION_MONTHS: Record<string, number> = {
+  '6 months': 6,
+  '12 months': 12,
+};
+
+// Summer subleases run until the end of August
+const SUMMER_LEASE_END_MONTH = 7;
+const SUMMER_LEASE_END_DAY = 31;
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase();
+
+/**
+ * The date the listing's expiry clock started: the last renewal, or when it was posted
+ */
+export function getExpiryStartDate(listing: any): Date {
+  return new Date(listing.renewed_at || listing.created_at);
+}
+
+/**
+ * End of the lease for a sublease listing, or null when the lease is open-ended
+ * Uses an explicit lease_end_date when the listing has one, otherwise the lease duration
+ */
+export function getSubleaseEndDate(listing: any): Date | null {
+  if (normalize(listing.category) !== 'subleases') return null;
+
+  if (listing.lease_end_date) {
+    return new Date(listing.lease_end_date);
+  }
+
+  const duration = normalize(listing.condition);
+  const created = new Date(listing.created_at);
+
+  if (LEASE_DURATION_MONTHS[duration]) {
+    const end = new Date(created);
+    end.setMonth(end.getMonth() + LEASE_DURATION_MONTHS[duration]);
+    return end;
+  }
+
+  if (duration === 'summer') {
+    const end = new Date(created.getFullYear(), SUMMER_LEASE_END_MONTH, SUMMER_LEASE_END_DAY, 23, 59, 59);
+    // A summer sublease posted in the fall is for next summer
+    if (end.getTime() < created.getTime()) {
+      end.setFullYear(end.getFullYear() + 1);
+    }
+    return end;
+  }
+
+  return null;
+}
+
+/**
+ * When a listing expires
+ * Subleases expire when their lease ends; everything else after the category's
+ * configured number of days (or the platform default) since posting or renewal
+ */
+export function getListingExpiryDate(listing: any, settings: ExpirySettings): Date {
+  const leaseEnd = getSubleaseEndDate(listing);
+  if (leaseEnd) return leaseEnd;
+
+  const category = normalize(listing.category);
+  const days = settings.listing_expiry_days_by_category?.[category] || settings.listing_expiry_days;
+  return new Date(getExpiryStartDate(listing).getTime() + days * DAY_MS);
+}
+
+/**
+ * Whether a listing is inside the warning window before it expires
+ */
+export function isListingExpiringSoon(listing: any, settings: ExpirySettings, now: Date = new Date()): boolean {
+  const expiresAt = getListingExpiryDate(listing, settings).getTime();
+  return expiresAt > now.getTime() && expiresAt - now.getTime() <= settings.expiry_warning_days * DAY_MS;
+}
+
+/**
+ * Whole days until a listing expires (0 once it has expired)
+ */
+export function getDaysUntilExpiry(listing: any, settings: ExpirySettings, now: Date = new Date()): number {
+  const remaining = getListingExpiryDate(listing, settings).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(remaining / DAY_MS));
+}
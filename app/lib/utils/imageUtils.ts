@@ -0,0 +1,138 @@
+/**
+ * Utility functions for working with images in the browser
+ * Everything here runs client-side on canvas, so the server never sees the original
+ */
+
+export interface ResizedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/**
+ * Scales dimensions down to fit within a bounding box, keeping the aspect ratio
+ * Images already smaller than the box are left as they are
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Listing photo sizes, by longest side in pixels
+ * "large" is the copy stored in the listing's images column; the others are for cards and thumbnails
+ */
+export const LISTING_IMAGE_SIZES = {
+  large: 1600,
+  medium: 800,
+  thumbnail: 320,
+} as const;
+
+export type ListingImageSize = keyof typeof LISTING_IMAGE_SIZES;
+
+// Longest side of the blur placeholder; small enough to inline as a data URL
+const PLACEHOLDER_SIZE = 16;
+
+export interface ProcessedListingImage {
+  variants: Record<ListingImageSize, ResizedImage>;
+  placeholder: string; // JPEG data URL
+}
+
+/**
+ * Decodes an image upright, applying any EXIF rotation so it survives the metadata being dropped
+ */
+function decodeImage(file: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+/**
+ * Draws a decoded image onto a canvas scaled to fit within maxDimension
+ */
+function drawScaled(bitmap: ImageBitmap, maxDimension: number): HTMLCanvasElement {
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * Encodes a canvas as JPEG
+ * Canvas output carries no EXIF, so camera details and GPS coordinates never leave the browser
+ */
+async function encodeJpeg(canvas: HTMLCanvasElement, quality: number): Promise<ResizedImage> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) {
+    throw new Error('Failed to encode image');
+  }
+  return { blob, width: canvas.width, height: canvas.height };
+}
+
+/**
+ * Renders a downscaled JPEG copy of an image
+ *
+ * @param file - The source image
+ * @param maxDimension - Longest side of the result, in pixels
+ * @param quality - JPEG quality between 0 and 1
+ * @returns The resized image with its dimensions, plus the original's
+ */
+export async function resizeImage(
+  file: Blob,
+  maxDimension: number,
+  quality: number = 0.8
+): Promise<ResizedImage & { originalWidth: number; originalHeight: number }> {
+  const bitmap = await decodeImage(file);
+
+  try {
+    const resized = await encodeJpeg(drawScaled(bitmap, maxDimension), quality);
+    return { ...resized, originalWidth: bitmap.width, originalHeight: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Prepares a listing photo for upload: every size variant plus a tiny blur placeholder
+ * The photo is decoded once and each variant is re-encoded from it, so none keep the original metadata
+ *
+ * @param file - The photo as picked by the user
+ * @param quality - JPEG quality between 0 and 1
+ */
+export async function processListingImage(file: Blob, quality: number = 0.82): Promise<ProcessedListingImage> {
+  const bitmap = await decodeImage(file);
+
+  try {
+    const variants = {} as Record<ListingImageSize, ResizedImage>;
+    for (const size of Object.keys(LISTING_IMAGE_SIZES) as ListingImageSize[]) {
+      variants[size] = await encodeJpeg(drawScaled(bitmap, LISTING_IMAGE_SIZES[size]), quality);
+    }
+
+    const placeholder = drawScaled(bitmap, PLACEHOLDER_SIZE).toDataURL('image/jpeg', 0.5);
+    return { variants, placeholder };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Returns a copy of a list with one item moved, for reordering photos
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) {
+    return items;
+  }
+
+  const reordered = [...items];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+}
@@ -35,4 +35,27 @@ export function processListingsWithStatus<T extends Record<string, any>>(listing
     ...listing,
     ...determineListingStatus(listing)
   }));
-}
\ No newline at end of file
+}
+
+/**
+ * Listing lifecycle: available → reserved (for a buyer, until a time) → sold,
+ * or back to available when the reservation is released or runs out
+ */
+export type ListingAvailability = 'available' | 'reserved' | 'sold';
+
+/**
+ * Whether a listing's reservation is still in effect
+ * Reservations expire on their own once reserved_until has passed
+ */
+export function isReservationActive(listing: { reserved_for?: string | null; reserved_until?: string | null }, now: Date = new Date()): boolean {
+  return !!listing.reserved_for && !!listing.reserved_until && new Date(listing.reserved_until).getTime() > now.getTime();
+}
+
+/**
+ * Determines where a listing is in its lifecycle
+ */
+export function determineListingAvailability(listing: any, now: Date = new Date()): ListingAvailability {
+  if (listing.is_sold) return 'sold';
+  if (isReservationActive(listing, now)) return 'reserved';
+  return 'available';
+}
@@ -0,0 +1,180 @@
+/**
+ * Utility functions for sublease listings
+ * Subleases store their lease terms in dedicated listing columns; the older
+ * "Lease Duration" (kept in condition) is still used when a listing has no dates
+ */
+
+export type RentPeriod = 'monthly' | 'one_time';
+export type UtilitiesOption = 'included' | 'partial' | 'not_included';
+export type GenderPreference = 'any' | 'female' | 'male';
+
+/**
+ * Sublease columns on a listing row, null on every other category
+ */
+export interface SubleaseFields {
+  lease_start_date?: string | null; // Move-in, YYYY-MM-DD
+  lease_end_date?: string | null; // Move-out, YYYY-MM-DD
+  rent_period?: RentPeriod | null;
+  bedrooms?: number | null;
+  bathrooms?: number | null;
+  roommate_count?: number | null;
+  furnished?: boolean | null;
+  utilities?: UtilitiesOption | null;
+  gender_preference?: GenderPreference | null;
+}
+
+/**
+ * Sublease terms as entered on the create and edit forms
+ */
+export interface SubleaseDetails {
+  leaseStartDate: string;
+  leaseEndDate: string;
+  rentPeriod: RentPeriod;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  roommateCount: number | null;
+  furnished: boolean;
+  utilities: UtilitiesOption;
+  genderPreference: GenderPreference;
+}
+
+export const LEASE_DURATION_OPTIONS = ['6 months', '12 months', 'Summer', 'Flexible'];
+
+export const RENT_PERIOD_OPTIONS: { value: RentPeriod; label: string }[] = [
+  { value: 'monthly', label: 'Monthly rent' },
+  { value: 'one_time', label: 'One-time price' },
+];
+
+export const UTILITIES_OPTIONS: { value: UtilitiesOption; label: string }[] = [
+  { value: 'included', label: 'Utilities included' },
+  { value: 'partial', label: 'Some utilities included' },
+  { value: 'not_included', label: 'Utilities not included' },
+];
+
+export const GENDER_PREFERENCE_OPTIONS: { value: GenderPreference; label: string }[] = [
+  { value: 'any', label: 'No preference' },
+  { value: 'female', label: 'Female only' },
+  { value: 'male', label: 'Male only' },
+];
+
+export const EMPTY_SUBLEASE_DETAILS: SubleaseDetails = {
+  leaseStartDate: '',
+  leaseEndDate: '',
+  rentPeriod: 'monthly',
+  bedrooms: null,
+  bathrooms: null,
+  roommateCount: null,
+  furnished: false,
+  utilities: 'not_included',
+  genderPreference: 'any',
+};
+
+/**
+ * Whether a category (UI or database format) is the sublease category
+ */
+export function isSubleaseCategory(category: string | null | undefined): boolean {
+  return (category || '').trim().toLowerCase() === 'subleases';
+}
+
+/**
+ * Copy just the sublease columns off a listing row
+ */
+export function pickSubleaseFields(listing: SubleaseFields): SubleaseFields {
+  return {
+    lease_start_date: listing.lease_start_date ?? null,
+    lease_end_date: listing.lease_end_date ?? null,
+    rent_period: listing.rent_period ?? null,
+    bedrooms: listing.bedrooms ?? null,
+    bathrooms: listing.bathrooms ?? null,
+    roommate_count: listing.roommate_count ?? null,
+    furnished: listing.furnished ?? null,
+    utilities: listing.utilities ?? null,
+    gender_preference: listing.gender_preference ?? null,
+  };
+}
+
+/**
+ * Read the form values back out of a listing row
+ */
+export function getSubleaseDetails(listing: SubleaseFields | null | undefined): SubleaseDetails {
+  if (!listing) return { ...EMPTY_SUBLEASE_DETAILS };
+
+  return {
+    leaseStartDate: listing.lease_start_date || '',
+    leaseEndDate: listing.lease_end_date || '',
+    rentPeriod: listing.rent_period || EMPTY_SUBLEASE_DETAILS.rentPeriod,
+    bedrooms: listing.bedrooms ?? null,
+    bathrooms: listing.bathrooms ?? null,
+    roommateCount: listing.roommate_count ?? null,
+    furnished: !!listing.furnished,
+    utilities: listing.utilities || EMPTY_SUBLEASE_DETAILS.utilities,
+    genderPreference: listing.gender_preference || EMPTY_SUBLEASE_DETAILS.genderPreference,
+  };
+}
+
+/**
+ * Column values to write for a listing; every column is cleared when the listing isn't a sublease
+ */
+export function toSubleaseColumns(details: SubleaseDetails | null | undefined): Required<SubleaseFields> {
+  return {
+    lease_start_date: details?.leaseStartDate || null,
+    lease_end_date: details?.leaseEndDate || null,
+    rent_period: details?.rentPeriod || null,
+    bedrooms: details?.bedrooms ?? null,
+    bathrooms: details?.bathrooms ?? null,
+    roommate_count: details?.roommateCount ?? null,
+    furnished: details ? details.furnished : null,
+    utilities: details?.utilities || null,
+    gender_preference: details?.genderPreference || null,
+  };
+}
+
+/**
+ * Check sublease terms before publishing, returning the problem or null when they're fine
+ */
+export function validateSubleaseDetails(details: SubleaseDetails): string | null {
+  if (!details.leaseStartDate || !details.leaseEndDate) {
+    return 'Please enter move-in and move-out dates.';
+  }
+  if (details.leaseEndDate <= details.leaseStartDate) {
+    return 'Move-out date must be after the move-in date.';
+  }
+  if (details.bedrooms !== null && details.bedrooms < 0) return 'Bedrooms cannot be negative.';
+  if (details.bathrooms !== null && details.bathrooms < 0) return 'Bathrooms cannot be negative.';
+  if (details.roommateCount !== null && details.roommateCount < 0) return 'Roommates cannot be negative.';
+  return null;
+}
+
+/**
+ * Price as shown on cards and listing pages, e.g. "$900/mo" for monthly rent
+ */
+export function formatListingPrice(price: number, rentPeriod?: RentPeriod | null): string {
+  return rentPeriod === 'monthly' ? `$${price}/mo` : `$${price}`;
+}
+
+/**
+ * Short date range for a lease, e.g. "May 15 – Aug 10, 2027"
+ */
+export function formatLeaseDates(startDate?: string | null, endDate?: string | null): string | null {
+  if (!startDate || !endDate) return null;
+
+  // Date-only strings parse as UTC midnight, so format in UTC to keep the same calendar day
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  const sameYear = start.getUTCFullYear() === end.getUTCFullYear();
+  const startLabel = start.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(!sameYear && { year: 'numeric' }),
+    timeZone: 'UTC',
+  });
+  const endLabel = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return `${startLabel} – ${endLabel}`;
+}
+
+/**
+ * Label for an option value, e.g. "Utilities included"
+ */
+export function getOptionLabel<T extends string>(options: { value: T; label: string }[], value?: T | null): string | null {
+  return options.find(option => option.value === value)?.label || null;
+}
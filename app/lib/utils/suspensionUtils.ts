@@ -0,0 +1,61 @@
+/**
+ * Utility functions for account suspensions
+ * A suspension is is_banned plus an optional banned_until; once that time passes
+ * the account is active again without anything having to clear the flag
+ */
+
+export interface SuspensionFields {
+  is_banned?: boolean | null;
+  banned_until?: string | null; // NULL while banned means the ban is permanent
+  ban_reason?: string | null;
+}
+
+export interface SuspensionDurationOption {
+  label: string;
+  days: number | null; // null = permanent
+}
+
+export const SUSPENSION_DURATIONS: SuspensionDurationOption[] = [
+  { label: '1 day', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Permanent', days: null },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the account is suspended right now
+ */
+export function isSuspended(user: SuspensionFields | null | undefined, now: Date = new Date()): boolean {
+  if (!user?.is_banned) return false;
+  return !user.banned_until || new Date(user.banned_until).getTime() > now.getTime();
+}
+
+/**
+ * Whether the account is suspended with no end date
+ */
+export function isPermanentBan(user: SuspensionFields | null | undefined): boolean {
+  return !!user?.is_banned && !user.banned_until;
+}
+
+/**
+ * banned_until for a suspension of the given length, or null for a permanent ban
+ */
+export function getSuspensionEndDate(days: number | null, from: Date = new Date()): string | null {
+  return days === null ? null : new Date(from.getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Short description of an active suspension, e.g. "Suspended until Oct 25, 2026"
+ */
+export function describeSuspension(user: SuspensionFields): string {
+  if (!isSuspended(user)) return 'Active';
+  if (!user.banned_until) return 'Banned permanently';
+  return `Suspended until ${new Date(user.banned_until).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })}`;
+}
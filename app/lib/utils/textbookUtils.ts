@@ -0,0 +1,179 @@
+/**
+ * Utility functions for textbook listings
+ * ISBNs are stored as ISBN-13 so a search with either form finds the same book, and
+ * course codes drop the spacing inside the department ("C S 312" and "CS 312" are the same course)
+ */
+
+/**
+ * Textbook columns on a listing row, null on every other category
+ */
+export interface TextbookFields {
+  isbn?: string | null; // Normalized ISBN-13, digits only
+  edition?: string | null;
+  course_codes?: string[] | null; // Normalized, e.g. ["M 408C", "CS 312"]
+}
+
+/**
+ * Textbook details as entered on the create and edit forms
+ */
+export interface TextbookDetails {
+  isbn: string; // As typed; ISBN-10 or ISBN-13, hyphens allowed
+  edition: string;
+  courseCodes: string[];
+}
+
+export const EMPTY_TEXTBOOK_DETAILS: TextbookDetails = {
+  isbn: '',
+  edition: '',
+  courseCodes: [],
+};
+
+// Department letters (spaced or not) followed by a three digit course number and optional suffix letter
+const COURSE_CODE_PATTERN = /^([A-Z](?:\s?[A-Z]){0,4})\s*(\d{3}[A-Z]?)$/;
+
+/**
+ * Whether a category (UI or database format) is the textbook category
+ */
+export function isTextbookCategory(category: string | null | undefined): boolean {
+  return (category || '').trim().toLowerCase() === 'textbooks';
+}
+
+/**
+ * Strip hyphens and spaces from an ISBN, keeping a trailing ISBN-10 "X"
+ */
+export function normalizeIsbn(raw: string): string {
+  return raw.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Whether a normalized ISBN-10 has a valid check digit
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+
+  const sum = isbn.split('').reduce((total, char, index) => {
+    const digit = char === 'X' ? 10 : Number(char);
+    return total + digit * (10 - index);
+  }, 0);
+  return sum % 11 === 0;
+}
+
+/**
+ * Whether a normalized ISBN-13 has a valid check digit
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  if (!/^97[89]\d{10}$/.test(isbn)) return false;
+
+  const sum = isbn.split('').reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * The ISBN-13 for an ISBN-10 or ISBN-13 in any format, or null when it isn't a valid ISBN
+ */
+export function toIsbn13(raw: string | null | undefined): string | null {
+  const isbn = normalizeIsbn(raw || '');
+
+  if (isValidIsbn13(isbn)) return isbn;
+  if (!isValidIsbn10(isbn)) return null;
+
+  const body = `978${isbn.slice(0, 9)}`;
+  const sum = body.split('').reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${body}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * Normalize a course code like "m408c" or "C S 312" to "M 408C" / "CS 312", or null when it isn't one
+ */
+export function normalizeCourseCode(raw: string): string | null {
+  const match = raw.trim().toUpperCase().replace(/\s+/g, ' ').match(COURSE_CODE_PATTERN);
+  if (!match) return null;
+  return `${match[1].replace(/\s/g, '')} ${match[2]}`;
+}
+
+/**
+ * Normalize a list of course codes, dropping anything that isn't one and duplicates
+ */
+export function normalizeCourseCodes(codes: string[]): string[] {
+  const normalized = codes.map(code => normalizeCourseCode(code)).filter((code): code is string => !!code);
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Split a pasted course list (commas, semicolons or new lines) into normalized codes
+ * Anything that isn't a course code is returned separately so the UI can point it out
+ */
+export function parseCourseCodes(text: string): { codes: string[]; invalid: string[] } {
+  const codes: string[] = [];
+  const invalid: string[] = [];
+
+  text.split(/[,;\n]+/).map(part => part.trim()).filter(Boolean).forEach(part => {
+    const code = normalizeCourseCode(part);
+    if (!code) {
+      invalid.push(part);
+    } else if (!codes.includes(code)) {
+      codes.push(code);
+    }
+  });
+
+  return { codes, invalid };
+}
+
+/**
+ * Check textbook details before saving, returning the problem or null when they're fine
+ * ISBN and courses are optional, but an ISBN that's entered has to be real
+ */
+export function validateTextbookDetails(details: TextbookDetails): string | null {
+  if (details.isbn.trim() && !toIsbn13(details.isbn)) {
+    return 'Please enter a valid ISBN-10 or ISBN-13.';
+  }
+
+  const invalidCode = details.courseCodes.find(code => !normalizeCourseCode(code));
+  if (invalidCode) {
+    return `"${invalidCode}" isn't a course code like M 408C.`;
+  }
+
+  return null;
+}
+
+/**
+ * Copy just the textbook columns off a listing row
+ */
+export function pickTextbookFields(listing: TextbookFields): TextbookFields {
+  return {
+    isbn: listing.isbn ?? null,
+    edition: listing.edition ?? null,
+    course_codes: listing.course_codes ?? null,
+  };
+}
+
+/**
+ * Read the form values back out of a listing row
+ */
+export function getTextbookDetails(listing: TextbookFields | null | undefined): TextbookDetails {
+  return {
+    isbn: listing?.isbn || '',
+    edition: listing?.edition || '',
+    courseCodes: listing?.course_codes || [],
+  };
+}
+
+/**
+ * Column values to write for a listing; every column is cleared when the listing isn't a textbook
+ */
+export function toTextbookColumns(details: TextbookDetails | null | undefined): Required<TextbookFields> {
+  const courseCodes = normalizeCourseCodes(details?.courseCodes || []);
+
+  return {
+    isbn: toIsbn13(details?.isbn),
+    edition: details?.edition.trim() || null,
+    course_codes: courseCodes.length > 0 ? courseCodes : null,
+  };
+}
+
+/**
+ * ISBN-13 with its prefix split off for readability, e.g. "978-0134685991"
+ */
+export function formatIsbn(isbn: string): string {
+  return isbn.length === 13 ? `${isbn.slice(0, 3)}-${isbn.slice(3)}` : isbn;
+}
@@ -10,6 +10,8 @@ import { ListingService } from '../../lib/database/ListingService';
 import { UserService } from '../../lib/database/UserService';
 import { dbLogger } from '../../lib/database/utils';
 import { ListingPageProps } from '../../props/listing';
+import { pickSubleaseFields } from '../../lib/utils/subleaseUtils';
+import { pickTextbookFields } from '../../lib/utils/textbookUtils';
 
 const Listing = () => {
   const { id } = useParams();
@@ -121,6 +123,9 @@ const Listing = () => {
     location_lng: listing.location_lng,
     status: listing.status,
     denial_reason: listing.denial_reason,
+    ...pickSubleaseFields(listing),
+    attributes: listing.attributes,
+    ...pickTextbookFields(listing),
   };
 
   const userProps = {
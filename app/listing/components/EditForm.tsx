@@ -1,9 +1,17 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import { Tag, DollarSign, Text, MapPin, FileText, Save, X } from "lucide-react";
 import { toast } from "react-toastify";
 import ImageUpload from "../../create/components/ImageUpload";
-import Image from "next/image";
+import SubleaseFieldsForm from "../../create/components/SubleaseFieldsForm";
+import CategoryAttributeFields from "../../create/components/CategoryAttributeFields";
+import TextbookFieldsForm from "../../create/components/TextbookFieldsForm";
 import dynamic from "next/dynamic";
+import { DEFAULT_PLATFORM_SETTINGS, SettingsService } from "../../lib/database/SettingsService";
+import { EMPTY_SUBLEASE_DETAILS, isSubleaseCategory, validateSubleaseDetails } from "../../lib/utils/subleaseUtils";
+import { cleanListingAttributes, validateListingAttributes } from "../../lib/utils/attributeUtils";
+import { EMPTY_TEXTBOOK_DETAILS, isTextbookCategory, validateTextbookDetails } from "../../lib/utils/textbookUtils";
+import { moveItem } from "../../lib/utils/imageUtils";
+import { ListingFormData } from "../../props/listing";
 
 const MapPicker = dynamic(() => import("./MapPicker"), { ssr: false });
 
@@ -21,8 +29,18 @@ const EditForm = ({
   const [localForm, setLocalForm] = useState(form);
   const [images, setImages] = useState<(File | string)[]>(form.images || []);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [maxImages, setMaxImages] = useState(DEFAULT_PLATFORM_SETTINGS.max_images_per_listing);
   const hasLatLng = typeof localForm.location_lat === 'number' && typeof localForm.location_lng === 'number';
+  const isSublease = isSubleaseCategory(localForm.category);
+  const sublease = localForm.sublease || EMPTY_SUBLEASE_DETAILS;
+  const attributes = localForm.attributes || {};
+  const isTextbook = isTextbookCategory(localForm.category);
+  const textbook = localForm.textbook || EMPTY_TEXTBOOK_DETAILS;
   
+  useEffect(() => {
+    SettingsService.getSettings().then(settings => setMaxImages(settings.max_images_per_listing));
+  }, []);
+
   // Location state management
   const [customLocation, setCustomLocation] = useState("");
   const [showCustomLocationInput, setShowCustomLocationInput] = useState(false);
@@ -43,7 +61,7 @@ const EditForm = ({
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const fileArray = Array.from(e.target.files);
-      setImages((prev) => [...prev, ...fileArray].slice(0, 5));
+      setImages((prev) => [...prev, ...fileArray].slice(0, maxImages));
     }
   };
 
@@ -55,6 +73,10 @@ const EditForm = ({
     setImages((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const handleMoveImage = (from: number, to: number) => {
+    setImages((prev) => moveItem(prev, from, to));
+  };
+
   const handleLocationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const selectedValue = e.target.value;
     
@@ -81,6 +103,16 @@ const EditForm = ({
     return true;
   };
 
+  // Live listings need complete lease terms and required attributes; drafts can be saved half filled in
+  const getSubleaseError = (isDraft: boolean) =>
+    isSublease && !isDraft ? validateSubleaseDetails(sublease) : null;
+  const getAttributeError = (isDraft: boolean) =>
+    validateListingAttributes(localForm.category, cleanListingAttributes(localForm.category, attributes), {
+      requireAll: !isDraft,
+    });
+  // A mistyped ISBN is never saved, draft or not
+  const getTextbookError = () => (isTextbook ? validateTextbookDetails(textbook) : null);
+
   const handleSubmit = async (e) => {
     e.preventDefault();
     
@@ -90,17 +122,27 @@ const EditForm = ({
       toast.error("Please enter a custom location.");
       return;
     }
+
+    const isDraft = !!(localForm.is_draft ?? form.is_draft);
+    const formError = getSubleaseError(isDraft) || getAttributeError(isDraft) || getTextbookError();
+    if (formError) {
+      toast.error(formError);
+      return;
+    }
     
     const updatedForm = { ...localForm, location: finalLocation };
     setForm(updatedForm);
     
     // Preserve the draft status in the submission
-    const dataToSubmit = { 
+    const dataToSubmit: ListingFormData = { 
       ...updatedForm, 
       is_draft: typeof localForm.is_draft !== 'undefined' ? localForm.is_draft : form.is_draft,
       images,
       location_lat: localForm.location_lat,
       location_lng: localForm.location_lng,
+      sublease: isSublease ? sublease : undefined,
+      attributes,
+      textbook: isTextbook ? textbook : undefined,
     };
     
     handleEditSubmit(dataToSubmit);
@@ -126,63 +168,15 @@ const EditForm = ({
         <h2 className="text-2xl font-bold mb-4 text-[#bf5700] flex items-center gap-2">
           <FileText className="w-6 h-6" /> Edit Listing
         </h2>
-        <div className="border rounded-md p-6 mb-8 bg-white shadow-sm">
-          <h2 className="text-lg font-semibold mb-1 flex items-center gap-2">
-            Photos
-          </h2>
-          <p className="text-sm text-gray-500 mb-4">
-            Add up to 5 photos to showcase your item. The first photo will be your listing&apos;s cover image.
-          </p>
-          <div className="flex items-center gap-4 mb-4">
-            {images.map((img, index) => (
-              <div
-                key={index}
-                className="w-24 h-24 bg-gray-100 rounded-md flex items-center justify-center border relative overflow-hidden"
-              >
-                {typeof img === "string" ? (
-                  <Image
-                    src={img}
-                    alt={`Uploaded ${index}`}
-                    fill
-                    className="object-cover rounded-md"
-                    sizes="96px"
-                  />
-                ) : (
-                  <Image
-                    src={URL.createObjectURL(img)}
-                    alt={`Uploaded ${index}`}
-                    fill
-                    className="object-cover rounded-md"
-                    sizes="96px"
-                  />
-                )}
-                <span
-                  onClick={() => handleRemoveImage(index)}
-                  className="absolute top-1 right-1 bg-white text-xs rounded-full p-1 shadow cursor-pointer"
-                >
-                  <X size={14} />
-                </span>
-              </div>
-            ))}
-            {images.length < 5 && (
-              <div
-                onClick={handleAddPhotoClick}
-                className="w-24 h-24 border border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center text-gray-400 cursor-pointer hover:bg-gray-50 text-xs gap-1"
-              >
-                <span>+</span>
-                <span>Add Photo</span>
-              </div>
-            )}
-            <input
-              type="file"
-              accept="image/*"
-              multiple
-              hidden
-              ref={fileInputRef}
-              onChange={handleFileChange}
-            />
-          </div>
-        </div>
+        <ImageUpload
+          images={images}
+          fileInputRef={fileInputRef}
+          handleFileChange={handleFileChange}
+          handleAddPhotoClick={handleAddPhotoClick}
+          handleRemoveImage={handleRemoveImage}
+          handleMoveImage={handleMoveImage}
+          maxImages={maxImages}
+        />
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
@@ -204,7 +198,17 @@ const EditForm = ({
               <select
                 name="category"
                 value={localForm.category ?? ""}
-                onChange={(e) => setLocalForm({ ...localForm, category: e.target.value })}
+                onChange={(e) => {
+                  // Conditions and lease durations share the condition field, so switching between them clears it
+                  const category = e.target.value;
+                  const condition = isSubleaseCategory(category) === isSublease ? localForm.condition : "";
+                  setLocalForm({
+                    ...localForm,
+                    category,
+                    condition,
+                    attributes: cleanListingAttributes(category, attributes),
+                  });
+                }}
                 className="w-full border rounded-md px-3 py-2 text-sm"
               >
                 <option value="">Select a category</option>
@@ -215,7 +219,7 @@ const EditForm = ({
             </div>
             <div className="w-1/3">
               <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
-                <DollarSign size={14} /> Price ($)
+                <DollarSign size={14} /> {isSublease && sublease.rentPeriod === "monthly" ? "Rent ($/month)" : "Price ($)"}
               </label>
               <div className="relative">
                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">$</span>
@@ -246,7 +250,7 @@ const EditForm = ({
             <div className="w-1/3">
               <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
                 <Tag size={14} />
-                {localForm.category === "Subleases" ? "Lease Duration" : "Condition"}
+                {isSublease ? "Lease Duration" : "Condition"}
               </label>
               <select
                 name="condition"
@@ -255,11 +259,11 @@ const EditForm = ({
                 className="w-full border rounded-md px-3 py-2 text-sm"
               >
                 <option value="">
-                  {localForm.category === "Subleases"
+                  {isSublease
                     ? "Select lease duration"
                     : "Select condition"}
                 </option>
-                {(localForm.category === "Subleases"
+                {(isSublease
                   ? leaseOptions
                   : conditionOptions
                 ).map((opt) => (
@@ -268,6 +272,23 @@ const EditForm = ({
               </select>
             </div>
           </div>
+          {isSublease && (
+            <SubleaseFieldsForm
+              value={sublease}
+              onChange={(value) => setLocalForm({ ...localForm, sublease: value })}
+            />
+          )}
+          {isTextbook && (
+            <TextbookFieldsForm
+              value={textbook}
+              onChange={(value) => setLocalForm({ ...localForm, textbook: value })}
+            />
+          )}
+          <CategoryAttributeFields
+            category={localForm.category || ""}
+            value={attributes}
+            onChange={(value) => setLocalForm({ ...localForm, attributes: value })}
+          />
           <div>
             <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
               <MapPin size={14} /> Location
@@ -356,8 +377,21 @@ const EditForm = ({
                   toast.error('Please fill in all required fields before publishing.');
                   return;
                 }
+
+                const formError = getSubleaseError(false) || getAttributeError(false) || getTextbookError();
+                if (formError) {
+                  toast.error(formError);
+                  return;
+                }
                 
-                handleEditSubmit({ ...updatedFormForPublish, is_draft: false, images });
+                handleEditSubmit({
+                  ...updatedFormForPublish,
+                  is_draft: false,
+                  images,
+                  sublease: isSublease ? sublease : undefined,
+                  attributes,
+                  textbook: isTextbook ? textbook : undefined,
+                });
               }}
             >
               <Save size={16} /> Publish Listing
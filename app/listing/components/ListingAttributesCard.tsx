@@ -0,0 +1,31 @@
+import React from "react";
+import { formatAttributeValue, getCategoryAttributes, ListingAttributes } from "../../lib/utils/attributeUtils";
+
+interface ListingAttributesCardProps {
+  category: string;
+  attributes?: ListingAttributes | null;
+}
+
+const ListingAttributesCard: React.FC<ListingAttributesCardProps> = ({ category, attributes }) => {
+  const rows = getCategoryAttributes(category)
+    .filter((field) => attributes?.[field.key] !== undefined && attributes?.[field.key] !== "")
+    .map((field) => ({ label: field.label, value: formatAttributeValue(field, attributes![field.key]) }));
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Details</h3>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex flex-col">
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-800 font-medium">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default ListingAttributesCard;
@@ -1,14 +1,21 @@
 import React, { useState, useEffect } from 'react'
 import { supabase } from '../../lib/supabaseClient';
-import { MapPin, Calendar, Tag, Heart, Eye, Share2, Clock } from "lucide-react";
+import { MapPin, Calendar, Tag, Heart, Eye, Share2, Clock, Handshake } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from 'next/navigation';
 import { ListingPageProps } from '../../props/listing';
 import { useAuth } from '../../context/AuthContext';
 import { ListingService } from '../../lib/database/ListingService';
+import { Transaction, TransactionService } from '../../lib/database/TransactionService';
 import UserRatingDisplay from "../../../components/user/UserRatingDisplay";
 import ReportListingModal from "../../../components/modals/ReportListingModal";
 import ReportUserModal from "../../../components/modals/ReportUserModal";
+import PriceHistorySparkline from "./PriceHistorySparkline";
+import SubleaseDetailsCard from "./SubleaseDetailsCard";
+import ListingAttributesCard from "./ListingAttributesCard";
+import TextbookDetailsCard from "./TextbookDetailsCard";
+import { formatListingPrice, isSubleaseCategory } from '../../lib/utils/subleaseUtils';
+import { isTextbookCategory } from '../../lib/utils/textbookUtils';
 import Image from "next/image";
 import dynamic from "next/dynamic";
 
@@ -30,8 +37,25 @@ const ListingPage: React.FC<ListingPageProps> = ({
   location_lat,
   location_lng,
   status,
+  availability,
+  reserved_until,
+  lease_start_date,
+  lease_end_date,
+  rent_period,
+  bedrooms,
+  bathrooms,
+  roommate_count,
+  furnished,
+  utilities,
+  gender_preference,
+  attributes,
+  image_variants,
+  isbn,
+  edition,
+  course_codes,
 }) => {
   const [selectedImageIdx, setSelectedImageIdx] = useState(0);
+  const selectedImageVariant = images?.[selectedImageIdx] ? image_variants?.[images[selectedImageIdx]] : undefined;
   const { user: currentUser } = useAuth();
   const router = useRouter();
   const [sellerRating, setSellerRating] = useState<number | null>(null);
@@ -44,6 +68,9 @@ const ListingPage: React.FC<ListingPageProps> = ({
   const [watchlistLoading, setWatchlistLoading] = useState(false);
   const [showReportListingModal, setShowReportListingModal] = useState(false);
   const [showReportUserModal, setShowReportUserModal] = useState(false);
+  // Set when the seller has marked this listing as sold to the current user
+  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+  const [purchaseConfirmed, setPurchaseConfirmed] = useState(false);
 
   useEffect(() => {
     const fetchSellerRating = async () => {
@@ -85,6 +112,33 @@ const ListingPage: React.FC<ListingPageProps> = ({
     fetchFavoriteStatus();
   }, [currentUser?.id, id]);
 
+  useEffect(() => {
+    if (!currentUser?.id || !id) return;
+    TransactionService.getAwaitingConfirmation(id, currentUser.id).then(setPendingTransaction);
+  }, [currentUser?.id, id]);
+
+  const handleConfirmPurchase = async () => {
+    if (!pendingTransaction || !currentUser?.id) return;
+    const confirmed = await TransactionService.confirmTransaction(pendingTransaction.id, currentUser.id);
+    if (confirmed) {
+      setPendingTransaction(null);
+      setPurchaseConfirmed(true);
+    } else {
+      alert('Failed to confirm purchase. Please try again.');
+    }
+  };
+
+  const handleRejectPurchase = async () => {
+    if (!pendingTransaction || !currentUser?.id) return;
+    if (!confirm("Let the seller know you didn't buy this listing?")) return;
+    const cancelled = await TransactionService.cancelTransaction(pendingTransaction.id, currentUser.id);
+    if (cancelled) {
+      setPendingTransaction(null);
+    } else {
+      alert('Failed to update purchase. Please try again.');
+    }
+  };
+
   useEffect(() => {
     const fetchSellerDisplayName = async () => {
       if (!listingUserEmail) return;
@@ -174,7 +228,7 @@ const ListingPage: React.FC<ListingPageProps> = ({
       try {
         await navigator.share({
           title: title,
-          text: `Check out this listing: ${title} for $${price}`,
+          text: `Check out this listing: ${title} for ${formatListingPrice(price, rent_period)}`,
           url: window.location.href,
         });
       } catch (error) {
@@ -214,9 +268,10 @@ const ListingPage: React.FC<ListingPageProps> = ({
             <Image
               src={images[selectedImageIdx]}
               alt={title}
-              width={100}
-              height={100}
+              width={selectedImageVariant?.width ?? 100}
+              height={selectedImageVariant?.height ?? 100}
               className="w-full h-full object-cover"
+              {...(selectedImageVariant && { placeholder: "blur" as const, blurDataURL: selectedImageVariant.placeholder })}
             /> 
           ) : (
             <div className="w-full h-full flex items-center justify-center text-gray-400 text-2xl">
@@ -227,7 +282,7 @@ const ListingPage: React.FC<ListingPageProps> = ({
 
         {images && images.length > 1 && (
           <div className="grid grid-cols-5 gap-2 mb-6">
-            {images.slice(0, 5).map((img, idx) => (
+            {images.map((img, idx) => (
               <button
                 key={idx}
                 onClick={() => setSelectedImageIdx(idx)}
@@ -236,7 +291,7 @@ const ListingPage: React.FC<ListingPageProps> = ({
                 }`}
               >
                 <Image
-                  src={img}
+                  src={image_variants?.[img]?.thumbnail ?? img}
                   alt={`Thumbnail ${idx + 1}`}
                   width={100}
                   height={100}
@@ -251,8 +306,46 @@ const ListingPage: React.FC<ListingPageProps> = ({
       {/* Right: Listing Details */}
       <div className="bg-white border border-gray-200 rounded-xl p-6 shadow-md flex flex-col">
         <div>
+          {pendingTransaction && (
+            <div className="mb-4 p-4 rounded-lg border border-[#bf5700]/30 bg-orange-50">
+              <p className="text-sm text-gray-800 flex items-center gap-2 mb-3">
+                <Handshake size={16} className="text-[#bf5700]" />
+                The seller marked this listing as sold to you for ${pendingTransaction.amount}.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleConfirmPurchase}
+                  className="px-3 py-1.5 rounded-lg bg-[#bf5700] text-white text-sm hover:bg-[#a54700] transition"
+                >
+                  Confirm purchase
+                </button>
+                <button
+                  onClick={handleRejectPurchase}
+                  className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 text-sm hover:bg-gray-50 transition"
+                >
+                  That wasn&apos;t me
+                </button>
+              </div>
+            </div>
+          )}
+          {purchaseConfirmed && (
+            <div className="mb-4 p-4 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800">
+              Purchase confirmed!{' '}
+              <Link href={`/profile/${listingUserEmail}`} className="font-medium underline">
+                Rate the seller
+              </Link>
+            </div>
+          )}
           <h2 className="text-2xl font-bold text-gray-900 mb-2">{title}</h2>
-          <span className="text-3xl font-bold text-[#bf5700] block mb-4">${price}</span>
+          <span className="text-3xl font-bold text-[#bf5700] block mb-4">
+            {formatListingPrice(price, rent_period)}
+          </span>
+          {availability === 'reserved' && (
+            <div className="mb-4 inline-flex items-center gap-2 bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-xs font-semibold">
+              <Clock size={14} /> Reserved{reserved_until ? ` until ${new Date(reserved_until).toLocaleDateString()}` : ''}
+            </div>
+          )}
+          {id && <PriceHistorySparkline listingId={id} />}
 
           <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-600">
             <span className="inline-flex items-center gap-1">
@@ -267,9 +360,25 @@ const ListingPage: React.FC<ListingPageProps> = ({
           </div>
           <div className="mb-4">
             <span className="inline-block bg-[#bf5700]/10 text-[#bf5700] px-3 py-1 rounded-full text-xs font-semibold">
-              Condition: {condition}
+              {isSubleaseCategory(category) ? "Lease Duration" : "Condition"}: {condition}
             </span>
           </div>
+          {isSubleaseCategory(category) && (
+            <SubleaseDetailsCard
+              lease_start_date={lease_start_date}
+              lease_end_date={lease_end_date}
+              bedrooms={bedrooms}
+              bathrooms={bathrooms}
+              roommate_count={roommate_count}
+              furnished={furnished}
+              utilities={utilities}
+              gender_preference={gender_preference}
+            />
+          )}
+          {isTextbookCategory(category) && (
+            <TextbookDetailsCard isbn={isbn} edition={edition} course_codes={course_codes} />
+          )}
+          <ListingAttributesCard category={category} attributes={attributes} />
           <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-800 mb-1">Description</h3>
             <p className="text-gray-700 text-base leading-relaxed whitespace-pre-line">{description}</p>
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { X, UserCheck } from "lucide-react";
+import Image from "next/image";
+import { ConversationPartner, TransactionService } from "../../lib/database/TransactionService";
+
+const RESERVATION_OPTIONS = [
+  { hours: 24, label: "24 hours" },
+  { hours: 48, label: "2 days" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+interface MarkSoldModalProps {
+  listingId: string;
+  sellerId: string;
+  mode?: "sold" | "reserve";
+  onSelectBuyer: (buyerId: string, reserveHours: number) => Promise<void>;
+  onSoldElsewhere?: () => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Picks a buyer from the people who messaged about a listing, either to mark
+ * the listing as sold to them or to reserve it for them
+ */
+const MarkSoldModal: React.FC<MarkSoldModalProps> = ({ listingId, sellerId, mode = "sold", onSelectBuyer, onSoldElsewhere, onClose }) => {
+  const [partners, setPartners] = useState<ConversationPartner[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [reserveHours, setReserveHours] = useState(RESERVATION_OPTIONS[1].hours);
+  const reserving = mode === "reserve";
+
+  useEffect(() => {
+    TransactionService.getConversationPartners(listingId, sellerId).then(data => {
+      setPartners(data);
+      setLoading(false);
+    });
+  }, [listingId, sellerId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    await action();
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 w-full max-w-md mx-4 relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600">
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-gray-900 mb-1">
+          {reserving ? "Reserve for a buyer" : "Who bought this?"}
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {reserving
+            ? "Hold this listing while you arrange pickup. It goes back to available when the reservation runs out."
+            : "The buyer will be asked to confirm. Once they do, you can rate each other."}
+        </p>
+
+        {reserving && (
+          <select
+            value={reserveHours}
+            onChange={(e) => setReserveHours(Number(e.target.value))}
+            className="w-full mb-4 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+          >
+            {RESERVATION_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>Reserve for {option.label}</option>
+            ))}
+          </select>
+        )}
+
+        {loading ? (
+          <div className="h-16 bg-gray-100 rounded animate-pulse" />
+        ) : partners.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">Nobody has messaged you about this listing yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 mb-4 max-h-64 overflow-y-auto">
+            {partners.map(partner => (
+              <li key={partner.id}>
+                <button
+                  onClick={() => run(() => onSelectBuyer(partner.id, reserveHours))}
+                  disabled={submitting}
+                  className="w-full flex items-center gap-3 py-3 px-2 rounded-lg hover:bg-orange-50 transition disabled:opacity-50 text-left"
+                >
+                  <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-sm font-semibold text-gray-600 overflow-hidden">
+                    {partner.profile_image_url ? (
+                      <Image src={partner.profile_image_url} alt={partner.display_name} width={32} height={32} className="w-full h-full object-cover" />
+                    ) : (
+                      partner.display_name[0]?.toUpperCase()
+                    )}
+                  </div>
+                  <span className="flex-1 text-sm font-medium text-gray-900">{partner.display_name}</span>
+                  <UserCheck size={16} className="text-[#bf5700]" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!reserving && onSoldElsewhere && (
+          <button
+            onClick={() => run(onSoldElsewhere)}
+            disabled={submitting}
+            className="w-full px-4 py-2 rounded-lg border border-gray-300 text-gray-600 text-sm hover:bg-gray-50 transition disabled:opacity-50"
+          >
+            Sold outside UT Marketplace
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarkSoldModal;
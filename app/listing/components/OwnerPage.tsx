@@ -1,12 +1,28 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
+import { ListingService } from "../../lib/database/ListingService";
+import { useAuth } from "../../context/AuthContext";
 import { toast, ToastContainer } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import EditForm from "./EditForm";
+import MarkSoldModal from "./MarkSoldModal";
+import SubleaseDetailsCard from "./SubleaseDetailsCard";
+import ListingAttributesCard from "./ListingAttributesCard";
+import TextbookDetailsCard from "./TextbookDetailsCard";
+import { TransactionService } from "../../lib/database/TransactionService";
 import { MapPin, Calendar, Tag, CheckCircle2, Send, Clock, XCircle } from "lucide-react";
-import { OwnerPageProps } from "../../props/listing";
-import { determineListingStatus } from "../../lib/utils/statusUtils";
+import { ListingFormData, OwnerPageProps } from "../../props/listing";
+import { determineListingAvailability, determineListingStatus, ListingAvailability } from "../../lib/utils/statusUtils";
+import {
+  formatListingPrice,
+  getSubleaseDetails,
+  isSubleaseCategory,
+  LEASE_DURATION_OPTIONS,
+  pickSubleaseFields,
+  SubleaseFields,
+} from "../../lib/utils/subleaseUtils";
+import { getTextbookDetails, isTextbookCategory, pickTextbookFields, TextbookFields } from "../../lib/utils/textbookUtils";
 
 const categoryOptions = [
   "Furniture",
@@ -21,8 +37,6 @@ const categoryOptions = [
 
 const conditionOptions = ["New", "Like New", "Good", "Fair", "Poor"];
 
-const leaseOptions = ["6 months", "12 months", "Summer", "Flexible"];
-
 const OwnerPage: React.FC<OwnerPageProps> = ({
   title,
   price,
@@ -37,12 +51,22 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
   is_draft = false,
   status = 'approved',
   denial_reason,
+  attributes = {},
+  isbn,
+  edition,
+  course_codes,
+  ...leaseTerms
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSold, setIsSold] = useState(is_sold);
+  const [buyerPickerMode, setBuyerPickerMode] = useState<"sold" | "reserve" | null>(null);
+  const [availability, setAvailability] = useState<ListingAvailability>(is_sold ? "sold" : "available");
+  const [reservedUntil, setReservedUntil] = useState<string | null>(null);
   const [isDraft, setIsDraft] = useState(is_draft);
   const [currentStatus, setCurrentStatus] = useState(status);
+  const [subleaseFields, setSubleaseFields] = useState<SubleaseFields>(pickSubleaseFields(leaseTerms));
+  const [textbookFields, setTextbookFields] = useState<TextbookFields>({ isbn, edition, course_codes });
   const [form, setForm] = useState({
     title,
     price,
@@ -51,12 +75,16 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
     condition,
     description,
     images: images || [],
+    sublease: getSubleaseDetails(leaseTerms),
+    attributes,
+    textbook: getTextbookDetails({ isbn, edition, course_codes }),
   });
   const [selectedImageIdx, setSelectedImageIdx] = useState(0);
 
   const [relatedListings, setRelatedListings] = useState<any[]>([]);
 
   const router = useRouter();
+  const { user } = useAuth();
 
   // Update isSold state when is_sold prop changes
   useEffect(() => {
@@ -86,9 +114,16 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
         condition: data.condition,
         description: data.description,
         images: data.images || [],
+        sublease: getSubleaseDetails(data),
+        attributes: data.attributes || {},
+        textbook: getTextbookDetails(data),
       });
+      setSubleaseFields(pickSubleaseFields(data));
+      setTextbookFields(pickTextbookFields(data));
       setIsSold(data.is_sold);
       setIsDraft(data.is_draft);
+      setAvailability(determineListingAvailability(data));
+      setReservedUntil(data.reserved_until || null);
       
       // Determine status using centralized utility
       const { status: detectedStatus } = determineListingStatus(data);
@@ -121,11 +156,11 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
   }, [form.category, form.title]);
 
   const handleDelete = async () => {
-    if (!id) return toast.error("Listing ID not found.");
+    if (!id || !user) return toast.error("Listing ID not found.");
     setIsDeleting(true);
-    const { error } = await supabase.from("listings").delete().eq("id", id);
+    const success = await ListingService.deleteListing(id, user.id);
     setIsDeleting(false);
-    if (error) {
+    if (!success) {
       toast.error("Error deleting listing.");
     } else {
       toast.success("Listing deleted!");
@@ -141,15 +176,30 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
     setForm({ ...form, [e.target.name]: e.target.value });
   };
 
-  const handleEditSubmit = async (formData: typeof form) => {
-    if (!id) return toast.error("Listing ID not found.");
-    const { error } = await supabase
-      .from("listings")
-      .update({
-        ...formData,
-      })
-      .eq("id", id);
-    if (error) {
+  const handleEditSubmit = async (formData: ListingFormData) => {
+    if (!id || !user) return toast.error("Listing ID not found.");
+    // Photos added while editing are still Files; upload them in place so the order is kept
+    const uploaded = await ListingService.uploadImages(formData.images || [], user.id);
+
+    // Goes through ListingService so price history and watcher alerts are recorded
+    const updated = await ListingService.updateListing({
+      id,
+      title: formData.title,
+      price: Number(formData.price),
+      location: formData.location,
+      category: formData.category,
+      condition: formData.condition,
+      description: formData.description,
+      images: uploaded.images,
+      imageVariants: uploaded.imageVariants,
+      is_draft: formData.is_draft,
+      locationLat: formData.location_lat,
+      locationLng: formData.location_lng,
+      sublease: formData.sublease,
+      attributes: formData.attributes,
+      textbook: formData.textbook,
+    });
+    if (!updated) {
       toast.error("Error updating listing.");
     } else {
       toast.success("Listing updated!");
@@ -159,24 +209,79 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
   };
 
   const handleToggleSold = async () => {
-    if (!id) return toast.error("Listing ID not found.");
+    if (!id || !user) return toast.error("Listing ID not found.");
+
+    // Marking as sold asks who bought it first
+    if (!isSold) {
+      setBuyerPickerMode("sold");
+      return;
+    }
     
     try {
-      const { error } = await supabase
-        .from("listings")
-        .update({ is_sold: !isSold })
-        .eq("id", id);
-
-      if (error) throw error;
+      const success = await ListingService.markListingAsSold(id, user.id, false);
+      if (!success) throw new Error("Failed to update sold status");
+      await TransactionService.cancelOpenTransactions(id, user.id);
       
-      setIsSold(!isSold);
-      toast.success(isSold ? "Listing marked as available" : "Listing marked as sold");
+      setIsSold(false);
+      toast.success("Listing marked as available");
       await fetchListing(); // Refresh the listing data
     } catch (err) {
       toast.error("Error updating listing status");
     }
   };
 
+  const handleSoldTo = async (buyerId: string) => {
+    if (!id || !user) return;
+    const result = await TransactionService.markSoldTo({ listingId: id, sellerId: user.id, buyerId });
+    if (!result.success) {
+      toast.error(result.error || "Error updating listing status");
+      return;
+    }
+    setIsSold(true);
+    setBuyerPickerMode(null);
+    toast.success("Listing marked as sold. We've asked the buyer to confirm.");
+    await fetchListing();
+  };
+
+  const handleSoldElsewhere = async () => {
+    if (!id || !user) return;
+    const success = await ListingService.markListingAsSold(id, user.id, true);
+    if (!success) {
+      toast.error("Error updating listing status");
+      return;
+    }
+    await TransactionService.cancelOpenTransactions(id, user.id);
+    setIsSold(true);
+    setBuyerPickerMode(null);
+    toast.success("Listing marked as sold");
+    await fetchListing();
+  };
+
+  const handleReserveFor = async (buyerId: string, reserveHours: number) => {
+    if (!id || !user) return;
+    const until = new Date(Date.now() + reserveHours * 60 * 60 * 1000);
+    const result = await ListingService.reserveListing(id, user.id, buyerId, until);
+    if (!result.success) {
+      toast.error(result.error || "Error reserving listing");
+      return;
+    }
+    setBuyerPickerMode(null);
+    toast.success("Listing reserved");
+    await fetchListing();
+  };
+
+  const handleReleaseReservation = async () => {
+    if (!id || !user) return;
+    const success = await ListingService.releaseReservation(id, user.id);
+    if (!success) {
+      toast.error("Error releasing reservation");
+      return;
+    }
+    await TransactionService.cancelOpenTransactions(id, user.id);
+    toast.success("Reservation released. The listing is available again.");
+    await fetchListing();
+  };
+
   const handlePublishDraft = async () => {
     if (!id) return toast.error("Listing ID not found.");
     
@@ -260,7 +365,7 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
 
             {form.images && form.images.length > 1 && (
               <div className="grid grid-cols-5 gap-2 mb-6">
-                {form.images.slice(0, 5).map((img, idx) => (
+                {form.images.map((img, idx) => (
                   <button
                     key={idx}
                     onClick={() => setSelectedImageIdx(idx)}
@@ -287,8 +392,13 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
                 {form.title}
               </h2>
               <span className="text-3xl font-bold text-[#bf5700] block mb-4">
-                ${form.price}
+                {formatListingPrice(form.price, subleaseFields.rent_period)}
               </span>
+              {availability === "reserved" && reservedUntil && (
+                <div className="mb-4 inline-flex items-center gap-2 bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-xs font-semibold">
+                  <Clock size={14} /> Reserved until {new Date(reservedUntil).toLocaleString()}
+                </div>
+              )}
               <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-600">
                 <span className="inline-flex items-center gap-1">
                   <MapPin className="text-[#bf5700]" size={16} />{" "}
@@ -303,11 +413,14 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
               </div>
               <div className="mb-4">
                 <span className="inline-block bg-[#bf5700]/10 text-[#bf5700] px-3 py-1 rounded-full text-xs font-semibold">
-                  {form.category === "Subleases"
+                  {isSubleaseCategory(form.category)
                     ? `Lease Duration: ${form.condition}`
                     : `Condition: ${form.condition}`}
                 </span>
               </div>
+              {isSubleaseCategory(form.category) && <SubleaseDetailsCard {...subleaseFields} />}
+              {isTextbookCategory(form.category) && <TextbookDetailsCard {...textbookFields} />}
+              <ListingAttributesCard category={form.category} attributes={form.attributes} />
               <div className="mb-6">
                 <h3 className="text-lg font-semibold text-gray-800 mb-1">
                   Description
@@ -363,6 +476,22 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
                       {isSold ? 'Mark as Available' : 'Mark as Sold'}
                     </button>
                   )}
+                  {!isDraft && availability === "available" && (
+                    <button
+                      onClick={() => setBuyerPickerMode("reserve")}
+                      className="w-full border border-[#bf5700] text-[#bf5700] hover:bg-orange-50 font-semibold py-2 rounded transition"
+                    >
+                      Reserve for a Buyer
+                    </button>
+                  )}
+                  {!isDraft && availability === "reserved" && (
+                    <button
+                      onClick={handleReleaseReservation}
+                      className="w-full border border-gray-300 text-gray-700 hover:bg-gray-50 font-semibold py-2 rounded transition"
+                    >
+                      Release Reservation
+                    </button>
+                  )}
                   <button
                     className="w-full bg-[#bf5700] hover:bg-[#a54700] text-white font-semibold py-2 rounded transition"
                     onClick={() => setIsEditing(true)}
@@ -383,6 +512,17 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
         </div>
       </div>
 
+      {buyerPickerMode && id && user && (
+        <MarkSoldModal
+          listingId={id}
+          sellerId={user.id}
+          mode={buyerPickerMode}
+          onSelectBuyer={buyerPickerMode === "reserve" ? handleReserveFor : handleSoldTo}
+          onSoldElsewhere={handleSoldElsewhere}
+          onClose={() => setBuyerPickerMode(null)}
+        />
+      )}
+
       {isEditing && (
         <div className="fixed inset-0 z-40 flex justify-center bg-black/20 backdrop-blur-sm overflow-y-auto">
           <EditForm
@@ -399,10 +539,13 @@ const OwnerPage: React.FC<OwnerPageProps> = ({
               condition,
               description,
               images: images || [],
+              sublease: getSubleaseDetails(leaseTerms),
+              attributes,
+              textbook: getTextbookDetails({ isbn, edition, course_codes }),
             }}
             categoryOptions={categoryOptions}
             conditionOptions={conditionOptions}
-            leaseOptions={leaseOptions}
+            leaseOptions={LEASE_DURATION_OPTIONS}
           />
         </div>
       )}
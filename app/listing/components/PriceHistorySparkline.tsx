@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from "react";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { PriceHistoryPoint, WatchlistService } from "../../lib/database/WatchlistService";
+
+interface PriceHistorySparklineProps {
+  listingId: string;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 2;
+
+const PriceHistorySparkline: React.FC<PriceHistorySparklineProps> = ({ listingId, width = 120, height = 32 }) => {
+  const [history, setHistory] = useState<PriceHistoryPoint[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    WatchlistService.getPriceHistory(listingId).then(points => {
+      if (!cancelled) setHistory(points);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId]);
+
+  // Nothing to chart until the price has changed at least once
+  if (history.length < 2) return null;
+
+  const prices = history.map(point => point.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const range = max - min || 1;
+  const stepX = (width - PADDING * 2) / (prices.length - 1);
+
+  const points = prices
+    .map((price, index) => {
+      const x = PADDING + index * stepX;
+      const y = PADDING + (1 - (price - min) / range) * (height - PADDING * 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const dropped = last < first;
+  const color = dropped ? "#16a34a" : "#bf5700";
+
+  return (
+    <div className="flex items-center gap-3 mb-4" title={`Price history: ${prices.map(price => `$${price}`).join(" → ")}`}>
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-label="Price history">
+        <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" />
+      </svg>
+      <span className={`inline-flex items-center gap-1 text-xs font-medium ${dropped ? "text-green-600" : "text-gray-500"}`}>
+        {dropped ? <TrendingDown size={14} /> : <TrendingUp size={14} />}
+        {dropped ? `Down from $${first}` : `Originally $${first}`}
+      </span>
+    </div>
+  );
+};
+
+export default PriceHistorySparkline;
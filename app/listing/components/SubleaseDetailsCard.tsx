@@ -0,0 +1,55 @@
+import React from "react";
+import { Bath, BedDouble, CalendarDays, Sofa, Users, Zap } from "lucide-react";
+import {
+  formatLeaseDates,
+  GENDER_PREFERENCE_OPTIONS,
+  getOptionLabel,
+  SubleaseFields,
+  UTILITIES_OPTIONS,
+} from "../../lib/utils/subleaseUtils";
+
+const SubleaseDetailsCard: React.FC<SubleaseFields> = ({
+  lease_start_date,
+  lease_end_date,
+  bedrooms,
+  bathrooms,
+  roommate_count,
+  furnished,
+  utilities,
+  gender_preference,
+}) => {
+  const leaseDates = formatLeaseDates(lease_start_date, lease_end_date);
+  const genderPreference = gender_preference && gender_preference !== "any"
+    ? getOptionLabel(GENDER_PREFERENCE_OPTIONS, gender_preference)
+    : null;
+
+  const details = [
+    leaseDates && { icon: CalendarDays, label: leaseDates },
+    bedrooms != null && { icon: BedDouble, label: `${bedrooms} ${bedrooms === 1 ? "bedroom" : "bedrooms"}` },
+    bathrooms != null && { icon: Bath, label: `${bathrooms} ${bathrooms === 1 ? "bathroom" : "bathrooms"}` },
+    roommate_count != null && {
+      icon: Users,
+      label: roommate_count === 0 ? "No roommates" : `${roommate_count} ${roommate_count === 1 ? "roommate" : "roommates"}`,
+    },
+    furnished != null && { icon: Sofa, label: furnished ? "Furnished" : "Unfurnished" },
+    utilities && { icon: Zap, label: getOptionLabel(UTILITIES_OPTIONS, utilities) },
+    genderPreference && { icon: Users, label: genderPreference },
+  ].filter(Boolean) as { icon: React.ElementType; label: string }[];
+
+  if (details.length === 0) return null;
+
+  return (
+    <div className="mb-6 border border-[#bf5700]/20 bg-orange-50/40 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-800 mb-2">Sublease Details</h3>
+      <div className="grid grid-cols-2 gap-2 text-sm text-gray-700">
+        {details.map(({ icon: Icon, label }) => (
+          <span key={label} className="inline-flex items-center gap-2">
+            <Icon className="text-[#bf5700]" size={16} /> {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SubleaseDetailsCard;
@@ -0,0 +1,42 @@
+import React from "react";
+import Link from "next/link";
+import { Barcode, BookOpen } from "lucide-react";
+import { formatIsbn, TextbookFields } from "../../lib/utils/textbookUtils";
+
+const TextbookDetailsCard: React.FC<TextbookFields> = ({ isbn, edition, course_codes }) => {
+  if (!isbn && !edition && !course_codes?.length) return null;
+
+  return (
+    <div className="mb-6 border border-[#bf5700]/20 bg-orange-50/40 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-800 mb-2">Textbook Details</h3>
+      <div className="flex flex-col gap-2 text-sm text-gray-700">
+        {isbn && (
+          <span className="inline-flex items-center gap-2">
+            <Barcode className="text-[#bf5700]" size={16} /> ISBN {formatIsbn(isbn)}
+          </span>
+        )}
+        {edition && (
+          <span className="inline-flex items-center gap-2">
+            <BookOpen className="text-[#bf5700]" size={16} /> {edition} edition
+          </span>
+        )}
+        {course_codes && course_codes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-gray-500">Used in</span>
+            {course_codes.map((code) => (
+              <Link
+                key={code}
+                href={`/textbooks?courses=${encodeURIComponent(code)}`}
+                className="bg-[#bf5700]/10 text-[#bf5700] px-2 py-1 rounded-full text-xs font-semibold hover:bg-[#bf5700]/20"
+              >
+                {code}
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TextbookDetailsCard;
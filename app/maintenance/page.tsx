@@ -0,0 +1,39 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Wrench } from "lucide-react";
+import { DEFAULT_PLATFORM_SETTINGS, PlatformSettings, SettingsService } from "../lib/database/SettingsService";
+
+const MaintenancePage = () => {
+  const [settings, setSettings] = useState<PlatformSettings>(DEFAULT_PLATFORM_SETTINGS);
+
+  useEffect(() => {
+    SettingsService.getSettings().then(setSettings);
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] px-4 text-center">
+      <div className="w-16 h-16 rounded-full bg-orange-100 flex items-center justify-center mb-6">
+        <Wrench className="w-8 h-8 text-[#bf5700]" />
+      </div>
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">We&apos;ll be right back</h1>
+      <p className="text-gray-600 max-w-md">
+        UT Marketplace is down for scheduled maintenance. Please check back soon.
+      </p>
+      {settings.site_announcement && (
+        <p className="mt-4 text-sm text-gray-700 bg-orange-50 border border-orange-200 rounded-lg px-4 py-3 max-w-md">
+          {settings.site_announcement}
+        </p>
+      )}
+      {settings.contact_email && (
+        <p className="mt-4 text-sm text-gray-500">
+          Questions? Contact{" "}
+          <a href={`mailto:${settings.contact_email}`} className="text-[#bf5700] hover:underline">
+            {settings.contact_email}
+          </a>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MaintenancePage;
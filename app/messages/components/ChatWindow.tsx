@@ -1,12 +1,33 @@
 "use client";
-import { useEffect, useRef, useState } from "react";
-import { Send, ChevronDown, Trash2, Edit2 } from "lucide-react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { Send, ChevronDown, Trash2, Edit2, DollarSign, X, Shield, ShieldCheck, ShieldAlert, ImagePlus, Check, CheckCheck, Clock, Ban, Archive, ArchiveRestore } from "lucide-react";
 import * as timeago from "timeago.js";
+import { toast, ToastContainer } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
 import { supabase } from "../../lib/supabaseClient";
 import { Message } from "../../props/listing";
+import { Offer, OfferResult, OfferService } from "../../lib/database/OfferService";
+import { OfferCard } from "./OfferCard";
+import { SafetyNumberModal } from "./SafetyNumberModal";
+import { MessageAttachments } from "./MessageAttachments";
+import { MAX_ATTACHMENT_SIZE, MAX_MESSAGE_ATTACHMENTS, MessageService } from "../../lib/database/MessageService";
+import {
+  ContactKeyStatus,
+  checkContactKey,
+  clearContactVerification,
+  getPublicKeys,
+  markContactVerified,
+} from "../../lib/database/KeyService";
+import { computeSafetyNumber, getKeyFingerprint } from "../../lib/encryption";
+import { BlockService, BlockStatus } from "../../lib/database/BlockService";
 import Link from "next/link";
 import Image from "next/image";
 
+// Typing state is re-sent while typing, and cleared if it goes quiet
+const TYPING_RESEND_MS = 2000;
+const TYPING_IDLE_MS = 3000;
+const PARTNER_TYPING_TIMEOUT_MS = 5000;
+
 interface ChatWindowProps {
   selectedConversation: string | null;
   messages: Message[];
@@ -14,8 +35,14 @@ interface ChatWindowProps {
   conversationName: string;
   conversationImage?: string;
   listingTitle: string;
-  onSendMessage: (content: string) => Promise<void>;
+  partnerOnline: boolean;
+  hasMoreMessages: boolean;
+  loadingOlderMessages: boolean;
+  onLoadOlderMessages: () => Promise<void>;
+  onSendMessage: (content: string, attachments?: File[]) => Promise<void>;
   onDeleteMessage: (messageId: string) => Promise<void>;
+  conversationArchived: boolean;
+  onToggleArchive: () => Promise<void>;
   onDeleteConversation: () => Promise<void>;
   sidebarCollapsed: boolean;
   onToggleSidebar: () => void;
@@ -28,8 +55,14 @@ export const ChatWindow = ({
   conversationName,
   conversationImage,
   listingTitle,
+  partnerOnline,
+  hasMoreMessages,
+  loadingOlderMessages,
+  onLoadOlderMessages,
   onSendMessage,
   onDeleteMessage,
+  conversationArchived,
+  onToggleArchive,
   onDeleteConversation,
   sidebarCollapsed,
   onToggleSidebar,
@@ -37,11 +70,271 @@ export const ChatWindow = ({
   const [newMessage, setNewMessage] = useState("");
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [editMode, setEditMode] = useState(false);
+  const [offers, setOffers] = useState<Offer[]>([]);
+  const [listingOwnerId, setListingOwnerId] = useState<string | null>(null);
+  const [showOfferInput, setShowOfferInput] = useState(false);
+  const [offerAmount, setOfferAmount] = useState("");
+  const [keyVerification, setKeyVerification] = useState<{
+    status: ContactKeyStatus;
+    safetyNumber: string;
+    partnerFingerprint: string;
+  } | null>(null);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const [savingVerification, setSavingVerification] = useState(false);
+  const [blockStatus, setBlockStatus] = useState<BlockStatus>({ blockedByMe: false, blockedMe: false });
+  const [pendingFiles, setPendingFiles] = useState<{ file: File; previewUrl: string }[]>([]);
+  const [sending, setSending] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Scroll position captured before loading an older page, restored once it renders
+  const scrollAnchorRef = useRef<{ firstMessageId: string; scrollHeight: number; scrollTop: number } | null>(null);
+  const initialScrollPendingRef = useRef(true);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const [partnerTyping, setPartnerTyping] = useState(false);
+  const typingChannelRef = useRef<ReturnType<typeof MessageService.subscribeToTyping> | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const stopTypingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
 
-  // Extract listingId from selectedConversation
+  // Extract partner and listingId from selectedConversation
+  const partnerId = selectedConversation ? selectedConversation.split(":")[0] : null;
   const listingId = selectedConversation ? selectedConversation.split(":")[1] : null;
+  const isListingConversation = !!listingId && listingId !== "general";
+  const canMakeOffer = isListingConversation && !!listingOwnerId && listingOwnerId !== currentUserId;
+
+  // Offers live alongside messages for listing conversations
+  useEffect(() => {
+    setOffers([]);
+    setListingOwnerId(null);
+    setShowOfferInput(false);
+    if (!isListingConversation || !partnerId || !listingId) return;
+
+    let cancelled = false;
+    (async () => {
+      const [{ data: listing }, conversationOffers] = await Promise.all([
+        supabase.from("listings").select("user_id").eq("id", listingId).single(),
+        OfferService.getConversationOffers(currentUserId, partnerId, listingId),
+      ]);
+      if (cancelled) return;
+      setListingOwnerId(listing?.user_id || null);
+      setOffers(conversationOffers);
+    })();
+
+    const subscription = OfferService.subscribeToListingOffers(listingId, (offer) => {
+      const inConversation =
+        (offer.buyer_id === currentUserId && offer.seller_id === partnerId) ||
+        (offer.buyer_id === partnerId && offer.seller_id === currentUserId);
+      if (!inConversation) return;
+      setOffers((prev) =>
+        prev.some((o) => o.id === offer.id)
+          ? prev.map((o) => (o.id === offer.id ? offer : o))
+          : [...prev, offer]
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [isListingConversation, partnerId, listingId, currentUserId]);
+
+  // Safety number for the conversation; only exists when both sides have keys
+  useEffect(() => {
+    setKeyVerification(null);
+    setShowSafetyNumber(false);
+    if (!partnerId || !currentUserId) return;
+
+    let cancelled = false;
+    (async () => {
+      const publicKeys = await getPublicKeys([partnerId, currentUserId]);
+      const partnerKey = publicKeys.get(partnerId);
+      const ownKey = publicKeys.get(currentUserId);
+      if (!partnerKey || !ownKey) return;
+
+      const partnerFingerprint = await getKeyFingerprint(partnerKey);
+      const [safetyNumber, status] = await Promise.all([
+        computeSafetyNumber(ownKey, partnerKey),
+        checkContactKey(currentUserId, partnerId, partnerFingerprint),
+      ]);
+      if (cancelled) return;
+      setKeyVerification({ status, safetyNumber, partnerFingerprint });
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [partnerId, currentUserId]);
+
+  useEffect(() => {
+    setBlockStatus({ blockedByMe: false, blockedMe: false });
+    if (!partnerId || !currentUserId) return;
+
+    let cancelled = false;
+    BlockService.getBlockStatus(currentUserId, partnerId).then((status) => {
+      if (!cancelled) setBlockStatus(status);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [partnerId, currentUserId]);
+
+  const handleToggleBlock = async () => {
+    if (!partnerId) return;
+
+    if (blockStatus.blockedByMe) {
+      if (!(await BlockService.unblockUser(currentUserId, partnerId))) {
+        toast.error("Failed to unblock. Please try again.");
+        return;
+      }
+      setBlockStatus({ ...blockStatus, blockedByMe: false });
+      toast.success(`${conversationName} unblocked`);
+      return;
+    }
+
+    if (!window.confirm(`Block ${conversationName}? Neither of you will be able to send messages in any conversation.`)) {
+      return;
+    }
+    if (!(await BlockService.blockUser(currentUserId, partnerId))) {
+      toast.error("Failed to block. Please try again.");
+      return;
+    }
+    setBlockStatus({ ...blockStatus, blockedByMe: true });
+    toast.success(`${conversationName} blocked`);
+  };
+
+  // Typing indicators travel over a broadcast channel shared by both participants
+  useEffect(() => {
+    setPartnerTyping(false);
+    if (!partnerId || !currentUserId) return;
+
+    let clearTimer: ReturnType<typeof setTimeout> | null = null;
+    const channel = MessageService.subscribeToTyping(
+      { userId: currentUserId, otherUserId: partnerId, listingId },
+      (isTyping) => {
+        setPartnerTyping(isTyping);
+        if (clearTimer) clearTimeout(clearTimer);
+        // Don't leave "typing…" up if the stop event never arrives
+        if (isTyping) clearTimer = setTimeout(() => setPartnerTyping(false), PARTNER_TYPING_TIMEOUT_MS);
+      }
+    );
+    typingChannelRef.current = channel;
+    lastTypingSentRef.current = 0;
+
+    return () => {
+      if (clearTimer) clearTimeout(clearTimer);
+      if (stopTypingTimerRef.current) clearTimeout(stopTypingTimerRef.current);
+      channel.unsubscribe();
+      typingChannelRef.current = null;
+    };
+  }, [partnerId, listingId, currentUserId]);
+
+  const stopTyping = () => {
+    if (stopTypingTimerRef.current) {
+      clearTimeout(stopTypingTimerRef.current);
+      stopTypingTimerRef.current = null;
+    }
+    if (lastTypingSentRef.current) {
+      typingChannelRef.current?.sendTyping(false);
+      lastTypingSentRef.current = 0;
+    }
+  };
+
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_RESEND_MS) {
+      typingChannelRef.current?.sendTyping(true);
+      lastTypingSentRef.current = now;
+    }
+    if (stopTypingTimerRef.current) clearTimeout(stopTypingTimerRef.current);
+    stopTypingTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const handleMarkVerified = async () => {
+    if (!partnerId || !keyVerification) return;
+    setSavingVerification(true);
+    const success = await markContactVerified(currentUserId, partnerId, keyVerification.partnerFingerprint);
+    setSavingVerification(false);
+    if (!success) {
+      toast.error("Failed to save verification. Please try again.");
+      return;
+    }
+    setKeyVerification({ ...keyVerification, status: "verified" });
+    toast.success(`${conversationName} marked as verified`);
+  };
+
+  const handleClearVerified = async () => {
+    if (!partnerId || !keyVerification) return;
+    setSavingVerification(true);
+    const success = await clearContactVerification(currentUserId, partnerId);
+    setSavingVerification(false);
+    if (!success) {
+      toast.error("Failed to clear verification. Please try again.");
+      return;
+    }
+    setKeyVerification({ ...keyVerification, status: "unverified" });
+  };
+
+  // A changed key must be re-verified before sending more messages to it
+  const keyChanged = keyVerification?.status === "changed";
+  const isBlocked = blockStatus.blockedByMe || blockStatus.blockedMe;
+  const inputDisabled = keyChanged || isBlocked;
+
+  const applyOfferResult = (result: OfferResult, successMessage: string) => {
+    if (!result.success || !result.offer) {
+      toast.error(result.error || "Something went wrong. Please try again.");
+      return;
+    }
+    const updated = result.offer;
+    setOffers((prev) =>
+      prev.some((o) => o.id === updated.id)
+        ? prev.map((o) => (o.id === updated.id ? updated : o))
+        : [...prev, updated]
+    );
+    toast.success(successMessage);
+  };
+
+  const handleMakeOffer = async () => {
+    const amount = Number(offerAmount);
+    if (!listingId || !amount || amount <= 0) return;
+    const result = await OfferService.createOffer({ listingId, buyerId: currentUserId, amount });
+    applyOfferResult(result, "Offer sent");
+    if (result.success) {
+      setOfferAmount("");
+      setShowOfferInput(false);
+    }
+  };
+
+  const handleAcceptOffer = async (offer: Offer) => {
+    applyOfferResult(await OfferService.acceptOffer(offer.id, currentUserId), "Offer accepted");
+  };
+
+  const handleDeclineOffer = async (offer: Offer) => {
+    applyOfferResult(await OfferService.declineOffer(offer.id, currentUserId), "Offer declined");
+  };
+
+  const handleCounterOffer = async (offer: Offer, amount: number) => {
+    const result = await OfferService.counterOffer(offer.id, currentUserId, amount);
+    if (result.success) {
+      // The original offer is now marked as countered
+      setOffers((prev) => prev.map((o) => (o.id === offer.id ? { ...o, status: "countered" } : o)));
+    }
+    applyOfferResult(result, "Counter-offer sent");
+  };
+
+  const handleWithdrawOffer = async (offer: Offer) => {
+    applyOfferResult(await OfferService.withdrawOffer(offer.id, currentUserId), "Offer withdrawn");
+  };
+
+  // Messages and offers in one timeline, oldest first
+  // Offers older than the loaded history wait until that page is scrolled back to
+  const oldestLoadedAt = hasMoreMessages && messages.length > 0 ? new Date(messages[0].created_at).getTime() : null;
+  const timeline = [
+    ...messages.map((message) => ({ kind: "message" as const, created_at: message.created_at, message })),
+    ...offers
+      .filter((offer) => oldestLoadedAt === null || new Date(offer.created_at).getTime() >= oldestLoadedAt)
+      .map((offer) => ({ kind: "offer" as const, created_at: offer.created_at, offer })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
 
   const scrollToBottom = (behavior: "auto" | "smooth" = "auto") => {
     if (messagesEndRef.current && chatContainerRef.current) {
@@ -54,19 +347,93 @@ export const ChatWindow = ({
     const { scrollTop, scrollHeight, clientHeight } = chatContainerRef.current;
     const isNearBottom = scrollHeight - scrollTop - clientHeight < 100;
     setShowScrollButton(!isNearBottom);
+
+    if (scrollTop < 100 && hasMoreMessages && !loadingOlderMessages && messages.length > 0) {
+      scrollAnchorRef.current = { firstMessageId: messages[0].id, scrollHeight, scrollTop };
+      onLoadOlderMessages();
+    }
   };
 
+  useEffect(() => {
+    initialScrollPendingRef.current = true;
+    scrollAnchorRef.current = null;
+  }, [selectedConversation]);
+
+  // Keep the view steady when older messages are prepended above it
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const container = chatContainerRef.current;
+    if (!anchor || !container || messages[0]?.id === anchor.firstMessageId) return;
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    scrollAnchorRef.current = null;
+  }, [messages]);
+
   useEffect(() => {
     if (messages.length === 0) return;
     const lastMessage = messages[messages.length - 1];
-    if (lastMessage.sender_id === currentUserId) {
+    const isNewLastMessage = lastMessage.id !== lastMessageIdRef.current;
+    lastMessageIdRef.current = lastMessage.id;
+
+    if (initialScrollPendingRef.current) {
+      initialScrollPendingRef.current = false;
+      scrollToBottom("auto");
+    } else if (isNewLastMessage && lastMessage.sender_id === currentUserId) {
       scrollToBottom("smooth");
     }
   }, [messages, currentUserId]);
 
+  // Pending photos are dropped when switching conversations
+  useEffect(() => {
+    setPendingFiles((prev) => {
+      prev.forEach((pending) => URL.revokeObjectURL(pending.previewUrl));
+      return [];
+    });
+  }, [selectedConversation]);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const accepted: { file: File; previewUrl: string }[] = [];
+    for (const file of files) {
+      if (!file.type.startsWith("image/")) {
+        toast.error(`${file.name} is not an image`);
+        continue;
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast.error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`);
+        continue;
+      }
+      if (pendingFiles.length + accepted.length >= MAX_MESSAGE_ATTACHMENTS) {
+        toast.error(`You can attach up to ${MAX_MESSAGE_ATTACHMENTS} photos per message`);
+        break;
+      }
+      accepted.push({ file, previewUrl: URL.createObjectURL(file) });
+    }
+
+    if (accepted.length > 0) {
+      setPendingFiles((prev) => [...prev, ...accepted]);
+    }
+  };
+
+  const removePendingFile = (index: number) => {
+    setPendingFiles((prev) => {
+      URL.revokeObjectURL(prev[index].previewUrl);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  const canSend = (!!newMessage.trim() || pendingFiles.length > 0) && !inputDisabled && !sending;
+
   const handleSendMessage = async () => {
-    if (!newMessage.trim()) return;
-    await onSendMessage(newMessage.trim());
+    if (!canSend) return;
+    const attachments = pendingFiles.map((pending) => pending.file);
+    stopTyping();
+    setSending(true);
+    await onSendMessage(newMessage.trim(), attachments.length > 0 ? attachments : undefined);
+    setSending(false);
+    pendingFiles.forEach((pending) => URL.revokeObjectURL(pending.previewUrl));
+    setPendingFiles([]);
     setNewMessage("");
   };
 
@@ -111,6 +478,14 @@ export const ChatWindow = ({
               >
                 {conversationName}
               </Link>
+              {partnerTyping ? (
+                <span className="ml-2 text-xs italic text-[#bf5700]">typing…</span>
+              ) : partnerOnline && (
+                <span className="ml-2 text-xs text-green-600 inline-flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full bg-green-500" />
+                  Online now
+                </span>
+              )}
               <div className="text-xs text-gray-500 flex items-center gap-2">
                 {listingTitle}
                 {listingId && listingId !== "general" && (
@@ -126,6 +501,40 @@ export const ChatWindow = ({
             </div>
           </div>
           <div className="flex items-center gap-2 ml-auto">
+            {keyVerification && (
+              <button
+                onClick={() => setShowSafetyNumber(true)}
+                className={`p-2 ${
+                  keyVerification.status === "verified"
+                    ? "text-green-600 hover:text-green-700"
+                    : keyVerification.status === "changed"
+                      ? "text-red-600 hover:text-red-700"
+                      : "text-gray-500 hover:text-[#bf5700]"
+                }`}
+                title={
+                  keyVerification.status === "verified"
+                    ? "Verified contact"
+                    : keyVerification.status === "changed"
+                      ? "Encryption key changed"
+                      : "Verify safety number"
+                }
+              >
+                {keyVerification.status === "verified" ? (
+                  <ShieldCheck size={20} />
+                ) : keyVerification.status === "changed" ? (
+                  <ShieldAlert size={20} />
+                ) : (
+                  <Shield size={20} />
+                )}
+              </button>
+            )}
+            <button
+              onClick={handleToggleBlock}
+              className={`p-2 ${blockStatus.blockedByMe ? "text-red-600 hover:text-red-700" : "text-gray-500 hover:text-red-600"}`}
+              title={blockStatus.blockedByMe ? "Unblock User" : "Block User"}
+            >
+              <Ban size={20} />
+            </button>
             <button
               onClick={() => setEditMode((prev) => !prev)}
               className={`p-2 text-gray-500 hover:text-[#bf5700] ${
@@ -135,6 +544,13 @@ export const ChatWindow = ({
             >
               <Edit2 size={20} />
             </button>
+            <button
+              onClick={onToggleArchive}
+              className="p-2 text-gray-500 hover:text-[#bf5700]"
+              title={conversationArchived ? "Move to Inbox" : "Archive Conversation"}
+            >
+              {conversationArchived ? <ArchiveRestore size={20} /> : <Archive size={20} />}
+            </button>
             <button
               onClick={onDeleteConversation}
               className="p-2 text-gray-500 hover:text-red-600"
@@ -146,6 +562,43 @@ export const ChatWindow = ({
         </div>
       </div>
 
+      {/* Key Change Warning */}
+      {keyChanged && (
+        <div className="px-4 py-3 bg-red-50 border-b border-red-200 flex items-center gap-3">
+          <ShieldAlert size={20} className="text-red-600 flex-shrink-0" />
+          <p className="flex-1 text-sm text-red-800">
+            <span className="font-semibold">{conversationName}&apos;s encryption key has changed.</span>{" "}
+            Verify their new safety number before sending more messages.
+          </p>
+          <button
+            onClick={() => setShowSafetyNumber(true)}
+            className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition flex-shrink-0"
+          >
+            Verify
+          </button>
+        </div>
+      )}
+
+      {/* Block Notice */}
+      {isBlocked && (
+        <div className="px-4 py-3 bg-gray-100 border-b border-gray-200 flex items-center gap-3">
+          <Ban size={20} className="text-gray-500 flex-shrink-0" />
+          <p className="flex-1 text-sm text-gray-700">
+            {blockStatus.blockedByMe
+              ? `You blocked ${conversationName}. Unblock them to send messages.`
+              : "You can no longer send messages in this conversation."}
+          </p>
+          {blockStatus.blockedByMe && (
+            <button
+              onClick={handleToggleBlock}
+              className="px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-white transition flex-shrink-0"
+            >
+              Unblock
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <div
         ref={chatContainerRef}
@@ -153,7 +606,27 @@ export const ChatWindow = ({
         style={{ minHeight: 0 }}
         onScroll={handleScroll}
       >
-        {messages.map((message) => (
+        {loadingOlderMessages && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-[#bf5700]"></div>
+          </div>
+        )}
+        {timeline.map((item) => {
+          if (item.kind === "offer") {
+            return (
+              <OfferCard
+                key={`offer-${item.offer.id}`}
+                offer={item.offer}
+                currentUserId={currentUserId}
+                onAccept={handleAcceptOffer}
+                onDecline={handleDeclineOffer}
+                onCounter={handleCounterOffer}
+                onWithdraw={handleWithdrawOffer}
+              />
+            );
+          }
+          const message = item.message;
+          return (
           <div
             key={message.id}
             className={`flex ${
@@ -168,9 +641,21 @@ export const ChatWindow = ({
                 max-w-xs sm:max-w-md md:max-w-lg
               `}
             >
-              <p className="whitespace-pre-wrap break-words text-sm sm:text-base">{message.content}</p>
-              <p className="text-[11px] sm:text-xs mt-1 opacity-60 text-right">
+              <MessageAttachments message={message} />
+              {message.content && (
+                <p className="whitespace-pre-wrap break-words text-sm sm:text-base">{message.content}</p>
+              )}
+              <p className="text-[11px] sm:text-xs mt-1 opacity-60 flex items-center justify-end gap-1">
                 {timeago.format(message.created_at)}
+                {message.sender_id === currentUserId && (
+                  message.id.startsWith("temp-") ? (
+                    <Clock size={12} aria-label="Sending" />
+                  ) : message.is_read ? (
+                    <CheckCheck size={14} aria-label="Read" />
+                  ) : (
+                    <Check size={14} aria-label="Delivered" />
+                  )
+                )}
               </p>
               {editMode && message.sender_id === currentUserId && (
                 <button
@@ -186,7 +671,8 @@ export const ChatWindow = ({
               )}
             </div>
           </div>
-        ))}
+          );
+        })}
         <div ref={messagesEndRef} />
       </div>
 
@@ -202,24 +688,130 @@ export const ChatWindow = ({
 
       {/* Message Input */}
       <div className="p-2 sm:p-4 border-t bg-white sticky bottom-0 z-20">
+        {showOfferInput && (
+          <div className="flex gap-2 mb-2">
+            <div className="relative flex-1">
+              <DollarSign size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={offerAmount}
+                onChange={(e) => setOfferAmount(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleMakeOffer()}
+                placeholder="Your offer"
+                className="w-full pl-8 pr-3 py-2 border rounded-lg focus:outline-none focus:border-[#bf5700] text-sm sm:text-base"
+                autoFocus
+              />
+            </div>
+            <button
+              onClick={handleMakeOffer}
+              disabled={!(Number(offerAmount) > 0)}
+              className="px-3 sm:px-4 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              Send offer
+            </button>
+            <button
+              onClick={() => setShowOfferInput(false)}
+              className="px-2 text-gray-500 hover:text-gray-700"
+              title="Cancel"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        )}
+        {pendingFiles.length > 0 && (
+          <div className="flex gap-2 mb-2 overflow-x-auto">
+            {pendingFiles.map((pending, index) => (
+              <div key={pending.previewUrl} className="relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden border">
+                <Image
+                  src={pending.previewUrl}
+                  alt={pending.file.name}
+                  width={64}
+                  height={64}
+                  unoptimized
+                  className="w-full h-full object-cover"
+                />
+                <button
+                  onClick={() => removePendingFile(index)}
+                  className="absolute top-0.5 right-0.5 bg-black/60 text-white rounded-full p-0.5 hover:bg-black/80"
+                  title="Remove photo"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
         <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={handleFilesSelected}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={inputDisabled || pendingFiles.length >= MAX_MESSAGE_ATTACHMENTS}
+            className="px-3 py-2 border rounded-lg text-gray-500 hover:text-[#bf5700] hover:border-[#bf5700] transition disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Attach photos"
+          >
+            <ImagePlus size={20} />
+          </button>
+          {canMakeOffer && !isBlocked && (
+            <button
+              onClick={() => setShowOfferInput((prev) => !prev)}
+              className={`px-3 py-2 border rounded-lg transition ${
+                showOfferInput ? "border-[#bf5700] text-[#bf5700] bg-orange-50" : "text-gray-500 hover:text-[#bf5700] hover:border-[#bf5700]"
+              }`}
+              title="Make an offer"
+            >
+              <DollarSign size={20} />
+            </button>
+          )}
           <input
             type="text"
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => {
+              setNewMessage(e.target.value);
+              if (e.target.value) notifyTyping();
+              else stopTyping();
+            }}
             onKeyPress={(e) => e.key === "Enter" && !e.shiftKey && handleSendMessage()}
-            placeholder="Type a message..."
-            className="flex-1 px-3 py-2 sm:px-4 border rounded-lg focus:outline-none focus:border-[#bf5700] text-sm sm:text-base"
+            placeholder={
+              isBlocked
+                ? "Messaging is unavailable"
+                : keyChanged
+                  ? "Verify the new safety number to keep messaging"
+                  : "Type a message..."
+            }
+            disabled={inputDisabled}
+            className="flex-1 px-3 py-2 sm:px-4 border rounded-lg focus:outline-none focus:border-[#bf5700] text-sm sm:text-base disabled:bg-gray-50"
           />
           <button
             onClick={handleSendMessage}
-            disabled={!newMessage.trim()}
+            disabled={!canSend}
             className="px-3 sm:px-4 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send size={20} />
           </button>
         </div>
       </div>
+      {keyVerification && (
+        <SafetyNumberModal
+          isOpen={showSafetyNumber}
+          onClose={() => setShowSafetyNumber(false)}
+          partnerName={conversationName}
+          safetyNumber={keyVerification.safetyNumber}
+          status={keyVerification.status}
+          saving={savingVerification}
+          onMarkVerified={handleMarkVerified}
+          onClearVerified={handleClearVerified}
+        />
+      )}
+      <ToastContainer position="bottom-right" />
     </div>
   );
 }; 
\ No newline at end of file
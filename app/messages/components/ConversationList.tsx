@@ -1,8 +1,10 @@
 "use client";
+import { useState } from "react";
 import { motion } from "framer-motion";
-import { Search, MessageCircle, Users } from "lucide-react";
+import { Search, MessageCircle, Users, ArchiveRestore } from "lucide-react";
 import * as timeago from "timeago.js";
 import { Conversation } from "../../props/listing";
+import { DELETED_CONVERSATION_RETENTION_DAYS } from "../../lib/database/MessageService";
 import Link from "next/link";
 import Image from "next/image";
 import {
@@ -13,11 +15,27 @@ import {
   loadingVariants
 } from "../../props/animations";
 
+type ConversationView = "inbox" | "archived" | "deleted";
+
+const VIEW_LABELS: Record<ConversationView, string> = {
+  inbox: "Inbox",
+  archived: "Archived",
+  deleted: "Deleted",
+};
+
+const isInView = (conversation: Conversation, view: ConversationView) => {
+  if (view === "deleted") return !!conversation.deleted;
+  if (conversation.deleted) return false;
+  return view === "archived" ? !!conversation.archived : !conversation.archived;
+};
+
 interface ConversationListProps {
   conversations: Conversation[];
   selectedConversation: string | null;
   onSelectConversation: (key: string) => void;
   loading: boolean;
+  onlineUserIds: Set<string>;
+  onRestoreConversation: (conversation: Conversation) => Promise<void>;
   collapsed: boolean;
   onToggleCollapse: () => void;
 }
@@ -27,9 +45,14 @@ export const ConversationList = ({
   selectedConversation,
   onSelectConversation,
   loading,
+  onlineUserIds,
+  onRestoreConversation,
   collapsed,
   onToggleCollapse
 }: ConversationListProps) => {
+  const [view, setView] = useState<ConversationView>("inbox");
+  const visibleConversations = conversations.filter((conversation) => isInView(conversation, view));
+
   return (
     <motion.div 
       className={`border-r border-gray-200 bg-white/80 backdrop-blur-sm overflow-hidden flex flex-col min-h-0 shadow-lg transition-all duration-300 ${
@@ -52,7 +75,7 @@ export const ConversationList = ({
               </div>
               <div>
                 <h1 className="text-xl font-bold text-gray-900">Messages</h1>
-                <p className="text-gray-600 text-sm">{conversations.length} conversations</p>
+                <p className="text-gray-600 text-sm">{visibleConversations.length} conversations</p>
               </div>
             </div>
             <div className="relative">
@@ -63,6 +86,19 @@ export const ConversationList = ({
               />
               <Search className="absolute left-3 top-3.5 text-gray-400" size={20} />
             </div>
+            <div className="flex gap-1 mt-4 p-1 bg-gray-100 rounded-lg">
+              {(Object.keys(VIEW_LABELS) as ConversationView[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`flex-1 px-2 py-1.5 text-sm font-medium rounded-md transition ${
+                    view === option ? "bg-white text-[#bf5700] shadow-sm" : "text-gray-600 hover:text-gray-900"
+                  }`}
+                >
+                  {VIEW_LABELS[option]}
+                </button>
+              ))}
+            </div>
           </>
         )}
         
@@ -97,7 +133,15 @@ export const ConversationList = ({
               <p className="text-gray-500 text-sm">Loading conversations...</p>
             </div>
           </motion.div>
-        ) : conversations.length === 0 ? (
+        ) : view !== "inbox" && visibleConversations.length === 0 ? (
+          !collapsed && (
+            <p className="text-gray-500 text-center text-sm py-12 px-6">
+              {view === "archived"
+                ? "Archived conversations return to your inbox when a new message arrives."
+                : `Deleted conversations can be restored until both of you delete them, or for ${DELETED_CONVERSATION_RETENTION_DAYS} days.`}
+            </p>
+          )
+        ) : visibleConversations.length === 0 ? (
           <motion.div 
             className="flex flex-col items-center justify-center py-12 px-6"
             variants={emptyStateVariants}
@@ -125,11 +169,13 @@ export const ConversationList = ({
             className="p-2"
             variants={containerVariants}
           >
-            {conversations.map((conversation, index) => (
+            {visibleConversations.map((conversation, index) => (
               <motion.div
                 key={conversation.user_id + ":" + conversation.listing_id}
-                onClick={() => onSelectConversation(conversation.user_id + ":" + conversation.listing_id)}
-                className={`p-4 rounded-xl cursor-pointer transition-all duration-200 mb-2 ${
+                onClick={() => !conversation.deleted && onSelectConversation(conversation.user_id + ":" + conversation.listing_id)}
+                className={`p-4 rounded-xl transition-all duration-200 mb-2 ${
+                  conversation.deleted ? "" : "cursor-pointer"
+                } ${
                   selectedConversation === conversation.user_id + ":" + conversation.listing_id
                     ? "bg-gradient-to-r from-[#bf5700] to-orange-500 text-white shadow-lg transform scale-[1.02]"
                     : "bg-white hover:bg-gray-50 hover:shadow-md"
@@ -141,21 +187,29 @@ export const ConversationList = ({
                 }}
               >
                 <div className="flex items-center gap-3">
-                  <div className={`w-12 h-12 rounded-full flex items-center justify-center text-lg font-semibold overflow-hidden shadow-md ${
-                    selectedConversation === conversation.user_id + ":" + conversation.listing_id
-                      ? "bg-white/20 text-white"
-                      : "bg-gradient-to-br from-[#bf5700] to-orange-500 text-white"
-                  }`}>
-                    {conversation.user_image ? (
-                      <Image
-                        src={conversation.user_image}
-                        alt={conversation.user_name}
-                        width={48}
-                        height={48}
-                        className="w-full h-full object-cover"
+                  <div className="relative flex-shrink-0">
+                    <div className={`w-12 h-12 rounded-full flex items-center justify-center text-lg font-semibold overflow-hidden shadow-md ${
+                      selectedConversation === conversation.user_id + ":" + conversation.listing_id
+                        ? "bg-white/20 text-white"
+                        : "bg-gradient-to-br from-[#bf5700] to-orange-500 text-white"
+                    }`}>
+                      {conversation.user_image ? (
+                        <Image
+                          src={conversation.user_image}
+                          alt={conversation.user_name}
+                          width={48}
+                          height={48}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        conversation.user_name[0]?.toUpperCase()
+                      )}
+                    </div>
+                    {onlineUserIds.has(conversation.user_id) && (
+                      <span
+                        className="absolute bottom-0 right-0 w-3.5 h-3.5 rounded-full bg-green-500 border-2 border-white"
+                        title="Online now"
                       />
-                    ) : (
-                      conversation.user_name[0]?.toUpperCase()
                     )}
                   </div>
                   {!collapsed && (
@@ -190,7 +244,19 @@ export const ConversationList = ({
                         }`}>
                           {conversation.listing_title || "General Chat"}
                         </p>
-                        {conversation.unread_count > 0 && (
+                        {conversation.deleted ? (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onRestoreConversation(conversation);
+                            }}
+                            className="flex items-center gap-1 text-xs px-2 py-1 rounded-full flex-shrink-0 font-medium bg-orange-100 text-[#bf5700] hover:bg-orange-200"
+                            title="Restore conversation"
+                          >
+                            <ArchiveRestore size={12} />
+                            Restore
+                          </button>
+                        ) : conversation.unread_count > 0 && (
                           <span className={`text-xs px-2 py-1 rounded-full flex-shrink-0 font-medium ${
                             selectedConversation === conversation.user_id + ":" + conversation.listing_id
                               ? "bg-white/20 text-white"
@@ -0,0 +1,136 @@
+"use client";
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { ImageOff, Lock, X } from "lucide-react";
+import { Message, MessageAttachment } from "../../props/listing";
+import { MessageService } from "../../lib/database/MessageService";
+import { useCrypto } from "../../context/CryptoContext";
+import { fitWithin } from "../../lib/utils/imageUtils";
+
+const THUMBNAIL_DISPLAY_SIZE = 200;
+
+interface AttachmentThumbnailProps {
+  message: Message;
+  attachment: MessageAttachment;
+  privateKey: string | null;
+  onOpen: (attachment: MessageAttachment) => void;
+}
+
+const AttachmentThumbnail = ({ message, attachment, privateKey, onOpen }: AttachmentThumbnailProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { width, height } = fitWithin(attachment.width || THUMBNAIL_DISPLAY_SIZE, attachment.height || THUMBNAIL_DISPLAY_SIZE, THUMBNAIL_DISPLAY_SIZE);
+
+  useEffect(() => {
+    setUrl(null);
+    setFailed(false);
+    if (!privateKey) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    MessageService.loadAttachment(message, attachment, privateKey, "thumbnail").then((loaded) => {
+      if (cancelled) {
+        if (loaded) URL.revokeObjectURL(loaded);
+        return;
+      }
+      objectUrl = loaded;
+      setUrl(loaded);
+      setFailed(!loaded);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [message, attachment, privateKey]);
+
+  return (
+    <button
+      type="button"
+      onClick={() => url && onOpen(attachment)}
+      disabled={!url}
+      className="rounded-lg overflow-hidden bg-black/10 flex items-center justify-center"
+      style={{ width, height }}
+      title={url ? "View photo" : undefined}
+    >
+      {url ? (
+        <Image src={url} alt="Photo attachment" width={width} height={height} unoptimized className="object-cover w-full h-full" />
+      ) : !privateKey ? (
+        <Lock size={20} className="opacity-60" />
+      ) : failed ? (
+        <ImageOff size={20} className="opacity-60" />
+      ) : (
+        <div className="w-full h-full animate-pulse bg-black/10" />
+      )}
+    </button>
+  );
+};
+
+interface MessageAttachmentsProps {
+  message: Message;
+}
+
+/**
+ * Inline photo thumbnails for a message, decrypted in the browser
+ * Clicking a thumbnail downloads and decrypts the full image
+ */
+export const MessageAttachments = ({ message }: MessageAttachmentsProps) => {
+  const { privateKey } = useCrypto();
+  const [fullImage, setFullImage] = useState<{ url: string; attachment: MessageAttachment } | null>(null);
+  const [loadingFull, setLoadingFull] = useState(false);
+
+  const closeFullImage = () => {
+    if (fullImage) URL.revokeObjectURL(fullImage.url);
+    setFullImage(null);
+  };
+
+  const openFullImage = async (attachment: MessageAttachment) => {
+    if (!privateKey || loadingFull) return;
+    setLoadingFull(true);
+    const url = await MessageService.loadAttachment(message, attachment, privateKey, "full");
+    setLoadingFull(false);
+    if (url) setFullImage({ url, attachment });
+  };
+
+  if (!message.attachments?.length) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2 mb-1">
+        {message.attachments.map((attachment) => (
+          <AttachmentThumbnail
+            key={attachment.path}
+            message={message}
+            attachment={attachment}
+            privateKey={privateKey}
+            onOpen={openFullImage}
+          />
+        ))}
+      </div>
+
+      {fullImage && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4"
+          onClick={closeFullImage}
+        >
+          <button
+            onClick={closeFullImage}
+            className="absolute top-4 right-4 text-white/80 hover:text-white"
+            title="Close"
+          >
+            <X size={28} />
+          </button>
+          <Image
+            src={fullImage.url}
+            alt="Photo attachment"
+            width={fullImage.attachment.width || 1200}
+            height={fullImage.attachment.height || 1200}
+            unoptimized
+            className="max-w-full max-h-full w-auto h-auto object-contain rounded-lg"
+            onClick={(e) => e.stopPropagation()}
+          />
+        </div>
+      )}
+    </>
+  );
+};
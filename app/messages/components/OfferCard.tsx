@@ -0,0 +1,149 @@
+"use client";
+import { useState } from "react";
+import { Check, DollarSign, RefreshCw, Undo2, X } from "lucide-react";
+import * as timeago from "timeago.js";
+import { Offer, OfferService } from "../../lib/database/OfferService";
+
+interface OfferCardProps {
+  offer: Offer;
+  currentUserId: string;
+  onAccept: (offer: Offer) => Promise<void>;
+  onDecline: (offer: Offer) => Promise<void>;
+  onCounter: (offer: Offer, amount: number) => Promise<void>;
+  onWithdraw: (offer: Offer) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-yellow-100 text-yellow-800" },
+  accepted: { label: "Accepted", className: "bg-green-100 text-green-800" },
+  declined: { label: "Declined", className: "bg-red-100 text-red-800" },
+  countered: { label: "Countered", className: "bg-blue-100 text-blue-800" },
+  withdrawn: { label: "Withdrawn", className: "bg-gray-100 text-gray-600" },
+  expired: { label: "Expired", className: "bg-gray-100 text-gray-600" },
+};
+
+export const OfferCard = ({
+  offer,
+  currentUserId,
+  onAccept,
+  onDecline,
+  onCounter,
+  onWithdraw,
+}: OfferCardProps) => {
+  const [showCounter, setShowCounter] = useState(false);
+  const [counterAmount, setCounterAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const isMine = offer.proposer_id === currentUserId;
+  const expired = OfferService.isExpired(offer);
+  const status = STATUS_STYLES[expired ? "expired" : offer.status];
+  const canRespond = !isMine && offer.status === "pending" && !expired;
+  const canWithdraw = isMine && offer.status === "pending" && !expired;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    await action();
+    setBusy(false);
+  };
+
+  const handleCounter = () => {
+    const amount = Number(counterAmount);
+    if (!amount || amount <= 0) return;
+    run(async () => {
+      await onCounter(offer, amount);
+      setShowCounter(false);
+      setCounterAmount("");
+    });
+  };
+
+  return (
+    <div className={`flex ${isMine ? "justify-end" : "justify-start"} px-1 sm:px-0`}>
+      <div className="w-64 sm:w-72 rounded-2xl border-2 border-[#bf5700]/30 bg-white shadow-sm p-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="inline-flex items-center gap-1 text-xs font-semibold text-[#bf5700] uppercase tracking-wide">
+            <DollarSign size={14} />
+            {offer.parent_offer_id ? "Counter-offer" : "Offer"}
+          </span>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>
+            {status.label}
+          </span>
+        </div>
+        <p className="text-2xl font-bold text-gray-900">${Number(offer.amount).toFixed(2)}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          {isMine ? "You offered" : "Offered to you"} {timeago.format(offer.created_at)}
+          {offer.status === "pending" && !expired && ` · expires ${timeago.format(offer.expires_at)}`}
+        </p>
+        {offer.status === "accepted" && (
+          <p className="text-xs text-green-700 mt-2">The listing is reserved for the buyer.</p>
+        )}
+
+        {canRespond && !showCounter && (
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => run(() => onAccept(offer))}
+              disabled={busy}
+              className="flex-1 inline-flex items-center justify-center gap-1 px-2 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50"
+            >
+              <Check size={14} /> Accept
+            </button>
+            <button
+              onClick={() => setShowCounter(true)}
+              disabled={busy}
+              className="flex-1 inline-flex items-center justify-center gap-1 px-2 py-1.5 text-sm rounded-lg border border-[#bf5700] text-[#bf5700] hover:bg-orange-50 transition disabled:opacity-50"
+            >
+              <RefreshCw size={14} /> Counter
+            </button>
+            <button
+              onClick={() => run(() => onDecline(offer))}
+              disabled={busy}
+              className="inline-flex items-center justify-center px-2 py-1.5 text-sm rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 transition disabled:opacity-50"
+              title="Decline"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {canRespond && showCounter && (
+          <div className="flex gap-2 mt-3">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={counterAmount}
+              onChange={(e) => setCounterAmount(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCounter()}
+              placeholder="Amount"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border rounded-lg focus:outline-none focus:border-[#bf5700]"
+              autoFocus
+            />
+            <button
+              onClick={handleCounter}
+              disabled={busy || !(Number(counterAmount) > 0)}
+              className="px-3 py-1.5 text-sm rounded-lg bg-[#bf5700] text-white hover:bg-[#a54700] transition disabled:opacity-50"
+            >
+              Send
+            </button>
+            <button
+              onClick={() => setShowCounter(false)}
+              className="px-2 py-1.5 text-sm rounded-lg text-gray-500 hover:bg-gray-100 transition"
+              title="Cancel"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {canWithdraw && (
+          <button
+            onClick={() => run(() => onWithdraw(offer))}
+            disabled={busy}
+            className="mt-3 inline-flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 transition disabled:opacity-50"
+          >
+            <Undo2 size={12} /> Withdraw offer
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+"use client";
+import { ShieldAlert, ShieldCheck, Shield, X } from "lucide-react";
+import { ContactKeyStatus } from "../../lib/database/KeyService";
+
+interface SafetyNumberModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  partnerName: string;
+  safetyNumber: string;
+  status: ContactKeyStatus;
+  saving: boolean;
+  onMarkVerified: () => void;
+  onClearVerified: () => void;
+}
+
+export const SafetyNumberModal = ({
+  isOpen,
+  onClose,
+  partnerName,
+  safetyNumber,
+  status,
+  saving,
+  onMarkVerified,
+  onClearVerified,
+}: SafetyNumberModalProps) => {
+  if (!isOpen) return null;
+
+  const groups = safetyNumber.split(" ");
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-2">
+            {status === "verified" ? (
+              <ShieldCheck size={20} className="text-green-600" />
+            ) : status === "changed" ? (
+              <ShieldAlert size={20} className="text-red-600" />
+            ) : (
+              <Shield size={20} className="text-gray-500" />
+            )}
+            <h2 className="text-lg font-bold text-gray-900">Verify Safety Number</h2>
+          </div>
+          <button onClick={onClose} disabled={saving} className="text-gray-400 hover:text-gray-600 disabled:opacity-50">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {status === "changed" && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {partnerName}&apos;s encryption key has changed. This is expected if they reset their password or
+              created new keys, but it could also mean someone is intercepting your messages. Compare the new number
+              before you keep chatting.
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Compare these numbers with {partnerName} in person or over a call. If they match on both devices,
+            your messages are encrypted end-to-end with the right key.
+          </p>
+
+          <div className="grid grid-cols-4 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-base text-gray-900 text-center">
+            {groups.map((group, index) => (
+              <span key={index}>{group}</span>
+            ))}
+          </div>
+
+          {status === "verified" ? (
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-1 text-sm text-green-700">
+                <ShieldCheck size={16} />
+                Verified
+              </span>
+              <button
+                onClick={onClearVerified}
+                disabled={saving}
+                className="text-sm text-gray-500 hover:text-gray-700 hover:underline disabled:opacity-50"
+              >
+                Clear verification
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={onMarkVerified}
+              disabled={saving}
+              className="w-full px-4 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Mark as Verified"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,9 +2,12 @@
 import { useEffect, useState, useCallback, Suspense } from "react";
 import { motion } from "framer-motion";
 import { useAuth } from "../context/AuthContext";
+import { useCrypto } from "../context/CryptoContext";
 import { useRouter, useSearchParams } from "next/navigation";
 import { ConversationList } from "./components/ConversationList";
 import { ChatWindow } from "./components/ChatWindow";
+import UnlockMessagesModal from "../../components/modals/UnlockMessagesModal";
+import { Lock } from "lucide-react";
 import { Message, Conversation } from "../props/listing";
 import { MessageService } from "../lib/database/MessageService";
 import { dbLogger } from "../lib/database/utils";
@@ -19,21 +22,31 @@ import {
 
 const MessagesPage = () => {
   const { user, loading: authLoading } = useAuth();
+  const { privateKey, hasKeys } = useCrypto();
   const router = useRouter();
   const searchParams = useSearchParams();
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
   const [loading, setLoading] = useState(true);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [tempConversation, setTempConversation] = useState<Conversation | null>(null);
+  const [showUnlockModal, setShowUnlockModal] = useState(false);
+  const [unlockPromptShown, setUnlockPromptShown] = useState(false);
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+
+  // Keys live in memory only, so a session restored after a reload arrives locked.
+  // Accounts without a password (Google sign-in) have nothing to unlock with.
+  const messagesLocked = !!user && user.app_metadata?.provider === 'email' && !hasKeys();
 
   const updateConversations = useCallback(async () => {
     if (!user?.id) return;
     
     try {
       setLoading(true);
-      const conversations = await MessageService.getConversations(user.id);
+      const conversations = await MessageService.getConversations(user.id, privateKey || undefined);
       setConversations(conversations);
       // Only clear temporary conversation if the selected conversation is now in the list
       if (selectedConversation) {
@@ -50,30 +63,30 @@ const MessagesPage = () => {
     } finally {
       setLoading(false);
     }
-  }, [user, selectedConversation]);
+  }, [user, selectedConversation, privateKey]);
 
   const fetchMessages = useCallback(async (conversationKey: string) => {
     if (!user?.id) return;
     const [partnerId, listingId] = conversationKey.split(":");
     
     try {
-      const messages = await MessageService.getMessages({
+      const page = await MessageService.getMessages({
         userId: user.id,
         otherUserId: partnerId,
-        listingId: listingId === "general" ? null : listingId
+        listingId: listingId === "general" ? null : listingId,
+        privateKey: privateKey || undefined
       });
       
-      setMessages(messages);
+      setMessages(page.messages);
+      setHasMoreMessages(page.hasMore);
       
-      // Mark messages as read
-      const unreadMessages = messages.filter(
+      // Mark the whole conversation as read, including pages not loaded yet
+      const hasUnread = page.messages.some(
         (msg) => msg.receiver_id === user.id && !msg.is_read
       );
       
-      if (unreadMessages.length > 0) {
-        const success = await MessageService.markMessagesAsRead(
-          unreadMessages.map((msg) => msg.id)
-        );
+      if (hasUnread && page.conversationId) {
+        const success = await MessageService.markConversationAsRead(page.conversationId, user.id);
         if (success) {
           updateConversations();
         }
@@ -81,9 +94,37 @@ const MessagesPage = () => {
     } catch (error) {
       dbLogger.error('Error fetching messages', error);
     }
-  }, [user, updateConversations]);
+  }, [user, updateConversations, privateKey]);
+
+  const loadOlderMessages = async () => {
+    if (!selectedConversation || !user?.id || !hasMoreMessages || loadingOlderMessages) return;
+    const [partnerId, listingId] = selectedConversation.split(":");
+    const oldest = messages[0];
+    if (!oldest) return;
+
+    setLoadingOlderMessages(true);
+    try {
+      const page = await MessageService.getMessages({
+        userId: user.id,
+        otherUserId: partnerId,
+        listingId: listingId === "general" ? null : listingId,
+        privateKey: privateKey || undefined,
+        before: oldest
+      });
+
+      setMessages((prev) => {
+        const loadedIds = new Set(prev.map((msg) => msg.id));
+        return [...page.messages.filter((msg) => !loadedIds.has(msg.id)), ...prev];
+      });
+      setHasMoreMessages(page.hasMore);
+    } catch (error) {
+      dbLogger.error('Error loading older messages', error);
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
 
-  const sendMessage = async (content: string) => {
+  const sendMessage = async (content: string, attachments?: File[]) => {
     if (!selectedConversation || !user?.id) return;
     const [partnerId, listingId] = selectedConversation.split(":");
     const tempId = `temp-${Date.now()}`;
@@ -106,6 +147,7 @@ const MessagesPage = () => {
         receiverId: partnerId,
         content: content,
         listingId: listingId === "general" ? null : listingId,
+        attachments,
       });
       
       if (sentMessage) {
@@ -130,32 +172,69 @@ const MessagesPage = () => {
     }
   };
 
+  const selectedConversationData = tempConversation || conversations.find(
+    (c) => c.user_id + ":" + c.listing_id === selectedConversation
+  );
+
+  const closeConversation = () => {
+    setMessages([]);
+    setHasMoreMessages(false);
+    setSelectedConversation(null);
+    updateConversations();
+  };
+
+  const handleToggleArchive = async () => {
+    if (!selectedConversationData?.id || !user?.id) return;
+
+    const success = selectedConversationData.archived
+      ? await MessageService.unarchiveConversation(selectedConversationData.id, user.id)
+      : await MessageService.archiveConversation(selectedConversationData.id, user.id);
+
+    if (!success) {
+      alert("Failed to update conversation");
+      return;
+    }
+    if (selectedConversationData.archived) {
+      updateConversations();
+    } else {
+      closeConversation();
+    }
+  };
+
   const handleDeleteConversation = async () => {
-    if (!selectedConversation || !user?.id) return;
+    if (!user?.id) return;
+    if (!selectedConversationData?.id) {
+      // Nothing has been sent yet, so there is nothing to delete
+      setSelectedConversation(null);
+      return;
+    }
     if (
       !window.confirm(
-        "Are you sure you want to delete all messages in this conversation? This cannot be undone."
+        `Delete this conversation? It will be removed from your messages, but ${selectedConversationData.user_name || "the other person"} keeps their copy. You can restore it from Deleted.`
       )
     ) {
       return;
     }
-    
-    const [partnerId, listingId] = selectedConversation.split(":");
-    const success = await MessageService.deleteConversation({
-      userId: user.id,
-      otherUserId: partnerId,
-      listingId: listingId === "general" ? null : listingId
-    });
-    
+
+    const success = await MessageService.deleteConversation(selectedConversationData.id, user.id);
     if (success) {
-      setMessages([]);
-      setSelectedConversation(null);
-      updateConversations();
+      closeConversation();
     } else {
       alert("Failed to delete conversation");
     }
   };
 
+  const handleRestoreConversation = async (conversation: Conversation) => {
+    if (!conversation.id || !user?.id) return;
+
+    const success = await MessageService.restoreConversation(conversation.id, user.id);
+    if (success) {
+      updateConversations();
+    } else {
+      alert("Failed to restore conversation");
+    }
+  };
+
   useEffect(() => {
     if (!authLoading && !user?.id) {
       router.push("/auth/signin");
@@ -166,7 +245,7 @@ const MessagesPage = () => {
 
     const messagesSubscription = MessageService.subscribeToMessages(
       user.id,
-      (message: Message) => {
+      (message: Message, event) => {
         // Only update messages if this is the current conversation
         if (selectedConversation) {
           const [partnerId, listingId] = selectedConversation.split(":");
@@ -180,11 +259,20 @@ const MessagesPage = () => {
               (listingId === "general" && messageListingId === "general") ||
               (listingId !== "general" && messageListingId === listingId)
             ) {
-              setMessages((prev) => {
-                // Don't add duplicates
-                const exists = prev.find(msg => msg.id === message.id);
-                return exists ? prev : [...prev, message];
-              });
+              if (event === 'UPDATE') {
+                // Read receipts and other edits replace the loaded copy
+                setMessages((prev) => prev.map((msg) => (msg.id === message.id ? message : msg)));
+              } else {
+                setMessages((prev) => {
+                  // Don't add duplicates
+                  const exists = prev.find(msg => msg.id === message.id);
+                  return exists ? prev : [...prev, message];
+                });
+                // The conversation is open, so the message has been seen
+                if (message.receiver_id === user.id && !message.is_read) {
+                  MessageService.markMessagesAsRead([message.id]);
+                }
+              }
             }
           }
         }
@@ -192,19 +280,37 @@ const MessagesPage = () => {
       },
       (error) => {
         dbLogger.error('Message subscription error', error);
-      }
+      },
+      privateKey || undefined
     );
 
     return () => {
       messagesSubscription.unsubscribe();
     };
-  }, [user, router, authLoading, updateConversations, selectedConversation]);
+  }, [user, router, authLoading, updateConversations, selectedConversation, privateKey]);
 
   useEffect(() => {
     if (!user?.id) return;
     updateConversations();
   }, [user, authLoading, updateConversations]);
 
+  // "Online now" covers anyone with the messages page open
+  useEffect(() => {
+    if (!user?.id) return;
+    const presence = MessageService.subscribeToPresence(user.id, setOnlineUserIds);
+    return () => {
+      presence.unsubscribe();
+    };
+  }, [user?.id]);
+
+  // Ask to unlock once per visit; the banner stays available after dismissing
+  useEffect(() => {
+    if (messagesLocked && !unlockPromptShown) {
+      setShowUnlockModal(true);
+      setUnlockPromptShown(true);
+    }
+  }, [messagesLocked, unlockPromptShown]);
+
   useEffect(() => {
     if (!selectedConversation || !user?.id) return;
     fetchMessages(selectedConversation);
@@ -236,10 +342,12 @@ const MessagesPage = () => {
           }
           
           // Check if a conversation already exists (general chat)
-          const existingMessages = await MessageService.getMessages({
+          const { messages: existingMessages } = await MessageService.getMessages({
             userId: user.id,
             otherUserId: targetUserId,
-            listingId: null
+            listingId: null,
+            privateKey: privateKey || undefined,
+            limit: 1
           });
           
           // Create a temporary conversation object for the chat window
@@ -261,7 +369,7 @@ const MessagesPage = () => {
         }
       })();
     }
-  }, [user, searchParams]);
+  }, [user, searchParams, privateKey]);
 
   // Handle ?listing= param for direct listing chat
   useEffect(() => {
@@ -300,10 +408,12 @@ const MessagesPage = () => {
           }
           
           // Check if a conversation already exists for this listing
-          const existingMessages = await MessageService.getMessages({
+          const { messages: existingMessages } = await MessageService.getMessages({
             userId: user.id,
             otherUserId: listing.user_id,
-            listingId: listingId
+            listingId: listingId,
+            privateKey: privateKey || undefined,
+            limit: 1
           });
           
           // Create a temporary conversation object with user data for the chat window
@@ -325,7 +435,7 @@ const MessagesPage = () => {
         }
       })();
     }
-  }, [user, searchParams]);
+  }, [user, searchParams, privateKey]);
 
   if (authLoading) {
     return (
@@ -344,13 +454,9 @@ const MessagesPage = () => {
     );
   }
 
-  const selectedConversationData = tempConversation || conversations.find(
-    (c) => c.user_id + ":" + c.listing_id === selectedConversation
-  );
-
   return (
     <motion.div 
-      className="flex h-[calc(100vh-64px)] bg-gradient-to-br from-orange-50 via-white to-orange-50 overflow-hidden"
+      className="relative flex h-[calc(100vh-64px)] bg-gradient-to-br from-orange-50 via-white to-orange-50 overflow-hidden"
       variants={containerVariants}
       initial="hidden"
       animate="visible"
@@ -363,9 +469,28 @@ const MessagesPage = () => {
           setTempConversation(null); // Clear temp conversation when selecting from list
         }}
         loading={loading}
+        onlineUserIds={onlineUserIds}
+        onRestoreConversation={handleRestoreConversation}
         collapsed={sidebarCollapsed}
         onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
       />
+      {messagesLocked && (
+        <button
+          onClick={() => setShowUnlockModal(true)}
+          className="absolute top-3 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 bg-white border border-orange-200 text-[#bf5700] text-sm font-medium rounded-full shadow-md hover:bg-orange-50 transition-colors"
+        >
+          <Lock size={14} />
+          Messages are locked. Unlock to read them
+        </button>
+      )}
+      {user && (
+        <UnlockMessagesModal
+          isOpen={showUnlockModal}
+          onClose={() => setShowUnlockModal(false)}
+          userId={user.id}
+          email={user.email || ""}
+        />
+      )}
       <ChatWindow
         selectedConversation={selectedConversation}
         messages={messages}
@@ -373,8 +498,14 @@ const MessagesPage = () => {
         conversationName={selectedConversationData?.user_name || ""}
         conversationImage={selectedConversationData?.user_image || ""}
         listingTitle={selectedConversationData?.listing_title || ""}
+        partnerOnline={!!selectedConversation && onlineUserIds.has(selectedConversation.split(":")[0])}
+        hasMoreMessages={hasMoreMessages}
+        loadingOlderMessages={loadingOlderMessages}
+        onLoadOlderMessages={loadOlderMessages}
         onSendMessage={sendMessage}
         onDeleteMessage={handleDeleteMessage}
+        conversationArchived={!!selectedConversationData?.archived}
+        onToggleArchive={handleToggleArchive}
         onDeleteConversation={handleDeleteConversation}
         sidebarCollapsed={sidebarCollapsed}
         onToggleSidebar={() => setSidebarCollapsed(!sidebarCollapsed)}
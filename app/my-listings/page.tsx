@@ -3,11 +3,13 @@ import React, { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import { supabase } from "../lib/supabaseClient";
 import { useAuth } from "../context/AuthContext";
+import { ListingService } from "../lib/database/ListingService";
 import { useRouter } from "next/navigation";
-import { Edit, Trash2, Eye, Send, Clock, CheckCircle, XCircle, RefreshCw } from "lucide-react";
+import { Edit, Trash2, Eye, Send, Clock, CheckCircle, XCircle, RefreshCw, Archive, Hourglass } from "lucide-react";
 import { toast, ToastContainer } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import EditForm from "../listing/components/EditForm";
+import { ListingFormData } from "../props/listing";
 import Image from "next/image";
 import {
   containerVariants,
@@ -20,9 +22,15 @@ import {
 import BrowseLoader from "../browse/components/BrowseLoader";
 import * as timeago from "timeago.js";
 import { processListingsWithStatus } from "../lib/utils/statusUtils";
+import { getDaysUntilExpiry, isListingExpiringSoon } from "../lib/utils/expiryUtils";
+import { getSubleaseDetails, LEASE_DURATION_OPTIONS, SubleaseFields } from "../lib/utils/subleaseUtils";
+import { ListingAttributes } from "../lib/utils/attributeUtils";
+import { getTextbookDetails, TextbookFields } from "../lib/utils/textbookUtils";
+import { ListingExpiryService } from "../lib/database/ListingExpiryService";
+import { DEFAULT_PLATFORM_SETTINGS, PlatformSettings, SettingsService } from "../lib/database/SettingsService";
 import NotLoggedIn from "../../components/globals/NotLoggedIn";
 
-interface Listing {
+interface Listing extends SubleaseFields, TextbookFields {
   id: string;
   title: string;
   price: number;
@@ -36,6 +44,10 @@ interface Listing {
   description: string;
   status: 'pending' | 'approved' | 'denied';
   denial_reason?: string;
+  renewed_at?: string | null;
+  archived_at?: string | null;
+  archive_reason?: 'expired' | 'denied' | null;
+  attributes?: ListingAttributes;
 }
 
 const categoryOptions = [
@@ -50,7 +62,6 @@ const categoryOptions = [
 ];
 
 const conditionOptions = ["New", "Like New", "Good", "Fair", "Poor"];
-const leaseOptions = ["6 months", "12 months", "Summer", "Flexible"];
 
 const MyListings = () => {
   const [listings, setListings] = useState<Listing[]>([]);
@@ -60,6 +71,11 @@ const MyListings = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState<any | null>(null);
   const [editId, setEditId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<PlatformSettings>(DEFAULT_PLATFORM_SETTINGS);
+
+  useEffect(() => {
+    SettingsService.getSettings().then(setSettings);
+  }, []);
 
   useEffect(() => {
     if (!authLoading && user) {
@@ -94,8 +110,8 @@ const MyListings = () => {
     if (!confirm("Are you sure you want to delete this listing?")) return;
 
     try {
-      const { error } = await supabase.from("listings").delete().eq("id", id);
-      if (error) throw error;
+      const success = await ListingService.deleteListing(id, user!.id);
+      if (!success) throw new Error("Failed to delete listing");
       setListings(listings.filter((listing) => listing.id !== id));
       toast.success("Listing deleted successfully");
     } catch (error) {
@@ -129,14 +145,16 @@ const MyListings = () => {
         .from("listings")
         .update({ 
           status: 'pending',
-          denial_reason: null
+          denial_reason: null,
+          archived_at: null,
+          archive_reason: null
         })
         .eq("id", listing.id);
 
       if (error) throw error;
       
       setListings(listings.map(l => 
-        l.id === listing.id ? { ...l, status: 'pending', denial_reason: null } : l
+        l.id === listing.id ? { ...l, status: 'pending', denial_reason: null, archived_at: null, archive_reason: null } : l
       ));
       toast.success("Listing resubmitted for approval!");
     } catch (error) {
@@ -145,6 +163,20 @@ const MyListings = () => {
     }
   };
 
+  const handleRenew = async (listing: Listing) => {
+    const result = await ListingExpiryService.renewListing(listing.id, user!.id);
+    if (!result.success) {
+      toast.error(result.error || "Failed to renew listing");
+      return;
+    }
+
+    const renewedAt = new Date().toISOString();
+    setListings(listings.map(l =>
+      l.id === listing.id ? { ...l, renewed_at: renewedAt, archived_at: null, archive_reason: null } : l
+    ));
+    toast.success("Listing renewed!");
+  };
+
   const handlePublishDraft = async (listing: Listing) => {
     if (!validateListing(listing)) {
       toast.error("Please complete all required fields before publishing");
@@ -183,13 +215,16 @@ const MyListings = () => {
       description: listing.description,
       images: listing.images || [],
       is_draft: listing.is_draft,
+      sublease: getSubleaseDetails(listing),
+      attributes: listing.attributes || {},
+      textbook: getTextbookDetails(listing),
     });
     setEditId(listing.id);
     setIsEditing(true);
   };
 
-  const handleEditSubmit = async (formData: any) => {
-    if (!editId) return toast.error("Listing ID not found.");
+  const handleEditSubmit = async (formData: ListingFormData) => {
+    if (!editId || !user) return toast.error("Listing ID not found.");
     
     // Find the current listing to get its draft status
     const currentListing = listings.find(listing => listing.id === editId);
@@ -200,12 +235,29 @@ const MyListings = () => {
       is_draft: formData.is_draft !== undefined ? formData.is_draft : (currentListing?.is_draft || false)
     };
     
-    const { error } = await supabase
-      .from("listings")
-      .update(updatedData)
-      .eq("id", editId);
+    // Photos added while editing are still Files; upload them in place so the order is kept
+    const uploaded = await ListingService.uploadImages(updatedData.images || [], user.id);
+
+    // Goes through ListingService so price history and watcher alerts are recorded
+    const updated = await ListingService.updateListing({
+      id: editId,
+      title: updatedData.title,
+      price: Number(updatedData.price),
+      location: updatedData.location,
+      category: updatedData.category,
+      condition: updatedData.condition,
+      description: updatedData.description,
+      images: uploaded.images,
+      imageVariants: uploaded.imageVariants,
+      is_draft: updatedData.is_draft,
+      locationLat: updatedData.location_lat,
+      locationLng: updatedData.location_lng,
+      sublease: updatedData.sublease,
+      attributes: updatedData.attributes,
+      textbook: updatedData.textbook,
+    });
       
-    if (error) {
+    if (!updated) {
       toast.error("Error updating listing.");
     } else {
       toast.success("Listing updated!");
@@ -275,7 +327,11 @@ const MyListings = () => {
             className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
             variants={containerVariants}
           >
-            {listings.map((listing, index) => (
+            {listings.map((listing, index) => {
+              const isLive = !listing.is_draft && !listing.is_sold && listing.status === 'approved';
+              const expiringSoon = isLive && !listing.archived_at && isListingExpiringSoon(listing, settings);
+              const canRenew = isLive && (listing.archive_reason === 'expired' || expiringSoon);
+              return (
               <motion.div
                 key={listing.id}
                 className="bg-white rounded-lg shadow-sm overflow-hidden group cursor-pointer"
@@ -315,7 +371,13 @@ const MyListings = () => {
                       Pending Approval
                     </div>
                   )}
-                  {!listing.is_draft && !listing.is_sold && listing.status === 'approved' && (
+                  {listing.archived_at && (
+                    <div className="absolute top-2 right-2 bg-gray-700 text-white px-2 py-1 rounded text-sm flex items-center gap-1">
+                      <Archive size={12} />
+                      Archived
+                    </div>
+                  )}
+                  {isLive && !listing.archived_at && (
                     <div className="absolute top-2 left-2 bg-green-500 text-white px-2 py-1 rounded text-sm flex items-center gap-1">
                       <CheckCircle size={12} />
                       Approved
@@ -352,6 +414,19 @@ const MyListings = () => {
                       <p className="text-orange-800 text-xs">Pending admin approval</p>
                     </div>
                   )}
+                  {listing.archive_reason === 'expired' && (
+                    <div className="bg-gray-50 border border-gray-200 rounded-md p-2 mb-3">
+                      <p className="text-gray-700 text-xs">This listing expired and is hidden from browse. Renew it to put it back up.</p>
+                    </div>
+                  )}
+                  {expiringSoon && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-2 mb-3 flex items-center gap-1">
+                      <Hourglass size={12} className="text-yellow-700" />
+                      <p className="text-yellow-800 text-xs">
+                        Expires in {getDaysUntilExpiry(listing, settings)} {getDaysUntilExpiry(listing, settings) === 1 ? 'day' : 'days'}
+                      </p>
+                    </div>
+                  )}
                   <div className="flex justify-between items-center">
                     <div className="flex gap-2">
                       <button
@@ -411,10 +486,23 @@ const MyListings = () => {
                         Resubmit
                       </button>
                     )}
+                    {canRenew && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRenew(listing);
+                        }}
+                        className="flex items-center gap-1 px-3 py-1 bg-[#bf5700] text-white rounded hover:bg-[#a54700] transition text-sm"
+                      >
+                        <RefreshCw size={14} />
+                        Renew
+                      </button>
+                    )}
                   </div>
                 </div>
               </motion.div>
-            ))}
+              );
+            })}
           </motion.div>
         )}
       </div>
@@ -442,7 +530,7 @@ const MyListings = () => {
               initialFormState={editForm}
               categoryOptions={categoryOptions}
               conditionOptions={conditionOptions}
-              leaseOptions={leaseOptions}
+              leaseOptions={LEASE_DURATION_OPTIONS}
             />
           </motion.div>
         </motion.div>
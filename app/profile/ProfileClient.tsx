@@ -4,7 +4,7 @@ import { supabase } from "../lib/supabaseClient";
 import ListingCard from "../browse/components/ListingCard";
 import SoldListingCard from "../browse/components/SoldListingCard";
 import * as timeago from "timeago.js";
-import { Mail, Star, CheckCircle2 } from "lucide-react";
+import { Mail, Star, CheckCircle2, Handshake } from "lucide-react";
 import { Listing } from "../props/listing";
 import { Rating } from "../props/rating";
 import { useAuth } from '../context/AuthContext';
@@ -13,6 +13,7 @@ import UserRatingDisplay from "../../components/user/UserRatingDisplay";
 import Image from 'next/image';
 import { ListingService } from "../lib/database/ListingService";
 import { UserService } from "../lib/database/UserService";
+import { TransactionService } from "../lib/database/TransactionService";
 
 export default function ProfileClient() {
   const { user } = useAuth();
@@ -23,6 +24,7 @@ export default function ProfileClient() {
   const [displayName, setDisplayName] = useState<string | null>(null);
   const [profileImage, setProfileImage] = useState<string | null>(null);
   const [bio, setBio] = useState<string | null>(null);
+  const [completedTrades, setCompletedTrades] = useState(0);
 
   useEffect(() => {
     const fetchUserData = async () => {
@@ -57,6 +59,8 @@ export default function ProfileClient() {
         // Fetch user's actual ratings from the reviews table
         const userRatings = await UserService.getUserRatings(user.id);
         setRatings(userRatings || []);
+
+        setCompletedTrades(await TransactionService.getCompletedTransactionCount(user.id));
       } catch (err) {
         console.error("Error fetching profile data:", err);
       } finally {
@@ -137,7 +141,7 @@ export default function ProfileClient() {
             </div>
             <div className="mt-4 flex items-center gap-4 justify-center md:justify-start">
               <div className="flex items-center gap-2">
-                <UserRatingDisplay userId={user.id} rating={averageRating !== 'N/A' ? parseFloat(averageRating) : null} />
+                <UserRatingDisplay userId={user.id} rating={averageRating !== 'N/A' ? parseFloat(averageRating) : null} completedTrades={completedTrades} />
                 <span className="text-sm font-medium text-gray-700">
                   ({ratings.length} ratings)
                 </span>
@@ -153,6 +157,12 @@ export default function ProfileClient() {
                   {soldListings.length} Sold
                 </span>
               </div>
+              <div className="flex items-center gap-2">
+                <Handshake size={16} className="text-[#bf5700]" />
+                <span className="text-sm text-gray-500">
+                  {completedTrades} Completed Trades
+                </span>
+              </div>
             </div>
             <button
               onClick={() => {
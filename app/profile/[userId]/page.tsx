@@ -4,10 +4,13 @@ import { useParams, useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
 import ListingCard from "../../browse/components/ListingCard";
 import * as timeago from "timeago.js";
-import { Mail, Star, CheckCircle2, MessageCircle } from "lucide-react";
+import { Mail, Star, CheckCircle2, MessageCircle, Handshake, Ban } from "lucide-react";
 import { useAuth } from '../../context/AuthContext';
 import { Listing } from "../../props/listing";
 import { Rating } from "../../props/rating";
+import { Transaction, TransactionService } from "../../lib/database/TransactionService";
+import { UserService } from "../../lib/database/UserService";
+import { BlockService, BlockStatus } from "../../lib/database/BlockService";
 
 const PublicProfile = () => {
   const params = useParams();
@@ -27,6 +30,13 @@ const PublicProfile = () => {
   const [displayName, setDisplayName] = useState<string | null>(null);
   const [profileImage, setProfileImage] = useState<string | null>(null);
   const [bio, setBio] = useState<string | null>(null);
+  const [completedTrades, setCompletedTrades] = useState(0);
+  // Completed trades with this user that the current user can rate them for
+  const [ratableTransactions, setRatableTransactions] = useState<Transaction[]>([]);
+  const [selectedTransactionId, setSelectedTransactionId] = useState<string>("");
+  const [ratingError, setRatingError] = useState<string | null>(null);
+  const [blockStatus, setBlockStatus] = useState<BlockStatus>({ blockedByMe: false, blockedMe: false });
+  const [updatingBlock, setUpdatingBlock] = useState(false);
 
   useEffect(() => {
     const userId = Array.isArray(params.userId) ? params.userId[0] : params.userId;
@@ -101,10 +111,21 @@ const PublicProfile = () => {
       }
 
       setRatings(formattedRatings);
-      
-      // Check if current user has rated
+      setCompletedTrades(await TransactionService.getCompletedTransactionCount(userId));
+
+      // Only counterparties of a completed trade can rate this user
+      let transactions: Transaction[] = [];
+      if (user?.id && user.id !== userId) {
+        transactions = await TransactionService.getCompletedTransactionsBetween(user.id, userId);
+      }
+      setRatableTransactions(transactions);
+      setSelectedTransactionId(transactions[0]?.id || "");
+
+      // Check if current user has rated the most recent trade
       if (user?.id) {
-        const foundUserRating = formattedRatings.find(r => r.reviewer_id === user.id) || null;
+        const foundUserRating = formattedRatings.find(r =>
+          r.reviewer_id === user.id && r.transaction_id === transactions[0]?.id
+        ) || null;
         if (foundUserRating) {
           setUserHasRated(true);
           setUserRating(foundUserRating.rating);
@@ -122,39 +143,57 @@ const PublicProfile = () => {
     }
   }, [params.userId, user]);
 
+  useEffect(() => {
+    setBlockStatus({ blockedByMe: false, blockedMe: false });
+    if (!user?.id || !profileUserId || user.id === profileUserId) return;
+    BlockService.getBlockStatus(user.id, profileUserId).then(setBlockStatus);
+  }, [user?.id, profileUserId]);
+
+  const handleToggleBlock = async () => {
+    if (!user?.id || !profileUserId) return;
+
+    if (blockStatus.blockedByMe) {
+      setUpdatingBlock(true);
+      const success = await BlockService.unblockUser(user.id, profileUserId);
+      setUpdatingBlock(false);
+      if (success) setBlockStatus({ ...blockStatus, blockedByMe: false });
+      else alert("Failed to unblock user. Please try again.");
+      return;
+    }
+
+    if (!confirm(`Block ${displayName || "this user"}? Neither of you will be able to message the other, and you won't see each other's listings.`)) {
+      return;
+    }
+    setUpdatingBlock(true);
+    const success = await BlockService.blockUser(user.id, profileUserId);
+    setUpdatingBlock(false);
+    if (success) setBlockStatus({ ...blockStatus, blockedByMe: true });
+    else alert("Failed to block user. Please try again.");
+  };
+
+  const handleSelectTransaction = (transactionId: string) => {
+    setSelectedTransactionId(transactionId);
+    const existing = ratings.find(r => r.rater_id === user?.id && r.transaction_id === transactionId);
+    setUserHasRated(!!existing);
+    setUserRating(existing?.rating || 0);
+    setRatingComment(existing?.comment || "");
+  };
+
   const handleSubmitRating = async () => {
     const userId = Array.isArray(params.userId) ? params.userId[0] : params.userId;
-    if (!user?.id || !userId) return;
+    if (!user?.id || !userId || !selectedTransactionId) return;
+    setRatingError(null);
     try {
-      // Check if a review exists
-      const { data: existing, error: fetchError } = await supabase
-        .from("reviews")
-        .select("*")
-        .eq("reviewer_id", user.id)
-        .eq("reviewed_id", userId)
-        .single();
-
-      if (existing) {
-        // Update the existing review
-        await supabase
-          .from("reviews")
-          .update({
-            rating: userRating,
-            comment: ratingComment,
-            created_at: new Date().toISOString(),
-          })
-          .eq("id", existing.id);
-      } else {
-        // Insert a new review
-        await supabase
-          .from("reviews")
-          .insert({
-            reviewer_id: user.id,
-            reviewed_id: userId,
-            rating: userRating,
-            comment: ratingComment,
-            created_at: new Date().toISOString(),
-          });
+      const saved = await UserService.upsertUserRating({
+        raterId: user.id,
+        ratedId: userId,
+        transactionId: selectedTransactionId,
+        rating: userRating,
+        comment: ratingComment,
+      });
+      if (!saved) {
+        setRatingError("Failed to save your rating. Please try again.");
+        return;
       }
       // Refresh ratings
       const { data: ratingsData } = await supabase
@@ -181,6 +220,7 @@ const PublicProfile = () => {
         }
       }
       setRatings(formattedRatings);
+      setUserHasRated(true);
       setShowRatingForm(false);
     } catch (err) {
       console.error("Error submitting rating:", err);
@@ -254,18 +294,28 @@ const PublicProfile = () => {
                 <CheckCircle2 size={16} className="text-green-500" />
                 <span className="text-sm text-gray-500">{soldListings.length} Sold</span>
               </div>
+              <div className="flex items-center gap-2">
+                <Handshake size={16} className="text-[#bf5700]" />
+                <span className="text-sm text-gray-500">{completedTrades} Completed Trades</span>
+              </div>
             </div>
             {/* Action Buttons */}
             {user?.id && user.id !== profileUserId && (
-              <div className="mt-6 flex gap-3">
-                <button
-                  onClick={() => router.push(`/messages?user=${profileUserId}`)}
-                  className="flex items-center gap-2 px-4 py-2 rounded-lg border border-[#bf5700] text-[#bf5700] text-sm hover:bg-[#bf5700] hover:text-white transition"
-                >
-                  <MessageCircle size={16} />
-                  Message
-                </button>
-                {userHasRated ? (
+              <div className="mt-6 flex flex-wrap gap-3">
+                {!blockStatus.blockedByMe && !blockStatus.blockedMe && (
+                  <button
+                    onClick={() => router.push(`/messages?user=${profileUserId}`)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border border-[#bf5700] text-[#bf5700] text-sm hover:bg-[#bf5700] hover:text-white transition"
+                  >
+                    <MessageCircle size={16} />
+                    Message
+                  </button>
+                )}
+                {ratableTransactions.length === 0 ? (
+                  <span className="self-center text-xs text-gray-500">
+                    Complete a trade with this user to leave a rating
+                  </span>
+                ) : userHasRated ? (
                   <button
                     onClick={() => setShowRatingForm(true)}
                     className="px-4 py-2 rounded-lg bg-[#bf5700] text-white text-sm hover:bg-[#a54700] transition"
@@ -280,6 +330,18 @@ const PublicProfile = () => {
                     Rate this User
                   </button>
                 )}
+                <button
+                  onClick={handleToggleBlock}
+                  disabled={updatingBlock}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg border text-sm transition disabled:opacity-50 ${
+                    blockStatus.blockedByMe
+                      ? "border-gray-300 text-gray-700 hover:bg-gray-50"
+                      : "border-red-200 text-red-600 hover:bg-red-50"
+                  }`}
+                >
+                  <Ban size={16} />
+                  {blockStatus.blockedByMe ? "Unblock" : "Block"}
+                </button>
               </div>
             )}
             {/* Recent Ratings */}
@@ -395,6 +457,19 @@ const PublicProfile = () => {
             </div>
 
             <div className="space-y-4">
+              {ratableTransactions.length > 1 && (
+                <select
+                  value={selectedTransactionId}
+                  onChange={(e) => handleSelectTransaction(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+                >
+                  {ratableTransactions.map((transaction) => (
+                    <option key={transaction.id} value={transaction.id}>
+                      {transaction.listing_title} · ${transaction.amount}
+                    </option>
+                  ))}
+                </select>
+              )}
               <div 
                 className="flex justify-center gap-1"
                 onMouseLeave={() => setHoveredRating(0)}
@@ -429,6 +504,10 @@ const PublicProfile = () => {
                 rows={4}
               />
               
+              {ratingError && (
+                <p className="text-sm text-red-600">{ratingError}</p>
+              )}
+
               <div className="flex gap-3 pt-2">
                 <button
                   onClick={handleSubmitRating}
@@ -1,8 +1,9 @@
 export interface ImageUploadProps {
-  images: File[];
-  setImages: React.Dispatch<React.SetStateAction<File[]>>;
+  images: (File | string)[]; // New files, or URLs already on the listing when editing
   fileInputRef: React.RefObject<HTMLInputElement>;
   handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handleAddPhotoClick: () => void;
   handleRemoveImage: (index: number) => void;
-} 
\ No newline at end of file
+  handleMoveImage: (from: number, to: number) => void;
+  maxImages: number; // From platform settings
+}
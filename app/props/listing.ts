@@ -1,3 +1,9 @@
+import type { SearchMatch } from '../lib/search/searchEngine';
+import type { ListingAvailability } from '../lib/utils/statusUtils';
+import type { RentPeriod, SubleaseDetails, SubleaseFields } from '../lib/utils/subleaseUtils';
+import type { ListingAttributes } from '../lib/utils/attributeUtils';
+import type { TextbookDetails, TextbookFields } from '../lib/utils/textbookUtils';
+
 export interface ListingCardProps {
   title: string;
   price: number;
@@ -12,10 +18,16 @@ export interface ListingCardProps {
   };
   condition: string;
   searchTerm?: string;
+  matches?: SearchMatch[]; // Offsets from the search engine; computed from searchTerm when omitted
   userRating?: number;
+  availability?: ListingAvailability;
+  rentPeriod?: RentPeriod | null; // Subleases only
+  leaseStartDate?: string | null;
+  leaseEndDate?: string | null;
+  imageVariant?: ListingImageVariant | null; // Sizes of the cover photo, when it was processed on upload
 }
 
-export interface ListingPageProps {
+export interface ListingPageProps extends SubleaseFields, TextbookFields {
   id: string;
   title: string;
   price: number;
@@ -37,9 +49,13 @@ export interface ListingPageProps {
   location_lng?: number;
   status?: 'pending' | 'approved' | 'denied';
   denial_reason?: string;
+  availability?: ListingAvailability;
+  reserved_until?: string | null;
+  attributes?: ListingAttributes;
+  image_variants?: ListingImageVariants | null;
 }
 
-export interface OwnerPageProps {
+export interface OwnerPageProps extends SubleaseFields, TextbookFields {
   title: string;
   price: number;
   location: string;
@@ -53,9 +69,27 @@ export interface OwnerPageProps {
   is_draft?: boolean;
   status?: 'pending' | 'approved' | 'denied';
   denial_reason?: string;
+  attributes?: ListingAttributes;
 }
 
-export interface Listing {
+// What the listing edit form (app/listing/components/EditForm) submits
+export interface ListingFormData {
+  title: string;
+  price: number | string; // Straight from the input, so it may still be a string
+  location: string;
+  category: string;
+  condition: string;
+  description: string;
+  images: (File | string)[]; // Stored URLs plus newly picked photos, in display order
+  is_draft?: boolean;
+  location_lat?: number;
+  location_lng?: number;
+  sublease?: SubleaseDetails; // Only for Subleases
+  attributes?: ListingAttributes;
+  textbook?: TextbookDetails; // Only for Textbooks
+}
+
+export interface Listing extends SubleaseFields, TextbookFields {
   id: string;
   title: string;
   price: number;
@@ -69,8 +103,35 @@ export interface Listing {
   user_name: string;
   user_image?: string;
   is_sold: boolean;
+  status?: 'pending' | 'approved' | 'denied';
+  reserved_for?: string | null;
+  reserved_until?: string | null;
+  attributes?: ListingAttributes;
+  image_variants?: ListingImageVariants | null;
+  search_score?: number;
+  search_matches?: SearchMatch[];
 } 
 
+export interface ListingImageVariant {
+  medium: string; // Cards and previews
+  thumbnail: string; // Photo strips
+  placeholder: string; // Tiny JPEG data URL shown blurred while the photo loads
+  width: number; // Of the full-size copy in images
+  height: number;
+}
+
+// Keyed by the full-size URL in images, so reordering or removing photos keeps them matched up
+export type ListingImageVariants = Record<string, ListingImageVariant>;
+
+export interface MessageAttachment {
+  path: string; // Encrypted image in the message-attachments bucket
+  thumbnail_path: string; // Encrypted thumbnail, shown inline
+  mime_type: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
 export interface Message {
   id: string;
   sender_id: string;
@@ -79,9 +140,13 @@ export interface Message {
   created_at: string;
   is_read: boolean;
   listing_id?: string;
+  conversation_id?: string;
+  attachments?: MessageAttachment[] | null;
+  encrypted_content?: string; // Stored envelope, kept after decryption so attachments can be opened
 }
 
 export interface Conversation {
+  id?: string; // Missing for a chat that hasn't had its first message yet
   user_id: string;
   user_name: string;
   user_image?: string;
@@ -90,6 +155,8 @@ export interface Conversation {
   last_message?: string;
   last_message_time?: string;
   unread_count: number;
+  archived?: boolean; // Archived by the current user
+  deleted?: boolean; // Deleted by the current user and not yet purged
 }
 
 export interface Notification {
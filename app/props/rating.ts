@@ -6,4 +6,5 @@ export interface Rating {
   comment?: string;
   created_at: string;
   rater_name?: string;
+  transaction_id?: string | null;
 } 
\ No newline at end of file
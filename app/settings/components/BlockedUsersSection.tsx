@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import * as timeago from 'timeago.js';
+import { BlockedUser, BlockService } from '../../lib/database/BlockService';
+
+interface BlockedUsersSectionProps {
+  userId: string;
+}
+
+const BlockedUsersSection: React.FC<BlockedUsersSectionProps> = ({ userId }) => {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBlockedUsers = async () => {
+      setLoading(true);
+      const data = await BlockService.getBlockedUsers(userId);
+      setBlockedUsers(data);
+      setLoading(false);
+    };
+
+    fetchBlockedUsers();
+  }, [userId]);
+
+  const handleUnblock = async (blockedUser: BlockedUser) => {
+    const success = await BlockService.unblockUser(userId, blockedUser.id);
+    if (success) {
+      setBlockedUsers(prev => prev.filter(u => u.id !== blockedUser.id));
+    } else {
+      alert('Failed to unblock user. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Blocked Users</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Blocked users can&apos;t message you, and you won&apos;t see each other&apos;s listings.
+      </p>
+
+      {loading ? (
+        <div className="h-16 bg-gray-100 rounded animate-pulse" />
+      ) : blockedUsers.length === 0 ? (
+        <p className="text-gray-500 text-sm">You haven&apos;t blocked anyone.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {blockedUsers.map(blockedUser => (
+            <li key={blockedUser.id} className="flex items-center justify-between py-3 gap-4">
+              <Link href={`/profile/${blockedUser.id}`} className="flex items-center gap-3 min-w-0 group">
+                <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-sm font-semibold text-gray-600 overflow-hidden flex-shrink-0">
+                  {blockedUser.profile_image_url ? (
+                    <Image
+                      src={blockedUser.profile_image_url}
+                      alt={blockedUser.display_name || 'User'}
+                      width={32}
+                      height={32}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    blockedUser.display_name?.[0]?.toUpperCase() || '?'
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate group-hover:text-[#bf5700]">
+                    {blockedUser.display_name || 'Unknown User'}
+                  </p>
+                  <p className="text-xs text-gray-400">Blocked {timeago.format(blockedUser.blocked_at)}</p>
+                </div>
+              </Link>
+              <button
+                onClick={() => handleUnblock(blockedUser)}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 transition flex-shrink-0"
+              >
+                Unblock
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BlockedUsersSection;
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, BellOff, Search, Trash2 } from 'lucide-react';
+import * as timeago from 'timeago.js';
+import { SavedSearch, SavedSearchService } from '../../lib/database/SavedSearchService';
+
+interface SavedSearchesSectionProps {
+  userId: string;
+}
+
+const SavedSearchesSection: React.FC<SavedSearchesSectionProps> = ({ userId }) => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSavedSearches = async () => {
+      setLoading(true);
+      const data = await SavedSearchService.getSavedSearches(userId);
+      setSavedSearches(data);
+      setLoading(false);
+    };
+
+    fetchSavedSearches();
+  }, [userId]);
+
+  const handleToggleAlerts = async (savedSearch: SavedSearch) => {
+    const enabled = !savedSearch.alerts_enabled;
+    const success = await SavedSearchService.setAlertsEnabled(savedSearch.id, userId, enabled);
+    if (success) {
+      setSavedSearches(prev => prev.map(s => s.id === savedSearch.id ? { ...s, alerts_enabled: enabled } : s));
+    } else {
+      alert('Failed to update alerts. Please try again.');
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    if (!confirm(`Delete saved search "${savedSearch.name}"?`)) return;
+
+    const success = await SavedSearchService.deleteSavedSearch(savedSearch.id, userId);
+    if (success) {
+      setSavedSearches(prev => prev.filter(s => s.id !== savedSearch.id));
+    } else {
+      alert('Failed to delete saved search. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Saved Searches</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        We&apos;ll notify you when a newly approved listing matches a saved search with alerts on.
+      </p>
+
+      {loading ? (
+        <div className="h-16 bg-gray-100 rounded animate-pulse" />
+      ) : savedSearches.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          No saved searches yet. Use &quot;Save search&quot; on the <Link href="/browse" className="text-[#bf5700] hover:underline">browse page</Link>.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {savedSearches.map(savedSearch => (
+            <li key={savedSearch.id} className="flex items-center justify-between py-3 gap-4">
+              <Link
+                href={SavedSearchService.toBrowseUrl(savedSearch.filters || {})}
+                className="flex items-center gap-3 min-w-0 group"
+              >
+                <Search size={16} className="text-[#bf5700] flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate group-hover:text-[#bf5700]">{savedSearch.name}</p>
+                  <p className="text-xs text-gray-400">
+                    Saved {timeago.format(savedSearch.created_at)}
+                    {savedSearch.last_matched_at && ` · last match ${timeago.format(savedSearch.last_matched_at)}`}
+                  </p>
+                </div>
+              </Link>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleToggleAlerts(savedSearch)}
+                  className={`p-2 rounded-lg transition ${savedSearch.alerts_enabled ? 'text-[#bf5700] hover:bg-orange-50' : 'text-gray-400 hover:bg-gray-100'}`}
+                  title={savedSearch.alerts_enabled ? 'Turn off alerts' : 'Turn on alerts'}
+                >
+                  {savedSearch.alerts_enabled ? <Bell size={18} /> : <BellOff size={18} />}
+                </button>
+                <button
+                  onClick={() => handleDelete(savedSearch)}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition"
+                  title="Delete saved search"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchesSection;
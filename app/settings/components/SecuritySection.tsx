@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Download, KeyRound, Loader2, Lock } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useCrypto } from '../../context/CryptoContext';
+import { generateRecoveryCodes, getRemainingRecoveryCodeCount } from '../../lib/database/KeyService';
+import UnlockMessagesModal from '../../../components/modals/UnlockMessagesModal';
+
+interface SecuritySectionProps {
+  userId: string;
+  email: string;
+}
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const SecuritySection: React.FC<SecuritySectionProps> = ({ userId, email }) => {
+  const { changePassword } = useAuth();
+  const { privateKey } = useCrypto();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordChanged, setPasswordChanged] = useState(false);
+
+  const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [generatingCodes, setGeneratingCodes] = useState(false);
+  const [showUnlockModal, setShowUnlockModal] = useState(false);
+
+  useEffect(() => {
+    getRemainingRecoveryCodeCount(userId).then(setRemainingCodes);
+  }, [userId]);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError(null);
+    setPasswordChanged(false);
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`New password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+
+    setChangingPassword(true);
+    const { error } = await changePassword(currentPassword, newPassword);
+    setChangingPassword(false);
+
+    if (error) {
+      setPasswordError(error);
+      return;
+    }
+
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setPasswordChanged(true);
+  };
+
+  const handleGenerateCodes = async () => {
+    if (!privateKey) {
+      setShowUnlockModal(true);
+      return;
+    }
+    if (remainingCodes && !confirm('Generating new recovery codes will invalidate your existing ones. Continue?')) {
+      return;
+    }
+
+    setGeneratingCodes(true);
+    const codes = await generateRecoveryCodes(userId, privateKey);
+    setGeneratingCodes(false);
+
+    if (!codes) {
+      alert('Failed to generate recovery codes. Please try again.');
+      return;
+    }
+
+    setNewCodes(codes);
+    setRemainingCodes(codes.length);
+  };
+
+  const handleDownloadCodes = () => {
+    if (!newCodes) return;
+
+    const text = [
+      'UT Marketplace message recovery codes',
+      `Account: ${email}`,
+      `Generated: ${new Date().toLocaleString()}`,
+      '',
+      'Each code can be used once to restore your message history after a password reset.',
+      '',
+      ...newCodes,
+      '',
+    ].join('\n');
+
+    const blob = new Blob([text], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ut-marketplace-recovery-codes.txt';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-6">Security</h2>
+
+      {/* Change Password */}
+      <form onSubmit={handleChangePassword} className="mb-8">
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Change Password</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Your message history stays readable after changing your password here.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-[#bf5700]"
+          />
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="New password"
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-[#bf5700]"
+          />
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            placeholder="Confirm new password"
+            className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-[#bf5700]"
+          />
+        </div>
+        {passwordError && <p className="mt-2 text-sm text-red-600">{passwordError}</p>}
+        {passwordChanged && <p className="mt-2 text-sm text-green-600">Password changed successfully.</p>}
+        <div className="flex justify-end mt-4">
+          <button
+            type="submit"
+            disabled={changingPassword || !currentPassword || !newPassword}
+            className="px-6 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition
+              disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {changingPassword && <Loader2 className="w-4 h-4 animate-spin" />}
+            {changingPassword ? 'Changing...' : 'Change Password'}
+          </button>
+        </div>
+      </form>
+
+      {/* Recovery Codes */}
+      <div className="border-t pt-6">
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Message Recovery Codes</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          If you forget your password and reset it, a recovery code is the only way to read your past messages.
+          {remainingCodes !== null && (
+            <span className="block mt-1">
+              {remainingCodes > 0
+                ? `You have ${remainingCodes} unused recovery ${remainingCodes === 1 ? 'code' : 'codes'}.`
+                : 'You have no recovery codes yet.'}
+            </span>
+          )}
+        </p>
+
+        {newCodes && (
+          <div className="mb-4 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+            <p className="text-sm text-orange-800 mb-3">
+              Save these codes somewhere safe. They won&apos;t be shown again, and each one works once.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 font-mono text-sm text-gray-900 mb-3">
+              {newCodes.map(code => (
+                <span key={code} className="px-3 py-1 bg-white border border-orange-100 rounded">{code}</span>
+              ))}
+            </div>
+            <button
+              onClick={handleDownloadCodes}
+              className="flex items-center gap-2 text-sm text-[#bf5700] hover:underline"
+            >
+              <Download size={16} />
+              Download codes
+            </button>
+          </div>
+        )}
+
+        <button
+          onClick={handleGenerateCodes}
+          disabled={generatingCodes}
+          className="px-4 py-2 border border-[#bf5700] text-[#bf5700] rounded-lg hover:bg-orange-50 transition
+            disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {generatingCodes ? <Loader2 className="w-4 h-4 animate-spin" /> : privateKey ? <KeyRound size={16} /> : <Lock size={16} />}
+          {!privateKey
+            ? 'Unlock Messages to Manage Codes'
+            : remainingCodes
+              ? 'Generate New Codes'
+              : 'Generate Recovery Codes'}
+        </button>
+      </div>
+
+      <UnlockMessagesModal
+        isOpen={showUnlockModal}
+        onClose={() => setShowUnlockModal(false)}
+        userId={userId}
+        email={email}
+      />
+    </div>
+  );
+};
+
+export default SecuritySection;
@@ -8,6 +8,9 @@ import Image from 'next/image';
 import { useAuth } from '../context/AuthContext';
 import BrowseLoader from "../browse/components/BrowseLoader";
 import { UserService } from '../lib/database/UserService';
+import SavedSearchesSection from './components/SavedSearchesSection';
+import SecuritySection from './components/SecuritySection';
+import BlockedUsersSection from './components/BlockedUsersSection';
 
 interface UserSettings {
   display_name: string;
@@ -315,6 +318,20 @@ export default function SettingsPage() {
           {saving ? 'Saving...' : 'Save Changes'}
         </button>
       </div>
+
+      {/* Saved Searches (managed independently of the form above) */}
+      {user?.id && (
+        <div className="mt-8">
+          <SavedSearchesSection userId={user.id} />
+        </div>
+      )}
+
+      {user?.id && <BlockedUsersSection userId={user.id} />}
+
+      {/* Password and message recovery (password accounts only) */}
+      {user?.id && user.app_metadata?.provider === 'email' && (
+        <SecuritySection userId={user.id} email={user.email || ''} />
+      )}
     </div>
   );
 } 
\ No newline at end of file
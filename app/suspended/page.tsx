@@ -0,0 +1,73 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Ban, LogOut } from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import { DEFAULT_PLATFORM_SETTINGS, PlatformSettings, SettingsService } from "../lib/database/SettingsService";
+import { SuspensionService } from "../lib/database/SuspensionService";
+import { describeSuspension, SuspensionFields } from "../lib/utils/suspensionUtils";
+
+const SuspendedPage = () => {
+  const { user, signOut } = useAuth();
+  const router = useRouter();
+  const [settings, setSettings] = useState<PlatformSettings>(DEFAULT_PLATFORM_SETTINGS);
+  const [suspension, setSuspension] = useState<SuspensionFields | null>(null);
+
+  useEffect(() => {
+    SettingsService.getSettings().then(setSettings);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    SuspensionService.getSuspension(user.id).then(setSuspension);
+  }, [user?.id]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/");
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] px-4 text-center">
+      <div className="w-16 h-16 rounded-full bg-red-100 flex items-center justify-center mb-6">
+        <Ban className="w-8 h-8 text-red-600" />
+      </div>
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Your account is suspended</h1>
+      <p className="text-gray-600 max-w-md">
+        {suspension?.banned_until
+          ? `${describeSuspension(suspension)}. You can keep browsing once it ends.`
+          : "You can't buy, sell, message or report on UT Marketplace while your account is suspended."}
+      </p>
+      {suspension?.ban_reason && (
+        <p className="mt-4 text-sm text-gray-700 bg-red-50 border border-red-200 rounded-lg px-4 py-3 max-w-md">
+          <span className="font-medium">Reason:</span> {suspension.ban_reason}
+        </p>
+      )}
+      <p className="mt-4 text-sm text-gray-500">
+        Please review our{" "}
+        <a href="/terms" className="text-[#bf5700] hover:underline">Terms of Service</a>
+        {settings.contact_email && (
+          <>
+            {" "}or contact{" "}
+            <a href={`mailto:${settings.contact_email}`} className="text-[#bf5700] hover:underline">
+              {settings.contact_email}
+            </a>{" "}
+            to appeal
+          </>
+        )}
+        .
+      </p>
+      {user && (
+        <button
+          onClick={handleSignOut}
+          className="mt-6 flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          <LogOut size={16} />
+          Sign out
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SuspendedPage;
@@ -0,0 +1,223 @@
+"use client";
+import React, { Suspense, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { BookOpen, GraduationCap, Loader2, Search } from "lucide-react";
+import * as timeago from "timeago.js";
+import ListingCard from "../browse/components/ListingCard";
+import NotLoggedIn from "../../components/globals/NotLoggedIn";
+import { useAuth } from "../context/AuthContext";
+import { ListingService } from "../lib/database/ListingService";
+import { determineListingAvailability } from "../lib/utils/statusUtils";
+import { parseCourseCodes } from "../lib/utils/textbookUtils";
+import { Listing } from "../props/listing";
+
+// Remember the student's course list between visits
+const COURSE_LIST_STORAGE_KEY = "ut-marketplace:course-list";
+
+const TextbooksForCourses = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+
+  const [courseText, setCourseText] = useState("");
+  const [courseCodes, setCourseCodes] = useState<string[]>([]);
+  const [invalidEntries, setInvalidEntries] = useState<string[]>([]);
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Courses from the URL (shared links, course chips on listings) win over the saved list
+  useEffect(() => {
+    const fromUrl = searchParams.get("courses");
+    const initialText = fromUrl ?? localStorage.getItem(COURSE_LIST_STORAGE_KEY) ?? "";
+    const { codes, invalid } = parseCourseCodes(initialText);
+
+    setCourseText(initialText);
+    setCourseCodes(codes);
+    setInvalidEntries(invalid);
+  }, [searchParams]);
+
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId || courseCodes.length === 0) {
+      setListings([]);
+      setNextCursor(null);
+      return;
+    }
+
+    const fetchTextbooks = async () => {
+      setLoading(true);
+      try {
+        const page = await ListingService.getTextbooksForCourses(courseCodes, userId);
+        setListings(page.listings);
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error("Error fetching textbooks for courses:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTextbooks();
+  }, [courseCodes, user?.id]);
+
+  const loadMore = async () => {
+    if (!user?.id || !nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await ListingService.getTextbooksForCourses(courseCodes, user.id, nextCursor);
+      setListings((prev) => [...prev, ...page.listings]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error fetching more textbooks:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // A book used in several of the student's courses shows up under each of them
+  const listingsByCourse = useMemo(
+    () =>
+      courseCodes.map((code) => ({
+        code,
+        listings: listings.filter((listing) => listing.course_codes?.includes(code)),
+      })),
+    [courseCodes, listings]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { codes, invalid } = parseCourseCodes(courseText);
+
+    setInvalidEntries(invalid);
+    localStorage.setItem(COURSE_LIST_STORAGE_KEY, codes.join(", "));
+    router.push(codes.length > 0 ? `/textbooks?courses=${encodeURIComponent(codes.join(","))}` : "/textbooks");
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-[#bf5700]" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="bg-gray-50 min-h-screen">
+        <NotLoggedIn message="Please log in to find books for your courses" className="p-8" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 min-h-screen py-8">
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+            <BookOpen className="text-[#bf5700]" />
+            Books for My Courses
+          </h1>
+          <p className="text-gray-600">
+            Paste your course list to see textbooks other Longhorns are selling for your classes.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 mb-8">
+          <label className="text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+            <GraduationCap size={14} /> Courses
+          </label>
+          <textarea
+            rows={3}
+            placeholder={"M 408C, CS 312\nRHE 306"}
+            className="w-full border rounded-md px-3 py-2 text-sm"
+            value={courseText}
+            onChange={(e) => setCourseText(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 mt-1">Separate courses with commas or new lines.</p>
+          {invalidEntries.length > 0 && (
+            <p className="text-xs text-red-500 mt-1">
+              Skipped {invalidEntries.map((entry) => `"${entry}"`).join(", ")}: course codes look like M 408C.
+            </p>
+          )}
+          <button
+            type="submit"
+            className="mt-3 inline-flex items-center gap-2 bg-[#bf5700] text-white px-4 py-2 rounded-lg hover:bg-[#a54700] transition"
+          >
+            <Search size={16} />
+            Find Books
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-[#bf5700]" />
+            <span className="ml-2 text-gray-600">Finding books...</span>
+          </div>
+        ) : (
+          listingsByCourse.map(({ code, listings: courseListings }) => (
+            <section key={code} className="mb-10">
+              <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                {code}
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {/* More pages may hold further books for this course */}
+                  {courseListings.length}{nextCursor ? "+" : ""} {courseListings.length === 1 && !nextCursor ? "book" : "books"}
+                </span>
+              </h2>
+              {courseListings.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {courseListings.map((listing) => (
+                    <div
+                      key={listing.id}
+                      onClick={() => (window.location.href = `/listing/${listing.id}`)}
+                      className="cursor-pointer"
+                    >
+                      <ListingCard
+                        title={listing.title}
+                        price={listing.price}
+                        location={listing.location}
+                        category={listing.category}
+                        timePosted={timeago.format(listing.created_at)}
+                        images={listing.images}
+                        user={{ name: listing.user_name, user_id: listing.user_id, image: listing.user_image }}
+                        condition={listing.condition}
+                        availability={determineListingAvailability(listing)}
+                        imageVariant={listing.image_variants?.[listing.images?.[0]]}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No one is selling books for {code} right now.</p>
+              )}
+            </section>
+          ))
+        )}
+
+        {!loading && nextCursor && (
+          <div className="flex justify-center py-4">
+            <button
+              type="button"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="inline-flex items-center gap-2 border border-[#bf5700] text-[#bf5700] px-4 py-2 rounded-lg hover:bg-orange-50 transition disabled:opacity-50"
+            >
+              {loadingMore && <Loader2 size={16} className="animate-spin" />}
+              Load more books
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default function TextbooksPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <TextbooksForCourses />
+    </Suspense>
+  );
+}
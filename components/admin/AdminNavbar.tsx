@@ -73,6 +73,12 @@ const AdminNavbar = () => {
               >
                 Reports
               </Link>
+              <Link
+                href="/admin/audit"
+                className="text-white/90 hover:text-white font-medium transition-colors duration-200"
+              >
+                Audit Log
+              </Link>
             </nav>
 
             {/* Admin Actions */}
@@ -167,6 +173,13 @@ const AdminNavbar = () => {
               >
                 Reports
               </Link>
+              <Link
+                href="/admin/audit"
+                className="text-white/90 hover:text-white font-medium transition-colors duration-200"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Audit Log
+              </Link>
               
               <div className="border-t border-white/20 pt-4 mt-4">
                 <div className="flex items-center gap-2 mb-3">
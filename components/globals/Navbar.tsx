@@ -48,6 +48,13 @@ const Navbar = () => {
           Browse
           <span className="absolute left-0 bottom-0 w-0 h-0.5 bg-white group-hover:w-full transition-all duration-300 " />
         </Link>
+        <Link
+          href="/textbooks"
+          className="text-white hover:text-white transition duration-100 font-semibold relative group hover:scale-110"
+        >
+          Course Books
+          <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-white group-hover:w-full transition-all duration-300" />
+        </Link>
         <Link
           href="/my-listings"
           className="text-white hover:text-white transition duration-100 font-semibold relative group hover:scale-110"
@@ -150,6 +157,13 @@ const Navbar = () => {
             >
               Browse
             </Link>
+            <Link
+              href="/textbooks"
+              className="text-white hover:text-white/80 transition font-semibold flex items-center"
+              onClick={() => setMenuOpen(false)}
+            >
+              Course Books
+            </Link>
             <Link
               href="/my-listings"
               className="text-white hover:text-white/80 transition font-semibold flex items-center"
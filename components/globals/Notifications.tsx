@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Bell } from 'lucide-react';
+import { Archive, Bell, CheckCircle2, DollarSign, Handshake, Hourglass, Pencil, Search, Star, TrendingDown, Trash2 } from 'lucide-react';
 import { supabase } from '../../app/lib/supabaseClient';
 import * as timeago from 'timeago.js';
 import { useRouter } from 'next/navigation';
@@ -7,10 +7,25 @@ import { useAuth } from '../../app/context/AuthContext';
 import { Message, type Notification } from '../../app/props/listing';
 import { MessageService } from '../../app/lib/database/MessageService';
 import { dbLogger } from '../../app/lib/database/utils';
+import { NotificationService, type AppNotification, type NotificationType } from '../../app/lib/database/NotificationService';
+
+const ALERT_ICONS: Record<NotificationType, typeof Search> = {
+  saved_search_match: Search,
+  watchlist_price_drop: TrendingDown,
+  watchlist_sold: CheckCircle2,
+  watchlist_updated: Pencil,
+  watchlist_deleted: Trash2,
+  offer_update: DollarSign,
+  transaction_confirmation: Handshake,
+  transaction_completed: Star,
+  listing_expiring: Hourglass,
+  listing_expired: Archive,
+};
 
 const Notifications = () => {
   const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [alerts, setAlerts] = useState<AppNotification[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
   const router = useRouter();
@@ -19,15 +34,19 @@ const Notifications = () => {
   useEffect(() => {
     if (!user?.id) return;
 
+    // Both fetches add to the badge count, so start from zero
+    setUnreadCount(0);
     fetchNotifications();
+    fetchAlerts();
 
     // Subscribe to messages using the new service layer
     const messageSubscription = MessageService.subscribeToMessages(
       user.id,
-      (message: Message) => {
-        if (message.receiver_id === user.id) {
+      (message: Message, event) => {
+        if (message.receiver_id !== user.id) return;
+        if (event === 'INSERT') {
           handleNewMessage(message);
-        } else if (message.is_read && message.receiver_id === user.id) {
+        } else if (message.is_read) {
           // Remove the notification if message is marked as read
           setNotifications(prev => 
             prev.filter(n => n.id !== message.id)
@@ -40,11 +59,46 @@ const Notifications = () => {
       }
     );
 
+    // Subscribe to saved search matches and other alerts
+    const alertSubscription = NotificationService.subscribeToNotifications(
+      user.id,
+      (alert: AppNotification) => {
+        setAlerts(prev => [alert, ...prev.filter(a => a.id !== alert.id)].slice(0, 5));
+        setUnreadCount(prev => prev + 1);
+
+        if ('Notification' in window && Notification.permission === 'granted') {
+          new Notification(alert.title, { body: alert.body });
+        }
+      }
+    );
+
     return () => {
       messageSubscription.unsubscribe();
+      alertSubscription.unsubscribe();
     };
   }, [user]);
 
+  const fetchAlerts = async () => {
+    if (!user?.id) return;
+
+    const unreadAlerts = await NotificationService.getNotifications(user.id, { unreadOnly: true, limit: 5 });
+    setAlerts(unreadAlerts);
+    setUnreadCount(prev => prev + unreadAlerts.length);
+  };
+
+  const handleAlertClick = async (alert: AppNotification) => {
+    const success = await NotificationService.markAsRead([alert.id]);
+    if (success) {
+      setAlerts(prev => prev.filter(a => a.id !== alert.id));
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    }
+
+    setShowDropdown(false);
+    if (alert.link) {
+      router.push(alert.link);
+    }
+  };
+
   const fetchNotifications = async () => {
     if (!user?.id) return;
 
@@ -70,7 +124,7 @@ const Notifications = () => {
       }));
 
       setNotifications(notifications);
-      setUnreadCount(notifications.length);
+      setUnreadCount(prev => prev + notifications.length);
     } catch (error) {
       dbLogger.error('Error fetching notifications', error);
     }
@@ -193,6 +247,29 @@ const Notifications = () => {
             <h3 className="font-semibold text-gray-900">Notifications</h3>
           </div>
           <div className="max-h-96 overflow-y-auto">
+            {alerts.map((alert) => {
+              const AlertIcon = ALERT_ICONS[alert.type] || Bell;
+              return (
+              <div
+                key={alert.id}
+                onClick={() => handleAlertClick(alert)}
+                className="p-4 border-b cursor-pointer hover:bg-gray-50 transition bg-orange-50"
+              >
+                <div className="flex items-start gap-3">
+                  <div className="w-8 h-8 rounded-full bg-[#bf5700]/10 flex items-center justify-center text-[#bf5700] flex-shrink-0">
+                    <AlertIcon size={16} />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{alert.title}</p>
+                    <p className="text-sm text-gray-500">{alert.body}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {timeago.format(alert.created_at)}
+                    </p>
+                  </div>
+                </div>
+              </div>
+              );
+            })}
             {notifications.length > 0 ? (
               notifications.map((notification) => (
                 <div
@@ -218,7 +295,7 @@ const Notifications = () => {
                   </div>
                 </div>
               ))
-            ) : (
+            ) : alerts.length === 0 && (
               <div className="p-4 text-center text-gray-500">
                 No new notifications
               </div>
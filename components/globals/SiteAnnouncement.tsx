@@ -0,0 +1,29 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Megaphone, X } from "lucide-react";
+import { SettingsService } from "../../app/lib/database/SettingsService";
+
+const SiteAnnouncement = () => {
+  const [announcement, setAnnouncement] = useState("");
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    SettingsService.getSettings().then(settings => setAnnouncement(settings.site_announcement.trim()));
+  }, []);
+
+  if (!announcement || dismissed) return null;
+
+  return (
+    <div className="bg-[#bf5700] text-white text-sm">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex items-center gap-3">
+        <Megaphone size={16} className="flex-shrink-0" />
+        <p className="flex-1">{announcement}</p>
+        <button onClick={() => setDismissed(true)} className="text-white/80 hover:text-white" title="Dismiss">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SiteAnnouncement;
@@ -8,10 +8,13 @@ import { Listing } from "../../app/props/listing"
 import { dbLogger } from "../../app/lib/database/utils"
 import { supabase } from "../../app/lib/supabaseClient"
 import { Clock } from "lucide-react"
+import { useAuth } from "../../app/context/AuthContext"
 
 const RecentListings = () => {
   const [listings, setListings] = useState<Listing[]>([]);
   const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const currentUserId = user?.id;
 
   useEffect(() => {
     const fetchRecentListings = async () => {
@@ -20,7 +23,8 @@ const RecentListings = () => {
         const data = await ListingService.getListings({
           limit: 8,
           excludeSold: true,
-          excludeDrafts: true
+          excludeDrafts: true,
+          currentUserId
         });
 
         // Fetch user data for all listings
@@ -59,7 +63,7 @@ const RecentListings = () => {
     };
 
     fetchRecentListings();
-  }, []);
+  }, [currentUserId]);
 
 
 
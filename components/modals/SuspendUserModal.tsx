@@ -0,0 +1,134 @@
+"use client";
+import React, { useState } from 'react';
+import { X, Ban } from 'lucide-react';
+import { SuspendUserParams } from '../../app/lib/database/AdminService';
+import { SUSPENSION_DURATIONS } from '../../app/lib/utils/suspensionUtils';
+
+interface SuspendUserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userName: string;
+  onSuspend: (params: SuspendUserParams) => Promise<boolean>;
+}
+
+const SuspendUserModal: React.FC<SuspendUserModalProps> = ({
+  isOpen,
+  onClose,
+  userName,
+  onSuspend
+}) => {
+  const [durationIndex, setDurationIndex] = useState(2);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const duration = SUSPENSION_DURATIONS[durationIndex];
+
+  const resetForm = () => {
+    setDurationIndex(2);
+    setReason('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setIsSubmitting(true);
+    const suspended = await onSuspend({ days: duration.days, reason: reason.trim() });
+    setIsSubmitting(false);
+
+    if (suspended) {
+      resetForm();
+      onClose();
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      resetForm();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-2">
+            <Ban size={20} className="text-red-500" />
+            <h2 className="text-lg font-bold text-gray-900">Suspend User</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="mb-4">
+            <p className="text-sm text-gray-600">
+              Suspending <span className="font-medium">{userName}</span> stops them from listing, messaging,
+              making offers, rating and reporting, and hides their listings from browse.
+            </p>
+          </div>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Duration</label>
+            <select
+              value={durationIndex}
+              onChange={(e) => setDurationIndex(Number(e.target.value))}
+              disabled={isSubmitting}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+            >
+              {SUSPENSION_DURATIONS.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reason <span className="text-red-500">*</span>
+            </label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Shown to the user and recorded in the audit log"
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#bf5700] focus:border-transparent resize-none"
+              disabled={isSubmitting}
+              maxLength={500}
+            />
+            <div className="text-right text-xs text-gray-500 mt-1">
+              {reason.length}/500
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !reason.trim()}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Suspending...' : duration.days === null ? 'Ban Permanently' : `Suspend for ${duration.label}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SuspendUserModal;
@@ -0,0 +1,281 @@
+"use client";
+import React, { useState } from 'react';
+import { X, Lock, KeyRound, AlertTriangle } from 'lucide-react';
+import { supabase } from '../../app/lib/supabaseClient';
+import { useCrypto } from '../../app/context/CryptoContext';
+import { regenerateUserKeys, restoreKeysWithRecoveryCode } from '../../app/lib/database/KeyService';
+
+interface UnlockMessagesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  email: string;
+  // Already-verified current password (e.g. just set on the reset page); skips straight to recovery
+  verifiedPassword?: string;
+}
+
+/**
+ * Asks for the account password to decrypt the message keys again
+ * Keys only live in memory, so a session that survives a reload comes back locked.
+ * If the password is right but can't open the key, the password was reset since the
+ * key was stored: offer a recovery code, or new keys at the cost of past messages.
+ */
+const UnlockMessagesModal: React.FC<UnlockMessagesModalProps> = ({
+  isOpen,
+  onClose,
+  userId,
+  email,
+  verifiedPassword
+}) => {
+  const { unlockKeys, setKeys, setUserId } = useCrypto();
+  const [password, setPassword] = useState('');
+  const [recoveryPassword, setRecoveryPassword] = useState<string | null>(null);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const currentPassword = verifiedPassword ?? recoveryPassword;
+  const step = currentPassword ? 'recovery' : 'password';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!password) {
+      setError('Please enter your password');
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError('');
+
+    try {
+      // Check the password first so a typo can't generate keys for users who don't have any yet
+      const { error: authError } = await supabase.auth.signInWithPassword({ email, password });
+      if (authError) {
+        setError('Incorrect password');
+        return;
+      }
+
+      const unlocked = await unlockKeys(userId, password);
+      if (!unlocked) {
+        // The password is right, so the key must still be wrapped with a previous one
+        setRecoveryPassword(password);
+        return;
+      }
+
+      setPassword('');
+      onClose();
+    } catch (error) {
+      setError('An error occurred while unlocking your messages');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const loadKeys = (keys: { privateKey: string; publicKey: string }) => {
+    setKeys(keys.privateKey, keys.publicKey);
+    setUserId(userId);
+    setRecoveryPassword(null);
+    setRecoveryCode('');
+    setConfirmRegenerate(false);
+    setPassword('');
+    onClose();
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentPassword) return;
+
+    if (!recoveryCode.trim()) {
+      setError('Please enter a recovery code');
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError('');
+
+    try {
+      const keys = await restoreKeysWithRecoveryCode(userId, recoveryCode, currentPassword);
+      if (!keys) {
+        setError('That recovery code is invalid or has already been used');
+        return;
+      }
+      loadKeys(keys);
+    } catch (error) {
+      setError('An error occurred while restoring your messages');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!currentPassword) return;
+
+    setIsUnlocking(true);
+    setError('');
+
+    try {
+      const keys = await regenerateUserKeys(userId, currentPassword);
+      if (!keys) {
+        setError('Failed to create new encryption keys');
+        return;
+      }
+      loadKeys(keys);
+    } catch (error) {
+      setError('An error occurred while creating new encryption keys');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isUnlocking) {
+      setPassword('');
+      setRecoveryCode('');
+      setConfirmRegenerate(false);
+      setError('');
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-2">
+            <Lock size={20} className="text-[#bf5700]" />
+            <h2 className="text-lg font-bold text-gray-900">{step === 'password' ? 'Unlock Messages' : 'Restore Message History'}</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isUnlocking}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {step === 'password' ? (
+          <form onSubmit={handleSubmit} className="p-6">
+            <p className="text-sm text-gray-600 mb-4">
+              Your messages are end-to-end encrypted. Enter your password to read them on this device.
+            </p>
+
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              disabled={isUnlocking}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+            />
+
+            {error && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3 mt-6">
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isUnlocking}
+                className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                Not Now
+              </button>
+              <button
+                type="submit"
+                disabled={isUnlocking}
+                className="flex-1 px-4 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition-colors disabled:opacity-50"
+              >
+                {isUnlocking ? 'Unlocking...' : 'Unlock'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="p-6 space-y-6">
+            <p className="text-sm text-gray-600">
+              Your password was reset since your messages were last unlocked, so they can&apos;t be opened with it.
+              Use one of your recovery codes to restore your message history.
+            </p>
+
+            <form onSubmit={handleRestore}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Recovery code</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  placeholder="XXXXX-XXXXX-XXXXX-XXXXX"
+                  autoFocus
+                  disabled={isUnlocking}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:outline-none focus:ring-2 focus:ring-[#bf5700] focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={isUnlocking}
+                  className="flex items-center gap-1 px-4 py-2 bg-[#bf5700] text-white rounded-lg hover:bg-[#a54700] transition-colors disabled:opacity-50"
+                >
+                  <KeyRound size={16} />
+                  Restore
+                </button>
+              </div>
+            </form>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertTriangle size={16} className="text-red-600" />
+                <h3 className="text-sm font-semibold text-red-800">No recovery code?</h3>
+              </div>
+              <p className="text-sm text-red-700 mb-3">
+                You can create new encryption keys and keep messaging, but every message sent before now
+                will be permanently unreadable. Your old recovery codes will stop working.
+              </p>
+              <label className="flex items-start gap-2 text-sm text-red-800 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={confirmRegenerate}
+                  onChange={(e) => setConfirmRegenerate(e.target.checked)}
+                  disabled={isUnlocking}
+                  className="mt-0.5 rounded border-red-300 text-red-600 focus:ring-red-500"
+                />
+                I understand my past messages will be lost
+              </label>
+              <button
+                type="button"
+                onClick={handleRegenerate}
+                disabled={!confirmRegenerate || isUnlocking}
+                className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {isUnlocking ? 'Working...' : 'Create New Keys'}
+              </button>
+            </div>
+
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isUnlocking}
+              className="w-full px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Not Now
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnlockMessagesModal;
@@ -1,14 +1,17 @@
 import React, { useEffect, useState } from "react";
 import { supabase } from "../../app/lib/supabaseClient";
+import { TransactionService } from "../../app/lib/database/TransactionService";
 
 interface UserRatingDisplayProps {
   userId: string;
   rating?: number | null;
+  completedTrades?: number | null;
   className?: string;
 }
 
-const UserRatingDisplay: React.FC<UserRatingDisplayProps> = ({ userId, rating, className }) => {
+const UserRatingDisplay: React.FC<UserRatingDisplayProps> = ({ userId, rating, completedTrades, className }) => {
   const [fetchedRating, setFetchedRating] = useState<number | null>(null);
+  const [fetchedTrades, setFetchedTrades] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -32,7 +35,14 @@ const UserRatingDisplay: React.FC<UserRatingDisplayProps> = ({ userId, rating, c
       });
   }, [userId, rating]);
 
+  useEffect(() => {
+    if (typeof completedTrades === 'number') return;
+    if (!userId) return;
+    TransactionService.getCompletedTransactionCount(userId).then(setFetchedTrades);
+  }, [userId, completedTrades]);
+
   const displayRating = typeof rating === 'number' ? rating : fetchedRating;
+  const displayTrades = typeof completedTrades === 'number' ? completedTrades : fetchedTrades;
 
   return (
     <span className={className}>
@@ -46,6 +56,11 @@ const UserRatingDisplay: React.FC<UserRatingDisplayProps> = ({ userId, rating, c
       ) : (
         <span className="text-gray-400">No ratings</span>
       )}
+      {!loading && displayTrades !== null && displayTrades > 0 && (
+        <span className="text-xs text-gray-500 ml-1">
+          · {displayTrades} {displayTrades === 1 ? 'trade' : 'trades'}
+        </span>
+      )}
     </span>
   );
 };
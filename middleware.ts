@@ -1,6 +1,85 @@
 import { createServerClient } from '@supabase/ssr';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { isSuspended, SuspensionFields } from './app/lib/utils/suspensionUtils';
+
+// Routes that require a completed onboarding profile
+const ONBOARDING_PATHS = [
+  '/settings',
+  '/create',
+  '/my-listings',
+  '/messages',
+  '/favorites',
+  '/profile',
+  '/admin',
+  '/api/user-settings',
+];
+
+// Routes that stay reachable during maintenance so admins can sign in and turn it off
+// (scheduled jobs under /api/cron skip the middleware entirely, see the matcher)
+const MAINTENANCE_EXEMPT_PATHS = ['/auth/', '/maintenance'];
+
+// Suspended users can still read their suspension notice and the policies it points to
+const SUSPENSION_EXEMPT_PATHS = ['/suspended', '/terms', '/privacy'];
+
+const matchesPath = (pathname: string, paths: string[]) =>
+  paths.some(path => pathname === path || pathname.startsWith(path.endsWith('/') ? path : `${path}/`));
+
+// The maintenance flag is read on every request, so it's cached briefly per instance
+// instead of going through SettingsService (which pulls the admin services into the edge bundle)
+const MAINTENANCE_CACHE_TTL_MS = 30 * 1000;
+
+let cachedMaintenance: { value: boolean; fetchedAt: number } | null = null;
+
+// Anonymous client for the public platform_settings row; no session or cookies needed
+const settingsClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
+
+async function isMaintenanceMode(): Promise<boolean> {
+  if (cachedMaintenance && Date.now() - cachedMaintenance.fetchedAt < MAINTENANCE_CACHE_TTL_MS) {
+    return cachedMaintenance.value;
+  }
+
+  const { data, error } = await settingsClient
+    .from('platform_settings')
+    .select('value')
+    .eq('key', 'maintenance_mode')
+    .maybeSingle();
+
+  if (error) {
+    // Keep the last known value rather than flip the whole site on a failed read
+    return cachedMaintenance?.value ?? false;
+  }
+
+  const value = data?.value === true;
+  cachedMaintenance = { value, fetchedAt: Date.now() };
+  return value;
+}
+
+interface RequestProfile extends SuspensionFields {
+  onboard_complete?: boolean | null;
+  is_admin?: boolean | null;
+}
+
+/**
+ * The signed-in user's profile and the maintenance flag in a single round trip
+ * (get_request_context, see SuspensionService), so the profile isn't a second query per request
+ */
+async function getRequestContext(client: SupabaseClient): Promise<{ maintenanceMode: boolean; profile: RequestProfile | null }> {
+  const { data, error } = await client.rpc('get_request_context').maybeSingle<RequestProfile & { maintenance_mode: boolean }>();
+
+  if (error || !data) {
+    return { maintenanceMode: await isMaintenanceMode(), profile: null };
+  }
+
+  const { maintenance_mode, ...profile } = data;
+  cachedMaintenance = { value: maintenance_mode, fetchedAt: Date.now() };
+  return { maintenanceMode: maintenance_mode, profile };
+}
 
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
@@ -36,20 +115,43 @@ export async function middleware(request: NextRequest) {
   );
 
   const { data: { session } } = await supabase.auth.getSession();
+  const { pathname } = request.nextUrl;
+
+  // Anonymous requests only need the cached maintenance flag
+  const { maintenanceMode, profile } = session?.user
+    ? await getRequestContext(supabase)
+    : { maintenanceMode: await isMaintenanceMode(), profile: null };
+
+  if (!maintenanceMode && pathname === '/maintenance') {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
   
-  // Skip onboarding check for auth-related routes
-  if (request.nextUrl.pathname.startsWith('/auth/')) {
+  // Skip onboarding and maintenance checks for auth-related routes
+  if (matchesPath(pathname, MAINTENANCE_EXEMPT_PATHS)) {
     return response;
   }
 
+  // Everyone except admins sees the maintenance page while maintenance mode is on
+  if (maintenanceMode && !profile?.is_admin) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: 'UT Marketplace is down for maintenance' }, { status: 503 });
+    }
+    return NextResponse.rewrite(new URL('/maintenance', request.url));
+  }
+
+  const suspended = isSuspended(profile);
+  if (suspended && !matchesPath(pathname, SUSPENSION_EXEMPT_PATHS)) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: 'Your account is suspended' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/suspended', request.url));
+  }
+  if (!suspended && pathname === '/suspended') {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
   // If user is authenticated, check onboarding status
-  if (session?.user) {
-    const { data: profile } = await supabase
-      .from('users')
-      .select('onboard_complete')
-      .eq('id', session.user.id)
-      .single();
-      
+  if (session?.user && matchesPath(pathname, ONBOARDING_PATHS)) {
     // If onboarding not complete, redirect to onboarding
     if (!profile?.onboard_complete) {
       return NextResponse.redirect(new URL('/auth/confirmation/onboard', request.url));
@@ -61,13 +163,8 @@ export async function middleware(request: NextRequest) {
 
 export const config = {
   matcher: [
-    '/settings/:path*',
-    '/create/:path*',
-    '/my-listings/:path*',
-    '/messages/:path*',
-    '/favorites/:path*',
-    '/profile/:path*',
-    '/admin/:path*',
-    '/api/user-settings/:path*',
+    // Every page and API route, so maintenance mode covers the whole site; Next.js internals,
+    // files with an extension (public assets) and the scheduled jobs are left out
+    '/((?!_next/|api/cron/|favicon.ico|icons/|.*\\.[a-zA-Z0-9]+$).*)',
   ],
 }; 
\ No newline at end of file